@@ -17,7 +17,7 @@ module.exports = {
       bundleIdentifier: "com.pmerida.mobile",
       infoPlist: {
         NSCameraUsageDescription:
-          "Allow FoodStorage to capture receipts so we can detect the products you bought.",
+          "Allow FoodStorage to capture receipts and scan barcodes so we can detect the products you bought.",
         NSPhotoLibraryUsageDescription:
           "Allow FoodStorage to read receipt photos so we can detect the products you bought.",
       },
@@ -37,6 +37,14 @@ module.exports = {
     plugins: [
       "expo-secure-store",
       "expo-localization",
+      "expo-notifications",
+      [
+        "expo-camera",
+        {
+          cameraPermission:
+            "Allow FoodStorage to capture receipts and scan barcodes so we can detect the products you bought.",
+        },
+      ],
       [
         "expo-image-picker",
         {
@@ -1,35 +1,70 @@
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { useRealtimeSync } from "@/hooks/useRealtimeSync";
 import "@/lib/i18n";
+import { QUERY_CACHE_MAX_AGE } from "@/lib/queryPersistence";
+import { configureNotifications } from "@/lib/reminders/notifications";
 import { RootNavigator } from "@/navigation/RootNavigator";
 import { AuthProvider } from "@/providers/AuthProvider";
+import { OutboxProvider } from "@/providers/OutboxProvider";
+import { QueryPersistenceProvider } from "@/providers/QueryPersistenceProvider";
 import { ThemeProvider, useThemeMode } from "@/providers/ThemeProvider";
 import { ToastProvider } from "@/providers/ToastProvider";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import NetInfo from "@react-native-community/netinfo";
+import { onlineManager, QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { StatusBar } from "expo-status-bar";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import "react-native-gesture-handler";
 import "react-native-reanimated";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 
+// React Native has no browser online events, so tell React Query about connectivity through NetInfo.
+onlineManager.setEventListener((setOnline) =>
+  NetInfo.addEventListener((state) => {
+    setOnline(Boolean(state.isConnected));
+  }),
+);
+
 const ThemeStatusBar = () => {
   const { mode } = useThemeMode();
   return <StatusBar style={mode === "dark" ? "light" : "dark"} />;
 };
 
+const RealtimeSync = () => {
+  useRealtimeSync();
+  return null;
+};
+
 export const App = () => {
-  const [queryClient] = useState(() => new QueryClient());
+  const [queryClient] = useState(
+    () =>
+      new QueryClient({
+        // Keep unused queries around as long as their persisted copy, or they'd drop out of the saved cache.
+        defaultOptions: { queries: { gcTime: QUERY_CACHE_MAX_AGE } },
+      }),
+  );
+
+  useEffect(() => {
+    configureNotifications().catch((error) => {
+      console.warn("Failed to configure notifications", error);
+    });
+  }, []);
 
   return (
     <ErrorBoundary>
       <SafeAreaProvider>
         <QueryClientProvider client={queryClient}>
           <AuthProvider>
-            <ThemeProvider>
-              <ToastProvider>
-                <ThemeStatusBar />
-                <RootNavigator />
-              </ToastProvider>
-            </ThemeProvider>
+            <QueryPersistenceProvider>
+              <RealtimeSync />
+              <ThemeProvider>
+                <ToastProvider>
+                  <OutboxProvider>
+                    <ThemeStatusBar />
+                    <RootNavigator />
+                  </OutboxProvider>
+                </ToastProvider>
+              </ThemeProvider>
+            </QueryPersistenceProvider>
           </AuthProvider>
         </QueryClientProvider>
       </SafeAreaProvider>
@@ -0,0 +1,203 @@
+import { GROCERY_BARCODE_TYPES, normalizeBarcode } from '@/lib/barcode';
+import { useTranslation } from '@/lib/i18n';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from 'expo-camera';
+import { ScanBarcode } from 'lucide-react-native';
+import { useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+type BarcodeScannerProps = {
+  /** While `true` (e.g. during a lookup) further scans are ignored. */
+  busy?: boolean;
+  /** Called with the normalised barcode, see `normalizeBarcode`. */
+  onScanned: (barcode: string) => void;
+};
+
+// The camera reports the same code many times a second while it's in view.
+const RESCAN_DELAY_MS = 3000;
+
+/**
+ * Camera preview that reads EAN/UPC codes, with a field to type the code in when there's no camera.
+ */
+export const BarcodeScanner = ({ busy = false, onScanned }: BarcodeScannerProps) => {
+  const { colors } = useThemeMode();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [typedCode, setTypedCode] = useState('');
+  const [typedError, setTypedError] = useState<string | null>(null);
+  const lastScan = useRef<{ barcode: string; at: number } | null>(null);
+  const cameraAvailable = Platform.OS !== 'web';
+
+  const handleCameraScan = ({ data, type }: BarcodeScanningResult) => {
+    const barcode = normalizeBarcode(data, type);
+    if (!barcode || busy) {
+      return;
+    }
+    const now = Date.now();
+    if (lastScan.current?.barcode === barcode && now - lastScan.current.at < RESCAN_DELAY_MS) {
+      return;
+    }
+    lastScan.current = { barcode, at: now };
+    onScanned(barcode);
+  };
+
+  const handleTypedCode = () => {
+    const barcode = normalizeBarcode(typedCode);
+    if (!barcode) {
+      setTypedError(t('barcode.invalidCode'));
+      return;
+    }
+    setTypedError(null);
+    onScanned(barcode);
+  };
+
+  const renderCamera = () => {
+    if (!permission) {
+      return <ActivityIndicator color={colors.primary} />;
+    }
+    if (!permission.granted) {
+      return (
+        <View style={styles.permission}>
+          <Text style={styles.helperText}>{t('barcode.permissionMessage')}</Text>
+          {permission.canAskAgain ? (
+            <TouchableOpacity style={styles.button} onPress={() => void requestPermission()}>
+              <Text style={styles.buttonText}>{t('barcode.grantPermission')}</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      );
+    }
+    return (
+      <View style={styles.preview}>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: [...GROCERY_BARCODE_TYPES] }}
+          onBarcodeScanned={busy ? undefined : handleCameraScan}
+        />
+        <View style={styles.frame} pointerEvents="none" />
+        {busy ? (
+          <View style={styles.busyOverlay}>
+            <ActivityIndicator color={colors.primaryContrast} />
+            <Text style={styles.busyText}>{t('barcode.lookingUp')}</Text>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {cameraAvailable ? renderCamera() : null}
+      <Text style={styles.helperText}>
+        {cameraAvailable ? t('barcode.scanHint') : t('barcode.typeHint')}
+      </Text>
+      <View style={styles.row}>
+        <TextInput
+          style={styles.input}
+          placeholder={t('barcode.codePlaceholder')}
+          placeholderTextColor={colors.inputPlaceholder}
+          value={typedCode}
+          onChangeText={(value) => {
+            setTypedCode(value);
+            setTypedError(null);
+          }}
+          onSubmitEditing={handleTypedCode}
+          keyboardType="number-pad"
+          returnKeyType="search"
+        />
+        <TouchableOpacity
+          style={[styles.button, (busy || !typedCode.trim()) && { opacity: 0.6 }]}
+          onPress={handleTypedCode}
+          disabled={busy || !typedCode.trim()}
+          accessibilityLabel={t('barcode.lookUp')}
+        >
+          <ScanBarcode size={18} color={colors.primaryContrast} />
+          <Text style={styles.buttonText}>{t('barcode.lookUp')}</Text>
+        </TouchableOpacity>
+      </View>
+      {typedError ? <Text style={styles.errorText}>{typedError}</Text> : null}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      gap: 12,
+    },
+    preview: {
+      height: 260,
+      borderRadius: 18,
+      overflow: 'hidden',
+      backgroundColor: colors.surfaceMuted,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    frame: {
+      width: '75%',
+      height: 120,
+      borderWidth: 2,
+      borderRadius: 12,
+      borderColor: colors.primaryContrast,
+      opacity: 0.8,
+    },
+    busyOverlay: {
+      ...StyleSheet.absoluteFillObject,
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      backgroundColor: 'rgba(0, 0, 0, 0.45)',
+    },
+    busyText: {
+      color: colors.primaryContrast,
+      fontWeight: '600',
+    },
+    permission: {
+      borderRadius: 18,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surfaceMuted,
+      padding: 16,
+      gap: 12,
+    },
+    helperText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    input: {
+      flex: 1,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      backgroundColor: colors.inputBackground,
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+      fontSize: 16,
+      color: colors.inputText,
+    },
+    button: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      borderRadius: 14,
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+      backgroundColor: colors.primary,
+    },
+    buttonText: {
+      color: colors.primaryContrast,
+      fontWeight: '600',
+    },
+    errorText: {
+      fontSize: 13,
+      color: colors.dangerText,
+    },
+  });
@@ -0,0 +1,207 @@
+import { useTranslation } from '@/lib/i18n';
+import type { LotItem } from '@/lib/lots';
+import { formatQuantity } from '@/lib/quantity';
+import type { CookingDeduction } from '@/lib/recipeMatching';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { CheckSquare, Minus, Square } from 'lucide-react-native';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+type CookRecipeSheetProps<T extends LotItem> = {
+  recipeName: string;
+  /** The proposed deductions, one per ingredient; the sheet is hidden while `null`. */
+  deductions: CookingDeduction<T>[] | null;
+  submitting?: boolean;
+  onClose: () => void;
+  onConfirm: (deductions: CookingDeduction<T>[]) => void;
+};
+
+export const CookRecipeSheet = <T extends LotItem>({
+  recipeName,
+  deductions,
+  submitting = false,
+  onClose,
+  onConfirm,
+}: CookRecipeSheetProps<T>) => {
+  const { colors } = useThemeMode();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  // Indexes of deductions the user unticked.
+  const [skipped, setSkipped] = useState<Set<number>>(() => new Set());
+
+  useEffect(() => {
+    setSkipped(new Set());
+  }, [deductions]);
+
+  const selected = (deductions ?? []).filter((deduction, index) => deduction.amount && !skipped.has(index));
+
+  const toggle = (index: number) => {
+    setSkipped((current) => {
+      const next = new Set(current);
+      if (!next.delete(index)) {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const describe = ({ product, amount, short }: CookingDeduction<T>) => {
+    if (!product) {
+      return t('cooking.notInPantry');
+    }
+    if (!amount) {
+      return short ? t('cooking.noneLeft', { product: product.name }) : t('cooking.notMeasured', { product: product.name });
+    }
+    return t('cooking.takeFrom', { amount: formatQuantity(amount), product: product.name });
+  };
+
+  return (
+    <Modal visible={Boolean(deductions)} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{t('cooking.title', { name: recipeName })}</Text>
+          <Text style={styles.subtitle}>{t('cooking.subtitle')}</Text>
+
+          <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+            {(deductions ?? []).map((deduction, index) => {
+              const deductible = Boolean(deduction.amount);
+              const included = deductible && !skipped.has(index);
+              const CheckIcon = !deductible ? Minus : included ? CheckSquare : Square;
+              return (
+                <TouchableOpacity
+                  key={`deduction-${index}`}
+                  style={styles.row}
+                  onPress={() => toggle(index)}
+                  disabled={!deductible}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: included, disabled: !deductible }}
+                >
+                  <CheckIcon size={22} color={included ? colors.success : colors.textMuted} />
+                  <View style={styles.rowText}>
+                    <Text style={styles.ingredientName}>
+                      {deduction.ingredient.quantityText
+                        ? `${deduction.ingredient.name} · ${deduction.ingredient.quantityText}`
+                        : deduction.ingredient.name}
+                    </Text>
+                    <Text style={styles.rowDetail}>{describe(deduction)}</Text>
+                    {deduction.short && deduction.amount ? (
+                      <Text style={styles.rowWarning}>{t('cooking.short')}</Text>
+                    ) : null}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onClose} disabled={submitting}>
+              <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, (submitting || !selected.length) && { opacity: 0.6 }]}
+              onPress={() => onConfirm(selected)}
+              disabled={submitting || !selected.length}
+            >
+              {submitting ? (
+                <ActivityIndicator color={colors.primaryContrast} />
+              ) : (
+                <Text style={styles.primaryButtonText}>{t('cooking.confirm', { count: selected.length })}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: '#0f172a88',
+    },
+    sheet: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 28,
+      borderTopRightRadius: 28,
+      padding: 24,
+      paddingBottom: 40,
+      gap: 16,
+      maxHeight: '85%',
+    },
+    list: {
+      flexGrow: 0,
+    },
+    listContent: {
+      gap: 14,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      gap: 12,
+    },
+    rowText: {
+      flex: 1,
+      gap: 2,
+    },
+    ingredientName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    rowDetail: {
+      color: colors.textSecondary,
+    },
+    rowWarning: {
+      color: colors.warningText,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.textPrimary,
+    },
+    subtitle: {
+      color: colors.textSecondary,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 8,
+    },
+    secondaryButton: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      color: colors.textPrimary,
+      fontWeight: '600',
+    },
+    primaryButton: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 12,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      color: colors.primaryContrast,
+      fontWeight: '700',
+    },
+  });
@@ -0,0 +1,330 @@
+import { expiryRulesQueryKey, useExpiryRules } from '@/hooks/useExpiryRules';
+import { useStorageLocations } from '@/hooks/useStorageLocations';
+import { getDeviceTimeZone } from '@/lib/expiry';
+import { useTranslation } from '@/lib/i18n';
+import {
+  createExpiryThreshold,
+  deleteExpiryThreshold,
+  getExpiryThresholds,
+  updateExpirySettings,
+} from '@/lib/supabase/expiryRulesService';
+import { useAuth } from '@/providers/AuthProvider';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Minus, Plus, Trash2 } from 'lucide-react-native';
+import { useMemo, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const MIN_DAYS = 1;
+const MAX_DAYS = 60;
+
+const clampDays = (days: number) => Math.min(MAX_DAYS, Math.max(MIN_DAYS, days));
+
+type DayStepperProps = {
+  value: number;
+  onChange: (value: number) => void;
+  styles: ReturnType<typeof createStyles>;
+  colors: ThemeColors;
+  label: string;
+};
+
+const DayStepper = ({ value, onChange, styles, colors, label }: DayStepperProps) => (
+  <View style={styles.stepperControls}>
+    <TouchableOpacity style={styles.stepperButton} onPress={() => onChange(clampDays(value - 1))}>
+      <Minus size={16} color={colors.textPrimary} />
+    </TouchableOpacity>
+    <Text style={styles.stepperValue}>{label}</Text>
+    <TouchableOpacity style={styles.stepperButton} onPress={() => onChange(clampDays(value + 1))}>
+      <Plus size={16} color={colors.textPrimary} />
+    </TouchableOpacity>
+  </View>
+);
+
+export const ExpirySettingsSection = () => {
+  const { user } = useAuth();
+  const { colors } = useThemeMode();
+  const { showToast } = useToast();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const rules = useExpiryRules();
+  const deviceTimeZone = useMemo(() => getDeviceTimeZone(), []);
+  const [category, setCategory] = useState('');
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [days, setDays] = useState(1);
+
+  const { data: thresholds = [] } = useQuery({
+    queryKey: ['expiry-thresholds', user?.id],
+    queryFn: () => getExpiryThresholds(user!.id),
+    enabled: Boolean(user?.id),
+  });
+
+  const { locations } = useStorageLocations();
+
+  const invalidateRules = () => {
+    void queryClient.invalidateQueries({ queryKey: expiryRulesQueryKey(user?.id) });
+    void queryClient.invalidateQueries({ queryKey: ['expiry-thresholds', user?.id] });
+    void queryClient.invalidateQueries({ queryKey: ['storage-statistics'] });
+  };
+
+  const showError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : t('profile.expiryErrorMsg');
+    showToast({ title: t('profile.expiryError'), message, type: 'error' });
+  };
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: (settings: { expiringSoonDays?: number; timeZone?: string | null }) =>
+      updateExpirySettings(user!.id, settings),
+    onSuccess: invalidateRules,
+    onError: showError,
+  });
+
+  const addThresholdMutation = useMutation({
+    mutationFn: () =>
+      createExpiryThreshold({ category: category.trim() || null, storage_location_id: locationId, days }, user!.id),
+    onSuccess: () => {
+      invalidateRules();
+      setCategory('');
+      setLocationId(null);
+      setDays(1);
+    },
+    onError: showError,
+  });
+
+  const deleteThresholdMutation = useMutation({
+    mutationFn: deleteExpiryThreshold,
+    onSuccess: invalidateRules,
+    onError: showError,
+  });
+
+  const locationName = (id: string | null) =>
+    id ? (locations.find((location) => location.id === id)?.displayName ?? t('profile.expiryAnyLocation')) : null;
+
+  const canAddThreshold = (category.trim().length > 0 || Boolean(locationId)) && !addThresholdMutation.isPending;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.settingCopy}>
+        <Text style={styles.settingTitle}>{t('profile.expiryTitle')}</Text>
+        <Text style={styles.settingSubtitle}>{t('profile.expiryDesc')}</Text>
+      </View>
+
+      <View style={styles.settingRow}>
+        <Text style={styles.label}>{t('profile.expiryDefault')}</Text>
+        <DayStepper
+          value={rules.expiringSoonDays}
+          onChange={(value) => updateSettingsMutation.mutate({ expiringSoonDays: value })}
+          label={t('profile.expiryDays', { count: rules.expiringSoonDays })}
+          styles={styles}
+          colors={colors}
+        />
+      </View>
+
+      <View style={styles.settingRow}>
+        <View style={styles.settingCopy}>
+          <Text style={styles.label}>{t('profile.expiryTimeZone')}</Text>
+          <Text style={styles.settingSubtitle}>{rules.timeZone ?? deviceTimeZone}</Text>
+        </View>
+        {rules.timeZone !== deviceTimeZone && (
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => updateSettingsMutation.mutate({ timeZone: deviceTimeZone })}
+          >
+            <Text style={styles.secondaryButtonText}>{t('profile.expiryUseDeviceTimeZone')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <Text style={styles.label}>{t('profile.expiryOverrides')}</Text>
+      {thresholds.length === 0 && <Text style={styles.settingSubtitle}>{t('profile.expiryNoOverrides')}</Text>}
+      {thresholds.map((threshold) => (
+        <View key={threshold.id} style={styles.overrideRow}>
+          <Text style={styles.overrideText}>
+            {[threshold.category, locationName(threshold.storage_location_id)].filter(Boolean).join(' · ')}
+            {' — '}
+            {t('profile.expiryDays', { count: threshold.days })}
+          </Text>
+          <TouchableOpacity
+            onPress={() => deleteThresholdMutation.mutate(threshold.id)}
+            hitSlop={12}
+            accessibilityLabel={t('common.delete')}
+          >
+            <Trash2 size={18} color={colors.danger} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.addOverride}>
+        <TextInput
+          style={styles.input}
+          value={category}
+          onChangeText={setCategory}
+          placeholder={t('profile.expiryCategoryPlaceholder')}
+          placeholderTextColor={colors.inputPlaceholder}
+        />
+        <View style={styles.chipRow}>
+          {[{ id: null, displayName: t('profile.expiryAnyLocation') }, ...locations].map((location) => {
+            const active = locationId === location.id;
+            return (
+              <TouchableOpacity
+                key={location.id ?? 'any'}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => setLocationId(location.id)}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>{location.displayName}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <View style={styles.settingRow}>
+          <DayStepper
+            value={days}
+            onChange={setDays}
+            label={t('profile.expiryDays', { count: days })}
+            styles={styles}
+            colors={colors}
+          />
+          <TouchableOpacity
+            style={[styles.primaryButton, !canAddThreshold && { opacity: 0.6 }]}
+            onPress={() => addThresholdMutation.mutate()}
+            disabled={!canAddThreshold}
+          >
+            <Text style={styles.primaryButtonText}>{t('profile.expiryAddOverride')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      gap: 16,
+    },
+    settingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 16,
+    },
+    settingCopy: {
+      flex: 1,
+      gap: 4,
+    },
+    settingTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    settingSubtitle: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    stepperControls: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 6,
+    },
+    stepperButton: {
+      padding: 6,
+      borderRadius: 8,
+      backgroundColor: colors.surfaceMuted,
+    },
+    stepperValue: {
+      minWidth: 64,
+      textAlign: 'center',
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    overrideRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 12,
+      paddingVertical: 10,
+      paddingHorizontal: 14,
+      borderRadius: 12,
+      backgroundColor: colors.surfaceMuted,
+    },
+    overrideText: {
+      flex: 1,
+      color: colors.textPrimary,
+    },
+    addOverride: {
+      gap: 12,
+      padding: 14,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    input: {
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      backgroundColor: colors.inputBackground,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: colors.inputText,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surfaceMuted,
+    },
+    chipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    chipTextActive: {
+      color: colors.primaryContrast,
+    },
+    secondaryButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    secondaryButtonText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    primaryButton: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 12,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      color: colors.primaryContrast,
+      fontWeight: '700',
+    },
+  });
@@ -0,0 +1,383 @@
+import { useTranslation } from '@/lib/i18n';
+import { canManageHousehold, formatInviteCode, HOUSEHOLD_ROLES, normalizeInviteCode } from '@/lib/households';
+import {
+  createHousehold,
+  getHouseholdMembers,
+  joinHousehold,
+  regenerateInviteCode,
+  removeHouseholdMember,
+  updateHouseholdMemberRole,
+  type HouseholdMemberWithProfile,
+} from '@/lib/supabase/householdService';
+import { useAuth } from '@/providers/AuthProvider';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { RefreshCw, Share2 } from 'lucide-react-native';
+import { useMemo, useState } from 'react';
+import { Alert, Share, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+const householdMembersQueryKey = (householdId: string | undefined) => ['household-members', householdId] as const;
+
+export const HouseholdSection = () => {
+  const { user, household, householdRole, households, switchHousehold, refreshHouseholds } = useAuth();
+  const { colors } = useThemeMode();
+  const { showToast } = useToast();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [inviteCode, setInviteCode] = useState('');
+  const [newHouseholdName, setNewHouseholdName] = useState('');
+  const isOwner = canManageHousehold(householdRole);
+
+  const { data: members = [] } = useQuery({
+    queryKey: householdMembersQueryKey(household?.id),
+    queryFn: () => getHouseholdMembers(household!.id),
+    enabled: Boolean(household?.id),
+  });
+
+  const showError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : t('household.errorMessage');
+    showToast({ title: t('household.errorTitle'), message, type: 'error' });
+  };
+
+  const invalidateMembers = () => {
+    void queryClient.invalidateQueries({ queryKey: householdMembersQueryKey(household?.id) });
+  };
+
+  const switchMutation = useMutation({
+    mutationFn: switchHousehold,
+    onError: showError,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: () => joinHousehold(inviteCode),
+    onSuccess: async (householdId) => {
+      setInviteCode('');
+      await refreshHouseholds(householdId);
+      showToast({ title: t('household.joinedTitle'), message: t('household.joinedMsg') });
+    },
+    onError: showError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => createHousehold(newHouseholdName, user!.id),
+    onSuccess: async (created) => {
+      setNewHouseholdName('');
+      await refreshHouseholds(created.id);
+      showToast({ title: t('household.createdTitle'), message: t('household.createdMsg', { name: created.name }) });
+    },
+    onError: showError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => regenerateInviteCode(household!.id),
+    onSuccess: () => refreshHouseholds(),
+    onError: showError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ member, role }: { member: HouseholdMemberWithProfile; role: HouseholdMemberWithProfile['role'] }) =>
+      updateHouseholdMemberRole(member.id, role),
+    onSuccess: invalidateMembers,
+    onError: showError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (member: HouseholdMemberWithProfile) => removeHouseholdMember(member.id),
+    onSuccess: async (_result, member) => {
+      invalidateMembers();
+      if (member.user_id === user?.id) {
+        await refreshHouseholds();
+        showToast({ title: t('household.leftTitle'), message: t('household.leftMsg') });
+      }
+    },
+    onError: showError,
+  });
+
+  const memberName = (member: HouseholdMemberWithProfile) =>
+    member.user_id === user?.id
+      ? t('household.you')
+      : member.profiles?.full_name?.trim() || t('household.unnamedMember');
+
+  const ownerCount = members.filter((member) => member.role === 'owner').length;
+
+  const handleMemberPress = (member: HouseholdMemberWithProfile) => {
+    if (!isOwner || member.user_id === user?.id) {
+      return;
+    }
+    Alert.alert(memberName(member), t('household.memberActionsMessage'), [
+      ...HOUSEHOLD_ROLES.filter((role) => role !== member.role).map((role) => ({
+        text: t('household.makeRole', { role: t(`household.roles.${role}`) }),
+        onPress: () => roleMutation.mutate({ member, role }),
+      })),
+      {
+        text: t('household.removeMember'),
+        style: 'destructive' as const,
+        onPress: () => removeMutation.mutate(member),
+      },
+      { text: t('common.cancel'), style: 'cancel' as const },
+    ]);
+  };
+
+  const handleLeave = () => {
+    const self = members.find((member) => member.user_id === user?.id);
+    if (!self) {
+      return;
+    }
+    if (households.length <= 1) {
+      showToast({ title: t('household.errorTitle'), message: t('household.lastHouseholdMsg'), type: 'error' });
+      return;
+    }
+    if (self.role === 'owner' && ownerCount <= 1 && members.length > 1) {
+      showToast({ title: t('household.errorTitle'), message: t('household.lastOwnerMsg'), type: 'error' });
+      return;
+    }
+    Alert.alert(t('household.leaveTitle'), t('household.leaveMessage', { name: household?.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('household.leave'), style: 'destructive', onPress: () => removeMutation.mutate(self) },
+    ]);
+  };
+
+  const handleShare = () => {
+    if (!household) {
+      return;
+    }
+    void Share.share({
+      message: t('household.shareMessage', { name: household.name, code: formatInviteCode(household.invite_code) }),
+    });
+  };
+
+  const canJoin = normalizeInviteCode(inviteCode).length > 0 && !joinMutation.isPending;
+  const canCreate = newHouseholdName.trim().length > 0 && !createMutation.isPending;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.settingCopy}>
+        <Text style={styles.settingTitle}>{t('household.title')}</Text>
+        <Text style={styles.settingSubtitle}>{t('household.description')}</Text>
+      </View>
+
+      {households.length > 1 && (
+        <View style={styles.chipRow}>
+          {households.map((membership) => {
+            const active = membership.household.id === household?.id;
+            return (
+              <TouchableOpacity
+                key={membership.household.id}
+                style={[styles.chip, active && styles.chipActive]}
+                onPress={() => switchMutation.mutate(membership.household.id)}
+                disabled={active || switchMutation.isPending}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>{membership.household.name}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {household && (
+        <View style={styles.card}>
+          <View style={styles.settingRow}>
+            <View style={styles.settingCopy}>
+              <Text style={styles.label}>{household.name}</Text>
+              {householdRole && (
+                <Text style={styles.settingSubtitle}>{t(`household.roles.${householdRole}`)}</Text>
+              )}
+            </View>
+          </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingCopy}>
+              <Text style={styles.settingSubtitle}>{t('household.inviteCode')}</Text>
+              <Text style={styles.inviteCode}>{formatInviteCode(household.invite_code)}</Text>
+            </View>
+            <TouchableOpacity onPress={handleShare} hitSlop={12} accessibilityLabel={t('household.share')}>
+              <Share2 size={20} color={colors.primary} />
+            </TouchableOpacity>
+            {isOwner && (
+              <TouchableOpacity
+                onPress={() => regenerateMutation.mutate()}
+                disabled={regenerateMutation.isPending}
+                hitSlop={12}
+                accessibilityLabel={t('household.regenerateCode')}
+              >
+                <RefreshCw size={20} color={colors.textSecondary} />
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <Text style={styles.label}>{t('household.members')}</Text>
+          {members.map((member) => (
+            <TouchableOpacity
+              key={member.id}
+              style={styles.memberRow}
+              onPress={() => handleMemberPress(member)}
+              disabled={!isOwner || member.user_id === user?.id}
+            >
+              <Text style={styles.memberName}>{memberName(member)}</Text>
+              <Text style={styles.settingSubtitle}>{t(`household.roles.${member.role}`)}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleLeave} disabled={removeMutation.isPending}>
+            <Text style={[styles.secondaryButtonText, { color: colors.danger }]}>{t('household.leave')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.settingRow}>
+        <TextInput
+          style={[styles.input, { flex: 1 }]}
+          value={inviteCode}
+          onChangeText={setInviteCode}
+          placeholder={t('household.joinPlaceholder')}
+          placeholderTextColor={colors.inputPlaceholder}
+          autoCapitalize="characters"
+          autoCorrect={false}
+        />
+        <TouchableOpacity
+          style={[styles.primaryButton, !canJoin && { opacity: 0.6 }]}
+          onPress={() => joinMutation.mutate()}
+          disabled={!canJoin}
+        >
+          <Text style={styles.primaryButtonText}>{t('household.join')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.settingRow}>
+        <TextInput
+          style={[styles.input, { flex: 1 }]}
+          value={newHouseholdName}
+          onChangeText={setNewHouseholdName}
+          placeholder={t('household.createPlaceholder')}
+          placeholderTextColor={colors.inputPlaceholder}
+        />
+        <TouchableOpacity
+          style={[styles.primaryButton, !canCreate && { opacity: 0.6 }]}
+          onPress={() => createMutation.mutate()}
+          disabled={!canCreate}
+        >
+          <Text style={styles.primaryButtonText}>{t('household.create')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      gap: 16,
+    },
+    settingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 16,
+    },
+    settingCopy: {
+      flex: 1,
+      gap: 4,
+    },
+    settingTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    settingSubtitle: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    card: {
+      gap: 12,
+      padding: 14,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    inviteCode: {
+      fontSize: 20,
+      fontWeight: '700',
+      letterSpacing: 2,
+      color: colors.textPrimary,
+    },
+    memberRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 12,
+      paddingVertical: 10,
+      paddingHorizontal: 14,
+      borderRadius: 12,
+      backgroundColor: colors.surfaceMuted,
+    },
+    memberName: {
+      flex: 1,
+      color: colors.textPrimary,
+    },
+    input: {
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      backgroundColor: colors.inputBackground,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: colors.inputText,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surfaceMuted,
+    },
+    chipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    chipTextActive: {
+      color: colors.primaryContrast,
+    },
+    secondaryButton: {
+      paddingVertical: 10,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    primaryButton: {
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      color: colors.primaryContrast,
+      fontWeight: '700',
+    },
+  });
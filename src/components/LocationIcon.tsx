@@ -0,0 +1,34 @@
+import type { LocationIconName } from '@/lib/storageLocations';
+import {
+  Archive,
+  Box,
+  Package,
+  Refrigerator,
+  ShoppingBasket,
+  Snowflake,
+  Warehouse,
+  Wine,
+  type LucideIcon,
+} from 'lucide-react-native';
+
+export const LOCATION_ICONS: Record<LocationIconName, LucideIcon> = {
+  snowflake: Snowflake,
+  refrigerator: Refrigerator,
+  package: Package,
+  archive: Archive,
+  warehouse: Warehouse,
+  wine: Wine,
+  'shopping-basket': ShoppingBasket,
+  box: Box,
+};
+
+type LocationIconProps = {
+  name: LocationIconName;
+  size?: number;
+  color: string;
+};
+
+export const LocationIcon = ({ name, size = 20, color }: LocationIconProps) => {
+  const Icon = LOCATION_ICONS[name];
+  return <Icon size={size} color={color} />;
+};
@@ -0,0 +1,111 @@
+import { useTranslation } from '@/lib/i18n';
+import { searchCatalog, type CatalogProduct } from '@/lib/productCatalog';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { History } from 'lucide-react-native';
+import { useMemo, useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View, type StyleProp, type TextStyle } from 'react-native';
+
+type ProductNameInputProps = {
+  value: string;
+  onChangeText: (value: string) => void;
+  /** Called when the user picks a suggestion, after `onChangeText` has been called with its name. */
+  onSelectProduct: (product: CatalogProduct) => void;
+  products: CatalogProduct[];
+  placeholder?: string;
+  style?: StyleProp<TextStyle>;
+};
+
+/**
+ * Product name field that suggests products from the user's catalog as they type.
+ */
+export const ProductNameInput = ({
+  value,
+  onChangeText,
+  onSelectProduct,
+  products,
+  placeholder,
+  style,
+}: ProductNameInputProps) => {
+  const { colors } = useThemeMode();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [isFocused, setIsFocused] = useState(false);
+  const suggestions = useMemo(() => (isFocused ? searchCatalog(products, value) : []), [isFocused, products, value]);
+
+  const handleSelect = (product: CatalogProduct) => {
+    onChangeText(product.name);
+    onSelectProduct(product);
+  };
+
+  return (
+    <View>
+      <TextInput
+        style={style}
+        placeholder={placeholder}
+        placeholderTextColor={colors.inputPlaceholder}
+        value={value}
+        onChangeText={onChangeText}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        autoCorrect={false}
+      />
+      {suggestions.length > 0 ? (
+        <View style={styles.suggestions} accessibilityLabel={t('catalog.suggestions')}>
+          {suggestions.map((product) => {
+            const details = [product.default_unit, product.category].filter(Boolean).join(' · ');
+            return (
+              <TouchableOpacity
+                key={product.id}
+                style={styles.suggestion}
+                // Pick on press-in, before the input's blur hides the list.
+                onPressIn={() => handleSelect(product)}
+              >
+                <History size={16} color={colors.textMuted} />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.suggestionName}>{product.name}</Text>
+                  {details ? <Text style={styles.suggestionDetails}>{details}</Text> : null}
+                </View>
+                <Text style={styles.suggestionCount}>{t('catalog.timesBought', { count: product.use_count })}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ) : null}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    suggestions: {
+      marginTop: 6,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      overflow: 'hidden',
+    },
+    suggestion: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      paddingHorizontal: 14,
+      paddingVertical: 10,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: colors.borderMuted,
+    },
+    suggestionName: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    suggestionDetails: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    suggestionCount: {
+      fontSize: 12,
+      color: colors.textMuted,
+    },
+  });
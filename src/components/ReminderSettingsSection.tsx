@@ -0,0 +1,266 @@
+import { useTranslation } from '@/lib/i18n';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  formatMinutesOfDay,
+  LEAD_TIME_OPTIONS,
+  type QuietHours,
+  type ReminderSettings,
+} from '@/lib/reminders';
+import {
+  getReminderSettings,
+  requestNotificationPermission,
+  rescheduleAllReminders,
+  saveReminderSettings,
+} from '@/lib/reminders/notifications';
+import { getStorageItems } from '@/lib/supabase/storageService';
+import { useAuth } from '@/providers/AuthProvider';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { useQueryClient } from '@tanstack/react-query';
+import { Minus, Plus } from 'lucide-react-native';
+import { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const ReminderSettingsSection = () => {
+  const { user, household } = useAuth();
+  const { colors } = useThemeMode();
+  const { showToast } = useToast();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+
+  useEffect(() => {
+    if (user) {
+      void getReminderSettings(user.id).then(setSettings);
+    }
+  }, [user]);
+
+  const applySettings = async (next: ReminderSettings) => {
+    if (!user) {
+      return;
+    }
+    setSettings(next);
+    try {
+      await saveReminderSettings(user.id, next);
+      if (household) {
+        const items = await queryClient.fetchQuery({
+          queryKey: ['storage-items', household.id],
+          queryFn: () => getStorageItems(household.id),
+        });
+        await rescheduleAllReminders(user.id, items);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : t('profile.remindersErrorMsg');
+      showToast({ title: t('profile.remindersError'), message, type: 'error' });
+    }
+  };
+
+  const handleToggleEnabled = async (enabled: boolean) => {
+    if (enabled && !(await requestNotificationPermission())) {
+      showToast({
+        title: t('profile.remindersPermissionTitle'),
+        message: t('profile.remindersPermissionMsg'),
+        type: 'error',
+      });
+      return;
+    }
+    await applySettings({ ...settings, enabled });
+  };
+
+  const handleToggleLeadTime = (days: number) => {
+    const leadTimes = settings.leadTimes.includes(days)
+      ? settings.leadTimes.filter((value) => value !== days)
+      : [...settings.leadTimes, days].sort((a, b) => b - a);
+    if (leadTimes.length === 0) {
+      return;
+    }
+    void applySettings({ ...settings, leadTimes });
+  };
+
+  const { quietHours } = settings;
+
+  const handleShiftQuietHours = (edge: keyof QuietHours, hours: number) => {
+    if (!quietHours) {
+      return;
+    }
+    const minutes = (quietHours[edge] + hours * 60 + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    void applySettings({ ...settings, quietHours: { ...quietHours, [edge]: minutes } });
+  };
+
+  const switchProps = (value: boolean) => ({
+    value,
+    trackColor: { false: colors.borderMuted, true: colors.primary },
+    thumbColor: value ? '#f8fafc' : colors.secondaryContrast,
+    ios_backgroundColor: colors.borderMuted,
+  });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.settingRow}>
+        <View style={styles.settingCopy}>
+          <Text style={styles.settingTitle}>{t('profile.remindersTitle')}</Text>
+          <Text style={styles.settingSubtitle}>{t('profile.remindersDesc')}</Text>
+        </View>
+        <Switch {...switchProps(settings.enabled)} onValueChange={(value) => void handleToggleEnabled(value)} />
+      </View>
+
+      {settings.enabled && (
+        <>
+          <Text style={styles.label}>{t('profile.remindersLeadTimes')}</Text>
+          <View style={styles.chipRow}>
+            {LEAD_TIME_OPTIONS.map((days) => {
+              const active = settings.leadTimes.includes(days);
+              return (
+                <TouchableOpacity
+                  key={days}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => handleToggleLeadTime(days)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                    {days === 0 ? t('profile.remindersSameDay') : t('profile.remindersDaysBefore', { count: days })}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingCopy}>
+              <Text style={styles.settingTitle}>{t('profile.quietHours')}</Text>
+              <Text style={styles.settingSubtitle}>{t('profile.quietHoursDesc')}</Text>
+            </View>
+            <Switch
+              {...switchProps(Boolean(quietHours))}
+              onValueChange={(value) =>
+                void applySettings({
+                  ...settings,
+                  quietHours: value ? DEFAULT_REMINDER_SETTINGS.quietHours : null,
+                })
+              }
+            />
+          </View>
+
+          {quietHours && (
+            <View style={styles.quietHoursRow}>
+              {(['start', 'end'] as const).map((edge) => (
+                <View key={edge} style={styles.stepper}>
+                  <Text style={styles.stepperLabel}>
+                    {edge === 'start' ? t('profile.quietHoursFrom') : t('profile.quietHoursUntil')}
+                  </Text>
+                  <View style={styles.stepperControls}>
+                    <TouchableOpacity
+                      style={styles.stepperButton}
+                      onPress={() => handleShiftQuietHours(edge, -1)}
+                      accessibilityLabel={t('profile.quietHoursEarlier')}
+                    >
+                      <Minus size={16} color={colors.textPrimary} />
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>{formatMinutesOfDay(quietHours[edge])}</Text>
+                    <TouchableOpacity
+                      style={styles.stepperButton}
+                      onPress={() => handleShiftQuietHours(edge, 1)}
+                      accessibilityLabel={t('profile.quietHoursLater')}
+                    >
+                      <Plus size={16} color={colors.textPrimary} />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      gap: 16,
+    },
+    settingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 16,
+    },
+    settingCopy: {
+      flex: 1,
+      gap: 4,
+    },
+    settingTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    settingSubtitle: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surfaceMuted,
+    },
+    chipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    chipTextActive: {
+      color: colors.primaryContrast,
+    },
+    quietHoursRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    stepper: {
+      flex: 1,
+      gap: 6,
+    },
+    stepperLabel: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    stepperControls: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 6,
+    },
+    stepperButton: {
+      padding: 6,
+      borderRadius: 8,
+      backgroundColor: colors.surfaceMuted,
+    },
+    stepperValue: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+  });
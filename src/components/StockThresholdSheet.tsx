@@ -0,0 +1,279 @@
+import { useTranslation } from '@/lib/i18n';
+import type { PantryProduct } from '@/lib/lots';
+import { getThresholdQuantity, type StockThreshold } from '@/lib/lowStock';
+import {
+  createQuantity,
+  formatAmount,
+  formatQuantity,
+  getCompatibleUnits,
+  parseAmount,
+  type Quantity,
+  type Unit,
+} from '@/lib/quantity';
+import type { Database } from '@/lib/supabase/types';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+
+export type StockThresholdSubmission = {
+  minimum: Quantity;
+  autoAdd: boolean;
+};
+
+type StockThresholdSheetProps = {
+  /** The product to keep in stock, with every lot the household has of it. */
+  product: PantryProduct<StorageItem> | null;
+  /** The product's current minimum, if it has one. */
+  threshold?: StockThreshold | null;
+  submitting?: boolean;
+  onClose: () => void;
+  onSave: (submission: StockThresholdSubmission) => void;
+  onRemove: (threshold: StockThreshold) => void;
+};
+
+export const StockThresholdSheet = ({
+  product,
+  threshold = null,
+  submitting = false,
+  onClose,
+  onSave,
+  onRemove,
+}: StockThresholdSheetProps) => {
+  const { colors } = useThemeMode();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const current = useMemo(() => (threshold ? getThresholdQuantity(threshold) : null), [threshold]);
+  const available = product?.total ?? null;
+  // Products without a readable quantity can still be counted in pieces.
+  const baseUnit: Unit = current?.unit ?? available?.unit ?? 'pcs';
+  const units = useMemo(() => getCompatibleUnits(baseUnit), [baseUnit]);
+  const [amount, setAmount] = useState('');
+  const [unit, setUnit] = useState<Unit>(baseUnit);
+  const [autoAdd, setAutoAdd] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAmount(current ? formatAmount(current.value) : '');
+    setUnit(current?.unit ?? available?.unit ?? 'pcs');
+    setAutoAdd(threshold?.auto_add ?? true);
+    setError(null);
+  }, [available, current, product?.key, threshold?.auto_add]);
+
+  const handleSave = () => {
+    const value = parseAmount(amount);
+    if (value === null || value <= 0) {
+      setError(t('stock.invalidAmount'));
+      return;
+    }
+    onSave({ minimum: createQuantity(value, unit), autoAdd });
+  };
+
+  return (
+    <Modal visible={Boolean(product)} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.select({ ios: 'padding', android: undefined })}
+      >
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{t('stock.title', { name: product?.name ?? '' })}</Text>
+          <Text style={styles.subtitle}>
+            {available ? t('stock.currentLevel', { quantity: formatQuantity(available) }) : t('stock.subtitle')}
+          </Text>
+
+          <TextInput
+            style={styles.input}
+            value={amount}
+            onChangeText={(value) => {
+              setAmount(value);
+              setError(null);
+            }}
+            placeholder={t('stock.amountPlaceholder')}
+            placeholderTextColor={colors.inputPlaceholder}
+            keyboardType="decimal-pad"
+            autoFocus
+          />
+          <View style={styles.chipRow}>
+            {units.map((candidate) => (
+              <TouchableOpacity
+                key={candidate}
+                style={[styles.chip, unit === candidate && styles.chipActive]}
+                onPress={() => setUnit(candidate)}
+              >
+                <Text style={[styles.chipText, unit === candidate && styles.chipTextActive]}>{candidate}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.label}>{t('stock.autoAdd')}</Text>
+              <Text style={styles.subtitle}>{t('stock.autoAddHint')}</Text>
+            </View>
+            <Switch
+              value={autoAdd}
+              onValueChange={setAutoAdd}
+              trackColor={{ false: colors.borderMuted, true: colors.primary }}
+              thumbColor={autoAdd ? '#f8fafc' : colors.secondaryContrast}
+              ios_backgroundColor={colors.borderMuted}
+            />
+          </View>
+
+          <View style={styles.actions}>
+            {threshold ? (
+              <TouchableOpacity
+                style={styles.secondaryButton}
+                onPress={() => onRemove(threshold)}
+                disabled={submitting}
+              >
+                <Text style={styles.removeButtonText}>{t('stock.remove')}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.secondaryButton} onPress={onClose} disabled={submitting}>
+                <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, submitting && { opacity: 0.6 }]}
+              onPress={handleSave}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color={colors.primaryContrast} />
+              ) : (
+                <Text style={styles.primaryButtonText}>{t('common.save')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: '#0f172a88',
+    },
+    sheet: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 28,
+      borderTopRightRadius: 28,
+      padding: 24,
+      paddingBottom: 40,
+      gap: 16,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.textPrimary,
+    },
+    subtitle: {
+      color: colors.textSecondary,
+    },
+    label: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    input: {
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      backgroundColor: colors.inputBackground,
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+      fontSize: 16,
+      color: colors.inputText,
+    },
+    switchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 12,
+    },
+    switchText: {
+      flex: 1,
+      gap: 4,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surfaceMuted,
+    },
+    chipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    chipTextActive: {
+      color: colors.primaryContrast,
+    },
+    error: {
+      color: colors.danger,
+      fontSize: 13,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 8,
+    },
+    secondaryButton: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      color: colors.textPrimary,
+      fontWeight: '600',
+    },
+    removeButtonText: {
+      color: colors.danger,
+      fontWeight: '600',
+    },
+    primaryButton: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 12,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      color: colors.primaryContrast,
+      fontWeight: '700',
+    },
+  });
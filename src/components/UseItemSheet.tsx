@@ -0,0 +1,259 @@
+import { useTranslation } from '@/lib/i18n';
+import type { PantryProduct } from '@/lib/lots';
+import {
+  createQuantity,
+  formatAmount,
+  formatQuantity,
+  getCompatibleUnits,
+  parseAmount,
+  type Quantity,
+  type Unit,
+} from '@/lib/quantity';
+import { CONSUMPTION_REASONS, type ConsumptionReason } from '@/lib/supabase/consumptionService';
+import type { Database } from '@/lib/supabase/types';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+
+export type UseItemSubmission = {
+  amount: Quantity | 'all';
+  reason: ConsumptionReason;
+};
+
+type UseItemSheetProps = {
+  /** The product to take from; amounts come out of its lots first-expiring-first-out. */
+  product: PantryProduct<StorageItem> | null;
+  submitting?: boolean;
+  onClose: () => void;
+  onSubmit: (submission: UseItemSubmission) => void;
+};
+
+export const UseItemSheet = ({ product, submitting = false, onClose, onSubmit }: UseItemSheetProps) => {
+  const { colors } = useThemeMode();
+  const { t } = useTranslation();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const available = product?.total ?? null;
+  const units = useMemo(() => (available ? getCompatibleUnits(available.unit) : []), [available]);
+  const [amount, setAmount] = useState('');
+  const [unit, setUnit] = useState<Unit | null>(null);
+  const [reason, setReason] = useState<ConsumptionReason>('eaten');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAmount('');
+    setUnit(available?.unit ?? null);
+    setReason('eaten');
+    setError(null);
+  }, [available, product?.key]);
+
+  const handleConfirm = () => {
+    if (!available || !unit) {
+      onSubmit({ amount: 'all', reason });
+      return;
+    }
+    const value = parseAmount(amount);
+    if (value === null || value <= 0) {
+      setError(t('storage.useInvalidAmount'));
+      return;
+    }
+    onSubmit({ amount: createQuantity(value, unit), reason });
+  };
+
+  return (
+    <Modal visible={Boolean(product)} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.select({ ios: 'padding', android: undefined })}
+      >
+        <Pressable style={StyleSheet.absoluteFill} onPress={onClose} />
+        <View style={styles.sheet}>
+          <Text style={styles.title}>{t('storage.useTitle', { name: product?.name ?? '' })}</Text>
+          <Text style={styles.subtitle}>
+            {available
+              ? t('storage.useAvailable', { quantity: formatQuantity(available) })
+              : t('storage.useNoQuantity')}
+          </Text>
+          {product && product.lots.length > 1 ? (
+            <Text style={styles.subtitle}>{t('lots.useHint', { count: product.lots.length })}</Text>
+          ) : null}
+
+          {available && (
+            <>
+              <TextInput
+                style={styles.input}
+                value={amount}
+                onChangeText={(value) => {
+                  setAmount(value);
+                  setError(null);
+                }}
+                placeholder={formatAmount(available.value)}
+                placeholderTextColor={colors.inputPlaceholder}
+                keyboardType="decimal-pad"
+                autoFocus
+              />
+              <View style={styles.chipRow}>
+                {units.map((candidate) => (
+                  <TouchableOpacity
+                    key={candidate}
+                    style={[styles.chip, unit === candidate && styles.chipActive]}
+                    onPress={() => setUnit(candidate)}
+                  >
+                    <Text style={[styles.chipText, unit === candidate && styles.chipTextActive]}>{candidate}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <Text style={styles.label}>{t('storage.useReason')}</Text>
+          <View style={styles.chipRow}>
+            {CONSUMPTION_REASONS.map((candidate) => (
+              <TouchableOpacity
+                key={candidate}
+                style={[styles.chip, reason === candidate && styles.chipActive]}
+                onPress={() => setReason(candidate)}
+              >
+                <Text style={[styles.chipText, reason === candidate && styles.chipTextActive]}>
+                  {t(`storage.reasons.${candidate}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => onSubmit({ amount: 'all', reason })}
+              disabled={submitting}
+            >
+              <Text style={styles.secondaryButtonText}>{t('storage.useAll')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.primaryButton, submitting && { opacity: 0.6 }]}
+              onPress={handleConfirm}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color={colors.primaryContrast} />
+              ) : (
+                <Text style={styles.primaryButtonText}>{t('storage.useConfirm')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: '#0f172a88',
+    },
+    sheet: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 28,
+      borderTopRightRadius: 28,
+      padding: 24,
+      paddingBottom: 40,
+      gap: 16,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.textPrimary,
+    },
+    subtitle: {
+      color: colors.textSecondary,
+    },
+    label: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    input: {
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      backgroundColor: colors.inputBackground,
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+      fontSize: 16,
+      color: colors.inputText,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surfaceMuted,
+    },
+    chipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    chipTextActive: {
+      color: colors.primaryContrast,
+    },
+    error: {
+      color: colors.danger,
+      fontSize: 13,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 8,
+    },
+    secondaryButton: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      color: colors.textPrimary,
+      fontWeight: '600',
+    },
+    primaryButton: {
+      flex: 1,
+      paddingVertical: 14,
+      borderRadius: 12,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      color: colors.primaryContrast,
+      fontWeight: '700',
+    },
+  });
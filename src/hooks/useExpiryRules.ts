@@ -0,0 +1,21 @@
+import { DEFAULT_EXPIRY_RULES } from '@/lib/expiry';
+import { getExpiryRules } from '@/lib/supabase/expiryRulesService';
+import { useAuth } from '@/providers/AuthProvider';
+import { useQuery } from '@tanstack/react-query';
+
+export const expiryRulesQueryKey = (userId: string | undefined) => ['expiry-rules', userId] as const;
+
+/**
+ * The signed-in user's expiry rules, falling back to the defaults while they load.
+ */
+export const useExpiryRules = () => {
+  const { user } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: expiryRulesQueryKey(user?.id),
+    queryFn: () => getExpiryRules(user!.id),
+    enabled: Boolean(user?.id),
+  });
+
+  return data ?? DEFAULT_EXPIRY_RULES;
+};
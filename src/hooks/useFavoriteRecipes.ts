@@ -0,0 +1,103 @@
+import { useTranslation } from '@/lib/i18n';
+import {
+  addFavoriteRecipe,
+  getFavoriteRecipes,
+  removeFavoriteRecipe,
+  type FavoriteRecipe,
+  type Recipe,
+} from '@/lib/supabase/recipesService';
+import { useAuth } from '@/providers/AuthProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+
+export const favoriteRecipesQueryKey = (userId: string | undefined) => ['favorite-recipes', userId] as const;
+
+type ToggleFavoriteVariables = {
+  recipeId: string;
+  favorite: boolean;
+  recipe?: Recipe | null;
+};
+
+/**
+ * Favorite recipes for the signed-in user, with an optimistic toggle shared by every screen.
+ */
+export const useFavoriteRecipes = () => {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const queryKey = favoriteRecipesQueryKey(user?.id);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getFavoriteRecipes(user!.id),
+    enabled: Boolean(user?.id),
+  });
+
+  const favoriteIds = useMemo(
+    () => new Set((query.data ?? []).map((favorite) => favorite.recipe_id)),
+    [query.data],
+  );
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ recipeId, favorite }: ToggleFavoriteVariables) => {
+      if (favorite) {
+        await addFavoriteRecipe(user!.id, recipeId);
+      } else {
+        await removeFavoriteRecipe(user!.id, recipeId);
+      }
+    },
+    onMutate: async ({ recipeId, favorite, recipe }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<FavoriteRecipe[]>(queryKey);
+
+      queryClient.setQueryData<FavoriteRecipe[]>(queryKey, (current = []) => {
+        if (!favorite) {
+          return current.filter((entry) => entry.recipe_id !== recipeId);
+        }
+        if (current.some((entry) => entry.recipe_id === recipeId)) {
+          return current;
+        }
+        const optimistic: FavoriteRecipe = {
+          id: `optimistic-${recipeId}`,
+          recipe_id: recipeId,
+          user_id: user!.id,
+          created_at: new Date().toISOString(),
+          recipes: recipe ?? null,
+        };
+        return [optimistic, ...current];
+      });
+
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+      const message = error instanceof Error ? error.message : t('favorites.toggleErrorMsg');
+      showToast({ title: t('favorites.toggleErrorTitle'), message, type: 'error' });
+    },
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const isFavorite = useCallback((recipeId: string) => favoriteIds.has(recipeId), [favoriteIds]);
+
+  const { mutate } = toggleMutation;
+  const toggleFavorite = useCallback(
+    (recipeId: string, recipe?: Recipe | null) => {
+      if (!user?.id) return;
+      mutate({ recipeId, favorite: !favoriteIds.has(recipeId), recipe });
+    },
+    [favoriteIds, mutate, user?.id],
+  );
+
+  return {
+    favorites: query.data ?? [],
+    isLoading: query.isLoading,
+    isRefetching: query.isRefetching,
+    refetch: query.refetch,
+    isFavorite,
+    toggleFavorite,
+  };
+};
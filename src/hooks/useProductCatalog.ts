@@ -0,0 +1,20 @@
+import { getProductCatalog } from '@/lib/supabase/productCatalogService';
+import { useAuth } from '@/providers/AuthProvider';
+import { useQuery } from '@tanstack/react-query';
+
+export const productCatalogQueryKey = (userId: string | undefined) => ['product-catalog', userId] as const;
+
+/**
+ * The signed-in user's product catalog, for autocompleting product names.
+ */
+export const useProductCatalog = () => {
+  const { user } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: productCatalogQueryKey(user?.id),
+    queryFn: () => getProductCatalog(user!.id),
+    enabled: Boolean(user?.id),
+  });
+
+  return data ?? [];
+};
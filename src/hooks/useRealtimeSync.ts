@@ -0,0 +1,150 @@
+import { expiryRulesQueryKey } from '@/hooks/useExpiryRules';
+import { shoppingListQueryKey } from '@/hooks/useShoppingList';
+import { storageLocationsQueryKey } from '@/hooks/useStorageLocations';
+import { countExpiringSoon, type ExpiryRules } from '@/lib/expiry';
+import { applyRowChange, isStaleChange } from '@/lib/realtime';
+import {
+  setRealtimeAuth,
+  subscribeToHouseholdChanges,
+  type ShoppingListItemChange,
+  type StorageItemChange,
+  type StorageLocationChange,
+} from '@/lib/supabase/realtimeService';
+import type { ShoppingListItem } from '@/lib/shoppingList';
+import type { getStorageItems, getStorageLocations } from '@/lib/supabase/storageService';
+import { useAuth } from '@/providers/AuthProvider';
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+
+type CachedItem = Awaited<ReturnType<typeof getStorageItems>>[number];
+type CachedLocation = Awaited<ReturnType<typeof getStorageLocations>>[number];
+
+const byAddedDateDesc = (a: CachedItem, b: CachedItem) => b.added_date.localeCompare(a.added_date);
+const byCreatedAtAsc = (a: CachedLocation, b: CachedLocation) => a.created_at.localeCompare(b.created_at);
+const byPositionAsc = (a: ShoppingListItem, b: ShoppingListItem) => a.position - b.position;
+
+/**
+ * Keep the active household's storage and shopping list caches in step with changes made on other devices.
+ * Resubscribes whenever the signed-in user or active household changes.
+ */
+export const useRealtimeSync = () => {
+  const { user, session, household } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+  const householdId = household?.id;
+  const accessToken = session?.access_token ?? null;
+
+  useEffect(() => {
+    setRealtimeAuth(accessToken).catch((error) => {
+      console.warn('Failed to authenticate realtime connection', error);
+    });
+  }, [accessToken]);
+
+  useEffect(() => {
+    if (!userId || !householdId) {
+      return;
+    }
+
+    const itemsKey = ['storage-items', householdId];
+    const statisticsKey = ['storage-statistics', householdId];
+    const locationsKey = storageLocationsQueryKey(householdId);
+    const shoppingListKey = shoppingListQueryKey(householdId);
+    let hasConnected = false;
+
+    const refreshStatistics = (items: CachedItem[] | undefined) => {
+      const rules = queryClient.getQueryData<ExpiryRules>(expiryRulesQueryKey(userId));
+      if (!items || !rules) {
+        void queryClient.invalidateQueries({ queryKey: statisticsKey });
+        return;
+      }
+      queryClient.setQueryData(statisticsKey, {
+        totalItems: items.length,
+        expiringSoon: countExpiringSoon(items, rules),
+      });
+    };
+
+    const handleItemChange = (change: StorageItemChange) => {
+      const locations = queryClient.getQueryData<CachedLocation[]>(locationsKey) ?? [];
+      let missingLocation = false;
+
+      const items = queryClient.setQueryData<CachedItem[]>(itemsKey, (current) =>
+        current
+          ? applyRowChange(current, change, (row, existing) => {
+              if (isStaleChange(row, existing)) {
+                return existing ?? null;
+              }
+              if (row.archived_at) {
+                return null;
+              }
+              const location =
+                locations.find((candidate) => candidate.id === row.storage_location_id) ??
+                (existing?.storage_location_id === row.storage_location_id ? existing.storage_locations : undefined);
+              if (!location) {
+                missingLocation = true;
+                return existing ?? null;
+              }
+              return { ...row, storage_locations: location };
+            }, byAddedDateDesc)
+          : current,
+      );
+
+      if (missingLocation) {
+        void queryClient.invalidateQueries({ queryKey: itemsKey });
+      }
+
+      if (change.eventType === 'DELETE') {
+        queryClient.removeQueries({ queryKey: ['storage-item', change.old.id] });
+      } else {
+        void queryClient.invalidateQueries({ queryKey: ['storage-item', change.new.id] });
+      }
+
+      refreshStatistics(missingLocation ? undefined : items);
+    };
+
+    const handleLocationChange = (change: StorageLocationChange) => {
+      queryClient.setQueryData<CachedLocation[]>(locationsKey, (current) =>
+        current ? applyRowChange(current, change, (row) => row, byCreatedAtAsc) : current,
+      );
+
+      if (change.eventType === 'UPDATE') {
+        const location = change.new;
+        queryClient.setQueryData<CachedItem[]>(itemsKey, (current) =>
+          current?.map((item) =>
+            item.storage_location_id === location.id ? { ...item, storage_locations: location } : item,
+          ),
+        );
+      }
+    };
+
+    const handleShoppingListItemChange = (change: ShoppingListItemChange) => {
+      queryClient.setQueryData<ShoppingListItem[]>(shoppingListKey, (current) =>
+        current
+          ? applyRowChange(
+              current,
+              change,
+              (row, existing) => (isStaleChange(row, existing) ? (existing ?? null) : row),
+              byPositionAsc,
+            )
+          : current,
+      );
+    };
+
+    const unsubscribe = subscribeToHouseholdChanges(householdId, {
+      onItemChange: handleItemChange,
+      onLocationChange: handleLocationChange,
+      onShoppingListItemChange: handleShoppingListItemChange,
+      onSubscribed: () => {
+        // Changes made while the connection was down were never delivered, so refetch after a reconnect.
+        if (hasConnected) {
+          void queryClient.invalidateQueries({ queryKey: itemsKey });
+          void queryClient.invalidateQueries({ queryKey: statisticsKey });
+          void queryClient.invalidateQueries({ queryKey: locationsKey });
+          void queryClient.invalidateQueries({ queryKey: shoppingListKey });
+        }
+        hasConnected = true;
+      },
+    });
+
+    return unsubscribe;
+  }, [householdId, queryClient, userId]);
+};
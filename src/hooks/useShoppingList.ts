@@ -0,0 +1,20 @@
+import { getShoppingList } from '@/lib/supabase/shoppingListService';
+import { useAuth } from '@/providers/AuthProvider';
+import { useQuery } from '@tanstack/react-query';
+
+export const shoppingListQueryKey = (householdId: string | undefined) => ['shopping-list', householdId] as const;
+
+/**
+ * The active household's shopping list, shared by everyone in it.
+ */
+export const useShoppingList = () => {
+  const { household } = useAuth();
+
+  const query = useQuery({
+    queryKey: shoppingListQueryKey(household?.id),
+    queryFn: () => getShoppingList(household!.id),
+    enabled: Boolean(household?.id),
+  });
+
+  return { ...query, items: query.data ?? [] };
+};
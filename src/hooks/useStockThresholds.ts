@@ -0,0 +1,20 @@
+import { getStockThresholds } from '@/lib/supabase/stockThresholdService';
+import { useAuth } from '@/providers/AuthProvider';
+import { useQuery } from '@tanstack/react-query';
+
+export const stockThresholdsQueryKey = (householdId: string | undefined) => ['stock-thresholds', householdId] as const;
+
+/**
+ * The minimum stock levels the active household keeps for its staples.
+ */
+export const useStockThresholds = () => {
+  const { household } = useAuth();
+
+  const { data } = useQuery({
+    queryKey: stockThresholdsQueryKey(household?.id),
+    queryFn: () => getStockThresholds(household!.id),
+    enabled: Boolean(household?.id),
+  });
+
+  return data ?? [];
+};
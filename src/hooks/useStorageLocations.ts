@@ -0,0 +1,48 @@
+import { useTranslation } from '@/lib/i18n';
+import { getLocationAppearance, hasDefaultName, type LocationIconName } from '@/lib/storageLocations';
+import { getStorageLocations } from '@/lib/supabase/storageService';
+import { useAuth } from '@/providers/AuthProvider';
+import { useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+
+type StorageLocation = Awaited<ReturnType<typeof getStorageLocations>>[number];
+
+export type DisplayStorageLocation = StorageLocation & {
+  displayName: string;
+  iconName: LocationIconName;
+  displayColor: string;
+};
+
+export const storageLocationsQueryKey = (householdId: string | undefined) =>
+  ['storage-locations', householdId] as const;
+
+/**
+ * The active household's storage locations, with the name, icon and colour to show them with.
+ */
+export const useStorageLocations = () => {
+  const { household } = useAuth();
+  const { t } = useTranslation();
+
+  const { data, isLoading } = useQuery({
+    queryKey: storageLocationsQueryKey(household?.id),
+    queryFn: () => getStorageLocations(household!.id),
+    enabled: Boolean(household?.id),
+  });
+
+  const locations = useMemo<DisplayStorageLocation[]>(
+    () =>
+      (data ?? []).map((location) => {
+        const appearance = getLocationAppearance(location);
+        return {
+          ...location,
+          // Seeded locations keep following the app language until the user renames them.
+          displayName: hasDefaultName(location) ? t(`home.${location.type}`) : location.name,
+          iconName: appearance.icon,
+          displayColor: appearance.color,
+        };
+      }),
+    [data, t],
+  );
+
+  return { locations, isLoading };
+};
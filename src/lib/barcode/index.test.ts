@@ -0,0 +1,99 @@
+import { createQuantity } from '@/lib/quantity';
+import { lookupProduct, normalizeBarcode, parsePackSize, type ProductLookupProvider, type ScannedProduct } from './index';
+
+const product = (source: string): ScannedProduct => ({
+  barcode: '4006381333931',
+  name: 'Highlighter',
+  brand: null,
+  category: null,
+  packSize: null,
+  source,
+});
+
+const provider = (id: string, lookup: ProductLookupProvider['lookup']): ProductLookupProvider => ({ id, lookup });
+
+describe('normalizeBarcode', () => {
+  it('keeps valid EAN-13 and EAN-8 codes', () => {
+    expect(normalizeBarcode('4006381333931')).toBe('4006381333931');
+    expect(normalizeBarcode('4006-381 333931')).toBe('4006381333931');
+    expect(normalizeBarcode('96385074', 'ean8')).toBe('96385074');
+  });
+
+  it('turns UPC-A and UPC-E codes into their EAN-13 form', () => {
+    expect(normalizeBarcode('036000291452')).toBe('0036000291452');
+    expect(normalizeBarcode('01234565', 'upc_e')).toBe('0012345000065');
+  });
+
+  it('rejects codes with a wrong check digit, letters or an unknown length', () => {
+    expect(normalizeBarcode('4006381333932')).toBeNull();
+    expect(normalizeBarcode('40063813339A1')).toBeNull();
+    expect(normalizeBarcode('12345')).toBeNull();
+  });
+});
+
+describe('parsePackSize', () => {
+  it('reads the amount printed on a pack', () => {
+    expect(parsePackSize('500 g')).toEqual(createQuantity(500, 'g'));
+    expect(parsePackSize('400 g ℮')).toEqual(createQuantity(400, 'g'));
+  });
+
+  it('counts a multipack as its total', () => {
+    expect(parsePackSize('6 x 330 ml')).toEqual(createQuantity(1980, 'ml'));
+  });
+
+  it('returns null when there is nothing to read', () => {
+    expect(parsePackSize('')).toBeNull();
+    expect(parsePackSize(null)).toBeNull();
+  });
+});
+
+describe('lookupProduct', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the first provider that knows the product', async () => {
+    const later = jest.fn(async () => product('later'));
+
+    const found = await lookupProduct('4006381333931', [
+      provider('cache', async () => null),
+      provider('public', async () => product('public')),
+      provider('later', later),
+    ]);
+
+    expect(found?.source).toBe('public');
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('skips a provider that fails when another one finds the product', async () => {
+    const found = await lookupProduct('4006381333931', [
+      provider('public', async () => {
+        throw new TypeError('Network request failed');
+      }),
+      provider('cache', async () => product('cache')),
+    ]);
+
+    expect(found?.source).toBe('cache');
+  });
+
+  it('throws the failure when no provider found the product', async () => {
+    const failure = new TypeError('Network request failed');
+
+    await expect(
+      lookupProduct('4006381333931', [
+        provider('public', async () => {
+          throw failure;
+        }),
+        provider('cache', async () => null),
+      ]),
+    ).rejects.toBe(failure);
+  });
+
+  it('returns null when nobody knows the product', async () => {
+    await expect(lookupProduct('4006381333931', [provider('cache', async () => null)])).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { createQuantity, parseQuantity, parseQuantityText, type Quantity } from '@/lib/quantity';
+
+export type ScannedProduct = {
+  /** Normalised barcode, see `normalizeBarcode`. */
+  barcode: string;
+  name: string;
+  brand: string | null;
+  category: string | null;
+  /** Size of one pack (`500 g`, `1 l`), used to prefill quantity and unit. */
+  packSize: Quantity | null;
+  /** Id of the provider that found the product. */
+  source: string;
+};
+
+/**
+ * Something that can turn a barcode into a product: the household's own cache, a public database, a stub in tests.
+ */
+export type ProductLookupProvider = {
+  id: string;
+  lookup: (barcode: string) => Promise<ScannedProduct | null>;
+};
+
+/** Symbologies printed on grocery packaging. */
+export const GROCERY_BARCODE_TYPES = ['ean13', 'ean8', 'upc_a', 'upc_e'] as const;
+
+/**
+ * GS1 check digit: digits are weighted 3, 1, 3, … from the right, not counting the check digit itself.
+ */
+const hasValidCheckDigit = (digits: string) => {
+  const body = digits.slice(0, -1);
+  const sum = [...body].reverse().reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/**
+ * Expand an 8-digit UPC-E code to its 12-digit UPC-A form.
+ */
+const expandUpcE = (digits: string) => {
+  const [system, d1, d2, d3, d4, d5, d6, check] = digits;
+  const core = (() => {
+    switch (d6) {
+      case '0':
+      case '1':
+      case '2':
+        return `${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+      case '3':
+        return `${d1}${d2}${d3}00000${d4}${d5}`;
+      case '4':
+        return `${d1}${d2}${d3}${d4}00000${d5}`;
+      default:
+        return `${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+    }
+  })();
+  return `${system}${core}${check}`;
+};
+
+/**
+ * Validate a scanned or typed EAN-8, EAN-13, UPC-A or UPC-E code and bring it into one form, so the
+ * same product always gets the same key: UPC codes become their 13-digit EAN equivalent.
+ * Some 8-digit codes are valid as both EAN-8 and UPC-E; pass the scanner's `type` to tell them apart.
+ * Returns `null` for anything that isn't a valid code.
+ */
+export const normalizeBarcode = (raw: string, type?: string): string | null => {
+  const digits = raw.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) {
+    return null;
+  }
+
+  if (digits.length === 8) {
+    if (type !== 'upc_e' && hasValidCheckDigit(digits)) {
+      return digits;
+    }
+    // UPC-E codes are checked on their expanded form.
+    const expanded = /^[01]/.test(digits) ? expandUpcE(digits) : null;
+    return expanded && hasValidCheckDigit(expanded) ? `0${expanded}` : null;
+  }
+  if (digits.length === 12) {
+    return hasValidCheckDigit(digits) ? `0${digits}` : null;
+  }
+  if (digits.length === 13 || digits.length === 14) {
+    return hasValidCheckDigit(digits) ? digits : null;
+  }
+  return null;
+};
+
+const MULTIPACK_REGEX = /^(\d+)\s*[x×]\s*(.+)$/i;
+
+/**
+ * Parse the pack size printed on a product: `"500 g"`, `"1,5 L"`, `"400 g ℮"` or a multipack such
+ * as `"6 x 330 ml"`, which counts as the total.
+ */
+export const parsePackSize = (text?: string | null): Quantity | null => {
+  // The ℮ mark (often typed as a lone "e") only says the amount is an average.
+  const cleaned = text?.replace(/℮/g, '').replace(/\s+e$/i, '').trim();
+  if (!cleaned) {
+    return null;
+  }
+
+  const multipack = cleaned.match(MULTIPACK_REGEX);
+  if (multipack) {
+    const single = parseQuantityText(multipack[2]);
+    return single ? createQuantity(single.value * Number(multipack[1]), single.unit) : null;
+  }
+  return parseQuantityText(cleaned);
+};
+
+/**
+ * Parse a pack size stored as separate amount and unit, as in the `scanned_products` table.
+ */
+export const parseStoredPackSize = (quantity?: string | null, unit?: string | null) =>
+  quantity ? parseQuantity(quantity, unit) : null;
+
+/**
+ * Ask each provider in turn and return the first product found. A provider that fails (for
+ * example offline) is skipped; the error is only thrown when no other provider found the product.
+ */
+export const lookupProduct = async (
+  barcode: string,
+  providers: ProductLookupProvider[],
+): Promise<ScannedProduct | null> => {
+  let firstError: unknown = null;
+
+  for (const provider of providers) {
+    try {
+      const product = await provider.lookup(barcode);
+      if (product) {
+        return product;
+      }
+    } catch (error) {
+      console.warn(`Product lookup through ${provider.id} failed`, error);
+      firstError ??= error;
+    }
+  }
+
+  if (firstError) {
+    throw firstError;
+  }
+  return null;
+};
@@ -0,0 +1,105 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createQuantity } from '@/lib/quantity';
+import { lookupProduct } from './index';
+import { createOpenFoodFactsProvider } from './openFoodFacts';
+
+const PRODUCTS: Record<string, object> = {
+  '3017620422003': {
+    product_name: 'Nutella',
+    product_name_es: 'Nutella crema de cacao',
+    brands: 'Ferrero, Nutella',
+    categories: 'Spreads, Sweet spreads, Hazelnut spreads',
+    product_quantity: '400',
+    product_quantity_unit: 'g',
+  },
+  '5449000000996': {
+    product_name: 'Coca-Cola',
+    quantity: '6 x 330 ml',
+  },
+  '0000000000000': {
+    brands: 'Nameless',
+  },
+};
+
+/**
+ * A stand-in for the Open Food Facts v2 product API, including its 404 for unknown products.
+ */
+const startStubServer = () =>
+  new Promise<{ server: Server; baseUrl: string; requests: string[] }>((resolve) => {
+    const requests: string[] = [];
+    const server = createServer((request, response) => {
+      requests.push(request.url ?? '');
+      const barcode = request.url?.match(/\/api\/v2\/product\/(\d+)\.json/)?.[1];
+      if (barcode === '5000000000001') {
+        response.writeHead(503).end();
+        return;
+      }
+      const found = barcode ? PRODUCTS[barcode] : undefined;
+      response.writeHead(found ? 200 : 404, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(found ? { status: 1, product: found } : { status: 0 }));
+    });
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}/`, requests });
+    });
+  });
+
+describe('createOpenFoodFactsProvider', () => {
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+  beforeAll(async () => {
+    stub = await startStubServer();
+  });
+
+  afterAll(
+    () =>
+      new Promise<void>((resolve) => {
+        stub.server.close(() => resolve());
+      }),
+  );
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps a known product, preferring the name in the requested language', async () => {
+    const provider = createOpenFoodFactsProvider({ baseUrl: stub.baseUrl, language: 'es' });
+
+    await expect(provider.lookup('3017620422003')).resolves.toEqual({
+      barcode: '3017620422003',
+      name: 'Nutella crema de cacao',
+      brand: 'Ferrero',
+      category: 'Hazelnut spreads',
+      packSize: createQuantity(400, 'g'),
+      source: 'open-food-facts',
+    });
+    expect(stub.requests[0]).toMatch(/^\/api\/v2\/product\/3017620422003\.json\?fields=.*product_name_es/);
+  });
+
+  it('falls back to the printed pack size', async () => {
+    const provider = createOpenFoodFactsProvider({ baseUrl: stub.baseUrl });
+
+    const found = await provider.lookup('5449000000996');
+
+    expect(found).toMatchObject({ name: 'Coca-Cola', brand: null, packSize: createQuantity(1980, 'ml') });
+  });
+
+  it('returns null for unknown products and products without a name', async () => {
+    const provider = createOpenFoodFactsProvider({ baseUrl: stub.baseUrl });
+
+    await expect(provider.lookup('4006381333931')).resolves.toBeNull();
+    await expect(provider.lookup('0000000000000')).resolves.toBeNull();
+  });
+
+  it('throws when the server fails, so the lookup can report it', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const provider = createOpenFoodFactsProvider({ baseUrl: stub.baseUrl });
+
+    await expect(lookupProduct('5000000000001', [provider])).rejects.toThrow('Product lookup failed: 503');
+  });
+});
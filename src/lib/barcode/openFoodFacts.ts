@@ -0,0 +1,101 @@
+import { parseQuantity } from '@/lib/quantity';
+import { parsePackSize, type ProductLookupProvider, type ScannedProduct } from './index';
+
+export const OPEN_FOOD_FACTS_URL = 'https://world.openfoodfacts.org';
+
+const FIELDS = [
+  'product_name',
+  'generic_name',
+  'brands',
+  'categories',
+  'quantity',
+  'product_quantity',
+  'product_quantity_unit',
+];
+
+type OpenFoodFactsProduct = Partial<Record<string, string | number | null>>;
+
+type OpenFoodFactsResponse = {
+  status?: number;
+  product?: OpenFoodFactsProduct;
+};
+
+type OpenFoodFactsOptions = {
+  /** Any server that speaks the Open Food Facts v2 product API, e.g. a local stub. */
+  baseUrl?: string;
+  /** Preferred language for the product name. */
+  language?: string;
+  fetch?: typeof fetch;
+};
+
+const text = (value: string | number | null | undefined) => {
+  const trimmed = value === null || value === undefined ? '' : String(value).trim();
+  return trimmed || null;
+};
+
+// Lists are comma separated; brands lead with the main one, categories end with the most specific.
+const firstEntry = (value: string | null) => value?.split(',')[0]?.trim() || null;
+const lastEntry = (value: string | null) => value?.split(',').pop()?.trim() || null;
+
+/**
+ * Turn an Open Food Facts product response into a `ScannedProduct`, or `null` when the product is
+ * unknown or has no usable name.
+ */
+export const mapOpenFoodFactsProduct = (
+  barcode: string,
+  response: OpenFoodFactsResponse,
+  language = 'en',
+): ScannedProduct | null => {
+  const product = response.product;
+  if (response.status !== 1 || !product) {
+    return null;
+  }
+
+  const name =
+    text(product[`product_name_${language}`]) ?? text(product.product_name) ?? text(product.generic_name);
+  if (!name) {
+    return null;
+  }
+
+  const amount = text(product.product_quantity);
+  const packSize =
+    (amount ? parseQuantity(amount, text(product.product_quantity_unit) ?? 'g') : null) ??
+    parsePackSize(text(product.quantity));
+
+  return {
+    barcode,
+    name,
+    brand: firstEntry(text(product.brands)),
+    category: lastEntry(text(product.categories)),
+    packSize,
+    source: 'open-food-facts',
+  };
+};
+
+/**
+ * Look products up in Open Food Facts, or any server with the same API.
+ */
+export const createOpenFoodFactsProvider = ({
+  baseUrl = OPEN_FOOD_FACTS_URL,
+  language = 'en',
+  fetch: fetchProduct = fetch,
+}: OpenFoodFactsOptions = {}): ProductLookupProvider => ({
+  id: 'open-food-facts',
+  lookup: async (barcode) => {
+    const fields = [...FIELDS, `product_name_${language}`].join(',');
+    const response = await fetchProduct(
+      `${baseUrl.replace(/\/$/, '')}/api/v2/product/${encodeURIComponent(barcode)}.json?fields=${fields}`,
+      { headers: { Accept: 'application/json' } },
+    );
+
+    // Unknown products come back as 404 with `status: 0`.
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Product lookup failed: ${response.status}`);
+    }
+
+    return mapOpenFoodFactsProduct(barcode, (await response.json()) as OpenFoodFactsResponse, language);
+  },
+});
@@ -0,0 +1,15 @@
+export type ConsumptionProblemCode = 'unmeasured' | 'incompatibleUnit' | 'noMatchingLot' | 'itemChanged';
+
+/**
+ * Why an amount can't be taken out of the pantry. Screens translate `code` under
+ * `consumptionProblems`, with `unit` and `itemUnit` as parameters.
+ */
+export class ConsumptionError extends Error {
+  constructor(
+    readonly code: ConsumptionProblemCode,
+    readonly params: { unit?: string; itemUnit?: string } = {},
+  ) {
+    super(`Cannot consume: ${code}`);
+    this.name = 'ConsumptionError';
+  }
+}
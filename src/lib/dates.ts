@@ -0,0 +1,18 @@
+/**
+ * Format a date as the `YYYY-MM-DD` string stored in date columns, using the local calendar day.
+ * `toISOString()` would shift the day for users east of UTC.
+ */
+export const toDateOnlyString = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Parse a `YYYY-MM-DD` date column into a local-midnight `Date`.
+ */
+export const parseDateOnly = (value: string): Date => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
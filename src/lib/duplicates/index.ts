@@ -0,0 +1,113 @@
+import { getProductLotsKey } from '@/lib/lots';
+import { getCompatibleUnits, parseQuantity, sumQuantities, toQuantityFields, type Quantity } from '@/lib/quantity';
+import type { Database } from '@/lib/supabase/types';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+
+export type MergeableItem = Pick<
+  StorageItem,
+  'id' | 'name' | 'quantity' | 'unit' | 'storage_location_id' | 'expiry_date' | 'opened_at' | 'price' | 'added_date'
+>;
+
+/** The fields of the surviving item that change when others are merged into it. */
+export type MergedFields = Pick<StorageItem, 'quantity' | 'unit' | 'expiry_date' | 'opened_at' | 'price'>;
+
+export type MergePlan = {
+  keepId: string;
+  removeIds: string[];
+  changes: MergedFields;
+};
+
+/**
+ * Items sharing this key are lots of the same product kept in the same place, see
+ * `getProductLotsKey`. `null` for names that normalise to nothing.
+ */
+export const getDuplicateKey = (item: Pick<StorageItem, 'name' | 'quantity' | 'unit' | 'storage_location_id'>) => {
+  const productKey = getProductLotsKey(item);
+  return productKey ? `${productKey}|${item.storage_location_id}` : null;
+};
+
+/**
+ * Group items that look like duplicates of each other. Only groups with more than one item are
+ * returned, oldest item first, in the order their first item appears in `items`.
+ */
+export const findDuplicateGroups = <T extends MergeableItem>(items: T[]): T[][] => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getDuplicateKey(item);
+    if (key) {
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+  }
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => [...group].sort((a, b) => a.added_date.localeCompare(b.added_date)));
+};
+
+/**
+ * The existing item a new entry would duplicate, if any. Prefers the oldest one.
+ */
+export const findDuplicateOf = <T extends MergeableItem>(
+  items: T[],
+  candidate: Pick<StorageItem, 'name' | 'quantity' | 'unit' | 'storage_location_id'>,
+): T | null => {
+  const key = getDuplicateKey(candidate);
+  if (!key) {
+    return null;
+  }
+  const matches = items.filter((item) => getDuplicateKey(item) === key);
+  return matches.sort((a, b) => a.added_date.localeCompare(b.added_date))[0] ?? null;
+};
+
+const earliest = (values: (string | null)[]) =>
+  values.filter((value): value is string => Boolean(value)).sort()[0] ?? null;
+
+/**
+ * Combine entries into the first one: quantities are summed in its unit, the earliest expiry and
+ * opening date win (the merged stock is only as fresh as its oldest part) and prices add up.
+ * Returns `null` when the quantities can't be added together, e.g. one of them isn't a number.
+ */
+export const mergeFields = (
+  items: Pick<StorageItem, 'quantity' | 'unit' | 'expiry_date' | 'opened_at' | 'price'>[],
+): MergedFields | null => {
+  const [first] = items;
+  if (!first) {
+    return null;
+  }
+
+  let quantityFields: Pick<MergedFields, 'quantity' | 'unit'> = { quantity: first.quantity, unit: first.unit };
+  const withQuantity = items.filter((item) => item.quantity?.trim());
+  if (withQuantity.length > 0) {
+    const quantities = withQuantity.map((item) => parseQuantity(item.quantity, item.unit));
+    if (quantities.some((quantity) => quantity === null)) {
+      return null;
+    }
+    const parsed = quantities as Quantity[];
+    const total = sumQuantities(parsed, parseQuantity(first.quantity, first.unit)?.unit ?? parsed[0].unit);
+    if (!total || parsed.some((quantity) => getCompatibleUnits(quantity.unit)[0] !== getCompatibleUnits(total.unit)[0])) {
+      return null;
+    }
+    quantityFields = toQuantityFields(total);
+  }
+
+  const prices = items.map((item) => item.price).filter((price): price is number => price !== null);
+
+  return {
+    ...quantityFields,
+    expiry_date: earliest(items.map((item) => item.expiry_date)),
+    opened_at: earliest(items.map((item) => item.opened_at)),
+    price: prices.length > 0 ? Math.round(prices.reduce((sum, price) => sum + price, 0) * 100) / 100 : null,
+  };
+};
+
+/**
+ * Plan merging a duplicate group into its oldest item. `null` when the group can't be merged.
+ */
+export const planMerge = (items: MergeableItem[]): MergePlan | null => {
+  if (items.length < 2) {
+    return null;
+  }
+  const [keep, ...rest] = [...items].sort((a, b) => a.added_date.localeCompare(b.added_date));
+  const changes = mergeFields([keep, ...rest]);
+  return changes ? { keepId: keep.id, removeIds: rest.map((item) => item.id), changes } : null;
+};
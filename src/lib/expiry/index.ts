@@ -0,0 +1,168 @@
+import { getOpenedShelfLifeDays } from '@/lib/shelfLife';
+
+export type ExpiryStatus = 'fresh' | 'expiring' | 'use_today' | 'expired';
+
+export type ExpiryOverride = {
+  /** Matches items of this category (case-insensitive), or any category when `null`. */
+  category: string | null;
+  /** Matches items in this storage location, or any location when `null`. */
+  storageLocationId: string | null;
+  days: number;
+};
+
+export type ExpiryRules = {
+  /** How many days ahead an item counts as expiring soon. */
+  expiringSoonDays: number;
+  overrides: ExpiryOverride[];
+  /** IANA timezone whose calendar decides what "today" is. Falls back to the device timezone. */
+  timeZone: string | null;
+};
+
+export type ExpiryItem = {
+  expiry_date: string | null;
+  name?: string;
+  category?: string | null;
+  storage_location_id?: string | null;
+  opened_at?: string | null;
+};
+
+export const DEFAULT_EXPIRING_SOON_DAYS = 7;
+
+export const DEFAULT_EXPIRY_RULES: ExpiryRules = {
+  expiringSoonDays: DEFAULT_EXPIRING_SOON_DAYS,
+  overrides: [],
+  timeZone: null,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const getDeviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Today's calendar date (`YYYY-MM-DD`) in the given timezone.
+ */
+export const getTodayInTimeZone = (timeZone: string | null, now: Date = new Date()): string => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timeZone ?? undefined,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).formatToParts(now);
+    const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((candidate) => candidate.type === type)?.value;
+    return `${part('year')}-${part('month')}-${part('day')}`;
+  } catch {
+    // Unknown timezone names throw; the device calendar is the best remaining guess.
+    return getTodayInTimeZone(null, now);
+  }
+};
+
+const toUtcDay = (dateOnly: string) => {
+  const [year, month, day] = dateOnly.slice(0, 10).split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+/**
+ * Whole calendar days from `today` until `expiryDate`; negative once it has passed.
+ */
+export const getDaysUntilExpiry = (expiryDate: string, today: string) =>
+  Math.round((toUtcDay(expiryDate) - toUtcDay(today)) / MS_PER_DAY);
+
+const addDaysToDateOnly = (dateOnly: string, days: number) =>
+  new Date(toUtcDay(dateOnly) + days * MS_PER_DAY).toISOString().slice(0, 10);
+
+/**
+ * The date an item should be used by: the printed date, or the end of its after-opening
+ * shelf life if it has been opened and that comes first.
+ */
+export const getEffectiveExpiryDate = (item: ExpiryItem, timeZone: string | null = null): string | null => {
+  if (!item.opened_at || !item.name) {
+    return item.expiry_date;
+  }
+
+  const openedDays = getOpenedShelfLifeDays({ name: item.name, category: item.category });
+  if (openedDays === null) {
+    return item.expiry_date;
+  }
+
+  const openedExpiry = addDaysToDateOnly(getTodayInTimeZone(timeZone, new Date(item.opened_at)), openedDays);
+  if (!item.expiry_date || openedExpiry < item.expiry_date.slice(0, 10)) {
+    return openedExpiry;
+  }
+  return item.expiry_date;
+};
+
+const normalizeCategory = (category: string | null | undefined) => category?.trim().toLowerCase() || null;
+
+/**
+ * Pick the expiring-soon window for an item. Overrides matching both category and location win over
+ * category-only ones, which win over location-only ones, which win over the user's default.
+ */
+export const resolveExpiringSoonDays = (item: ExpiryItem, rules: ExpiryRules) => {
+  const category = normalizeCategory(item.category);
+  let best: { override: ExpiryOverride; specificity: number } | null = null;
+
+  for (const override of rules.overrides) {
+    const overrideCategory = normalizeCategory(override.category);
+    if (overrideCategory && overrideCategory !== category) {
+      continue;
+    }
+    if (override.storageLocationId && override.storageLocationId !== item.storage_location_id) {
+      continue;
+    }
+    const specificity = (overrideCategory ? 2 : 0) + (override.storageLocationId ? 1 : 0);
+    if (specificity > 0 && (!best || specificity > best.specificity)) {
+      best = { override, specificity };
+    }
+  }
+
+  return best?.override.days ?? rules.expiringSoonDays;
+};
+
+/**
+ * Classify an item by how close it is to its expiry date
+ */
+export const getExpiryStatus = (
+  item: ExpiryItem,
+  rules: ExpiryRules = DEFAULT_EXPIRY_RULES,
+  now: Date = new Date(),
+): ExpiryStatus => {
+  const expiryDate = getEffectiveExpiryDate(item, rules.timeZone);
+  if (!expiryDate) {
+    return 'fresh';
+  }
+
+  const daysLeft = getDaysUntilExpiry(expiryDate, getTodayInTimeZone(rules.timeZone, now));
+  if (daysLeft < 0) return 'expired';
+  if (daysLeft === 0) return 'use_today';
+  if (daysLeft <= resolveExpiringSoonDays(item, rules)) return 'expiring';
+  return 'fresh';
+};
+
+/**
+ * Count items that need attention soon: expiring within their window or due today
+ */
+export const countExpiringSoon = (items: ExpiryItem[], rules: ExpiryRules = DEFAULT_EXPIRY_RULES, now = new Date()) =>
+  items.filter((item) => {
+    const status = getExpiryStatus(item, rules, now);
+    return status === 'expiring' || status === 'use_today';
+  }).length;
+
+// Expired items stay in the pantry for a few days in case they are still usable.
+export const EXPIRED_GRACE_DAYS = 3;
+
+/**
+ * Items whose effective expiry date passed more than `EXPIRED_GRACE_DAYS` ago, oldest first
+ */
+export const findLongExpiredItems = <T extends ExpiryItem>(
+  items: T[],
+  rules: ExpiryRules = DEFAULT_EXPIRY_RULES,
+  now: Date = new Date(),
+): T[] => {
+  const today = getTodayInTimeZone(rules.timeZone, now);
+  return items
+    .map((item) => ({ item, expiryDate: getEffectiveExpiryDate(item, rules.timeZone) }))
+    .filter(({ expiryDate }) => expiryDate !== null && getDaysUntilExpiry(expiryDate, today) < -EXPIRED_GRACE_DAYS)
+    .sort((a, b) => a.expiryDate!.localeCompare(b.expiryDate!))
+    .map(({ item }) => item);
+};
@@ -0,0 +1,25 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const getKeptExpiredKey = (userId: string) => `food-storage-kept-expired-${userId}`;
+
+/**
+ * Ids of long-expired items the user chose to keep, so they aren't offered for the waste log again.
+ */
+export const getKeptExpiredIds = async (userId: string): Promise<string[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(getKeptExpiredKey(userId));
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch (error) {
+    console.warn('Failed to load kept expired items', error);
+    return [];
+  }
+};
+
+/**
+ * Remember that the user kept these long-expired items. Returns every kept id.
+ */
+export const keepExpiredItems = async (userId: string, itemIds: string[]) => {
+  const kept = [...new Set([...(await getKeptExpiredIds(userId)), ...itemIds])];
+  await AsyncStorage.setItem(getKeptExpiredKey(userId), JSON.stringify(kept));
+  return kept;
+};
@@ -0,0 +1,30 @@
+import { Constants, type Database } from '@/lib/supabase/types';
+
+export type HouseholdRole = Database['public']['Enums']['household_role'];
+
+export const HOUSEHOLD_ROLES: readonly HouseholdRole[] = Constants.public.Enums.household_role;
+
+/**
+ * Viewers can look at the pantry; everyone else can change it.
+ * The database enforces the same rule (`can_edit_household`); this only decides what the UI offers.
+ */
+export const canEditPantry = (role: HouseholdRole | null | undefined) => role === 'owner' || role === 'member';
+
+/**
+ * Only owners rename the household, change roles, remove members and rotate the invite code.
+ * Enforced by the household policies in `supabase/migrations` as well.
+ */
+export const canManageHousehold = (role: HouseholdRole | null | undefined) => role === 'owner';
+
+/**
+ * Turn whatever the user typed ("abcd-efgh ", "ABCD EFGH") into the stored form.
+ */
+export const normalizeInviteCode = (input: string) => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Split a code in two halves ("ABCD-EFGH") so it is easier to read and share.
+ */
+export const formatInviteCode = (code: string) => {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)}-${code.slice(half)}`;
+};
@@ -0,0 +1,141 @@
+import { ConsumptionError } from '@/lib/consumption';
+import { getEffectiveExpiryDate, type ExpiryItem } from '@/lib/expiry';
+import {
+  compareQuantities,
+  getCompatibleUnits,
+  parseQuantity,
+  subtractQuantities,
+  sumQuantities,
+  type Quantity,
+} from '@/lib/quantity';
+import { normalizeProductName } from '@/lib/shelfLife';
+import type { Database } from '@/lib/supabase/types';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+
+/** A storage item seen as one lot (one purchase) of a product. */
+export type LotItem = ExpiryItem & Pick<StorageItem, 'id' | 'name' | 'quantity' | 'unit' | 'added_date'>;
+
+export type PantryProduct<T extends LotItem> = {
+  key: string;
+  /** Name of the lot that will be used first. */
+  name: string;
+  /** Lots in the order they should be used: first-expiring-first-out. */
+  lots: T[];
+  /** Everything left across the lots, or `null` when a lot has no measurable quantity. */
+  total: Quantity | null;
+  /** When the first lot expires, taking opened lots' shorter shelf life into account. */
+  nextExpiry: string | null;
+};
+
+/** One step of taking an amount out of a product: how much comes out of which lot. */
+export type LotConsumption<T extends LotItem> = {
+  lot: T;
+  amount: Quantity | 'all';
+};
+
+/**
+ * Units that can't be added together (grams and packs) make separate products. Units we don't
+ * recognise only match themselves.
+ */
+const getUnitGroup = (item: Pick<StorageItem, 'quantity' | 'unit'>) => {
+  const quantity = parseQuantity(item.quantity, item.unit);
+  if (quantity) {
+    return getCompatibleUnits(quantity.unit)[0];
+  }
+  return item.unit?.trim().toLowerCase() ?? '';
+};
+
+/**
+ * Lots sharing this key belong to the same product. `null` for names that normalise to nothing.
+ */
+export const getProductLotsKey = (item: Pick<StorageItem, 'name' | 'quantity' | 'unit'>) => {
+  const name = normalizeProductName(item.name);
+  return name ? `${name}|${getUnitGroup(item)}` : null;
+};
+
+/**
+ * Order lots first-expiring-first-out. Lots without a date go last; on the same date opened lots
+ * come first, then the oldest purchase.
+ */
+export const sortLotsFefo = <T extends LotItem>(lots: T[], timeZone: string | null = null): T[] => {
+  const expiries = new Map(lots.map((lot) => [lot.id, getEffectiveExpiryDate(lot, timeZone)?.slice(0, 10) ?? null]));
+  return [...lots].sort((a, b) => {
+    const expiryA = expiries.get(a.id) ?? null;
+    const expiryB = expiries.get(b.id) ?? null;
+    if (expiryA !== expiryB) {
+      if (expiryA === null) {
+        return 1;
+      }
+      if (expiryB === null) {
+        return -1;
+      }
+      return expiryA.localeCompare(expiryB);
+    }
+    if (Boolean(a.opened_at) !== Boolean(b.opened_at)) {
+      return a.opened_at ? -1 : 1;
+    }
+    return a.added_date.localeCompare(b.added_date);
+  });
+};
+
+/**
+ * Group storage items into products with their lots. Products keep the order in which their first
+ * item appears in `items`.
+ */
+export const groupLots = <T extends LotItem>(items: T[], timeZone: string | null = null): PantryProduct<T>[] => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = getProductLotsKey(item) ?? item.id;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+
+  return [...groups.entries()].map(([key, group]) => {
+    const lots = sortLotsFefo(group, timeZone);
+    const quantities = lots.map((lot) => parseQuantity(lot.quantity, lot.unit));
+    const measurable = quantities.every((quantity): quantity is Quantity => quantity !== null);
+    return {
+      key,
+      name: lots[0].name,
+      lots,
+      total: measurable ? sumQuantities(quantities) : null,
+      nextExpiry: getEffectiveExpiryDate(lots[0], timeZone),
+    };
+  });
+};
+
+/**
+ * Split `amount` over lots already in FEFO order: each lot is used up before the next one is
+ * touched. Lots without a measurable quantity are skipped unless everything is taken, and taking
+ * more than there is simply uses every lot up.
+ */
+export const planLotConsumption = <T extends LotItem>(lots: T[], amount: Quantity | 'all'): LotConsumption<T>[] => {
+  if (amount === 'all') {
+    return lots.map((lot) => ({ lot, amount: 'all' }));
+  }
+
+  const plan: LotConsumption<T>[] = [];
+  let remaining: Quantity = amount;
+  for (const lot of lots) {
+    const available = parseQuantity(lot.quantity, lot.unit);
+    const comparison = available ? compareQuantities(available, remaining) : null;
+    if (!available || comparison === null) {
+      continue;
+    }
+    if (comparison > 0) {
+      plan.push({ lot, amount: remaining });
+      return plan;
+    }
+    plan.push({ lot, amount: 'all' });
+    const left = subtractQuantities(remaining, available);
+    if (!left || left.value <= 0) {
+      return plan;
+    }
+    remaining = left;
+  }
+
+  if (plan.length === 0) {
+    throw new ConsumptionError('noMatchingLot', { unit: amount.unit });
+  }
+  return plan;
+};
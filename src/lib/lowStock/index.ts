@@ -0,0 +1,64 @@
+import { compareQuantities, parseQuantity, sumQuantities, type Quantity } from '@/lib/quantity';
+import { normalizeProductName } from '@/lib/shelfLife';
+import type { Database } from '@/lib/supabase/types';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+export type StockThreshold = Database['public']['Tables']['stock_thresholds']['Row'];
+
+type StockItem = Pick<StorageItem, 'name' | 'quantity' | 'unit'>;
+
+export type LowStockEntry = {
+  threshold: StockThreshold;
+  minimum: Quantity;
+  /** What is left across every entry of the product, in the threshold's unit. */
+  level: Quantity;
+};
+
+/** Thresholds are matched to items by the same key shelf-life overrides and the catalog use. */
+export const getThresholdKey = (name: string) => normalizeProductName(name);
+
+export const getThresholdQuantity = (threshold: Pick<StockThreshold, 'min_quantity' | 'unit'>) =>
+  parseQuantity(threshold.min_quantity, threshold.unit);
+
+/**
+ * How much of a product is left, summed over all its entries in the threshold's unit. Entries
+ * whose quantity can't be parsed or compared (packs against grams) don't count.
+ */
+export const getStockLevel = (
+  items: StockItem[],
+  threshold: Pick<StockThreshold, 'product_key' | 'min_quantity' | 'unit'>,
+): Quantity | null => {
+  const minimum = getThresholdQuantity(threshold);
+  if (!minimum) {
+    return null;
+  }
+  const quantities = items
+    .filter((item) => getThresholdKey(item.name) === threshold.product_key)
+    .map((item) => parseQuantity(item.quantity, item.unit))
+    .filter((quantity): quantity is Quantity => quantity !== null);
+  return sumQuantities(quantities, minimum.unit);
+};
+
+const isBelow = (level: Quantity, minimum: Quantity) => (compareQuantities(level, minimum) ?? 0) < 0;
+
+/**
+ * Staples whose stock is below their minimum, in the order of `thresholds`.
+ */
+export const findLowStock = (items: StockItem[], thresholds: StockThreshold[]): LowStockEntry[] =>
+  thresholds.flatMap((threshold) => {
+    const minimum = getThresholdQuantity(threshold);
+    const level = getStockLevel(items, threshold);
+    return minimum && level && isBelow(level, minimum) ? [{ threshold, minimum, level }] : [];
+  });
+
+/**
+ * Whether taking `removed` out just pushed the stock below the minimum, as opposed to it already
+ * being low. An unknown `removed` amount counts as crossing, so the staple is never missed.
+ */
+export const hasDroppedBelow = (level: Quantity, removed: Quantity | null, minimum: Quantity) => {
+  if (!isBelow(level, minimum)) {
+    return false;
+  }
+  const before = removed ? sumQuantities([level, removed], level.unit) : null;
+  return !before || !isBelow(before, minimum);
+};
@@ -1,5 +1,6 @@
 import Constants from 'expo-constants';
 import * as FileSystem from 'expo-file-system/legacy';
+import { formatAmount, normalizeUnit as normalizeCanonicalUnit, parseAmount } from '@/lib/quantity';
 
 type RecognizeResult = {
   lines: string[];
@@ -51,7 +52,7 @@ const PRICE_AT_END_REGEX =
   /(?:[$€£¥]|USD|EUR|GBP|MXN|CAD)\s*\d+(?:[.,]\d{2})?\s*$|(?:\s|^)\d+[.,]\d{2}\s*$/i;
 const MULTIPLIER_REGEX = /(?<quantity>\d+)\s?(?:x|X)\b/;
 const QUANTITY_UNIT_REGEX =
-  /(?<quantity>\d+(?:[.,]\d+)?)(?:\s?)(?<unit>kg|g|mg|lb|lbs|oz|l|ml|cl|pcs?|pc|pack|pkt|pkg|bag|ct|ea|units?)/i;
+  /(?<quantity>\d+(?:[.,]\d+)?)(?:\s?)(?<unit>kg|g|mg|lb|lbs|oz|l|ml|cl|dl|pcs?|pc|pack|pkt|pkg|bag|ct|ea|units?)/i;
 
 const STOP_WORDS = [
   'subtotal',
@@ -85,24 +86,16 @@ const normalizeUnit = (unit?: string): string => {
   if (!unit) {
     return DEFAULT_UNIT;
   }
-  const normalized = unit.toLowerCase();
-  if (['lb', 'lbs'].includes(normalized)) {
-    return 'lb';
-  }
-  if (normalized === 'pc' || normalized === 'pcs' || normalized.startsWith('unit') || normalized === 'ea') {
-    return DEFAULT_UNIT;
-  }
-  if (normalized === 'pkt' || normalized === 'pkg' || normalized === 'pack' || normalized === 'bag') {
-    return 'pack';
-  }
-  return normalized;
+  // Unknown receipt units (e.g. "bottle") are kept so the user can still see them in review.
+  return normalizeCanonicalUnit(unit) ?? unit.toLowerCase();
 };
 
 const sanitizeQuantity = (value?: string): string => {
   if (!value) {
     return '1';
   }
-  return value.replace(',', '.');
+  const amount = parseAmount(value);
+  return amount === null ? value.replace(',', '.') : formatAmount(amount);
 };
 
 const shouldIgnoreLine = (line: string): boolean => {
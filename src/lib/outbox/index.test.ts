@@ -0,0 +1,210 @@
+import type { Database } from '@/lib/supabase/types';
+import { buildOptimisticItem, createOutbox, type OutboxMutation, type OutboxTransport } from './index';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+
+const newItem = (id: string, overrides: Partial<StorageItem> = {}) => ({
+  id,
+  household_id: 'household-1',
+  user_id: 'user-1',
+  storage_location_id: 'fridge',
+  name: 'Milk',
+  quantity: '1',
+  unit: 'l',
+  ...overrides,
+});
+
+/**
+ * An in-memory stand-in for Supabase. While `online` is false every call fails the way `fetch`
+ * does without a connection.
+ */
+const createFakeServer = (rows: StorageItem[] = []) => {
+  const items = new Map(rows.map((row) => [row.id, row]));
+  const calls: string[] = [];
+  let online = true;
+  let clock = Date.parse('2026-03-10T12:00:00Z');
+
+  const connect = (call: string) => {
+    if (!online) {
+      throw new TypeError('Network request failed');
+    }
+    calls.push(call);
+  };
+  const tick = () => new Date((clock += 1000)).toISOString();
+
+  const transport: OutboxTransport = {
+    createItem: async (values) => {
+      connect(`create ${values.id}`);
+      if (items.has(values.id)) {
+        throw Object.assign(new Error('duplicate key value'), { code: '23505' });
+      }
+      const row = buildOptimisticItem(values, new Date(tick()));
+      items.set(row.id, row);
+      return row;
+    },
+    updateItem: async (itemId, changes) => {
+      connect(`update ${itemId}`);
+      const existing = items.get(itemId);
+      if (!existing) {
+        throw new Error('Item not found');
+      }
+      const row = { ...existing, ...changes, updated_at: tick() } as StorageItem;
+      items.set(itemId, row);
+      return row;
+    },
+    deleteItem: async (itemId) => {
+      connect(`delete ${itemId}`);
+      items.delete(itemId);
+    },
+    fetchItem: async (itemId) => {
+      connect(`fetch ${itemId}`);
+      return items.get(itemId) ?? null;
+    },
+  };
+
+  return {
+    transport,
+    items,
+    calls,
+    setOnline: (value: boolean) => {
+      online = value;
+    },
+    /** Someone else changing a row, as if from another device. */
+    edit: (itemId: string, changes: Partial<StorageItem>) => {
+      items.set(itemId, { ...items.get(itemId)!, ...changes, updated_at: tick() });
+    },
+  };
+};
+
+const createMemoryStore = (initial: OutboxMutation[] = []) => {
+  let saved = initial;
+  return {
+    load: async () => saved,
+    save: async (queue: OutboxMutation[]) => {
+      saved = queue;
+    },
+    get saved() {
+      return saved;
+    },
+  };
+};
+
+const setup = (server = createFakeServer(), store = createMemoryStore()) => {
+  let nextId = 0;
+  const onRejected = jest.fn();
+  const outbox = createOutbox({
+    transport: server.transport,
+    store,
+    generateId: () => `mutation-${(nextId += 1)}`,
+    now: () => new Date('2026-03-10T13:00:00Z'),
+    onRejected,
+  });
+  return { server, store, outbox, onRejected };
+};
+
+describe('createOutbox', () => {
+  it('keeps writes made offline and replays them in order once back online', async () => {
+    const { server, store, outbox } = setup(createFakeServer([buildOptimisticItem(newItem('bread'))]));
+    server.setOnline(false);
+
+    await outbox.enqueue({ kind: 'create', values: newItem('milk') });
+    await outbox.enqueue({ kind: 'delete', itemId: 'bread' });
+
+    expect(await outbox.flush()).toEqual({ replayed: 0, rejected: 0, offline: true });
+    expect(store.saved.map((mutation) => mutation.kind)).toEqual(['create', 'delete']);
+
+    server.setOnline(true);
+    expect(await outbox.flush()).toEqual({ replayed: 2, rejected: 0, offline: false });
+    expect(server.calls).toEqual(['create milk', 'delete bread']);
+    expect([...server.items.keys()]).toEqual(['milk']);
+    expect(store.saved).toEqual([]);
+  });
+
+  it('replays a queue left on the device by an earlier session', async () => {
+    const first = setup();
+    first.server.setOnline(false);
+    await first.outbox.enqueue({ kind: 'create', values: newItem('milk') });
+
+    const { server, outbox } = setup(createFakeServer(), createMemoryStore(first.store.saved));
+    await outbox.flush();
+
+    expect(server.items.get('milk')).toMatchObject({ name: 'Milk', quantity: '1' });
+  });
+
+  it('sends an item created offline once, with the edits made to it since', async () => {
+    const { server, outbox } = setup();
+    server.setOnline(false);
+
+    await outbox.enqueue({ kind: 'create', values: newItem('milk') });
+    await outbox.enqueue({ kind: 'update', itemId: 'milk', changes: { quantity: '0.5' }, base: null });
+    server.setOnline(true);
+    await outbox.flush();
+
+    expect(server.calls).toEqual(['create milk']);
+    expect(server.items.get('milk')).toMatchObject({ quantity: '0.5' });
+  });
+
+  it('sends nothing for an item created and deleted while offline', async () => {
+    const { server, outbox } = setup();
+    server.setOnline(false);
+
+    await outbox.enqueue({ kind: 'create', values: newItem('milk') });
+    await outbox.enqueue({ kind: 'delete', itemId: 'milk' });
+    server.setOnline(true);
+
+    expect(await outbox.flush()).toEqual({ replayed: 0, rejected: 0, offline: false });
+    expect(server.calls).toEqual([]);
+  });
+
+  it('counts both deductions when someone else used the same item meanwhile', async () => {
+    const milk = buildOptimisticItem(newItem('milk', { quantity: '1000', unit: 'ml' }), new Date('2026-03-10T08:00:00Z'));
+    const { server, outbox } = setup(createFakeServer([milk]));
+    server.setOnline(false);
+
+    await outbox.enqueue({
+      kind: 'update',
+      itemId: 'milk',
+      changes: { quantity: '800' },
+      base: { quantity: milk.quantity, unit: milk.unit, updated_at: milk.updated_at },
+    });
+    server.edit('milk', { quantity: '700' });
+    server.setOnline(true);
+    await outbox.flush();
+
+    expect(server.items.get('milk')).toMatchObject({ quantity: '500', unit: 'ml' });
+  });
+
+  it('does not create an item twice when the response to an earlier attempt was lost', async () => {
+    const { server, outbox } = setup(createFakeServer([buildOptimisticItem(newItem('milk'))]));
+
+    await outbox.enqueue({ kind: 'create', values: newItem('milk') });
+
+    expect(await outbox.flush()).toEqual({ replayed: 1, rejected: 0, offline: false });
+    expect(server.calls).toEqual(['create milk', 'fetch milk']);
+  });
+
+  it('drops a write the server refuses and carries on with the rest', async () => {
+    const { server, outbox, onRejected } = setup();
+
+    await outbox.enqueue({ kind: 'update', itemId: 'missing', changes: { name: 'Eggs' }, base: null });
+    await outbox.enqueue({ kind: 'create', values: newItem('milk') });
+    server.transport.fetchItem = async () => {
+      throw new Error('permission denied for table storage_items');
+    };
+
+    expect(await outbox.flush()).toEqual({ replayed: 1, rejected: 1, offline: false });
+    expect(onRejected).toHaveBeenCalledWith(expect.objectContaining({ itemId: 'missing' }), expect.any(Error));
+    expect(server.items.has('milk')).toBe(true);
+    expect(await outbox.getPending()).toEqual([]);
+  });
+
+  it('shares one replay between concurrent flushes', async () => {
+    const { server, outbox } = setup();
+    await outbox.enqueue({ kind: 'create', values: newItem('milk') });
+
+    const [first, second] = await Promise.all([outbox.flush(), outbox.flush()]);
+
+    expect(first).toBe(second);
+    expect(server.calls).toEqual(['create milk']);
+  });
+});
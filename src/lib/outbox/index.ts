@@ -0,0 +1,378 @@
+import { convertQuantity, createQuantity, formatAmount, parseQuantity } from '@/lib/quantity';
+import type { Database } from '@/lib/supabase/types';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+type StorageItemInsert = Database['public']['Tables']['storage_items']['Insert'];
+export type StorageItemChanges = Partial<Omit<StorageItemInsert, 'id' | 'user_id' | 'household_id'>>;
+type UpdateBase = Pick<StorageItem, 'quantity' | 'unit' | 'updated_at'> | null;
+
+type QueuedMutation = {
+  /** Id of the mutation itself, used to drop it from the queue once replayed. */
+  id: string;
+  /** Id of the item it applies to. Items created offline get their id on the device. */
+  itemId: string;
+  /** When the user made the change, used to decide who wrote last. */
+  queuedAt: string;
+};
+
+export type OutboxMutation =
+  | (QueuedMutation & { kind: 'create'; values: StorageItemInsert & { id: string } })
+  | (QueuedMutation & {
+      kind: 'update';
+      changes: StorageItemChanges;
+      /** What the item looked like when the change was made, to detect and merge concurrent edits. */
+      base: UpdateBase;
+    })
+  | (QueuedMutation & { kind: 'delete' });
+
+export type NewOutboxMutation =
+  | { kind: 'create'; values: StorageItemInsert & { id: string } }
+  | { kind: 'update'; itemId: string; changes: StorageItemChanges; base: UpdateBase }
+  | { kind: 'delete'; itemId: string };
+
+/**
+ * The network side of the outbox. The app talks to Supabase; tests can pass an in-memory fake.
+ */
+export type OutboxTransport = {
+  createItem: (values: StorageItemInsert & { id: string }) => Promise<StorageItem>;
+  updateItem: (itemId: string, changes: StorageItemChanges) => Promise<StorageItem>;
+  deleteItem: (itemId: string) => Promise<void>;
+  fetchItem: (itemId: string) => Promise<StorageItem | null>;
+};
+
+export type OutboxStore = {
+  load: () => Promise<OutboxMutation[]>;
+  save: (queue: OutboxMutation[]) => Promise<void>;
+};
+
+export type FlushResult = {
+  replayed: number;
+  rejected: number;
+  /** `true` when replay stopped early because the network is unavailable. */
+  offline: boolean;
+};
+
+type OutboxOptions = {
+  transport: OutboxTransport;
+  store: OutboxStore;
+  isNetworkError?: (error: unknown) => boolean;
+  generateId?: () => string;
+  now?: () => Date;
+  onChange?: (queue: OutboxMutation[]) => void;
+  /** A mutation the server refused for a reason other than connectivity. It is dropped from the queue. */
+  onRejected?: (mutation: OutboxMutation, error: unknown) => void;
+};
+
+/** Where a user's queue is kept on the device. Each account has its own, so one never replays another's. */
+export const getOutboxKey = (userId: string) => `food-storage-outbox-${userId}`;
+
+const NETWORK_ERROR_PATTERN = /network|fetch|timed? ?out|offline|connection/i;
+
+/**
+ * Whether a failure means "try again later" rather than "the server said no".
+ */
+export const isNetworkError = (error: unknown) => {
+  if (error instanceof TypeError) {
+    return true;
+  }
+  const message = error && typeof error === 'object' && 'message' in error ? String(error.message) : '';
+  return NETWORK_ERROR_PATTERN.test(message);
+};
+
+const isDuplicateKeyError = (error: unknown) =>
+  Boolean(error && typeof error === 'object' && 'code' in error && error.code === '23505');
+
+/**
+ * A random RFC 4122 version 4 id, good enough for rows created on the device.
+ */
+export const generateClientId = () =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+
+/**
+ * The row a newly created item will have once the server has filled in its defaults.
+ */
+export const buildOptimisticItem = (values: StorageItemInsert & { id: string }, now: Date = new Date()): StorageItem => {
+  const timestamp = now.toISOString();
+  return {
+    added_date: timestamp,
+    archived_at: null,
+    category: null,
+    created_at: timestamp,
+    expiry_date: null,
+    notes: null,
+    opened_at: null,
+    price: null,
+    quantity: null,
+    unit: null,
+    updated_at: timestamp,
+    ...values,
+  };
+};
+
+/**
+ * Add a mutation to the queue, folding it into earlier ones for the same item where possible:
+ * edits to an item that was never sent become part of its create, and deleting such an item
+ * drops it entirely. The mutation with id `lockedId` is being replayed and is left alone.
+ */
+export const coalesceMutation = (
+  queue: OutboxMutation[],
+  mutation: OutboxMutation,
+  lockedId: string | null = null,
+): OutboxMutation[] => {
+  const pendingCreate = queue.find(
+    (queued) => queued.kind === 'create' && queued.itemId === mutation.itemId && queued.id !== lockedId,
+  );
+
+  if (mutation.kind === 'update') {
+    if (pendingCreate?.kind === 'create') {
+      return queue.map((queued) =>
+        queued === pendingCreate ? { ...pendingCreate, values: { ...pendingCreate.values, ...mutation.changes } } : queued,
+      );
+    }
+    const last = [...queue].reverse().find((queued) => queued.itemId === mutation.itemId);
+    if (last?.kind === 'update' && last.id !== lockedId) {
+      return queue.map((queued) =>
+        queued === last
+          ? { ...last, changes: { ...last.changes, ...mutation.changes }, queuedAt: mutation.queuedAt }
+          : queued,
+      );
+    }
+    return [...queue, mutation];
+  }
+
+  if (mutation.kind === 'delete') {
+    if (pendingCreate) {
+      return queue.filter((queued) => queued.itemId !== mutation.itemId || queued.id === lockedId);
+    }
+    return [
+      ...queue.filter(
+        (queued) => queued.itemId !== mutation.itemId || queued.kind !== 'update' || queued.id === lockedId,
+      ),
+      mutation,
+    ];
+  }
+
+  return [...queue, mutation];
+};
+
+/**
+ * Re-apply a quantity change on top of whatever the server holds now, so two people using up
+ * the same item offline both get counted: server + (local − base). `null` when the quantities
+ * can't be parsed or compared, in which case the caller falls back to last-writer-wins.
+ */
+export const mergeQuantity = (
+  base: Pick<StorageItem, 'quantity' | 'unit'>,
+  local: Pick<StorageItem, 'quantity' | 'unit'>,
+  server: Pick<StorageItem, 'quantity' | 'unit'>,
+): Pick<StorageItem, 'quantity' | 'unit'> | null => {
+  const baseQuantity = parseQuantity(base.quantity, base.unit);
+  const localQuantity = parseQuantity(local.quantity, local.unit);
+  const serverQuantity = parseQuantity(server.quantity, server.unit);
+  if (!baseQuantity || !localQuantity || !serverQuantity) {
+    return null;
+  }
+
+  const baseInServerUnit = convertQuantity(baseQuantity, serverQuantity.unit);
+  const localInServerUnit = convertQuantity(localQuantity, serverQuantity.unit);
+  if (!baseInServerUnit || !localInServerUnit) {
+    return null;
+  }
+
+  const merged = createQuantity(
+    Math.max(0, serverQuantity.value + localInServerUnit.value - baseInServerUnit.value),
+    serverQuantity.unit,
+  );
+  return { quantity: formatAmount(merged.value), unit: merged.unit };
+};
+
+const parseTime = (value: string | null | undefined) => (value ? Date.parse(value) : Number.NaN);
+
+/**
+ * Decide what a queued update should write, given the item as the server holds it now.
+ * Without a concurrent edit the update goes through unchanged. Otherwise the later writer wins
+ * field by field, except quantity, where both changes are merged.
+ */
+export const resolveUpdate = (
+  mutation: Extract<OutboxMutation, { kind: 'update' }>,
+  server: StorageItem,
+): StorageItemChanges => {
+  const { changes, base } = mutation;
+  const serverChanged = !base || parseTime(server.updated_at) > parseTime(base.updated_at);
+  if (!serverChanged) {
+    return changes;
+  }
+
+  const localIsNewer = parseTime(mutation.queuedAt) >= parseTime(server.updated_at);
+  const { quantity, unit, ...otherChanges } = changes;
+  const resolved: StorageItemChanges = localIsNewer ? { ...otherChanges } : {};
+
+  if (quantity !== undefined) {
+    const merged = base
+      ? mergeQuantity(base, { quantity, unit: unit !== undefined ? unit : base.unit }, server)
+      : null;
+    if (merged) {
+      Object.assign(resolved, merged);
+    } else if (localIsNewer) {
+      Object.assign(resolved, unit !== undefined ? { quantity, unit } : { quantity });
+    }
+  } else if (unit !== undefined && localIsNewer) {
+    resolved.unit = unit;
+  }
+
+  return resolved;
+};
+
+/**
+ * Lay the queued mutations over rows fetched from the server, so a refetch doesn't undo
+ * changes that haven't been replayed yet.
+ */
+export const applyPendingMutations = <Row extends StorageItem>(
+  rows: Row[],
+  queue: OutboxMutation[],
+  toRow: (item: StorageItem, existing: Row | undefined) => Row | null,
+): Row[] =>
+  queue.reduce<Row[]>((current, mutation) => {
+    const existing = current.find((row) => row.id === mutation.itemId);
+    if (mutation.kind === 'delete') {
+      return existing ? current.filter((row) => row !== existing) : current;
+    }
+    const item =
+      mutation.kind === 'create'
+        ? (existing ?? buildOptimisticItem(mutation.values, new Date(mutation.queuedAt)))
+        : existing
+          ? { ...existing, ...mutation.changes }
+          : null;
+    if (!item) {
+      return current;
+    }
+    const next = toRow(item, existing);
+    if (!next || next.archived_at) {
+      return existing ? current.filter((row) => row !== existing) : current;
+    }
+    return existing ? current.map((row) => (row === existing ? next : row)) : [next, ...current];
+  }, rows);
+
+/**
+ * A persisted, ordered queue of storage item writes that replays them when the network allows.
+ */
+export const createOutbox = ({
+  transport,
+  store,
+  isNetworkError: isRetryable = isNetworkError,
+  generateId = generateClientId,
+  now = () => new Date(),
+  onChange,
+  onRejected,
+}: OutboxOptions) => {
+  let queue: OutboxMutation[] = [];
+  let loading: Promise<void> | null = null;
+  let flushing: Promise<FlushResult> | null = null;
+  let replayingId: string | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    loading ??= store.load().then((stored) => {
+      queue = [...stored, ...queue];
+      onChange?.(queue);
+    });
+    return loading;
+  };
+
+  const setQueue = (next: OutboxMutation[]) => {
+    queue = next;
+    onChange?.(queue);
+    // Writes are chained so an older snapshot can never land after a newer one.
+    saving = saving.catch(() => undefined).then(() => store.save(next));
+    return saving;
+  };
+
+  const replay = async (mutation: OutboxMutation) => {
+    switch (mutation.kind) {
+      case 'create':
+        try {
+          return await transport.createItem(mutation.values);
+        } catch (error) {
+          // An earlier attempt reached the server but its response was lost.
+          if (isDuplicateKeyError(error)) {
+            return transport.fetchItem(mutation.itemId);
+          }
+          throw error;
+        }
+      case 'update': {
+        const server = await transport.fetchItem(mutation.itemId);
+        // Deleted elsewhere in the meantime: nothing left to update.
+        if (!server) {
+          return null;
+        }
+        const changes = resolveUpdate(mutation, server);
+        return Object.keys(changes).length > 0 ? transport.updateItem(mutation.itemId, changes) : server;
+      }
+      case 'delete':
+        await transport.deleteItem(mutation.itemId);
+        return null;
+    }
+  };
+
+  const runFlush = async (): Promise<FlushResult> => {
+    await load();
+    const result: FlushResult = { replayed: 0, rejected: 0, offline: false };
+
+    while (queue.length > 0) {
+      const mutation = queue[0];
+      replayingId = mutation.id;
+      try {
+        await replay(mutation);
+        result.replayed += 1;
+      } catch (error) {
+        if (isRetryable(error)) {
+          result.offline = true;
+          break;
+        }
+        result.rejected += 1;
+        onRejected?.(mutation, error);
+      } finally {
+        replayingId = null;
+      }
+      await setQueue(queue.filter((queued) => queued.id !== mutation.id));
+    }
+
+    return result;
+  };
+
+  return {
+    /**
+     * Queue a write. Returns once it is persisted, not once it reaches the server.
+     */
+    enqueue: async (mutation: NewOutboxMutation) => {
+      await load();
+      const queued = {
+        ...mutation,
+        id: generateId(),
+        itemId: mutation.kind === 'create' ? mutation.values.id : mutation.itemId,
+        queuedAt: now().toISOString(),
+      } as OutboxMutation;
+      await setQueue(coalesceMutation(queue, queued, replayingId));
+      return queued;
+    },
+
+    /**
+     * Replay queued writes in order. Concurrent calls share the same run.
+     */
+    flush: () => {
+      flushing ??= runFlush().finally(() => {
+        flushing = null;
+      });
+      return flushing;
+    },
+
+    getPending: async () => {
+      await load();
+      return queue;
+    },
+  };
+};
+
+export type Outbox = ReturnType<typeof createOutbox>;
@@ -0,0 +1,62 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getOutboxKey, type Outbox, type OutboxMutation, type OutboxStore } from './index';
+
+// The queue used to be shared by every account on the device. Nobody can tell whose it was, so it
+// is dropped rather than replayed.
+const LEGACY_OUTBOX_KEY = 'food-storage-outbox';
+
+// Users whose queue was dropped on sign-out. Saves for them are ignored, so a replay that was
+// still running can't write the queue back.
+const clearedUsers = new Set<string>();
+
+// The outbox OutboxProvider replays for each signed-in user. Sign-out waits for that same instance,
+// so the queue is never replayed by two outboxes at once.
+const activeOutboxes = new Map<string, Outbox>();
+
+/**
+ * Keeps one user's outbox on the device so queued changes survive the app being closed.
+ */
+export const createUserOutboxStore = (userId: string): OutboxStore => {
+  clearedUsers.delete(userId);
+  return {
+    load: async () => {
+      try {
+        const stored = await AsyncStorage.getItem(getOutboxKey(userId));
+        return stored ? (JSON.parse(stored) as OutboxMutation[]) : [];
+      } catch (error) {
+        console.warn('Failed to load pending changes', error);
+        return [];
+      }
+    },
+    save: async (queue) => {
+      if (!clearedUsers.has(userId)) {
+        await AsyncStorage.setItem(getOutboxKey(userId), JSON.stringify(queue));
+      }
+    },
+  };
+};
+
+/**
+ * Remove a user's queued changes from the device.
+ */
+export const clearUserOutbox = async (userId: string) => {
+  clearedUsers.add(userId);
+  await AsyncStorage.multiRemove([getOutboxKey(userId), LEGACY_OUTBOX_KEY]);
+};
+
+/**
+ * Make `outbox` the one replaying `userId`'s queue. Returns a function that undoes it.
+ */
+export const setActiveOutbox = (userId: string, outbox: Outbox) => {
+  activeOutboxes.set(userId, outbox);
+  return () => {
+    if (activeOutboxes.get(userId) === outbox) {
+      activeOutboxes.delete(userId);
+    }
+  };
+};
+
+/**
+ * The outbox replaying `userId`'s queue, if the app has one running.
+ */
+export const getActiveOutbox = (userId: string) => activeOutboxes.get(userId) ?? null;
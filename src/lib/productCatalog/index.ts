@@ -0,0 +1,131 @@
+import { normalizeProductName } from '@/lib/shelfLife';
+import type { Database } from '@/lib/supabase/types';
+
+export type CatalogProduct = Database['public']['Tables']['product_catalog']['Row'];
+
+/**
+ * What one saved item (or one reviewed receipt line) tells us about a product.
+ */
+export type ProductObservation = {
+  name: string;
+  /** Another spelling of the same product, e.g. the raw receipt text it was read from. */
+  alias?: string | null;
+  unit?: string | null;
+  category?: string | null;
+  storageLocationId?: string | null;
+  shelfLifeDays?: number | null;
+  /** How many times the product was bought. Defaults to 1; use 0 to only record an alias. */
+  uses?: number;
+};
+
+type CatalogEntry = Omit<CatalogProduct, 'id' | 'created_at' | 'updated_at' | 'user_id'>;
+
+const foldText = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** Catalog key for a product name, shared with shelf-life overrides so both group names the same way. */
+export const getProductKey = (name: string) => normalizeProductName(name);
+
+const addAlias = (aliases: string[], canonical: string, alias: string | null | undefined) => {
+  const trimmed = alias?.replace(/\s+/g, ' ').trim();
+  if (!trimmed) {
+    return aliases;
+  }
+  const folded = foldText(trimmed);
+  if (folded === foldText(canonical) || aliases.some((existing) => foldText(existing) === folded)) {
+    return aliases;
+  }
+  return [...aliases, trimmed];
+};
+
+/**
+ * Fold an observation into a catalog entry. The first name seen stays the canonical one and
+ * other spellings become aliases; unit, category, location and shelf life follow the latest
+ * purchase that had them, since that's what the user is most likely to do again.
+ */
+export const learnProduct = (
+  existing: CatalogEntry | undefined,
+  observation: ProductObservation,
+  now: Date = new Date(),
+): CatalogEntry => {
+  const name = observation.name.replace(/\s+/g, ' ').trim();
+  const canonical = existing?.name ?? name;
+  const aliases = addAlias(addAlias(existing?.aliases ?? [], canonical, name), canonical, observation.alias);
+
+  return {
+    product_key: existing?.product_key ?? getProductKey(name),
+    name: canonical,
+    aliases,
+    default_unit: observation.unit?.trim() || existing?.default_unit || null,
+    category: observation.category?.trim() || existing?.category || null,
+    storage_location_id: observation.storageLocationId ?? existing?.storage_location_id ?? null,
+    shelf_life_days: observation.shelfLifeDays ?? existing?.shelf_life_days ?? null,
+    use_count: (existing?.use_count ?? 0) + (observation.uses ?? 1),
+    last_used_at: observation.uses === 0 && existing ? existing.last_used_at : now.toISOString(),
+  };
+};
+
+/**
+ * The catalog product a name refers to, by key or by one of its aliases.
+ */
+export const findCatalogProduct = <Product extends Pick<CatalogProduct, 'name' | 'product_key' | 'aliases'>>(
+  products: Product[],
+  name: string,
+): Product | null => {
+  const key = getProductKey(name);
+  const folded = foldText(name);
+  if (!key && !folded) {
+    return null;
+  }
+  return (
+    products.find((product) => key && product.product_key === key) ??
+    products.find((product) => product.aliases.some((alias) => foldText(alias) === folded)) ??
+    null
+  );
+};
+
+const matchRank = (text: string, query: string): number | null => {
+  const folded = foldText(text);
+  if (folded.startsWith(query)) {
+    return 0;
+  }
+  if (folded.split(' ').some((word) => word.startsWith(query))) {
+    return 1;
+  }
+  return folded.includes(query) ? 2 : null;
+};
+
+/**
+ * Products matching what the user has typed so far, best first: name starts with the text, then
+ * a word starts with it, then it appears anywhere. Ties go to the products bought most often.
+ */
+export const searchCatalog = <Product extends CatalogProduct>(products: Product[], query: string, limit = 5) => {
+  const folded = foldText(query);
+  if (!folded) {
+    return [];
+  }
+
+  return products
+    .map((product) => {
+      const ranks = [product.name, ...product.aliases]
+        .map((text) => matchRank(text, folded))
+        .filter((rank): rank is number => rank !== null);
+      return { product, rank: ranks.length ? Math.min(...ranks) : null };
+    })
+    .filter((match): match is { product: Product; rank: number } => match.rank !== null)
+    // Nothing left to complete once the name is typed out in full.
+    .filter(({ product }) => foldText(product.name) !== folded)
+    .sort(
+      (a, b) =>
+        a.rank - b.rank ||
+        b.product.use_count - a.product.use_count ||
+        b.product.last_used_at.localeCompare(a.product.last_used_at),
+    )
+    .slice(0, limit)
+    .map(({ product }) => product);
+};
@@ -0,0 +1,362 @@
+export type Dimension = 'mass' | 'volume' | 'count';
+
+export type Unit =
+  | 'mg'
+  | 'g'
+  | 'kg'
+  | 'oz'
+  | 'lb'
+  | 'ml'
+  | 'cl'
+  | 'dl'
+  | 'l'
+  | 'tsp'
+  | 'tbsp'
+  | 'cup'
+  | 'pcs'
+  | 'dozen'
+  | 'pack';
+
+export type Quantity = {
+  value: number;
+  unit: Unit;
+  dimension: Dimension;
+};
+
+type UnitDefinition = {
+  dimension: Dimension;
+  /** Units only convert between each other when they share a family. */
+  family: 'mass' | 'volume' | 'pieces' | 'packs';
+  /** Size of one unit expressed in the family base (g, ml, pcs or packs). */
+  factor: number;
+};
+
+const UNIT_DEFINITIONS: Record<Unit, UnitDefinition> = {
+  mg: { dimension: 'mass', family: 'mass', factor: 0.001 },
+  g: { dimension: 'mass', family: 'mass', factor: 1 },
+  kg: { dimension: 'mass', family: 'mass', factor: 1000 },
+  oz: { dimension: 'mass', family: 'mass', factor: 28.349523125 },
+  lb: { dimension: 'mass', family: 'mass', factor: 453.59237 },
+  ml: { dimension: 'volume', family: 'volume', factor: 1 },
+  cl: { dimension: 'volume', family: 'volume', factor: 10 },
+  dl: { dimension: 'volume', family: 'volume', factor: 100 },
+  l: { dimension: 'volume', family: 'volume', factor: 1000 },
+  tsp: { dimension: 'volume', family: 'volume', factor: 5 },
+  tbsp: { dimension: 'volume', family: 'volume', factor: 15 },
+  cup: { dimension: 'volume', family: 'volume', factor: 240 },
+  pcs: { dimension: 'count', family: 'pieces', factor: 1 },
+  dozen: { dimension: 'count', family: 'pieces', factor: 12 },
+  pack: { dimension: 'count', family: 'packs', factor: 1 },
+};
+
+// English and Spanish spellings seen on receipts, in recipes and in manual input.
+const UNIT_ALIASES: Record<string, Unit> = {
+  mg: 'mg',
+  milligram: 'mg',
+  milligrams: 'mg',
+  miligramo: 'mg',
+  miligramos: 'mg',
+  g: 'g',
+  gr: 'g',
+  grs: 'g',
+  gram: 'g',
+  grams: 'g',
+  gramo: 'g',
+  gramos: 'g',
+  kg: 'kg',
+  kgs: 'kg',
+  kilo: 'kg',
+  kilos: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  kilogramo: 'kg',
+  kilogramos: 'kg',
+  oz: 'oz',
+  ounce: 'oz',
+  ounces: 'oz',
+  onza: 'oz',
+  onzas: 'oz',
+  lb: 'lb',
+  lbs: 'lb',
+  pound: 'lb',
+  pounds: 'lb',
+  libra: 'lb',
+  libras: 'lb',
+  ml: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  mililitro: 'ml',
+  mililitros: 'ml',
+  cl: 'cl',
+  centilitre: 'cl',
+  centiliter: 'cl',
+  centilitro: 'cl',
+  centilitros: 'cl',
+  dl: 'dl',
+  decilitre: 'dl',
+  deciliter: 'dl',
+  l: 'l',
+  lt: 'l',
+  ltr: 'l',
+  litre: 'l',
+  litres: 'l',
+  liter: 'l',
+  liters: 'l',
+  litro: 'l',
+  litros: 'l',
+  tsp: 'tsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  cucharadita: 'tsp',
+  cucharaditas: 'tsp',
+  tbsp: 'tbsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  cucharada: 'tbsp',
+  cucharadas: 'tbsp',
+  cup: 'cup',
+  cups: 'cup',
+  taza: 'cup',
+  tazas: 'cup',
+  pc: 'pcs',
+  pcs: 'pcs',
+  piece: 'pcs',
+  pieces: 'pcs',
+  ea: 'pcs',
+  each: 'pcs',
+  ct: 'pcs',
+  unit: 'pcs',
+  units: 'pcs',
+  ud: 'pcs',
+  uds: 'pcs',
+  unidad: 'pcs',
+  unidades: 'pcs',
+  pieza: 'pcs',
+  piezas: 'pcs',
+  dozen: 'dozen',
+  docena: 'dozen',
+  docenas: 'dozen',
+  pack: 'pack',
+  packs: 'pack',
+  pkt: 'pack',
+  pkg: 'pack',
+  bag: 'pack',
+  bags: 'pack',
+  paquete: 'pack',
+  paquetes: 'pack',
+  bolsa: 'pack',
+  bolsas: 'pack',
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '¼': ' 1/4',
+  '½': ' 1/2',
+  '¾': ' 3/4',
+  '⅓': ' 1/3',
+  '⅔': ' 2/3',
+  '⅛': ' 1/8',
+};
+
+const NUMBER_PATTERN = String.raw`\d+(?:[.,]\d+)?(?:\s+\d+\/\d+)?|\d+\/\d+`;
+const QUANTITY_TEXT_REGEX = new RegExp(`^(?<value>${NUMBER_PATTERN})\\s*(?<unit>[a-záéíóúñ.]+)?$`, 'i');
+
+/**
+ * Resolve a free-text unit (`"Kilos"`, `"tazas"`, `"pcs"`) to its canonical unit.
+ * Returns `null` when the unit is not recognised.
+ */
+export const normalizeUnit = (unit?: string | null): Unit | null => {
+  if (!unit) {
+    return null;
+  }
+  const key = unit.trim().toLowerCase().replace(/\.$/, '');
+  return UNIT_ALIASES[key] ?? null;
+};
+
+/**
+ * Parse a numeric amount: `"2"`, `"1,5"`, `"3/4"`, `"1 1/2"` or `"½"`.
+ */
+export const parseAmount = (value?: string | number | null): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (!value) {
+    return null;
+  }
+
+  let working = value.trim();
+  for (const [glyph, replacement] of Object.entries(UNICODE_FRACTIONS)) {
+    working = working.replace(glyph, replacement);
+  }
+  working = working.trim().replace(',', '.');
+
+  const mixed = working.match(/^(\d+(?:\.\d+)?)?\s*(?:(\d+)\/(\d+))?$/);
+  if (!mixed || (!mixed[1] && !mixed[2])) {
+    return null;
+  }
+
+  const whole = mixed[1] ? Number(mixed[1]) : 0;
+  const fraction = mixed[2] && mixed[3] && Number(mixed[3]) !== 0 ? Number(mixed[2]) / Number(mixed[3]) : 0;
+  const result = whole + fraction;
+  return Number.isFinite(result) ? result : null;
+};
+
+export const createQuantity = (value: number, unit: Unit): Quantity => ({
+  value,
+  unit,
+  dimension: UNIT_DEFINITIONS[unit].dimension,
+});
+
+/**
+ * Build a quantity from the separate quantity/unit strings stored on `storage_items`.
+ * Also accepts the unit inline in the quantity (`"500g"`, `"2 pieces"`).
+ * A missing unit is treated as a piece count; an unknown unit yields `null`.
+ */
+export const parseQuantity = (value?: string | number | null, unit?: string | null): Quantity | null => {
+  if (typeof value === 'number') {
+    const canonical = unit ? normalizeUnit(unit) : 'pcs';
+    return canonical ? createQuantity(value, canonical) : null;
+  }
+  if (!value?.trim()) {
+    return null;
+  }
+
+  const amount = parseAmount(value);
+  if (amount !== null) {
+    const canonical = unit?.trim() ? normalizeUnit(unit) : 'pcs';
+    return canonical ? createQuantity(amount, canonical) : null;
+  }
+
+  const inline = parseQuantityText(value);
+  if (!inline) {
+    return null;
+  }
+  if (unit?.trim() && normalizeUnit(unit) !== inline.unit) {
+    return null;
+  }
+  return inline;
+};
+
+/**
+ * Parse a combined amount and unit such as `"200 g"`, `"1 1/2 cups"` or `"3"`.
+ */
+export const parseQuantityText = (text?: string | null): Quantity | null => {
+  if (!text) {
+    return null;
+  }
+  let working = text.trim();
+  for (const [glyph, replacement] of Object.entries(UNICODE_FRACTIONS)) {
+    working = working.replace(glyph, replacement);
+  }
+  const match = working.trim().match(QUANTITY_TEXT_REGEX);
+  if (!match?.groups) {
+    return null;
+  }
+  const amount = parseAmount(match.groups.value);
+  if (amount === null) {
+    return null;
+  }
+  const unit = match.groups.unit ? normalizeUnit(match.groups.unit) : 'pcs';
+  return unit ? createQuantity(amount, unit) : null;
+};
+
+/**
+ * Units a quantity in `unit` can be converted to, including `unit` itself.
+ */
+export const getCompatibleUnits = (unit: Unit): Unit[] => {
+  const family = UNIT_DEFINITIONS[unit].family;
+  return (Object.keys(UNIT_DEFINITIONS) as Unit[]).filter((candidate) => UNIT_DEFINITIONS[candidate].family === family);
+};
+
+export const areCompatible = (a: Quantity, b: Quantity): boolean =>
+  UNIT_DEFINITIONS[a.unit].family === UNIT_DEFINITIONS[b.unit].family;
+
+/**
+ * Convert a quantity to another unit. Returns `null` across families (grams to pieces, pieces to packs...).
+ */
+export const convertQuantity = (quantity: Quantity, unit: Unit): Quantity | null => {
+  const from = UNIT_DEFINITIONS[quantity.unit];
+  const to = UNIT_DEFINITIONS[unit];
+  if (from.family !== to.family) {
+    return null;
+  }
+  return createQuantity((quantity.value * from.factor) / to.factor, unit);
+};
+
+/**
+ * Add two quantities, expressed in the unit of the first. `null` when incompatible.
+ */
+export const addQuantities = (a: Quantity, b: Quantity): Quantity | null => {
+  const converted = convertQuantity(b, a.unit);
+  return converted ? createQuantity(a.value + converted.value, a.unit) : null;
+};
+
+/**
+ * Subtract `b` from `a` in the unit of `a`, never going below zero. `null` when incompatible.
+ */
+export const subtractQuantities = (a: Quantity, b: Quantity): Quantity | null => {
+  const converted = convertQuantity(b, a.unit);
+  return converted ? createQuantity(Math.max(0, a.value - converted.value), a.unit) : null;
+};
+
+/**
+ * Negative when `a < b`, zero when equal, positive when `a > b`. `null` when incompatible.
+ */
+export const compareQuantities = (a: Quantity, b: Quantity): number | null => {
+  const converted = convertQuantity(b, a.unit);
+  if (!converted) {
+    return null;
+  }
+  const difference = a.value - converted.value;
+  return Math.abs(difference) < 1e-9 ? 0 : difference;
+};
+
+/**
+ * Sum a list of quantities into `unit` (defaults to the first entry's unit), skipping incompatible entries.
+ */
+export const sumQuantities = (quantities: Quantity[], unit?: Unit): Quantity | null => {
+  const target = unit ?? quantities[0]?.unit;
+  if (!target) {
+    return null;
+  }
+  return quantities.reduce<Quantity>((total, quantity) => addQuantities(total, quantity) ?? total, createQuantity(0, target));
+};
+
+const METRIC_STEPS: Partial<Record<Dimension, { unit: Unit; min: number }[]>> = {
+  mass: [
+    { unit: 'kg', min: 1000 },
+    { unit: 'g', min: 1 },
+    { unit: 'mg', min: 0 },
+  ],
+  volume: [
+    { unit: 'l', min: 1000 },
+    { unit: 'ml', min: 0 },
+  ],
+};
+
+/**
+ * Re-express metric quantities in the most readable unit (1500 g → 1.5 kg). Other units are left as-is.
+ */
+export const simplifyQuantity = (quantity: Quantity): Quantity => {
+  const steps = METRIC_STEPS[quantity.dimension];
+  const metricUnits: Unit[] = ['mg', 'g', 'kg', 'ml', 'cl', 'dl', 'l'];
+  if (!steps || !metricUnits.includes(quantity.unit)) {
+    return quantity;
+  }
+  const base = quantity.value * UNIT_DEFINITIONS[quantity.unit].factor;
+  const step = steps.find((candidate) => base >= candidate.min) ?? steps[steps.length - 1];
+  return convertQuantity(quantity, step.unit) ?? quantity;
+};
+
+export const formatAmount = (value: number): string => String(Math.round(value * 1000) / 1000);
+
+export const formatQuantity = (quantity: Quantity): string => `${formatAmount(quantity.value)} ${quantity.unit}`;
+
+/**
+ * Serialise a quantity back into the `quantity`/`unit` string columns.
+ */
+export const toQuantityFields = (quantity: Quantity) => ({
+  quantity: formatAmount(quantity.value),
+  unit: quantity.unit,
+});
@@ -0,0 +1,37 @@
+import type { Query } from '@tanstack/react-query';
+
+/**
+ * Bump whenever the shape of a persisted query changes, so caches written by an older version
+ * are thrown away instead of being read as the new shape.
+ */
+export const QUERY_CACHE_BUSTER = '1';
+
+/** Persisted data older than this is discarded. Also used as the query `gcTime`, so data isn't dropped sooner. */
+export const QUERY_CACHE_MAX_AGE = 1000 * 60 * 60 * 24 * 7;
+
+// What the Home, Storage, Recipes and Profile screens need to render without a connection, plus
+// the product catalog so name suggestions keep working offline.
+const PERSISTED_QUERY_SCOPES = new Set([
+  'storage-items',
+  'storage-item',
+  'storage-statistics',
+  'storage-locations',
+  'expiry-rules',
+  'recipes',
+  'recipe',
+  'favorite-recipes',
+  'product-catalog',
+  'shopping-list',
+  'stock-thresholds',
+  'profile',
+]);
+
+export const getQueryCacheKey = (userId: string) => `food-storage-query-cache-${userId}`;
+
+export const getHouseholdSnapshotKey = (userId: string) => `food-storage-households-${userId}`;
+
+/**
+ * Only successful queries from the scopes above are written to disk.
+ */
+export const shouldPersistQuery = (query: Query) =>
+  query.state.status === 'success' && PERSISTED_QUERY_SCOPES.has(String(query.queryKey[0]));
@@ -0,0 +1,58 @@
+import type { HouseholdMembership } from '@/lib/supabase/householdService';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getHouseholdSnapshotKey, getQueryCacheKey } from './index';
+
+export type HouseholdSnapshot = {
+  households: HouseholdMembership[];
+  activeHouseholdId: string | null;
+};
+
+// Users whose cache was wiped on sign-out. Writes for them are ignored, so a throttled save
+// that was already scheduled can't bring the cache back.
+const clearedUsers = new Set<string>();
+
+/**
+ * A persister that keeps one user's query cache in AsyncStorage.
+ */
+export const createUserQueryPersister = (userId: string) => {
+  clearedUsers.delete(userId);
+  return createAsyncStoragePersister({
+    key: getQueryCacheKey(userId),
+    throttleTime: 1000,
+    storage: {
+      getItem: (key) => AsyncStorage.getItem(key),
+      setItem: async (key, value) => {
+        if (!clearedUsers.has(userId)) {
+          await AsyncStorage.setItem(key, value);
+        }
+      },
+      removeItem: (key) => AsyncStorage.removeItem(key),
+    },
+  });
+};
+
+/**
+ * The households the user last saw, so the app can open on them without a connection.
+ */
+export const loadHouseholdSnapshot = async (userId: string): Promise<HouseholdSnapshot | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(getHouseholdSnapshotKey(userId));
+    return stored ? (JSON.parse(stored) as HouseholdSnapshot) : null;
+  } catch (error) {
+    console.warn('Failed to load cached households', error);
+    return null;
+  }
+};
+
+export const saveHouseholdSnapshot = async (userId: string, snapshot: HouseholdSnapshot) => {
+  await AsyncStorage.setItem(getHouseholdSnapshotKey(userId), JSON.stringify(snapshot));
+};
+
+/**
+ * Remove everything cached on the device for a user.
+ */
+export const clearUserCache = async (userId: string) => {
+  clearedUsers.add(userId);
+  await AsyncStorage.multiRemove([getQueryCacheKey(userId), getHouseholdSnapshotKey(userId)]);
+};
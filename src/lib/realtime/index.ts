@@ -0,0 +1,44 @@
+export type RowChange<Row> = {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Partial<Row>;
+  old: Partial<Row>;
+};
+
+/**
+ * Patch a cached list with a realtime row change and return the new list, or the same list when
+ * nothing changed. `toCached` turns the changed row into the cached shape, or returns `null` when
+ * the row no longer belongs in the list (archived items, for example).
+ */
+export const applyRowChange = <Row extends { id: string }, Cached extends { id: string }>(
+  rows: Cached[],
+  change: RowChange<Row>,
+  toCached: (row: Row, existing: Cached | undefined) => Cached | null,
+  compare?: (a: Cached, b: Cached) => number,
+): Cached[] => {
+  if (change.eventType === 'DELETE') {
+    const id = change.old.id;
+    return rows.some((row) => row.id === id) ? rows.filter((row) => row.id !== id) : rows;
+  }
+
+  const row = change.new as Row;
+  const existing = rows.find((candidate) => candidate.id === row.id);
+  const next = toCached(row, existing);
+  if (!next) {
+    return existing ? rows.filter((candidate) => candidate.id !== row.id) : rows;
+  }
+
+  const patched = existing
+    ? rows.map((candidate) => (candidate.id === row.id ? next : candidate))
+    : [...rows, next];
+  return compare ? [...patched].sort(compare) : patched;
+};
+
+/**
+ * Whether a change is older than what the cache already holds, e.g. an echo that arrives after a refetch.
+ */
+export const isStaleChange = (incoming: { updated_at?: string }, existing: { updated_at?: string } | undefined) =>
+  Boolean(
+    existing?.updated_at &&
+      incoming.updated_at &&
+      Date.parse(incoming.updated_at) < Date.parse(existing.updated_at),
+  );
@@ -0,0 +1,242 @@
+import { countExpiringSoon, DEFAULT_EXPIRY_RULES, type ExpiryRules } from '@/lib/expiry';
+import { planLotConsumption, type LotItem, type PantryProduct } from '@/lib/lots';
+import { getProductKey } from '@/lib/productCatalog';
+import {
+  addQuantities,
+  compareQuantities,
+  convertQuantity,
+  subtractQuantities,
+  sumQuantities,
+  type Quantity,
+} from '@/lib/quantity';
+import { getNameWords } from '@/lib/shelfLife';
+import type { RecipeIngredient } from '@/lib/supabase/recipesService';
+import { BASIC_INGREDIENTS, INGREDIENT_SYNONYMS } from './synonyms';
+
+/** What cooking a recipe would take out of the pantry for one of its ingredients. */
+export type CookingDeduction<T extends LotItem> = {
+  ingredient: RecipeIngredient;
+  /** The pantry product the ingredient was matched to, if any. */
+  product: PantryProduct<T> | null;
+  /** How much comes out of the product, capped at what is left; `null` when nothing can be deducted. */
+  amount: Quantity | null;
+  /** Whether the pantry holds less than the recipe asks for. */
+  short: boolean;
+};
+
+/** What a recipe asks for compared with the pantry. */
+export type RecipeMatch = {
+  /** Share of the ingredients the pantry covers, from 0 to 100. */
+  score: number;
+  missing: MissingIngredient[];
+  /** Ingredients that would use up something about to expire. */
+  expiringUsed: number;
+};
+
+export type MissingIngredient = {
+  ingredient: RecipeIngredient;
+  /** What still has to be bought, or `null` when the amount is unknown. */
+  needed: Quantity | null;
+};
+
+export const RECIPE_SORTS = ['match', 'expiring'] as const;
+
+export type RecipeSort = (typeof RECIPE_SORTS)[number];
+
+const SYNONYMS = new Map(INGREDIENT_SYNONYMS.flatMap((group) => group.map((word) => [word, group[0]] as const)));
+
+/**
+ * The words of a name, each with its singular forms and the synonym it is compared as, so "huevos"
+ * and "eggs" or "aceite de oliva" and "olive oil" come out the same.
+ */
+const nameWords = (name: string) =>
+  getNameWords(name).map((variants) => {
+    const words = new Set(variants);
+    for (const variant of variants) {
+      const canonical = SYNONYMS.get(variant);
+      if (canonical) {
+        words.add(canonical);
+      }
+    }
+    return words;
+  });
+
+const sameWord = (a: Set<string>, b: Set<string>) => [...a].some((word) => b.has(word));
+
+const containsAll = (words: Set<string>[], within: Set<string>[]) =>
+  words.every((word) => within.some((candidate) => sameWord(word, candidate)));
+
+/**
+ * How well a pantry product's name fits an ingredient: 2 for the same product, 1 when one name
+ * contains the other ("chicken breast" and "chicken"), 0 when they're unrelated. Plurals, synonyms
+ * and English against Spanish names are taken into account.
+ */
+export const matchIngredientName = (ingredientName: string, productName: string) => {
+  const ingredient = nameWords(ingredientName);
+  const product = nameWords(productName);
+  if (!ingredient.length || !product.length) {
+    return 0;
+  }
+  if (ingredient.length === product.length && containsAll(ingredient, product) && containsAll(product, ingredient)) {
+    return 2;
+  }
+  const [shorter, longer] = ingredient.length <= product.length ? [ingredient, product] : [product, ingredient];
+  return containsAll(shorter, longer) ? 1 : 0;
+};
+
+/**
+ * Whether every kitchen can be assumed to have an ingredient, like salt or water.
+ */
+export const isBasicIngredient = (name: string) => {
+  const words = nameWords(name);
+  return words.length > 0 && words.every((word) => BASIC_INGREDIENTS.some((basic) => word.has(basic)));
+};
+
+const isMeasurableAs = (quantity: Quantity | null, total: Quantity | null) =>
+  Boolean(quantity && total && compareQuantities(quantity, total) !== null);
+
+// Products without an expiry date go last.
+const compareExpiry = (a: string | null, b: string | null) =>
+  a === b ? 0 : a === null ? 1 : b === null ? -1 : a.localeCompare(b);
+
+// The product an ingredient was linked to in the editor beats any name match.
+const matchIngredient = (ingredient: RecipeIngredient, productName: string) =>
+  ingredient.productKey && getProductKey(productName) === ingredient.productKey
+    ? 3
+    : matchIngredientName(ingredient.name, productName);
+
+/**
+ * The pantry product an ingredient should come out of: the linked product or closest name first,
+ * then one whose quantity converts to the ingredient's, then whatever expires first.
+ */
+export const findIngredientProduct = <T extends LotItem>(
+  ingredient: RecipeIngredient,
+  products: PantryProduct<T>[],
+): PantryProduct<T> | null => {
+  const candidates = products
+    .map((product) => ({ product, match: matchIngredient(ingredient, product.name) }))
+    .filter(({ match }) => match > 0)
+    .sort(
+      (a, b) =>
+        b.match - a.match ||
+        Number(isMeasurableAs(ingredient.quantity, b.product.total)) -
+          Number(isMeasurableAs(ingredient.quantity, a.product.total)) ||
+        compareExpiry(a.product.nextExpiry, b.product.nextExpiry),
+    );
+  return candidates[0]?.product ?? null;
+};
+
+/**
+ * Match each ingredient to the pantry and work out how much to deduct. Ingredients sharing a
+ * product split what is left of it, and amounts that can't be measured against the pantry
+ * (no quantity, or pieces against grams) aren't deducted.
+ */
+export const planCooking = <T extends LotItem>(
+  ingredients: RecipeIngredient[],
+  products: PantryProduct<T>[],
+): CookingDeduction<T>[] => {
+  const taken = new Map<string, Quantity>();
+
+  return ingredients.map((ingredient) => {
+    const product = findIngredientProduct(ingredient, products);
+    if (!product || !product.total || !ingredient.quantity) {
+      return { ingredient, product, amount: null, short: false };
+    }
+
+    const alreadyTaken = taken.get(product.key);
+    const available = alreadyTaken ? subtractQuantities(product.total, alreadyTaken) : product.total;
+    const comparison = available ? compareQuantities(ingredient.quantity, available) : null;
+    if (!available || comparison === null) {
+      return { ingredient, product, amount: null, short: false };
+    }
+    if (available.value <= 0) {
+      return { ingredient, product, amount: null, short: true };
+    }
+
+    const amount = comparison > 0 ? available : ingredient.quantity;
+    taken.set(product.key, (alreadyTaken && addQuantities(alreadyTaken, amount)) ?? amount);
+    return { ingredient, product, amount, short: comparison > 0 };
+  });
+};
+
+/**
+ * Turn deductions into per-lot consumption steps, taking each product's total first-expiring-first-out.
+ */
+export const getCookingSteps = <T extends LotItem>(deductions: CookingDeduction<T>[]) => {
+  const byProduct = new Map<string, { product: PantryProduct<T>; amounts: Quantity[] }>();
+  for (const { product, amount } of deductions) {
+    if (product && amount) {
+      const entry = byProduct.get(product.key) ?? { product, amounts: [] };
+      entry.amounts.push(amount);
+      byProduct.set(product.key, entry);
+    }
+  }
+
+  return [...byProduct.values()].flatMap(({ product, amounts }) => {
+    const total = sumQuantities(amounts, product.total?.unit);
+    return total ? planLotConsumption(product.lots, total).map(({ lot, amount }) => ({ item: lot, amount })) : [];
+  });
+};
+
+// How much of an ingredient the deduction covers, from 0 to 1.
+const getCoverage = <T extends LotItem>({ ingredient, product, amount, short }: CookingDeduction<T>) => {
+  if (!product) {
+    return 0;
+  }
+  if (!short) {
+    return 1;
+  }
+  const needed = ingredient.quantity;
+  const available = amount && needed ? convertQuantity(amount, needed.unit) : null;
+  return available && needed ? Math.min(1, available.value / needed.value) : 0;
+};
+
+/**
+ * Compare a recipe's ingredients with the pantry: how much of it is covered, what would have to be
+ * bought and how many ingredients would use up products that expire soon. Basic ingredients like
+ * salt don't count, and an ingredient found in the pantry whose amount can't be compared counts as
+ * available.
+ */
+export const matchRecipe = <T extends LotItem>(
+  ingredients: RecipeIngredient[],
+  products: PantryProduct<T>[],
+  rules: ExpiryRules = DEFAULT_EXPIRY_RULES,
+  now = new Date(),
+): RecipeMatch => {
+  const counted = ingredients.filter((ingredient) => !isBasicIngredient(ingredient.name));
+  if (!counted.length) {
+    return { score: ingredients.length ? 100 : 0, missing: [], expiringUsed: 0 };
+  }
+
+  const deductions = planCooking(counted, products);
+  const coverage = deductions.map(getCoverage);
+
+  const missing = deductions.flatMap((deduction, index): MissingIngredient[] => {
+    if (coverage[index] >= 1) {
+      return [];
+    }
+    const { ingredient, amount } = deduction;
+    const needed = ingredient.quantity && amount ? subtractQuantities(ingredient.quantity, amount) : ingredient.quantity;
+    return [{ ingredient, needed }];
+  });
+
+  const expiringUsed = deductions.filter(
+    ({ product }, index) => product && coverage[index] > 0 && countExpiringSoon(product.lots.slice(0, 1), rules, now) > 0,
+  ).length;
+
+  const score = Math.round((coverage.reduce((sum, value) => sum + value, 0) / counted.length) * 100);
+  return { score, missing, expiringUsed };
+};
+
+type SortableRecipe = { matchScore: number; missing: number; expiringUsed?: number };
+
+/**
+ * Order recipes by best match, or by how many soon-to-expire products they use up. Ties fall back
+ * to the other order, then to fewer missing ingredients.
+ */
+export const sortRecipes = <T extends SortableRecipe>(recipes: T[], sort: RecipeSort): T[] => {
+  const byMatch = (a: T, b: T) => b.matchScore - a.matchScore;
+  const byExpiring = (a: T, b: T) => (b.expiringUsed ?? 0) - (a.expiringUsed ?? 0);
+  const [first, second] = sort === 'match' ? [byMatch, byExpiring] : [byExpiring, byMatch];
+  return [...recipes].sort((a, b) => first(a, b) || second(a, b) || a.missing - b.missing);
+};
@@ -0,0 +1,79 @@
+/**
+ * Ingredient names that mean the same thing, in English and Spanish. Words are singular, lower case
+ * and without accents; the first word of a group is the one the others are compared as.
+ */
+export const INGREDIENT_SYNONYMS: string[][] = [
+  // Dairy & eggs
+  ['egg', 'huevo'],
+  ['milk', 'leche'],
+  ['butter', 'mantequilla'],
+  ['cheese', 'queso'],
+  ['cream', 'nata'],
+  ['yogurt', 'yoghurt', 'yogur'],
+
+  // Meat & fish
+  ['chicken', 'pollo'],
+  ['beef', 'ternera', 'vacuno'],
+  ['pork', 'cerdo'],
+  ['ham', 'jamon'],
+  ['bacon', 'beicon', 'panceta'],
+  ['sausage', 'salchicha'],
+  ['fish', 'pescado'],
+  ['tuna', 'atun'],
+  ['shrimp', 'prawn', 'gamba', 'langostino'],
+
+  // Vegetables & fruit
+  ['onion', 'cebolla'],
+  ['garlic', 'ajo'],
+  ['tomato', 'tomate'],
+  ['potato', 'patata', 'papa'],
+  ['carrot', 'zanahoria'],
+  ['pepper', 'pimiento'],
+  ['mushroom', 'champinon', 'seta'],
+  ['spinach', 'espinaca'],
+  ['lettuce', 'lechuga'],
+  ['cucumber', 'pepino'],
+  ['zucchini', 'courgette', 'calabacin'],
+  ['eggplant', 'aubergine', 'berenjena'],
+  ['pumpkin', 'calabaza'],
+  ['avocado', 'aguacate'],
+  ['lemon', 'limon'],
+  ['lime', 'lima'],
+  ['apple', 'manzana'],
+  ['banana', 'platano'],
+  ['orange', 'naranja'],
+  ['strawberry', 'fresa'],
+  ['parsley', 'perejil'],
+  ['coriander', 'cilantro'],
+  ['basil', 'albahaca'],
+
+  // Pantry
+  ['flour', 'harina'],
+  ['sugar', 'azucar'],
+  ['salt', 'sal'],
+  ['oil', 'aceite'],
+  ['olive', 'oliva'],
+  ['vinegar', 'vinagre'],
+  ['honey', 'miel'],
+  ['rice', 'arroz'],
+  ['pasta'],
+  ['spaghetti', 'espagueti'],
+  ['bread', 'pan'],
+  ['bean', 'alubia', 'judia', 'frijol'],
+  ['chickpea', 'garbanzo'],
+  ['lentil', 'lenteja'],
+  ['pea', 'guisante'],
+  ['corn', 'maiz'],
+  ['almond', 'almendra'],
+  ['walnut', 'nuez'],
+  ['cinnamon', 'canela'],
+  ['stock', 'broth', 'caldo'],
+  ['coffee', 'cafe'],
+  ['water', 'agua'],
+  ['wine', 'vino'],
+  ['beer', 'cerveza'],
+  ['juice', 'zumo', 'jugo'],
+];
+
+/** Ingredients every kitchen is assumed to have, so they never count as missing. */
+export const BASIC_INGREDIENTS = ['salt', 'water'];
@@ -0,0 +1,136 @@
+import {
+  convertQuantity,
+  createQuantity,
+  formatAmount,
+  normalizeUnit,
+  parseAmount,
+  simplifyQuantity,
+  type Quantity,
+  type Unit,
+} from '@/lib/quantity';
+import type { RecipeIngredient } from '@/lib/supabase/recipesService';
+
+/** An amount as written in a recipe: a number or a range, followed by a unit or a word. */
+export type RecipeAmount = {
+  min: number;
+  /** Upper end of a range ("2-3"), the same as `min` otherwise. */
+  max: number;
+  /** The unit, when it is one we can convert. */
+  unit: Unit | null;
+  /** What follows the number, as written ("cups", "dientes"). */
+  rest: string;
+};
+
+const NUMBER = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?(?:\s*[¼½¾⅓⅔⅛])?|[¼½¾⅓⅔⅛]`;
+const AMOUNT_REGEX = new RegExp(
+  `^(?<min>${NUMBER})(?:\\s*(?:-|–|—|to|a|hasta)\\s*(?<max>${NUMBER}))?(?:\\s*(?<rest>.*))?$`,
+  'i',
+);
+
+const METRIC_UNITS: Unit[] = ['mg', 'g', 'kg', 'ml', 'cl', 'dl', 'l'];
+
+// Fractions cooks write, tried in this order when printing non-metric amounts.
+const FRACTIONS: [number, string][] = [
+  [1 / 4, '1/4'],
+  [1 / 3, '1/3'],
+  [1 / 2, '1/2'],
+  [2 / 3, '2/3'],
+  [3 / 4, '3/4'],
+];
+
+/**
+ * Parse a recipe amount such as `"1 1/2 cups"`, `"½ tsp"`, `"2-3"`, `"1 to 2 tbsp"` or
+ * `"2 dientes"`. Amounts given twice, metric and imperial (`"200 g (7 oz)"`, `"1 cup / 240 ml"`),
+ * keep the first one. Returns `null` for text without a leading number ("to taste").
+ */
+export const parseRecipeAmount = (text?: string | null): RecipeAmount | null => {
+  const primary = text?.split(/\s+\/\s+|\(/)[0].trim();
+  const match = primary?.match(AMOUNT_REGEX);
+  if (!match?.groups) {
+    return null;
+  }
+
+  const min = parseAmount(match.groups.min);
+  const max = match.groups.max ? parseAmount(match.groups.max) : min;
+  if (min === null || max === null) {
+    return null;
+  }
+
+  const rest = match.groups.rest?.trim() ?? '';
+  return { min, max: Math.max(min, max), unit: rest ? normalizeUnit(rest) : null, rest };
+};
+
+/**
+ * The quantity to plan with: the top of a range, so there is enough. A bare number counts pieces;
+ * amounts in a unit we don't know (cloves, pinches) have none.
+ */
+export const getAmountQuantity = (amount: RecipeAmount): Quantity | null => {
+  if (amount.unit) {
+    return createQuantity(amount.max, amount.unit);
+  }
+  return amount.rest ? null : createQuantity(amount.max, 'pcs');
+};
+
+export const scaleRecipeAmount = (amount: RecipeAmount, factor: number): RecipeAmount => ({
+  ...amount,
+  min: amount.min * factor,
+  max: amount.max * factor,
+});
+
+const formatFraction = (value: number) => {
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+  if (remainder < 0.05) {
+    return String(whole);
+  }
+  if (remainder > 0.95) {
+    return String(whole + 1);
+  }
+  const fraction = FRACTIONS.find(([candidate]) => Math.abs(candidate - remainder) < 0.05);
+  if (!fraction) {
+    return formatAmount(Math.round(value * 100) / 100);
+  }
+  return whole ? `${whole} ${fraction[1]}` : fraction[1];
+};
+
+// Scaled metric amounts are rounded to what a kitchen scale or jug can measure.
+const formatMetric = (value: number) => formatAmount(value >= 10 ? Math.round(value) : Math.round(value * 10) / 10);
+
+/**
+ * Print an amount the way a recipe would: metric amounts in the most readable unit (1500 g →
+ * 1.5 kg), spoons and cups as fractions, ranges as "2-3".
+ */
+export const formatRecipeAmount = (amount: RecipeAmount) => {
+  let { min, max } = amount;
+  let label = amount.rest;
+  let format = formatFraction;
+
+  if (amount.unit && METRIC_UNITS.includes(amount.unit)) {
+    const unit = simplifyQuantity(createQuantity(max, amount.unit)).unit;
+    min = convertQuantity(createQuantity(min, amount.unit), unit)?.value ?? min;
+    max = convertQuantity(createQuantity(max, amount.unit), unit)?.value ?? max;
+    label = unit;
+    format = formatMetric;
+  }
+
+  const number = format(min) === format(max) ? format(max) : `${format(min)}-${format(max)}`;
+  return label ? `${number} ${label}` : number;
+};
+
+/**
+ * How much to multiply a recipe's amounts by to cook `servings` instead of what it was written for.
+ */
+export const getServingsFactor = (baseServings: number | null | undefined, servings: number) =>
+  baseServings && baseServings > 0 ? servings / baseServings : 1;
+
+/**
+ * Rescale an ingredient. Amounts that can't be parsed ("a pinch", "to taste") are left as written.
+ */
+export const scaleIngredient = (ingredient: RecipeIngredient, factor: number): RecipeIngredient => {
+  const amount = parseRecipeAmount(ingredient.quantityText);
+  if (!amount || factor === 1) {
+    return ingredient;
+  }
+  const scaled = scaleRecipeAmount(amount, factor);
+  return { ...ingredient, quantityText: formatRecipeAmount(scaled), quantity: getAmountQuantity(scaled) };
+};
@@ -0,0 +1,333 @@
+import { formatAmount, normalizeUnit } from '@/lib/quantity';
+import { parseRecipeAmount } from '@/lib/recipeScaling';
+import type { Database, Json } from '@/lib/supabase/types';
+
+type Recipe = Database['public']['Tables']['recipes']['Row'];
+
+/**
+ * Version of the documents stored in `recipes.ingredients` and `recipes.steps`. Rows written before
+ * versioning hold bare arrays of strings or `{ item, quantity }` objects and are upgraded on read.
+ */
+export const RECIPE_SCHEMA_VERSION = 1;
+
+export type RecipeIngredientEntry = {
+  name: string;
+  amount: number | null;
+  /** Upper end when the recipe gives a range ("2-3"). */
+  amountMax?: number | null;
+  /** As written, so units we can't convert ("cloves", "dientes") survive. */
+  unit: string | null;
+  note: string | null;
+  /** Heading the ingredient is listed under ("For the sauce"). */
+  group?: string | null;
+  /** Catalog key (`getProductKey`) of the pantry product the ingredient was picked from. */
+  product?: string | null;
+};
+
+export type RecipeStepEntry = {
+  text: string;
+  /** Minutes to set a timer for, when the step waits on something. */
+  timer: number | null;
+  /** Indexes into the recipe's ingredients of the ones the step uses. */
+  ingredients?: number[];
+};
+
+export type RecipeContent = {
+  ingredients: RecipeIngredientEntry[];
+  steps: RecipeStepEntry[];
+};
+
+export type RecipeProblemCode =
+  | 'noIngredients'
+  | 'ingredientName'
+  | 'ingredientNameLength'
+  | 'ingredientAmount'
+  | 'ingredientRange'
+  | 'ingredientUnit'
+  | 'ingredientUnitWithoutAmount'
+  | 'ingredientNote'
+  | 'ingredientGroup'
+  | 'ingredientProduct'
+  | 'stepText'
+  | 'stepTimer'
+  | 'stepIngredients'
+  | 'unreadableIngredient'
+  | 'unreadableStep';
+
+/**
+ * Something wrong with a recipe's content. `position` is the 1-based ingredient or step it is
+ * about, and the whole problem doubles as the parameters of its translation.
+ */
+export type RecipeProblem = {
+  code: RecipeProblemCode;
+  position?: number;
+  limit?: number;
+};
+
+type RecipeDocument<T> = { version: number; items: T[] };
+
+const MAX_NAME_LENGTH = 200;
+const MAX_UNIT_LENGTH = 30;
+const MAX_TIMER_MINUTES = 24 * 60;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDocument = (value: unknown): value is RecipeDocument<unknown> =>
+  isRecord(value) && typeof value.version === 'number' && Array.isArray(value.items);
+
+const asText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+/**
+ * Read a legacy ingredient line such as `"200 g flour"` or `"2 eggs"` into its parts.
+ */
+const splitIngredientLine = (line: string): RecipeIngredientEntry => {
+  const amount = parseRecipeAmount(line);
+  if (!amount?.rest) {
+    return { name: line.trim(), amount: null, unit: null, note: null };
+  }
+  const [firstWord, ...others] = amount.rest.split(/\s+/);
+  const hasUnit = Boolean(normalizeUnit(firstWord)) && others.length > 0;
+  return {
+    name: hasUnit ? others.join(' ') : amount.rest,
+    amount: amount.min,
+    amountMax: amount.max > amount.min ? amount.max : null,
+    unit: hasUnit ? firstWord : null,
+    note: null,
+  };
+};
+
+const migrateIngredient = (entry: unknown): RecipeIngredientEntry | null => {
+  if (typeof entry === 'string') {
+    return entry.trim() ? splitIngredientLine(entry) : null;
+  }
+  if (!isRecord(entry)) {
+    return null;
+  }
+
+  const name = asText(entry.name) ?? asText(entry.item);
+  if (!name) {
+    return null;
+  }
+  if (typeof entry.amount === 'number' || entry.amount === null) {
+    return {
+      name,
+      amount: entry.amount,
+      amountMax: typeof entry.amountMax === 'number' ? entry.amountMax : null,
+      unit: asText(entry.unit),
+      note: asText(entry.note),
+      group: asText(entry.group),
+      product: asText(entry.product),
+    };
+  }
+
+  // `{ item, quantity }`, where the quantity is free text such as "1 1/2 cups".
+  const quantityText = typeof entry.quantity === 'number' ? String(entry.quantity) : asText(entry.quantity);
+  const amount = parseRecipeAmount(quantityText);
+  return {
+    name,
+    amount: amount?.min ?? null,
+    amountMax: amount && amount.max > amount.min ? amount.max : null,
+    unit: amount ? amount.rest || null : null,
+    note: amount ? null : quantityText,
+  };
+};
+
+/**
+ * Minutes mentioned in a step's text ("bake for 25 minutes", "reposar 1 hora"), to offer as a timer.
+ */
+export const guessStepTimer = (text: string): number | null => {
+  const minutes = text.match(/(\d+)\s*(?:min|mins|minute|minutes|minuto|minutos)\b/i);
+  if (minutes) {
+    return Number(minutes[1]);
+  }
+  const hours = text.match(/(\d+)\s*(?:h|hr|hrs|hour|hours|hora|horas)\b/i);
+  return hours ? Number(hours[1]) * 60 : null;
+};
+
+const migrateStep = (entry: unknown): RecipeStepEntry | null => {
+  if (typeof entry === 'string') {
+    const text = entry.trim();
+    return text ? { text, timer: guessStepTimer(text) } : null;
+  }
+  if (!isRecord(entry)) {
+    return null;
+  }
+
+  const text = asText(entry.text) ?? asText(entry.instruction) ?? asText(entry.step) ?? asText(entry.description);
+  if (!text) {
+    return null;
+  }
+  const ingredients = Array.isArray(entry.ingredients)
+    ? entry.ingredients.filter((index): index is number => Number.isInteger(index))
+    : undefined;
+  return {
+    text,
+    timer: typeof entry.timer === 'number' ? entry.timer : guessStepTimer(text),
+    ...(ingredients?.length ? { ingredients } : {}),
+  };
+};
+
+const migrateItems = <T>(value: unknown, migrate: (entry: unknown) => T | null): T[] => {
+  const items = isDocument(value) ? value.items : Array.isArray(value) ? value : [];
+  return items.map(migrate).filter((item): item is T => item !== null);
+};
+
+/**
+ * Whether a recipe row still holds content written before the current schema version.
+ */
+export const isLegacyRecipe = (recipe: Pick<Recipe, 'ingredients' | 'steps'>) =>
+  [recipe.ingredients, recipe.steps].some(
+    (value) => !isDocument(value) || value.version !== RECIPE_SCHEMA_VERSION,
+  );
+
+/**
+ * Read a recipe's ingredients and steps in the current schema, upgrading legacy content. Entries
+ * that can't be understood are dropped rather than shown as raw JSON.
+ */
+export const readRecipeContent = (recipe: Pick<Recipe, 'ingredients' | 'steps'>): RecipeContent => {
+  const ingredients = migrateItems(recipe.ingredients, migrateIngredient);
+  const steps = migrateItems(recipe.steps, migrateStep).map((step) => {
+    const refs = step.ingredients?.filter((index) => index >= 0 && index < ingredients.length);
+    const { ingredients: _refs, ...rest } = step;
+    return refs?.length ? { ...rest, ingredients: refs } : rest;
+  });
+  return { ingredients, steps };
+};
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const validateIngredient = (ingredient: RecipeIngredientEntry, position: number) => {
+  const problems: RecipeProblem[] = [];
+  if (!asText(ingredient.name)) {
+    problems.push({ code: 'ingredientName', position });
+  } else if (ingredient.name.length > MAX_NAME_LENGTH) {
+    problems.push({ code: 'ingredientNameLength', position, limit: MAX_NAME_LENGTH });
+  }
+  if (ingredient.amount !== null && !isPositive(ingredient.amount)) {
+    problems.push({ code: 'ingredientAmount', position });
+  }
+  if (ingredient.amountMax !== undefined && ingredient.amountMax !== null) {
+    if (ingredient.amount === null || !isPositive(ingredient.amountMax) || ingredient.amountMax < ingredient.amount) {
+      problems.push({ code: 'ingredientRange', position });
+    }
+  }
+  if (ingredient.unit !== null && (typeof ingredient.unit !== 'string' || ingredient.unit.length > MAX_UNIT_LENGTH)) {
+    problems.push({ code: 'ingredientUnit', position });
+  }
+  if (ingredient.unit && ingredient.amount === null) {
+    problems.push({ code: 'ingredientUnitWithoutAmount', position });
+  }
+  if (ingredient.note !== null && typeof ingredient.note !== 'string') {
+    problems.push({ code: 'ingredientNote', position });
+  }
+  if (ingredient.group !== undefined && ingredient.group !== null && typeof ingredient.group !== 'string') {
+    problems.push({ code: 'ingredientGroup', position });
+  }
+  if (ingredient.product !== undefined && ingredient.product !== null && typeof ingredient.product !== 'string') {
+    problems.push({ code: 'ingredientProduct', position });
+  }
+  return problems;
+};
+
+const validateStep = (step: RecipeStepEntry, position: number, ingredientCount: number) => {
+  const problems: RecipeProblem[] = [];
+  if (!asText(step.text)) {
+    problems.push({ code: 'stepText', position });
+  }
+  if (step.timer !== null && (!isPositive(step.timer) || step.timer > MAX_TIMER_MINUTES)) {
+    problems.push({ code: 'stepTimer', position, limit: MAX_TIMER_MINUTES });
+  }
+  if (
+    step.ingredients !== undefined &&
+    (!Array.isArray(step.ingredients) ||
+      step.ingredients.some((index) => !Number.isInteger(index) || index < 0 || index >= ingredientCount))
+  ) {
+    problems.push({ code: 'stepIngredients', position });
+  }
+  return problems;
+};
+
+/**
+ * Everything wrong with a recipe's content, as codes the app translates. Empty when it is valid.
+ */
+export const validateRecipeContent = (content: RecipeContent): RecipeProblem[] => [
+  ...(content.ingredients.length ? [] : [{ code: 'noIngredients' as const }]),
+  ...content.ingredients.flatMap((ingredient, index) => validateIngredient(ingredient, index + 1)),
+  ...content.steps.flatMap((step, index) => validateStep(step, index + 1, content.ingredients.length)),
+];
+
+const unreadableItems = (value: unknown, migrate: (entry: unknown) => unknown, code: RecipeProblemCode) => {
+  const items = isDocument(value) ? value.items : Array.isArray(value) ? value : null;
+  if (!items) {
+    return value === null || value === undefined ? [] : [{ code, position: 1 }];
+  }
+  return items.flatMap((entry, index) => (migrate(entry) === null ? [{ code, position: index + 1 }] : []));
+};
+
+/**
+ * Read content that is about to be stored, e.g. from a recipe generator. Unlike
+ * `readRecipeContent`, entries that can't be read are reported instead of dropped, so the content
+ * is only accepted when every part of it made it through.
+ */
+export const parseRecipeContent = (recipe: { ingredients?: unknown; steps?: unknown }) => {
+  const content = readRecipeContent({
+    ingredients: (recipe.ingredients ?? []) as Json,
+    steps: (recipe.steps ?? []) as Json,
+  });
+  const problems: RecipeProblem[] = [
+    ...unreadableItems(recipe.ingredients, migrateIngredient, 'unreadableIngredient'),
+    ...unreadableItems(recipe.steps, migrateStep, 'unreadableStep'),
+    // `readRecipeContent` drops references to ingredients that don't exist; here they count.
+    ...migrateItems(recipe.steps, migrateStep).flatMap((step, index) =>
+      step.ingredients?.some((ref) => ref < 0 || ref >= content.ingredients.length)
+        ? [{ code: 'stepIngredients' as const, position: index + 1 }]
+        : [],
+    ),
+    ...validateRecipeContent(content),
+  ];
+  return { content, problems };
+};
+
+/**
+ * Validate a recipe's content and turn it into the versioned documents stored in the `ingredients`
+ * and `steps` columns. Every write to those columns goes through here; invalid content throws.
+ */
+export const toRecipeColumns = (content: RecipeContent): { ingredients: Json; steps: Json } => {
+  const problems = validateRecipeContent(content);
+  if (problems.length) {
+    const details = problems.map(({ code, position }) => (position ? `${code} (${position})` : code));
+    throw new Error(`Invalid recipe content: ${details.join(', ')}`);
+  }
+
+  const ingredients = content.ingredients.map(({ name, amount, amountMax, unit, note, group, product }) => ({
+    name: name.trim(),
+    amount,
+    ...(amountMax ? { amountMax } : {}),
+    unit: unit?.trim() || null,
+    note: note?.trim() || null,
+    ...(group?.trim() ? { group: group.trim() } : {}),
+    ...(product?.trim() ? { product: product.trim() } : {}),
+  }));
+  const steps = content.steps.map(({ text, timer, ingredients: refs }) => ({
+    text: text.trim(),
+    timer,
+    ...(refs?.length ? { ingredients: refs } : {}),
+  }));
+
+  return {
+    ingredients: { version: RECIPE_SCHEMA_VERSION, items: ingredients },
+    steps: { version: RECIPE_SCHEMA_VERSION, items: steps },
+  };
+};
+
+/**
+ * An ingredient's amount as recipe text: `"200 g"`, `"2-3"`, or `null` without an amount.
+ */
+export const formatIngredientAmount = ({ amount, amountMax, unit }: Pick<RecipeIngredientEntry, 'amount' | 'amountMax' | 'unit'>) => {
+  if (amount === null) {
+    return null;
+  }
+  const number = amountMax && amountMax > amount ? `${formatAmount(amount)}-${formatAmount(amountMax)}` : formatAmount(amount);
+  return unit ? `${number} ${unit}` : number;
+};
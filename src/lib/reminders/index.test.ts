@@ -0,0 +1,82 @@
+import {
+  deferPastQuietHours,
+  formatMinutesOfDay,
+  isWithinQuietHours,
+  planItemReminders,
+  type ReminderSettings,
+} from './index';
+
+const settings: ReminderSettings = {
+  enabled: true,
+  leadTimes: [1, 3],
+  quietHours: { start: 22 * 60, end: 8 * 60 },
+};
+
+const item = { id: 'item-1', name: 'Milk', expiry_date: '2026-03-20' };
+
+describe('planItemReminders', () => {
+  it('reminds at 9:00 on each lead day, earliest first', () => {
+    const reminders = planItemReminders(item, settings, new Date(2026, 2, 10, 12, 0));
+
+    expect(reminders).toEqual([
+      { id: 'expiry-item-1-3', itemId: 'item-1', itemName: 'Milk', daysBefore: 3, fireAt: new Date(2026, 2, 17, 9, 0) },
+      { id: 'expiry-item-1-1', itemId: 'item-1', itemName: 'Milk', daysBefore: 1, fireAt: new Date(2026, 2, 19, 9, 0) },
+    ]);
+  });
+
+  it('drops days that have passed and fires a reminder due today straight away', () => {
+    const reminders = planItemReminders(item, settings, new Date(2026, 2, 19, 12, 0));
+
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0]).toMatchObject({ daysBefore: 1, fireAt: new Date(2026, 2, 19, 12, 1) });
+  });
+
+  it('moves a reminder out of quiet hours and describes the day it fires on', () => {
+    const reminders = planItemReminders(
+      item,
+      { ...settings, leadTimes: [1, 0] },
+      new Date(2026, 2, 19, 23, 0),
+    );
+
+    expect(reminders).toEqual([
+      expect.objectContaining({ id: 'expiry-item-1-0', daysBefore: 0, fireAt: new Date(2026, 2, 20, 8, 0) }),
+    ]);
+  });
+
+  it('plans nothing when reminders are off or the item has no expiry or is archived', () => {
+    const now = new Date(2026, 2, 10, 12, 0);
+
+    expect(planItemReminders(item, { ...settings, enabled: false }, now)).toEqual([]);
+    expect(planItemReminders({ ...item, expiry_date: null }, settings, now)).toEqual([]);
+    expect(planItemReminders({ ...item, archived_at: '2026-03-09T10:00:00Z' }, settings, now)).toEqual([]);
+  });
+
+  it('plans nothing once the item has expired', () => {
+    expect(planItemReminders(item, settings, new Date(2026, 2, 21, 9, 0))).toEqual([]);
+  });
+});
+
+describe('quiet hours', () => {
+  const overnight = { start: 22 * 60, end: 7 * 60 + 30 };
+
+  it('span midnight when they end before they start', () => {
+    expect(isWithinQuietHours(new Date(2026, 2, 10, 23, 15), overnight)).toBe(true);
+    expect(isWithinQuietHours(new Date(2026, 2, 10, 6, 0), overnight)).toBe(true);
+    expect(isWithinQuietHours(new Date(2026, 2, 10, 7, 30), overnight)).toBe(false);
+    expect(isWithinQuietHours(new Date(2026, 2, 10, 12, 0), null)).toBe(false);
+  });
+
+  it('defer a time to the moment they end', () => {
+    expect(deferPastQuietHours(new Date(2026, 2, 10, 23, 15), overnight)).toEqual(new Date(2026, 2, 11, 7, 30));
+    expect(deferPastQuietHours(new Date(2026, 2, 11, 6, 0), overnight)).toEqual(new Date(2026, 2, 11, 7, 30));
+    expect(deferPastQuietHours(new Date(2026, 2, 11, 12, 0), overnight)).toEqual(new Date(2026, 2, 11, 12, 0));
+  });
+});
+
+describe('formatMinutesOfDay', () => {
+  it('formats minutes after midnight as a 24-hour time', () => {
+    expect(formatMinutesOfDay(0)).toBe('00:00');
+    expect(formatMinutesOfDay(7 * 60 + 5)).toBe('07:05');
+    expect(formatMinutesOfDay(24 * 60 + 30)).toBe('00:30');
+  });
+});
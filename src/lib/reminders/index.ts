@@ -0,0 +1,137 @@
+import { parseDateOnly } from '@/lib/dates';
+import { getEffectiveExpiryDate } from '@/lib/expiry';
+
+export type QuietHours = {
+  /** Minutes after midnight when quiet hours begin. */
+  start: number;
+  /** Minutes after midnight when quiet hours end. May be earlier than `start` to span midnight. */
+  end: number;
+};
+
+export type ReminderSettings = {
+  enabled: boolean;
+  /** How many days before the expiry date to remind, e.g. `[3, 1]`. `0` reminds on the day itself. */
+  leadTimes: number[];
+  quietHours: QuietHours | null;
+};
+
+export type ReminderItem = {
+  id: string;
+  name: string;
+  category?: string | null;
+  expiry_date: string | null;
+  opened_at?: string | null;
+  archived_at?: string | null;
+};
+
+export type PlannedReminder = {
+  /** Stable id so a reminder can be found and replaced when the item changes. */
+  id: string;
+  itemId: string;
+  itemName: string;
+  daysBefore: number;
+  fireAt: Date;
+};
+
+export const LEAD_TIME_OPTIONS = [0, 1, 2, 3, 5, 7];
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  leadTimes: [3, 1],
+  quietHours: { start: 22 * 60, end: 8 * 60 },
+};
+
+// Reminders go out in the morning so there is still time to use the item that day.
+const REMINDER_MINUTES = 9 * 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_DAY = MINUTES_PER_DAY * 60 * 1000;
+
+export const REMINDER_ID_PREFIX = 'expiry-';
+
+export const getReminderIdPrefix = (itemId: string) => `${REMINDER_ID_PREFIX}${itemId}-`;
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+export const isWithinQuietHours = (date: Date, quietHours: QuietHours | null) => {
+  if (!quietHours || quietHours.start === quietHours.end) {
+    return false;
+  }
+  const minutes = minutesOfDay(date);
+  if (quietHours.start < quietHours.end) {
+    return minutes >= quietHours.start && minutes < quietHours.end;
+  }
+  return minutes >= quietHours.start || minutes < quietHours.end;
+};
+
+/**
+ * Push a time that falls inside quiet hours to the moment they end.
+ */
+export const deferPastQuietHours = (date: Date, quietHours: QuietHours | null): Date => {
+  if (!quietHours || !isWithinQuietHours(date, quietHours)) {
+    return date;
+  }
+  const deferred = new Date(date);
+  deferred.setHours(Math.floor(quietHours.end / 60), quietHours.end % 60, 0, 0);
+  if (deferred <= date) {
+    deferred.setDate(deferred.getDate() + 1);
+  }
+  return deferred;
+};
+
+/**
+ * Work out which reminders an item needs. Reminders whose day has already passed are dropped;
+ * one that is due today but past its usual time fires straight away (outside quiet hours).
+ */
+export const planItemReminders = (
+  item: ReminderItem,
+  settings: ReminderSettings,
+  now: Date = new Date(),
+): PlannedReminder[] => {
+  const expiryDate = getEffectiveExpiryDate(item);
+  if (!settings.enabled || !expiryDate || item.archived_at) {
+    return [];
+  }
+
+  const expiry = parseDateOnly(expiryDate);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const leadTimes = [...new Set(settings.leadTimes)].sort((a, b) => b - a);
+  const reminders: PlannedReminder[] = [];
+
+  for (const leadTime of leadTimes) {
+    const day = new Date(expiry);
+    day.setDate(day.getDate() - leadTime);
+    if (day < today) {
+      continue;
+    }
+
+    let fireAt = new Date(day.getTime() + REMINDER_MINUTES * 60 * 1000);
+    if (fireAt <= now) {
+      fireAt = new Date(now.getTime() + 60 * 1000);
+    }
+    fireAt = deferPastQuietHours(fireAt, settings.quietHours);
+
+    // Quiet hours can push a reminder into the next day, so describe the day it actually fires on.
+    const fireDay = new Date(fireAt.getFullYear(), fireAt.getMonth(), fireAt.getDate());
+    const daysBefore = Math.round((expiry.getTime() - fireDay.getTime()) / MS_PER_DAY);
+    if (daysBefore < 0 || reminders.some((reminder) => reminder.daysBefore === daysBefore)) {
+      continue;
+    }
+
+    reminders.push({
+      id: `${getReminderIdPrefix(item.id)}${daysBefore}`,
+      itemId: item.id,
+      itemName: item.name,
+      daysBefore,
+      fireAt,
+    });
+  }
+
+  return reminders;
+};
+
+export const formatMinutesOfDay = (minutes: number) => {
+  const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  return `${String(hours).padStart(2, '0')}:${String(normalized % 60).padStart(2, '0')}`;
+};
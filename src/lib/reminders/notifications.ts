@@ -0,0 +1,167 @@
+import { i18n } from '@/lib/i18n';
+import { supabase } from '@/lib/supabase/client';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  getReminderIdPrefix,
+  planItemReminders,
+  REMINDER_ID_PREFIX,
+  type PlannedReminder,
+  type ReminderItem,
+  type ReminderSettings,
+} from './index';
+
+// Settings saved before they were kept per user. Nobody can tell whose they were.
+const LEGACY_SETTINGS_KEY = 'food-storage-reminder-settings';
+const CHANNEL_ID = 'expiry-reminders';
+
+// Local notifications are not available on web.
+const isSupported = Platform.OS !== 'web';
+
+const getSettingsKey = (userId: string) => `food-storage-reminder-settings-${userId}`;
+
+const getSignedInUserId = async () => {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+};
+
+export const getReminderSettings = async (userId: string): Promise<ReminderSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(getSettingsKey(userId));
+    return stored ? { ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_REMINDER_SETTINGS;
+  } catch (error) {
+    console.warn('Failed to load reminder settings', error);
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+};
+
+export const saveReminderSettings = async (userId: string, settings: ReminderSettings) => {
+  await AsyncStorage.setItem(getSettingsKey(userId), JSON.stringify(settings));
+};
+
+/**
+ * Show reminders while the app is open and set up the Android channel they are posted to.
+ */
+export const configureNotifications = async () => {
+  if (!isSupported) {
+    return;
+  }
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: i18n.t('profile.remindersTitle'),
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+};
+
+/**
+ * Ask for permission to post reminders. Returns whether it was granted.
+ */
+export const requestNotificationPermission = async () => {
+  if (!isSupported) {
+    return false;
+  }
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) {
+    return true;
+  }
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+const scheduleReminder = (reminder: PlannedReminder) =>
+  Notifications.scheduleNotificationAsync({
+    identifier: reminder.id,
+    content: {
+      title: i18n.t('notifications.expiryTitle', { name: reminder.itemName }),
+      body:
+        reminder.daysBefore === 0
+          ? i18n.t('notifications.expiryToday', { name: reminder.itemName })
+          : i18n.t('notifications.expiryInDays', { name: reminder.itemName, count: reminder.daysBefore }),
+      data: { storageItemId: reminder.itemId },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: reminder.fireAt,
+      channelId: CHANNEL_ID,
+    },
+  });
+
+const cancelReminders = async (shouldCancel: (identifier: string) => boolean) => {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((request) => shouldCancel(request.identifier))
+      .map((request) => Notifications.cancelScheduledNotificationAsync(request.identifier)),
+  );
+};
+
+/**
+ * Drop any reminders planned for an item
+ */
+export const cancelItemReminders = async (itemId: string) => {
+  if (!isSupported) {
+    return;
+  }
+  const prefix = getReminderIdPrefix(itemId);
+  await cancelReminders((identifier) => identifier.startsWith(prefix));
+};
+
+/**
+ * Drop every expiry reminder on the device, e.g. when the user signs out, since they name the
+ * user's items.
+ */
+export const cancelAllReminders = async () => {
+  await AsyncStorage.removeItem(LEGACY_SETTINGS_KEY);
+  if (!isSupported) {
+    return;
+  }
+  await cancelReminders((identifier) => identifier.startsWith(REMINDER_ID_PREFIX));
+};
+
+/**
+ * Re-plan the reminders for an item, replacing whatever was scheduled for it before. Uses the
+ * signed-in user's settings; nothing is scheduled without a session.
+ */
+export const syncItemReminders = async (item: ReminderItem) => {
+  if (!isSupported) {
+    return;
+  }
+  await cancelItemReminders(item.id);
+
+  const [permissions, userId] = await Promise.all([Notifications.getPermissionsAsync(), getSignedInUserId()]);
+  if (!permissions.granted || !userId) {
+    return;
+  }
+
+  const settings = await getReminderSettings(userId);
+  await Promise.all(planItemReminders(item, settings).map(scheduleReminder));
+};
+
+/**
+ * Re-plan reminders for every item, e.g. after the reminder settings changed
+ */
+export const rescheduleAllReminders = async (userId: string, items: ReminderItem[]) => {
+  if (!isSupported) {
+    return;
+  }
+  await cancelReminders((identifier) => identifier.startsWith(REMINDER_ID_PREFIX));
+
+  const permissions = await Notifications.getPermissionsAsync();
+  if (!permissions.granted) {
+    return;
+  }
+
+  const settings = await getReminderSettings(userId);
+  await Promise.all(items.flatMap((item) => planItemReminders(item, settings)).map(scheduleReminder));
+};
@@ -0,0 +1,118 @@
+export type StorageLocationType = 'freezer' | 'fridge' | 'larder';
+
+export type ShelfLifeDays = Partial<Record<StorageLocationType, number>>;
+
+export type ShelfLifeEntry = {
+  id: string;
+  /** Singular product names in English and Spanish. Multi-word names must appear in that order. */
+  keywords: string[];
+  days: ShelfLifeDays;
+  /** Days the product keeps once opened, stored as the label says (usually in the fridge). */
+  openedDays?: number;
+};
+
+/**
+ * Typical shelf life of unopened products, in days. Figures are conservative household
+ * guidelines rather than food-safety limits; printed dates always take precedence.
+ */
+export const SHELF_LIFE_DATASET: ShelfLifeEntry[] = [
+  // Dairy & eggs
+  { id: 'milk', keywords: ['milk', 'leche'], days: { fridge: 7, freezer: 90 }, openedDays: 4 },
+  { id: 'uht-milk', keywords: ['uht milk', 'long life milk', 'leche uht', 'leche entera brik'], days: { larder: 90, fridge: 7 }, openedDays: 4 },
+  { id: 'yogurt', keywords: ['yogurt', 'yoghurt', 'yogur'], days: { fridge: 14, freezer: 60 }, openedDays: 4 },
+  { id: 'cheese', keywords: ['cheese', 'queso'], days: { fridge: 21, freezer: 180 }, openedDays: 14 },
+  { id: 'fresh-cheese', keywords: ['cottage cheese', 'cream cheese', 'mozzarella', 'queso fresco', 'requeson'], days: { fridge: 7 }, openedDays: 5 },
+  { id: 'butter', keywords: ['butter', 'mantequilla'], days: { fridge: 60, freezer: 270 } },
+  { id: 'cream', keywords: ['cream', 'nata'], days: { fridge: 7, freezer: 90 }, openedDays: 4 },
+  { id: 'egg', keywords: ['egg', 'huevo'], days: { fridge: 28, larder: 14 } },
+
+  // Meat & fish
+  { id: 'chicken', keywords: ['chicken', 'pollo', 'pechuga', 'turkey', 'pavo'], days: { fridge: 2, freezer: 270 } },
+  { id: 'minced-meat', keywords: ['mince', 'ground beef', 'carne picada'], days: { fridge: 2, freezer: 120 } },
+  { id: 'beef', keywords: ['beef', 'steak', 'ternera', 'filete', 'lamb', 'cordero'], days: { fridge: 4, freezer: 180 } },
+  { id: 'pork', keywords: ['pork', 'cerdo', 'lomo'], days: { fridge: 4, freezer: 180 } },
+  { id: 'ham', keywords: ['ham', 'jamon', 'cooked ham', 'jamon york'], days: { fridge: 7, freezer: 60 }, openedDays: 4 },
+  { id: 'bacon', keywords: ['bacon', 'beicon', 'panceta'], days: { fridge: 7, freezer: 30 }, openedDays: 7 },
+  { id: 'sausage', keywords: ['sausage', 'salchicha', 'chorizo'], days: { fridge: 7, freezer: 60 }, openedDays: 5 },
+  { id: 'fish', keywords: ['fish', 'pescado', 'salmon', 'hake', 'merluza', 'cod', 'bacalao', 'dorada', 'lubina'], days: { fridge: 2, freezer: 180 } },
+  { id: 'seafood', keywords: ['shrimp', 'prawn', 'gamba', 'langostino', 'mussel', 'mejillon'], days: { fridge: 2, freezer: 180 } },
+  { id: 'tinned', keywords: ['tin', 'tinned', 'can', 'canned', 'lata', 'conserva', 'tuna can', 'atun en lata'], days: { larder: 730 }, openedDays: 3 },
+
+  // Sauces & spreads
+  { id: 'jam', keywords: ['jam', 'mermelada', 'marmalade', 'confitura'], days: { larder: 365 }, openedDays: 30 },
+  { id: 'ketchup', keywords: ['ketchup'], days: { larder: 365 }, openedDays: 60 },
+  { id: 'mayonnaise', keywords: ['mayonnaise', 'mayo', 'mayonesa'], days: { larder: 180 }, openedDays: 60 },
+  { id: 'mustard', keywords: ['mustard', 'mostaza'], days: { larder: 365 }, openedDays: 180 },
+  { id: 'soy-sauce', keywords: ['soy sauce', 'salsa soja'], days: { larder: 730 }, openedDays: 365 },
+  { id: 'tomato-sauce', keywords: ['tomato sauce', 'passata', 'salsa tomate', 'tomate frito'], days: { larder: 365 }, openedDays: 5 },
+  { id: 'sauce', keywords: ['sauce', 'salsa'], days: { larder: 365 }, openedDays: 14 },
+  { id: 'pesto', keywords: ['pesto'], days: { fridge: 30 }, openedDays: 5 },
+
+  // Bakery & dry goods
+  { id: 'bread', keywords: ['bread', 'pan', 'baguette', 'barra'], days: { larder: 4, fridge: 7, freezer: 90 } },
+  { id: 'sliced-bread', keywords: ['sliced bread', 'pan de molde'], days: { larder: 7, freezer: 90 } },
+  { id: 'rice', keywords: ['rice', 'arroz'], days: { larder: 730 } },
+  { id: 'pasta', keywords: ['pasta', 'spaghetti', 'macaroni', 'espagueti', 'macarron', 'fideo'], days: { larder: 730 } },
+  { id: 'fresh-pasta', keywords: ['fresh pasta', 'pasta fresca', 'tortellini', 'ravioli'], days: { fridge: 7, freezer: 60 }, openedDays: 3 },
+  { id: 'flour', keywords: ['flour', 'harina'], days: { larder: 365 } },
+  { id: 'sugar', keywords: ['sugar', 'azucar'], days: { larder: 730 } },
+  { id: 'cereal', keywords: ['cereal', 'oat', 'avena', 'muesli', 'granola'], days: { larder: 180 } },
+  { id: 'legumes', keywords: ['lentil', 'lenteja', 'chickpea', 'garbanzo', 'bean', 'alubia', 'judia'], days: { larder: 365 } },
+  { id: 'oil', keywords: ['oil', 'aceite'], days: { larder: 365 } },
+  { id: 'coffee', keywords: ['coffee', 'cafe'], days: { larder: 180 } },
+  { id: 'chocolate', keywords: ['chocolate', 'cacao', 'cocoa'], days: { larder: 365 } },
+  { id: 'biscuits', keywords: ['biscuit', 'cookie', 'galleta', 'cracker'], days: { larder: 120 } },
+
+  // Fruit
+  { id: 'apple', keywords: ['apple', 'manzana', 'pear', 'pera'], days: { fridge: 30, larder: 14 } },
+  { id: 'banana', keywords: ['banana', 'platano'], days: { larder: 5 } },
+  { id: 'citrus', keywords: ['orange', 'naranja', 'mandarin', 'mandarina', 'clementine', 'clementina'], days: { larder: 10, fridge: 21 } },
+  { id: 'lemon', keywords: ['lemon', 'limon', 'lime', 'lima'], days: { larder: 7, fridge: 21 } },
+  { id: 'berries', keywords: ['strawberry', 'fresa', 'raspberry', 'frambuesa', 'blueberry', 'arandano'], days: { fridge: 5, freezer: 240 } },
+  { id: 'grape', keywords: ['grape', 'uva'], days: { fridge: 10 } },
+  { id: 'stone-fruit', keywords: ['peach', 'melocoton', 'nectarine', 'nectarina', 'plum', 'ciruela'], days: { larder: 4, fridge: 7 } },
+  { id: 'melon', keywords: ['melon', 'watermelon', 'sandia'], days: { larder: 7, fridge: 5 } },
+  { id: 'avocado', keywords: ['avocado', 'aguacate'], days: { larder: 4, fridge: 7 } },
+
+  // Vegetables
+  { id: 'tomato', keywords: ['tomato', 'tomate'], days: { larder: 5, fridge: 10 } },
+  { id: 'leafy', keywords: ['lettuce', 'lechuga', 'salad', 'ensalada', 'rucula', 'rocket'], days: { fridge: 5 } },
+  { id: 'spinach', keywords: ['spinach', 'espinaca'], days: { fridge: 5, freezer: 300 } },
+  { id: 'carrot', keywords: ['carrot', 'zanahoria'], days: { fridge: 21 } },
+  { id: 'potato', keywords: ['potato', 'patata'], days: { larder: 30 } },
+  { id: 'onion', keywords: ['onion', 'cebolla'], days: { larder: 30 } },
+  { id: 'garlic', keywords: ['garlic', 'ajo'], days: { larder: 90 } },
+  { id: 'pepper', keywords: ['bell pepper', 'pepper', 'pimiento'], days: { fridge: 10 } },
+  { id: 'cucumber', keywords: ['cucumber', 'pepino', 'zucchini', 'courgette', 'calabacin'], days: { fridge: 7 } },
+  { id: 'broccoli', keywords: ['broccoli', 'brocoli', 'cauliflower', 'coliflor'], days: { fridge: 5, freezer: 300 } },
+  { id: 'mushroom', keywords: ['mushroom', 'champinon', 'seta'], days: { fridge: 5 } },
+  { id: 'frozen-vegetables', keywords: ['frozen vegetable', 'pea', 'guisante', 'verdura congelada'], days: { freezer: 300, fridge: 5 } },
+
+  // Other chilled & frozen
+  { id: 'tofu', keywords: ['tofu'], days: { fridge: 7 }, openedDays: 3 },
+  { id: 'hummus', keywords: ['hummus', 'humus'], days: { fridge: 7 }, openedDays: 4 },
+  { id: 'ice-cream', keywords: ['ice cream', 'helado'], days: { freezer: 60 } },
+  { id: 'pizza', keywords: ['pizza'], days: { freezer: 180, fridge: 3 } },
+
+  // Drinks
+  { id: 'juice', keywords: ['juice', 'zumo'], days: { fridge: 7, larder: 120 }, openedDays: 5 },
+  { id: 'water', keywords: ['water', 'agua'], days: { larder: 365 } },
+  { id: 'soft-drink', keywords: ['soda', 'cola', 'refresco'], days: { larder: 180 }, openedDays: 3 },
+  { id: 'beer', keywords: ['beer', 'cerveza'], days: { larder: 180, fridge: 180 }, openedDays: 1 },
+  { id: 'wine', keywords: ['wine', 'vino'], days: { larder: 730 }, openedDays: 5 },
+];
+
+/**
+ * Fallbacks for items that match no product but carry a recognisable category.
+ */
+export const CATEGORY_SHELF_LIFE: ShelfLifeEntry[] = [
+  { id: 'category-dairy', keywords: ['dairy', 'lacteo'], days: { fridge: 7, freezer: 90 }, openedDays: 4 },
+  { id: 'category-meat', keywords: ['meat', 'carne', 'poultry', 'ave'], days: { fridge: 3, freezer: 180 } },
+  { id: 'category-fish', keywords: ['fish', 'seafood', 'pescado', 'marisco'], days: { fridge: 2, freezer: 180 } },
+  { id: 'category-fruit', keywords: ['fruit', 'fruta'], days: { larder: 5, fridge: 14 } },
+  { id: 'category-vegetables', keywords: ['vegetable', 'veg', 'produce', 'verdura', 'hortaliza'], days: { fridge: 7 } },
+  { id: 'category-bakery', keywords: ['bakery', 'bread', 'panaderia'], days: { larder: 4, freezer: 90 } },
+  { id: 'category-frozen', keywords: ['frozen', 'congelado'], days: { freezer: 180 } },
+  { id: 'category-pantry', keywords: ['pantry', 'dry goods', 'despensa', 'tinned', 'conserva'], days: { larder: 365 } },
+  { id: 'category-drinks', keywords: ['drink', 'beverage', 'bebida'], days: { larder: 180, fridge: 180 } },
+];
@@ -0,0 +1,157 @@
+import { toDateOnlyString } from '@/lib/dates';
+import { normalizeUnit } from '@/lib/quantity';
+import {
+  CATEGORY_SHELF_LIFE,
+  SHELF_LIFE_DATASET,
+  type ShelfLifeEntry,
+  type StorageLocationType,
+} from './dataset';
+
+export type { StorageLocationType } from './dataset';
+
+export type ShelfLifeOverride = {
+  productKey: string;
+  locationType: string;
+  days: number;
+};
+
+export type ShelfLifeSuggestion = {
+  days: number;
+  source: 'override' | 'product' | 'category';
+};
+
+const STOP_WORDS = new Set(['de', 'del', 'en', 'al', 'la', 'el', 'los', 'las', 'con', 'sin', 'and', 'in', 'with', 'of', 'the', 'y']);
+
+const stripAccents = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const tokenize = (value: string) =>
+  stripAccents(value.toLowerCase())
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word) && !normalizeUnit(word));
+
+/**
+ * Singular forms a word could have, so "tomatoes", "tomates" and "limones" match "tomato", "tomate" and "limon".
+ */
+const wordVariants = (word: string) => {
+  const variants = new Set([word]);
+  if (word.endsWith('ies')) variants.add(`${word.slice(0, -3)}y`);
+  if (word.endsWith('es')) variants.add(word.slice(0, -2));
+  if (word.endsWith('s') && !word.endsWith('ss')) variants.add(word.slice(0, -1));
+  return variants;
+};
+
+/**
+ * Key a product by its name so overrides survive small differences ("Tomatoes 1kg" vs "tomato").
+ */
+export const normalizeProductName = (name: string) =>
+  tokenize(name)
+    .map((word) => [...wordVariants(word)].sort((a, b) => a.length - b.length)[0])
+    .join(' ');
+
+/**
+ * The words of a product name, each with the singular forms it could have, for fuzzy comparisons.
+ */
+export const getNameWords = (name: string) => tokenize(name).map(wordVariants);
+
+const matchLength = (words: Set<string>[], keyword: string) => {
+  const keywordWords = tokenize(keyword);
+  for (let start = 0; start + keywordWords.length <= words.length; start += 1) {
+    if (keywordWords.every((keywordWord, offset) => words[start + offset].has(keywordWord))) {
+      return keywordWords.length;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Find the entry whose keyword best matches the text. Longer keywords win, so "fresh pasta" beats "pasta".
+ */
+const findEntry = (entries: ShelfLifeEntry[], text: string) => {
+  const words = getNameWords(text);
+  let best: { entry: ShelfLifeEntry; length: number } | null = null;
+
+  for (const entry of entries) {
+    for (const keyword of entry.keywords) {
+      const length = matchLength(words, keyword);
+      if (length > 0 && (!best || length > best.length)) {
+        best = { entry, length };
+      }
+    }
+  }
+
+  return best?.entry ?? null;
+};
+
+export const findShelfLifeEntry = (name: string) => findEntry(SHELF_LIFE_DATASET, name);
+
+const daysFor = (entry: ShelfLifeEntry, locationType: StorageLocationType) =>
+  // Anything that keeps in the larder keeps at least as long in the fridge.
+  entry.days[locationType] ?? (locationType === 'fridge' ? entry.days.larder : undefined) ?? null;
+
+const isLocationType = (value: string): value is StorageLocationType =>
+  value === 'freezer' || value === 'fridge' || value === 'larder';
+
+/**
+ * Suggest how many days an item keeps in a location: the user's remembered override first,
+ * then the bundled product dataset, then a category-wide fallback.
+ */
+export const suggestShelfLife = (
+  item: { name: string; category?: string | null; locationType: string | null | undefined },
+  overrides: ShelfLifeOverride[] = [],
+): ShelfLifeSuggestion | null => {
+  const productKey = normalizeProductName(item.name);
+  if (!productKey || !item.locationType) {
+    return null;
+  }
+
+  const override = overrides.find(
+    (candidate) => candidate.productKey === productKey && candidate.locationType === item.locationType,
+  );
+  if (override) {
+    return { days: override.days, source: 'override' };
+  }
+
+  if (!isLocationType(item.locationType)) {
+    return null;
+  }
+
+  const productEntry = findShelfLifeEntry(item.name);
+  const productDays = productEntry ? daysFor(productEntry, item.locationType) : null;
+  if (productDays !== null) {
+    return { days: productDays, source: 'product' };
+  }
+
+  const categoryEntry = item.category ? findEntry(CATEGORY_SHELF_LIFE, item.category) : null;
+  const categoryDays = categoryEntry ? daysFor(categoryEntry, item.locationType) : null;
+  if (categoryDays !== null) {
+    return { days: categoryDays, source: 'category' };
+  }
+
+  return null;
+};
+
+/**
+ * How many days a product keeps once opened, or `null` when the dataset doesn't know.
+ */
+export const getOpenedShelfLifeDays = (item: { name: string; category?: string | null }) =>
+  findShelfLifeEntry(item.name)?.openedDays ??
+  (item.category ? findEntry(CATEGORY_SHELF_LIFE, item.category)?.openedDays : undefined) ??
+  null;
+
+export const addDays = (date: Date, days: number) => {
+  const next = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+/**
+ * Whole days between today and a chosen expiry date, for remembering what the user picked.
+ */
+export const daysFromToday = (date: Date, today: Date = new Date()) => {
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const end = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+export const suggestExpiryDate = (days: number, today: Date = new Date()) => toDateOnlyString(addDays(today, days));
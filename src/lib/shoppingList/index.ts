@@ -0,0 +1,175 @@
+import { findShelfLifeEntry, normalizeProductName } from '@/lib/shelfLife';
+import type { Database } from '@/lib/supabase/types';
+
+export type ShoppingListItem = Database['public']['Tables']['shopping_list_items']['Row'];
+
+/** Store aisles in the order most supermarkets are walked through. */
+export const SHOPPING_AISLES = [
+  'produce',
+  'bakery',
+  'dairy',
+  'meat',
+  'fish',
+  'frozen',
+  'pantry',
+  'drinks',
+  'household',
+  'other',
+] as const;
+
+export type ShoppingAisle = (typeof SHOPPING_AISLES)[number];
+
+export type ShoppingSection = {
+  aisle: ShoppingAisle;
+  items: ShoppingListItem[];
+};
+
+// Aisles for the products of the shelf-life dataset, keyed by entry id.
+const PRODUCT_AISLES: Record<string, ShoppingAisle> = {
+  milk: 'dairy',
+  'uht-milk': 'dairy',
+  yogurt: 'dairy',
+  cheese: 'dairy',
+  'fresh-cheese': 'dairy',
+  butter: 'dairy',
+  cream: 'dairy',
+  egg: 'dairy',
+  chicken: 'meat',
+  'minced-meat': 'meat',
+  beef: 'meat',
+  pork: 'meat',
+  ham: 'meat',
+  bacon: 'meat',
+  sausage: 'meat',
+  fish: 'fish',
+  seafood: 'fish',
+  tinned: 'pantry',
+  jam: 'pantry',
+  ketchup: 'pantry',
+  mayonnaise: 'pantry',
+  mustard: 'pantry',
+  'soy-sauce': 'pantry',
+  'tomato-sauce': 'pantry',
+  sauce: 'pantry',
+  pesto: 'pantry',
+  bread: 'bakery',
+  'sliced-bread': 'bakery',
+  rice: 'pantry',
+  pasta: 'pantry',
+  'fresh-pasta': 'dairy',
+  flour: 'pantry',
+  sugar: 'pantry',
+  cereal: 'pantry',
+  legumes: 'pantry',
+  oil: 'pantry',
+  coffee: 'pantry',
+  chocolate: 'pantry',
+  biscuits: 'pantry',
+  tofu: 'dairy',
+  hummus: 'dairy',
+  apple: 'produce',
+  banana: 'produce',
+  citrus: 'produce',
+  lemon: 'produce',
+  berries: 'produce',
+  grape: 'produce',
+  'stone-fruit': 'produce',
+  melon: 'produce',
+  avocado: 'produce',
+  tomato: 'produce',
+  leafy: 'produce',
+  spinach: 'produce',
+  carrot: 'produce',
+  potato: 'produce',
+  onion: 'produce',
+  garlic: 'produce',
+  pepper: 'produce',
+  cucumber: 'produce',
+  broccoli: 'produce',
+  mushroom: 'produce',
+  'ice-cream': 'frozen',
+  pizza: 'frozen',
+  'frozen-vegetables': 'frozen',
+  juice: 'drinks',
+  water: 'drinks',
+  'soft-drink': 'drinks',
+  beer: 'drinks',
+  wine: 'drinks',
+};
+
+export const isShoppingAisle = (value: string | null | undefined): value is ShoppingAisle =>
+  SHOPPING_AISLES.includes(value as ShoppingAisle);
+
+/**
+ * Guess the aisle a product is found in from its name, or `null` when the product isn't known.
+ */
+export const guessAisle = (name: string): ShoppingAisle | null => {
+  const entry = findShelfLifeEntry(name);
+  return entry ? (PRODUCT_AISLES[entry.id] ?? null) : null;
+};
+
+export const getItemAisle = (item: Pick<ShoppingListItem, 'aisle' | 'name'>): ShoppingAisle =>
+  isShoppingAisle(item.aisle) ? item.aisle : (guessAisle(item.name) ?? 'other');
+
+const byPosition = (a: ShoppingListItem, b: ShoppingListItem) =>
+  a.position - b.position || a.created_at.localeCompare(b.created_at);
+
+/**
+ * Split a list into aisle sections of items still to buy, in aisle order, and the items already
+ * checked off, most recent first.
+ */
+export const groupByAisle = (items: ShoppingListItem[]) => {
+  const sections: ShoppingSection[] = SHOPPING_AISLES.map((aisle) => ({
+    aisle,
+    items: items.filter((item) => !item.checked_at && getItemAisle(item) === aisle).sort(byPosition),
+  })).filter((section) => section.items.length > 0);
+
+  const checked = items
+    .filter((item) => item.checked_at)
+    .sort((a, b) => (b.checked_at ?? '').localeCompare(a.checked_at ?? ''));
+
+  return { sections, checked };
+};
+
+/** Position for an item added at the end of the list. */
+export const getNextPosition = (items: Pick<ShoppingListItem, 'position'>[]) =>
+  items.reduce((highest, item) => Math.max(highest, item.position + 1), 0);
+
+/**
+ * Move an item one place up (`-1`) or down (`1`) within its aisle. Returns the positions that change,
+ * which is empty when the item is already at that end of its aisle.
+ */
+export const moveWithinAisle = (
+  items: ShoppingListItem[],
+  itemId: string,
+  direction: -1 | 1,
+): { id: string; position: number }[] => {
+  const section = groupByAisle(items).sections.find((candidate) =>
+    candidate.items.some((item) => item.id === itemId),
+  );
+  if (!section) {
+    return [];
+  }
+
+  const order = [...section.items];
+  const from = order.findIndex((item) => item.id === itemId);
+  const to = from + direction;
+  if (to < 0 || to >= order.length) {
+    return [];
+  }
+  [order[from], order[to]] = [order[to], order[from]];
+
+  // Renumber the aisle from its lowest position so ties left by concurrent adds are resolved too.
+  const start = Math.min(...section.items.map((item) => item.position));
+  return order
+    .map((item, index) => ({ id: item.id, position: start + index }))
+    .filter((update) => update.position !== items.find((item) => item.id === update.id)?.position);
+};
+
+/**
+ * The unchecked entry for a product already on the list, if any, so the same thing isn't added twice.
+ */
+export const findOpenItem = (items: ShoppingListItem[], name: string) => {
+  const key = normalizeProductName(name);
+  return key ? (items.find((item) => !item.checked_at && normalizeProductName(item.name) === key) ?? null) : null;
+};
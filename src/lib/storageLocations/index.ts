@@ -0,0 +1,74 @@
+import type { StorageLocationType } from '@/lib/shelfLife';
+
+export const LOCATION_TYPES: StorageLocationType[] = ['freezer', 'fridge', 'larder'];
+
+export const LOCATION_ICON_NAMES = [
+  'snowflake',
+  'refrigerator',
+  'package',
+  'archive',
+  'warehouse',
+  'wine',
+  'shopping-basket',
+  'box',
+] as const;
+
+export type LocationIconName = (typeof LOCATION_ICON_NAMES)[number];
+
+export const LOCATION_COLORS = [
+  '#38bdf8',
+  '#34d399',
+  '#facc15',
+  '#f97316',
+  '#f472b6',
+  '#a78bfa',
+  '#ef4444',
+  '#94a3b8',
+];
+
+export type LocationAppearance = {
+  icon: LocationIconName;
+  color: string;
+};
+
+const TYPE_APPEARANCE: Record<StorageLocationType, LocationAppearance> = {
+  freezer: { icon: 'snowflake', color: '#38bdf8' },
+  fridge: { icon: 'refrigerator', color: '#34d399' },
+  larder: { icon: 'package', color: '#facc15' },
+};
+
+/**
+ * Locations every new account starts with. Users can rename, restyle or delete them afterwards.
+ */
+export const DEFAULT_LOCATIONS: { name: string; type: StorageLocationType }[] = [
+  { name: 'Freezer', type: 'freezer' },
+  { name: 'Fridge', type: 'fridge' },
+  { name: 'Larder', type: 'larder' },
+];
+
+export const isLocationType = (value: string): value is StorageLocationType =>
+  (LOCATION_TYPES as string[]).includes(value);
+
+const isLocationIconName = (value: string): value is LocationIconName =>
+  (LOCATION_ICON_NAMES as readonly string[]).includes(value);
+
+/**
+ * The icon and colour to draw a location with: what the user picked, else the default for its type.
+ */
+export const getLocationAppearance = (location: {
+  type: string;
+  icon?: string | null;
+  color?: string | null;
+}): LocationAppearance => {
+  const fallback = isLocationType(location.type) ? TYPE_APPEARANCE[location.type] : TYPE_APPEARANCE.larder;
+  return {
+    icon: location.icon && isLocationIconName(location.icon) ? location.icon : fallback.icon,
+    color: location.color || fallback.color,
+  };
+};
+
+/**
+ * Whether a location still carries the name it was seeded with, so the UI can show it translated.
+ */
+export const hasDefaultName = (location: { name: string; type: string }) =>
+  DEFAULT_LOCATIONS.some((candidate) => candidate.type === location.type && candidate.name === location.name);
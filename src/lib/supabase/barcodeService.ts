@@ -0,0 +1,66 @@
+import { parseStoredPackSize, type ProductLookupProvider, type ScannedProduct } from '@/lib/barcode';
+import { toQuantityFields } from '@/lib/quantity';
+import { supabase } from './client';
+
+/**
+ * Get a product the household scanned before, or `null` when the barcode is new to them
+ */
+export async function getScannedProduct(householdId: string, barcode: string): Promise<ScannedProduct | null> {
+  const { data, error } = await supabase
+    .from('scanned_products')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('barcode', barcode)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return {
+    barcode: data.barcode,
+    name: data.name,
+    brand: data.brand,
+    category: data.category,
+    packSize: parseStoredPackSize(data.pack_quantity, data.pack_unit),
+    source: data.source,
+  };
+}
+
+/**
+ * Remember a scanned product for the household, replacing what was stored for the barcode before
+ */
+export async function saveScannedProduct(householdId: string, product: ScannedProduct) {
+  const packSize = product.packSize ? toQuantityFields(product.packSize) : null;
+
+  const { error } = await supabase.from('scanned_products').upsert(
+    {
+      household_id: householdId,
+      barcode: product.barcode,
+      name: product.name,
+      brand: product.brand,
+      category: product.category,
+      pack_quantity: packSize?.quantity ?? null,
+      pack_unit: packSize?.unit ?? null,
+      source: product.source,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'household_id,barcode' },
+  );
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Looks barcodes up among the products the household has scanned before.
+ */
+export const createScannedProductsProvider = (householdId: string): ProductLookupProvider => ({
+  id: 'scanned-products',
+  lookup: (barcode) => getScannedProduct(householdId, barcode),
+});
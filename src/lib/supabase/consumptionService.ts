@@ -0,0 +1,232 @@
+import { ConsumptionError } from '@/lib/consumption';
+import { planLotConsumption, type LotItem } from '@/lib/lots';
+import { getThresholdKey } from '@/lib/lowStock';
+import { formatAmount, subtractQuantities, sumQuantities, toQuantityFields, type Quantity } from '@/lib/quantity';
+import { syncItemReminders } from '@/lib/reminders/notifications';
+import { supabase } from './client';
+import { restockIfRunningLow } from './stockThresholdService';
+import { estimateItemValue, getItemQuantity } from './storageService';
+import { Constants, type Database } from './types';
+import { logWaste } from './wasteService';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+export type ConsumptionEvent = Database['public']['Tables']['consumption_events']['Row'];
+export type ConsumptionReason = Database['public']['Enums']['consumption_reason'];
+
+// What `consume_storage_items` raises when an item no longer has the quantity the app read.
+const SERIALIZATION_FAILURE = '40001';
+
+export const CONSUMPTION_REASONS: readonly ConsumptionReason[] = Constants.public.Enums.consumption_reason;
+
+type ConsumeStorageItemParams = {
+  item: Pick<
+    StorageItem,
+    'id' | 'household_id' | 'name' | 'category' | 'price' | 'quantity' | 'unit' | 'storage_location_id'
+  >;
+  /** Amount taken out of the item, or `'all'` to use up whatever is left. */
+  amount: Quantity | 'all';
+  reason: ConsumptionReason;
+  userId: string;
+};
+
+/**
+ * Work out what is left of an item after taking `amount` out of it.
+ * Returns `null` remaining when the item is used up (or its quantity cannot be parsed and everything was taken).
+ */
+export function computeRemainingQuantity(
+  item: Pick<StorageItem, 'quantity' | 'unit'>,
+  amount: Quantity | 'all',
+): { used: Quantity | null; remaining: Quantity | null } {
+  const current = getItemQuantity(item);
+
+  if (amount === 'all') {
+    return { used: current, remaining: null };
+  }
+
+  if (!current) {
+    throw new ConsumptionError('unmeasured');
+  }
+
+  const remaining = subtractQuantities(current, amount);
+  if (!remaining) {
+    throw new ConsumptionError('incompatibleUnit', { unit: amount.unit, itemUnit: current.unit });
+  }
+
+  return { used: amount, remaining: remaining.value > 0 ? remaining : null };
+}
+
+type ConsumptionResult = { event: ConsumptionEvent; item: StorageItem; used: Quantity | null };
+
+/**
+ * Work out the item's new state and the consumption event for taking `amount` out of it, as a step
+ * for the `consume_storage_items` database function.
+ */
+function planTake({ item, amount }: Pick<ConsumeStorageItemParams, 'item' | 'amount'>) {
+  const { used, remaining } = computeRemainingQuantity(item, amount);
+
+  const usedValue = estimateItemValue(item, used);
+  const remainingPrice =
+    item.price === null || usedValue === null ? item.price : Math.round((item.price - usedValue) * 100) / 100;
+
+  return {
+    used,
+    step: {
+      item_id: item.id,
+      ...(remaining
+        ? { ...toQuantityFields(remaining), price: remainingPrice, archive: false }
+        : { quantity: '0', unit: item.unit, price: item.price, archive: true }),
+      used_quantity: used ? formatAmount(used.value) : item.quantity,
+      used_unit: used ? used.unit : item.unit,
+      expected_quantity: item.quantity,
+      expected_unit: item.unit,
+    },
+  };
+}
+
+/**
+ * Log the consumption events and update the items in one transaction, without the follow-ups in
+ * `afterConsumption`. If any step fails, none of them is applied.
+ */
+async function takeFromItems(
+  steps: Pick<ConsumeStorageItemParams, 'item' | 'amount'>[],
+  reason: ConsumptionReason,
+): Promise<ConsumptionResult[]> {
+  const plans = steps.map(planTake);
+
+  const { data, error } = await supabase.rpc('consume_storage_items', {
+    steps: plans.map(({ step }) => step),
+    consume_reason: reason,
+  });
+
+  if (error) {
+    // Someone else changed one of the items since it was read; nothing was applied.
+    if (error.code === SERIALIZATION_FAILURE) {
+      throw new ConsumptionError('itemChanged');
+    }
+    throw error;
+  }
+
+  const results = data as { event: ConsumptionEvent; item: StorageItem }[];
+  return results.map(({ event, item }, index) => {
+    syncItemReminders(item).catch((reminderError) => {
+      console.warn('Failed to schedule expiry reminders', reminderError);
+    });
+    return { event, item, used: plans[index].used };
+  });
+}
+
+/**
+ * Best-effort follow-ups once consumption is final: wasted amounts go to the waste log and staples
+ * that drop below their minimum stock level go on the shopping list, checked once per product.
+ */
+async function afterConsumption(
+  steps: { item: ConsumeStorageItemParams['item']; used: Quantity | null }[],
+  reason: ConsumptionReason,
+  userId: string,
+) {
+  if (reason === 'wasted') {
+    for (const { item, used } of steps) {
+      try {
+        await logWaste({ item, quantity: used, reason: 'discarded', userId });
+      } catch (wasteError) {
+        console.error('Failed to record waste:', wasteError);
+      }
+    }
+  }
+
+  const products = new Map<string, { householdId: string; name: string; removed: Quantity[]; unknown: boolean }>();
+  for (const { item, used } of steps) {
+    const key = `${item.household_id}|${getThresholdKey(item.name)}`;
+    const product = products.get(key) ?? { householdId: item.household_id, name: item.name, removed: [], unknown: false };
+    if (used) {
+      product.removed.push(used);
+    } else {
+      product.unknown = true;
+    }
+    products.set(key, product);
+  }
+
+  for (const { householdId, name, removed, unknown } of products.values()) {
+    try {
+      await restockIfRunningLow({
+        householdId,
+        name,
+        removed: unknown ? null : sumQuantities(removed),
+        userId,
+      });
+    } catch (restockError) {
+      console.warn('Failed to check stock level', restockError);
+    }
+  }
+}
+
+/**
+ * Take part of an item's quantity and log it as a consumption event.
+ * Items that reach zero are archived rather than deleted so their history is kept.
+ * The item's price shrinks with it so it keeps describing what is left, and wasted amounts also go to the waste log.
+ * Staples that drop below their minimum stock level go on the shopping list.
+ */
+export async function consumeStorageItem(params: ConsumeStorageItemParams) {
+  const [{ event, item, used }] = await takeFromItems([params], params.reason);
+  await afterConsumption([{ item: params.item, used }], params.reason, params.userId);
+  return { event, item };
+}
+
+type ConsumeTogetherParams = Omit<ConsumeStorageItemParams, 'item' | 'amount'> & {
+  steps: Pick<ConsumeStorageItemParams, 'item' | 'amount'>[];
+};
+
+/**
+ * Take several amounts out of the pantry as one change, such as the ingredients of a recipe.
+ * Each step is logged like `consumeStorageItem`, but all of them are applied in one transaction,
+ * so the pantry ends up either fully updated or as it was.
+ */
+export async function consumeTogether({ steps, reason, userId }: ConsumeTogetherParams) {
+  const results = await takeFromItems(steps, reason);
+
+  await afterConsumption(
+    steps.map((step, index) => ({ item: step.item, used: results[index].used })),
+    reason,
+    userId,
+  );
+
+  return results.map(({ event, item }) => ({ event, item }));
+}
+
+type ConsumeLotsParams = Omit<ConsumeStorageItemParams, 'item'> & {
+  /** The product's lots in FEFO order, see `groupLots`. */
+  lots: (ConsumeStorageItemParams['item'] & LotItem)[];
+};
+
+/**
+ * Take `amount` out of a product first-expiring-first-out: the lot that expires first is used up
+ * before the next one is touched. Each lot gets its own consumption event, and the lots are
+ * updated together with `consumeTogether`.
+ */
+export async function consumeLots({ lots, amount, reason, userId }: ConsumeLotsParams) {
+  const steps = planLotConsumption(lots, amount).map(({ lot, amount: lotAmount }) => ({ item: lot, amount: lotAmount }));
+  return consumeTogether({ steps, reason, userId });
+}
+
+/**
+ * Get consumption events for a user, newest first
+ */
+export async function getConsumptionEvents(userId: string, since?: Date) {
+  let query = supabase
+    .from('consumption_events')
+    .select('*')
+    .eq('user_id', userId)
+    .order('consumed_at', { ascending: false });
+
+  if (since) {
+    query = query.gte('consumed_at', since.toISOString());
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return data as ConsumptionEvent[];
+}
@@ -0,0 +1,104 @@
+import { DEFAULT_EXPIRING_SOON_DAYS, type ExpiryRules } from '@/lib/expiry';
+import { supabase } from './client';
+import type { Database } from './types';
+
+export type ExpiryThreshold = Database['public']['Tables']['expiry_thresholds']['Row'];
+type ExpiryThresholdInsert = Database['public']['Tables']['expiry_thresholds']['Insert'];
+
+/**
+ * Load the user's expiry settings and overrides in the shape the status engine expects
+ */
+export async function getExpiryRules(userId: string): Promise<ExpiryRules> {
+  const [profileResult, thresholds] = await Promise.all([
+    supabase.from('profiles').select('expiring_soon_days, timezone').eq('id', userId).maybeSingle(),
+    getExpiryThresholds(userId),
+  ]);
+
+  if (profileResult.error) {
+    throw profileResult.error;
+  }
+
+  return {
+    expiringSoonDays: profileResult.data?.expiring_soon_days ?? DEFAULT_EXPIRING_SOON_DAYS,
+    timeZone: profileResult.data?.timezone ?? null,
+    overrides: thresholds.map((threshold) => ({
+      category: threshold.category,
+      storageLocationId: threshold.storage_location_id,
+      days: threshold.days,
+    })),
+  };
+}
+
+/**
+ * Update the user's default expiring-soon window and/or timezone
+ */
+export async function updateExpirySettings(
+  userId: string,
+  settings: { expiringSoonDays?: number; timeZone?: string | null },
+) {
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      expiring_soon_days: settings.expiringSoonDays,
+      timezone: settings.timeZone,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the per-category/location overrides for a user
+ */
+export async function getExpiryThresholds(userId: string) {
+  const { data, error } = await supabase
+    .from('expiry_thresholds')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as ExpiryThreshold[];
+}
+
+/**
+ * Add an override, e.g. fish in the fridge counts as expiring 1 day ahead
+ */
+export async function createExpiryThreshold(threshold: Omit<ExpiryThresholdInsert, 'user_id'>, userId: string) {
+  if (!threshold.category?.trim() && !threshold.storage_location_id) {
+    throw new Error('An override needs a category, a location, or both.');
+  }
+
+  const { data, error } = await supabase
+    .from('expiry_thresholds')
+    .insert({
+      ...threshold,
+      category: threshold.category?.trim() || null,
+      user_id: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as ExpiryThreshold;
+}
+
+/**
+ * Delete an override
+ */
+export async function deleteExpiryThreshold(thresholdId: string) {
+  const { error } = await supabase.from('expiry_thresholds').delete().eq('id', thresholdId);
+
+  if (error) {
+    throw error;
+  }
+}
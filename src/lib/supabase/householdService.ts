@@ -0,0 +1,184 @@
+import { normalizeInviteCode, type HouseholdRole } from '@/lib/households';
+import { supabase } from './client';
+import { initializeStorageLocations } from './storageService';
+import type { Database } from './types';
+
+export type Household = Database['public']['Tables']['households']['Row'];
+type HouseholdMember = Database['public']['Tables']['household_members']['Row'];
+
+export type HouseholdMembership = {
+  household: Household;
+  role: HouseholdRole;
+};
+
+export type HouseholdMemberWithProfile = HouseholdMember & {
+  profiles: { full_name: string | null } | null;
+};
+
+const DEFAULT_HOUSEHOLD_NAME = 'My household';
+
+/**
+ * Get every household the user belongs to, oldest membership first
+ */
+export async function getHouseholds(userId: string): Promise<HouseholdMembership[]> {
+  const { data, error } = await supabase
+    .from('household_members')
+    .select(
+      `
+      role,
+      households (*)
+    `,
+    )
+    .eq('user_id', userId)
+    .order('joined_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data.flatMap((row) => (row.households ? [{ household: row.households, role: row.role }] : []));
+}
+
+/**
+ * Create a household owned by the user, with the default storage locations.
+ * The database gives it an invite code.
+ */
+export async function createHousehold(name: string, userId: string) {
+  const { data: household, error } = await supabase
+    .from('households')
+    .insert({ name: name.trim(), created_by: userId })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const { error: memberError } = await supabase
+    .from('household_members')
+    .insert({ household_id: household.id, user_id: userId, role: 'owner' });
+
+  if (memberError) {
+    throw memberError;
+  }
+
+  await initializeStorageLocations(household.id);
+  return household;
+}
+
+/**
+ * Make sure the user belongs to at least one household, creating a personal one on first sign-in.
+ * The database creates it, so overlapping calls still end up with a single household.
+ */
+export async function ensureHousehold(userId: string) {
+  const { error } = await supabase.rpc('ensure_household', { household_name: DEFAULT_HOUSEHOLD_NAME });
+
+  if (error) {
+    throw error;
+  }
+
+  return getHouseholds(userId);
+}
+
+/**
+ * Join a household with its invite code. New members join as `member`.
+ * Returns the id of the joined household.
+ */
+export async function joinHousehold(inviteCode: string) {
+  // Non-members can't read households, so the lookup happens in a security-definer function.
+  const { data, error } = await supabase.rpc('join_household', { invite_code: normalizeInviteCode(inviteCode) });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Replace a household's invite code so the old one stops working. Owners only.
+ */
+export async function regenerateInviteCode(householdId: string) {
+  // Codes are generated in the database from a cryptographic source.
+  const { data, error } = await supabase.rpc('regenerate_invite_code', { target_household: householdId });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Get the members of a household with their profile names
+ */
+export async function getHouseholdMembers(householdId: string) {
+  const { data, error } = await supabase
+    .from('household_members')
+    .select(
+      `
+      *,
+      profiles (
+        full_name
+      )
+    `,
+    )
+    .eq('household_id', householdId)
+    .order('joined_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as HouseholdMemberWithProfile[];
+}
+
+/**
+ * Change a member's role
+ */
+export async function updateHouseholdMemberRole(memberId: string, role: HouseholdRole) {
+  const { error } = await supabase.from('household_members').update({ role }).eq('id', memberId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Remove a member from a household. Members leave a household by removing themselves.
+ */
+export async function removeHouseholdMember(memberId: string) {
+  const { error } = await supabase.from('household_members').delete().eq('id', memberId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the household the user last switched to, if any
+ */
+export async function getActiveHouseholdId(userId: string) {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('active_household_id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.active_household_id ?? null;
+}
+
+/**
+ * Remember which household the user is looking at, across devices
+ */
+export async function setActiveHousehold(userId: string, householdId: string) {
+  const { error } = await supabase.from('profiles').update({ active_household_id: householdId }).eq('id', userId);
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,53 @@
+import type { OutboxTransport } from '@/lib/outbox';
+import { supabase } from './client';
+import { restockIfRunningLow } from './stockThresholdService';
+import { createStorageItem, deleteStorageItem, getItemQuantity, updateStorageItem } from './storageService';
+import type { Database } from './types';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+
+/**
+ * Get a storage item as stored, or `null` when it no longer exists
+ */
+async function fetchStorageItemRow(itemId: string) {
+  const { data, error } = await supabase.from('storage_items').select('*').eq('id', itemId).maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as StorageItem | null;
+}
+
+/**
+ * Delete a storage item, then put it on the shopping list if it was a staple that is now running low
+ */
+async function deleteStorageItemAndRestock(itemId: string) {
+  const row = await fetchStorageItemRow(itemId);
+  await deleteStorageItem(itemId);
+  if (!row || row.archived_at) {
+    return;
+  }
+
+  try {
+    const { data } = await supabase.auth.getSession();
+    await restockIfRunningLow({
+      householdId: row.household_id,
+      name: row.name,
+      removed: getItemQuantity(row),
+      userId: data.session?.user.id ?? row.user_id,
+    });
+  } catch (restockError) {
+    console.warn('Failed to check stock level', restockError);
+  }
+}
+
+/**
+ * Replays outbox mutations through the regular storage services, so reminders are planned the same way.
+ */
+export const supabaseOutboxTransport: OutboxTransport = {
+  createItem: ({ user_id: userId, ...item }) => createStorageItem(item, userId),
+  updateItem: (itemId, changes) => updateStorageItem(itemId, changes),
+  deleteItem: (itemId) => deleteStorageItemAndRestock(itemId),
+  fetchItem: (itemId) => fetchStorageItemRow(itemId),
+};
@@ -0,0 +1,68 @@
+import { getProductKey, learnProduct, type CatalogProduct, type ProductObservation } from '@/lib/productCatalog';
+import { supabase } from './client';
+
+/**
+ * Get the products a user has bought before, most used first
+ */
+export async function getProductCatalog(userId: string) {
+  const { data, error } = await supabase
+    .from('product_catalog')
+    .select('*')
+    .eq('user_id', userId)
+    .order('use_count', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as CatalogProduct[];
+}
+
+/**
+ * Teach the user's catalog about products they just added, creating entries for new ones
+ */
+export async function learnProducts(userId: string, observations: ProductObservation[]) {
+  const keyed = observations
+    .map((observation) => ({ key: getProductKey(observation.name), observation }))
+    .filter(({ key }) => key);
+  if (!keyed.length) {
+    return;
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('product_catalog')
+    .select('*')
+    .eq('user_id', userId)
+    .in('product_key', [...new Set(keyed.map(({ key }) => key))]);
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  const entries = new Map<string, ReturnType<typeof learnProduct>>(existing.map((row) => [row.product_key, row]));
+  for (const { key, observation } of keyed) {
+    entries.set(key, learnProduct(entries.get(key), observation));
+  }
+
+  const updatedAt = new Date().toISOString();
+  const { error } = await supabase.from('product_catalog').upsert(
+    [...entries.values()].map((entry) => ({
+      product_key: entry.product_key,
+      name: entry.name,
+      aliases: entry.aliases,
+      default_unit: entry.default_unit,
+      category: entry.category,
+      storage_location_id: entry.storage_location_id,
+      shelf_life_days: entry.shelf_life_days,
+      use_count: entry.use_count,
+      last_used_at: entry.last_used_at,
+      user_id: userId,
+      updated_at: updatedAt,
+    })),
+    { onConflict: 'user_id,product_key' },
+  );
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './client';
+import type { Database } from './types';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+type StorageLocation = Database['public']['Tables']['storage_locations']['Row'];
+type ShoppingListItem = Database['public']['Tables']['shopping_list_items']['Row'];
+
+export type StorageItemChange = RealtimePostgresChangesPayload<StorageItem>;
+export type StorageLocationChange = RealtimePostgresChangesPayload<StorageLocation>;
+export type ShoppingListItemChange = RealtimePostgresChangesPayload<ShoppingListItem>;
+
+type HouseholdChangeHandlers = {
+  onItemChange: (change: StorageItemChange) => void;
+  onLocationChange: (change: StorageLocationChange) => void;
+  onShoppingListItemChange: (change: ShoppingListItemChange) => void;
+  /** Called every time the channel (re)connects, so callers can catch up on missed changes. */
+  onSubscribed?: () => void;
+};
+
+/**
+ * Listen to changes to a household's storage items, locations and shopping list. Returns a function that unsubscribes.
+ */
+export function subscribeToHouseholdChanges(
+  householdId: string,
+  { onItemChange, onLocationChange, onShoppingListItemChange, onSubscribed }: HouseholdChangeHandlers,
+) {
+  const householdFilter = `household_id=eq.${householdId}`;
+
+  const channel = supabase
+    .channel(`household-storage-${householdId}`)
+    .on<StorageItem>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'storage_items', filter: householdFilter },
+      onItemChange,
+    )
+    .on<StorageItem>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'storage_items', filter: householdFilter },
+      onItemChange,
+    )
+    // Delete events can't be filtered by column and only carry the primary key, so they are
+    // received for every row the user may see and matched by id.
+    .on<StorageItem>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'storage_items' }, onItemChange)
+    .on<StorageLocation>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'storage_locations', filter: householdFilter },
+      onLocationChange,
+    )
+    .on<StorageLocation>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'storage_locations', filter: householdFilter },
+      onLocationChange,
+    )
+    .on<StorageLocation>(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'storage_locations' },
+      onLocationChange,
+    )
+    .on<ShoppingListItem>(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'shopping_list_items', filter: householdFilter },
+      onShoppingListItemChange,
+    )
+    .on<ShoppingListItem>(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'shopping_list_items', filter: householdFilter },
+      onShoppingListItemChange,
+    )
+    .on<ShoppingListItem>(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'shopping_list_items' },
+      onShoppingListItemChange,
+    )
+    .subscribe((status, error) => {
+      if (status === 'SUBSCRIBED') {
+        onSubscribed?.();
+      } else if (error) {
+        console.warn('Realtime subscription failed', error);
+      }
+    });
+
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Hand the current access token to the realtime connection so row-level security keeps matching the session
+ */
+export async function setRealtimeAuth(accessToken: string | null) {
+  await supabase.realtime.setAuth(accessToken);
+}
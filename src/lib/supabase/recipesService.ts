@@ -1,7 +1,111 @@
+import type { Quantity } from '@/lib/quantity';
+import {
+  formatIngredientAmount,
+  isLegacyRecipe,
+  RECIPE_SCHEMA_VERSION,
+  readRecipeContent,
+  toRecipeColumns,
+  validateRecipeContent,
+  type RecipeContent,
+} from '@/lib/recipeSchema';
+import { getAmountQuantity, parseRecipeAmount } from '@/lib/recipeScaling';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from './client';
 import type { Database } from './types';
 
 export type Recipe = Database['public']['Tables']['recipes']['Row'];
+type RecipeInsert = Database['public']['Tables']['recipes']['Insert'];
+type RecipeUpdate = Database['public']['Tables']['recipes']['Update'];
+
+/** Columns the editor sets directly; ingredients and steps are written from `content`. */
+type RecipeFields = Omit<RecipeInsert, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'ingredients' | 'steps'>;
+
+export type RecipeDraft = RecipeFields & { content: RecipeContent };
+
+export type RecipeChanges = Omit<RecipeUpdate, 'id' | 'user_id' | 'created_at' | 'updated_at' | 'ingredients' | 'steps'> & {
+  content?: RecipeContent;
+};
+
+const RECIPE_PHOTOS_BUCKET = 'recipe-photos';
+
+const getUpgradedVersionKey = (userId: string) => `food-storage-recipes-upgraded-${userId}`;
+
+export type RecipeIngredient = {
+  name: string;
+  quantityText: string | null;
+  quantity: Quantity | null;
+  note?: string | null;
+  group?: string | null;
+  /** Catalog key of the pantry product the ingredient is linked to. */
+  productKey?: string | null;
+};
+
+/**
+ * How long a recipe takes in minutes, prep and cooking together, or `null` when neither is known.
+ */
+export const getRecipeMinutes = (recipe: Pick<Recipe, 'prep_time' | 'cook_time'>) => {
+  const known = [recipe.prep_time, recipe.cook_time].filter((minutes): minutes is number => Boolean(minutes));
+  return known.length > 0 ? known.reduce((total, minutes) => total + minutes, 0) : null;
+};
+
+/**
+ * A recipe's ingredients ready for display, scaling and pantry matching.
+ */
+export const getRecipeIngredients = (recipe: Pick<Recipe, 'ingredients' | 'steps'>): RecipeIngredient[] =>
+  readRecipeContent(recipe).ingredients.map((ingredient) => {
+    const quantityText = formatIngredientAmount(ingredient);
+    const amount = parseRecipeAmount(quantityText);
+    return {
+      name: ingredient.name,
+      quantityText,
+      quantity: amount ? getAmountQuantity(amount) : null,
+      note: ingredient.note,
+      group: ingredient.group ?? null,
+      productKey: ingredient.product ?? null,
+    };
+  });
+
+/**
+ * Rewrite the user's recipes that are still stored in the legacy format in the current schema,
+ * once per schema version. Runs on its own when a session starts, not as part of a read; if it fails
+ * it is tried again next time. Rows whose content doesn't validate once upgraded are left alone;
+ * they are still read leniently.
+ */
+export const upgradeLegacyRecipes = async (userId: string) => {
+  const upgradedVersion = await AsyncStorage.getItem(getUpgradedVersionKey(userId));
+  if (upgradedVersion === String(RECIPE_SCHEMA_VERSION)) {
+    return;
+  }
+
+  const { data: recipes, error: fetchError } = await supabase.from('recipes').select('*').eq('user_id', userId);
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  for (const recipe of recipes) {
+    if (!isLegacyRecipe(recipe)) {
+      continue;
+    }
+
+    const content = readRecipeContent(recipe);
+    if (validateRecipeContent(content).length) {
+      console.warn(`Recipe ${recipe.id} could not be upgraded`);
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('recipes')
+      .update({ ...toRecipeColumns(content), updated_at: new Date().toISOString() })
+      .eq('id', recipe.id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  await AsyncStorage.setItem(getUpgradedVersionKey(userId), String(RECIPE_SCHEMA_VERSION));
+};
 
 export const getUserRecipes = async (userId: string) => {
   const { data, error } = await supabase
@@ -32,3 +136,134 @@ export const getRecipeById = async (id: string) => {
 
   return data;
 };
+
+/**
+ * Save a recipe the user wrote. The content is validated and stored in the current schema.
+ */
+export const createRecipe = async ({ content, ...fields }: RecipeDraft, userId: string) => {
+  const { data, error } = await supabase
+    .from('recipes')
+    .insert({ ...fields, ...toRecipeColumns(content), user_id: userId })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating recipe:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateRecipe = async (id: string, { content, ...fields }: RecipeChanges) => {
+  const { data, error } = await supabase
+    .from('recipes')
+    .update({
+      ...fields,
+      ...(content ? toRecipeColumns(content) : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating recipe:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteRecipe = async (id: string) => {
+  const { error } = await supabase.from('recipes').delete().eq('id', id);
+
+  if (error) {
+    console.error('Error deleting recipe:', error);
+    throw error;
+  }
+};
+
+/**
+ * Copy a recipe, one of the user's or a public one, into a new private recipe of theirs.
+ */
+export const duplicateRecipe = async (recipe: Recipe, userId: string, name: string) =>
+  createRecipe(
+    {
+      name,
+      description: recipe.description,
+      image_url: recipe.image_url,
+      prep_time: recipe.prep_time,
+      cook_time: recipe.cook_time,
+      servings: recipe.servings,
+      is_public: false,
+      content: readRecipeContent(recipe),
+    },
+    userId,
+  );
+
+/**
+ * Upload a photo picked on the device to the `recipe-photos` bucket and return its public URL.
+ */
+export const uploadRecipePhoto = async (userId: string, uri: string, contentType = 'image/jpeg') => {
+  const response = await fetch(uri);
+  const body = await response.arrayBuffer();
+  const extension = contentType.split('/')[1] ?? 'jpg';
+  const path = `${userId}/${Date.now()}.${extension}`;
+
+  const { error } = await supabase.storage.from(RECIPE_PHOTOS_BUCKET).upload(path, body, { contentType });
+
+  if (error) {
+    console.error('Error uploading recipe photo:', error);
+    throw error;
+  }
+
+  return supabase.storage.from(RECIPE_PHOTOS_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+export type FavoriteRecipe = Database['public']['Tables']['favorite_recipes']['Row'] & {
+  recipes: Recipe | null;
+};
+
+export const getFavoriteRecipes = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('favorite_recipes')
+    .select('*, recipes(*)')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching favorite recipes:', error);
+    throw error;
+  }
+
+  return data as FavoriteRecipe[];
+};
+
+export const addFavoriteRecipe = async (userId: string, recipeId: string) => {
+  const { data, error } = await supabase
+    .from('favorite_recipes')
+    .insert({ user_id: userId, recipe_id: recipeId })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding favorite recipe:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const removeFavoriteRecipe = async (userId: string, recipeId: string) => {
+  const { error } = await supabase
+    .from('favorite_recipes')
+    .delete()
+    .eq('user_id', userId)
+    .eq('recipe_id', recipeId);
+
+  if (error) {
+    console.error('Error removing favorite recipe:', error);
+    throw error;
+  }
+};
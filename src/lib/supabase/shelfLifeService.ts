@@ -0,0 +1,50 @@
+import { normalizeProductName, type ShelfLifeOverride } from '@/lib/shelfLife';
+import { supabase } from './client';
+
+/**
+ * Get the shelf lives a user has picked themselves, per product and location type
+ */
+export async function getShelfLifeOverrides(userId: string): Promise<ShelfLifeOverride[]> {
+  const { data, error } = await supabase
+    .from('shelf_life_overrides')
+    .select('product_key, location_type, days')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map((row) => ({
+    productKey: row.product_key,
+    locationType: row.location_type,
+    days: row.days,
+  }));
+}
+
+/**
+ * Remember that a product keeps `days` days in a location type, replacing any earlier choice
+ */
+export async function rememberShelfLife(
+  userId: string,
+  { name, locationType, days }: { name: string; locationType: string; days: number },
+) {
+  const productKey = normalizeProductName(name);
+  if (!productKey) {
+    return;
+  }
+
+  const { error } = await supabase.from('shelf_life_overrides').upsert(
+    {
+      user_id: userId,
+      product_key: productKey,
+      location_type: locationType,
+      days,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'user_id,product_key,location_type' },
+  );
+
+  if (error) {
+    throw error;
+  }
+}
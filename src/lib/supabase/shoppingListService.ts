@@ -0,0 +1,165 @@
+import { guessAisle, type ShoppingListItem } from '@/lib/shoppingList';
+import { suggestExpiryDate, suggestShelfLife, type ShelfLifeOverride } from '@/lib/shelfLife';
+import { supabase } from './client';
+import { createStorageItem } from './storageService';
+import type { Database } from './types';
+
+type ShoppingListItemInsert = Database['public']['Tables']['shopping_list_items']['Insert'];
+type ShoppingListItemUpdate = Database['public']['Tables']['shopping_list_items']['Update'];
+type StorageLocation = Database['public']['Tables']['storage_locations']['Row'];
+
+/**
+ * Get a household's shopping list, checked-off items included
+ */
+export async function getShoppingList(householdId: string) {
+  const { data, error } = await supabase
+    .from('shopping_list_items')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as ShoppingListItem[];
+}
+
+/**
+ * Add an item to the shopping list. The aisle is guessed from the name when none is given.
+ */
+export async function addShoppingListItem(
+  item: Omit<ShoppingListItemInsert, 'user_id' | 'checked_at' | 'checked_by'>,
+  userId: string,
+) {
+  const name = item.name.trim();
+  const { data, error } = await supabase
+    .from('shopping_list_items')
+    .insert({ ...item, name, aisle: item.aisle ?? guessAisle(name), user_id: userId })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as ShoppingListItem;
+}
+
+/**
+ * Add several items at once, in the given order after `position`. Aisles are guessed like in `addShoppingListItem`.
+ */
+export async function addShoppingListItems(
+  items: Omit<ShoppingListItemInsert, 'user_id' | 'checked_at' | 'checked_by' | 'position'>[],
+  position: number,
+  userId: string,
+) {
+  const { data, error } = await supabase
+    .from('shopping_list_items')
+    .insert(
+      items.map((item, index) => {
+        const name = item.name.trim();
+        return { ...item, name, aisle: item.aisle ?? guessAisle(name), position: position + index, user_id: userId };
+      }),
+    )
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as ShoppingListItem[];
+}
+
+/**
+ * Update a shopping list item
+ */
+export async function updateShoppingListItem(
+  itemId: string,
+  updates: Pick<ShoppingListItemUpdate, 'name' | 'quantity' | 'unit' | 'aisle' | 'position'>,
+) {
+  const { data, error } = await supabase
+    .from('shopping_list_items')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', itemId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as ShoppingListItem;
+}
+
+/**
+ * Check an item off the list, or put it back
+ */
+export async function setShoppingListItemChecked(itemId: string, checked: boolean, userId: string) {
+  const { data, error } = await supabase
+    .from('shopping_list_items')
+    .update({
+      checked_at: checked ? new Date().toISOString() : null,
+      checked_by: checked ? userId : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', itemId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as ShoppingListItem;
+}
+
+/**
+ * Save new positions after items were reordered
+ */
+export async function reorderShoppingListItems(updates: { id: string; position: number }[]) {
+  await Promise.all(updates.map(({ id, position }) => updateShoppingListItem(id, { position })));
+}
+
+/**
+ * Remove items from the shopping list
+ */
+export async function deleteShoppingListItems(itemIds: string[]) {
+  const { error } = await supabase.from('shopping_list_items').delete().in('id', itemIds);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Put bought items away: each becomes a storage item in `location`, with an expiry date suggested
+ * from its shelf life there (the user's remembered `overrides` first), and leaves the shopping list.
+ */
+export async function moveShoppingItemsToPantry(
+  items: ShoppingListItem[],
+  location: Pick<StorageLocation, 'id' | 'household_id' | 'type'>,
+  userId: string,
+  overrides: ShelfLifeOverride[] = [],
+) {
+  const created = [];
+  for (const item of items) {
+    const shelfLife = suggestShelfLife({ name: item.name, locationType: location.type }, overrides);
+    created.push(
+      await createStorageItem(
+        {
+          household_id: location.household_id,
+          name: item.name,
+          quantity: item.quantity,
+          unit: item.unit,
+          storage_location_id: location.id,
+          expiry_date: shelfLife ? suggestExpiryDate(shelfLife.days) : null,
+        },
+        userId,
+      ),
+    );
+    // Remove each item as soon as it's stored, so a failure halfway doesn't store anything twice.
+    await deleteShoppingListItems([item.id]);
+  }
+  return created;
+}
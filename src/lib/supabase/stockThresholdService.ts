@@ -0,0 +1,144 @@
+import {
+  getStockLevel,
+  getThresholdKey,
+  getThresholdQuantity,
+  hasDroppedBelow,
+  type StockThreshold,
+} from '@/lib/lowStock';
+import { toQuantityFields, type Quantity } from '@/lib/quantity';
+import { findOpenItem, getNextPosition } from '@/lib/shoppingList';
+import { supabase } from './client';
+import { addShoppingListItem, getShoppingList } from './shoppingListService';
+
+/**
+ * Get a household's minimum stock levels
+ */
+export async function getStockThresholds(householdId: string) {
+  const { data, error } = await supabase
+    .from('stock_thresholds')
+    .select('*')
+    .eq('household_id', householdId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as StockThreshold[];
+}
+
+/**
+ * Set the minimum stock level of a product for the whole household, replacing any previous one
+ */
+export async function saveStockThreshold(
+  {
+    householdId,
+    name,
+    minimum,
+    autoAdd,
+  }: { householdId: string; name: string; minimum: Quantity; autoAdd: boolean },
+  userId: string,
+) {
+  const { data, error } = await supabase
+    .from('stock_thresholds')
+    .upsert(
+      {
+        household_id: householdId,
+        product_key: getThresholdKey(name),
+        name: name.trim(),
+        min_quantity: minimum.value,
+        unit: minimum.unit,
+        auto_add: autoAdd,
+        user_id: userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'household_id,product_key' },
+    )
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as StockThreshold;
+}
+
+/**
+ * Stop tracking a product's stock level
+ */
+export async function deleteStockThreshold(thresholdId: string) {
+  const { error } = await supabase.from('stock_thresholds').delete().eq('id', thresholdId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * After `removed` was taken out of a product, put the product on the shopping list if that pushed
+ * it below the minimum its threshold asks for, it should be restocked automatically and it isn't
+ * listed already. Returns the new shopping list item, if any.
+ */
+export async function restockIfRunningLow({
+  householdId,
+  name,
+  removed,
+  userId,
+}: {
+  householdId: string;
+  name: string;
+  removed: Quantity | null;
+  userId: string;
+}) {
+  const productKey = getThresholdKey(name);
+  if (!productKey) {
+    return null;
+  }
+
+  const { data: threshold, error } = await supabase
+    .from('stock_thresholds')
+    .select('*')
+    .eq('household_id', householdId)
+    .eq('product_key', productKey)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const minimum = threshold ? getThresholdQuantity(threshold) : null;
+  if (!threshold?.auto_add || !minimum) {
+    return null;
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('storage_items')
+    .select('name, quantity, unit')
+    .eq('household_id', householdId)
+    .is('archived_at', null);
+
+  if (itemsError) {
+    throw itemsError;
+  }
+
+  const level = getStockLevel(items, threshold);
+  if (!level || !hasDroppedBelow(level, removed, minimum)) {
+    return null;
+  }
+
+  const list = await getShoppingList(householdId);
+  if (findOpenItem(list, threshold.name)) {
+    return null;
+  }
+
+  return addShoppingListItem(
+    {
+      household_id: householdId,
+      name: threshold.name,
+      ...toQuantityFields(minimum),
+      position: getNextPosition(list),
+    },
+    userId,
+  );
+}
@@ -0,0 +1,88 @@
+import { cancelItemReminders } from '@/lib/reminders/notifications';
+import { supabase } from './client';
+import type { Database } from './types';
+
+export type StorageLocation = Database['public']['Tables']['storage_locations']['Row'];
+type StorageLocationInsert = Database['public']['Tables']['storage_locations']['Insert'];
+type StorageLocationUpdate = Database['public']['Tables']['storage_locations']['Update'];
+
+/**
+ * Create a storage location
+ */
+export async function createStorageLocation(location: Omit<StorageLocationInsert, 'user_id'>, userId: string) {
+  const { data, error } = await supabase
+    .from('storage_locations')
+    .insert({ ...location, name: location.name.trim(), user_id: userId })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as StorageLocation;
+}
+
+/**
+ * Rename or restyle a storage location
+ */
+export async function updateStorageLocation(
+  locationId: string,
+  updates: Pick<StorageLocationUpdate, 'name' | 'type' | 'icon' | 'color'>,
+) {
+  const { data, error } = await supabase
+    .from('storage_locations')
+    .update(updates.name === undefined ? updates : { ...updates, name: updates.name.trim() })
+    .eq('id', locationId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as StorageLocation;
+}
+
+/**
+ * Count the items currently kept in a location
+ */
+export async function countStorageLocationItems(locationId: string) {
+  const { count, error } = await supabase
+    .from('storage_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('storage_location_id', locationId)
+    .is('archived_at', null);
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Delete a storage location. Its items, archived ones included, move to `moveItemsTo`; with
+ * `discardItems`, the ones still in the pantry are logged as discarded waste and archived on the
+ * way. Runs as one database function so a failure leaves nothing half done.
+ */
+export async function deleteStorageLocation(
+  locationId: string,
+  { moveItemsTo, discardItems = false }: { moveItemsTo: string; discardItems?: boolean },
+) {
+  const { data: discardedIds, error } = await supabase.rpc('delete_storage_location', {
+    location_id: locationId,
+    move_items_to: moveItemsTo,
+    discard_items: discardItems,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  for (const itemId of discardedIds ?? []) {
+    cancelItemReminders(itemId).catch((reminderError) => {
+      console.warn('Failed to cancel expiry reminders', reminderError);
+    });
+  }
+}
@@ -1,114 +1,97 @@
+import { parseDateOnly } from '@/lib/dates';
+import type { MergePlan } from '@/lib/duplicates';
+import { countExpiringSoon, DEFAULT_EXPIRY_RULES, getExpiryStatus, type ExpiryRules, type ExpiryStatus } from '@/lib/expiry';
+import { convertQuantity, parseQuantity, toQuantityFields, type Quantity } from '@/lib/quantity';
+import { cancelItemReminders, syncItemReminders } from '@/lib/reminders/notifications';
+import { daysFromToday } from '@/lib/shelfLife';
+import { DEFAULT_LOCATIONS } from '@/lib/storageLocations';
 import { supabase } from './client';
+import { getExpiryRules } from './expiryRulesService';
+import { learnProducts } from './productCatalogService';
 import type { Database } from './types';
 
 type StorageItem = Database['public']['Tables']['storage_items']['Row'];
 type StorageLocation = Database['public']['Tables']['storage_locations']['Row'];
 type StorageItemInsert = Database['public']['Tables']['storage_items']['Insert'];
 
-const DEFAULT_LOCATIONS = [
-  { name: 'Freezer', type: 'freezer' },
-  { name: 'Fridge', type: 'fridge' },
-  { name: 'Larder', type: 'larder' },
-];
-
 /**
- * Initialize default storage locations for a user if they don't exist
+ * Rewrite quantity/unit into canonical form ("1,5" "Kilos" -> "1.5" "kg") when they can be parsed
  */
-export async function initializeStorageLocations(userId: string) {
-  // Check if user already has storage locations
-  const { data: existing, error: checkError } = await supabase
-    .from('storage_locations')
-    .select('type')
-    .eq('user_id', userId);
-
-  if (checkError) {
-    throw checkError;
-  }
-
-  // Get existing types
-  const existingTypes = new Set(existing?.map((loc) => loc.type) || []);
-
-  // Only create locations that don't exist
-  const locationsToCreate = DEFAULT_LOCATIONS.filter((loc) => !existingTypes.has(loc.type)).map((loc) => ({
-    ...loc,
-    user_id: userId,
-  }));
-
-  // If all locations already exist, skip initialization
-  if (locationsToCreate.length === 0) {
-    return;
+function normalizeQuantityFields<T extends Partial<Pick<StorageItemInsert, 'quantity' | 'unit'>>>(item: T): T {
+  // Without the unit in the payload the stored unit is unknown, so leave the pair untouched.
+  if (item.quantity === undefined || item.unit === undefined) {
+    return item;
   }
+  const quantity = parseQuantity(item.quantity, item.unit);
+  return quantity ? { ...item, ...toQuantityFields(quantity) } : item;
+}
 
-  const { error: insertError } = await supabase.from('storage_locations').insert(locationsToCreate);
+/**
+ * Give a new household the default storage locations. Households that already have any location
+ * are left alone, so locations deleted on purpose don't come back. The database seeds them under a
+ * lock, so calls that overlap at startup can't create duplicates.
+ */
+export async function initializeStorageLocations(householdId: string) {
+  const { error } = await supabase.rpc('seed_storage_locations', {
+    target_household: householdId,
+    defaults: DEFAULT_LOCATIONS,
+  });
 
-  if (insertError) {
-    throw insertError;
+  if (error) {
+    throw error;
   }
 }
 
 /**
- * Remove duplicate storage locations for a user
+ * Get all storage locations of a household
  */
-export async function deduplicateStorageLocations(userId: string) {
-  const { data: locations, error } = await supabase
+export async function getStorageLocations(householdId: string) {
+  const { data, error } = await supabase
     .from('storage_locations')
     .select('*')
-    .eq('user_id', userId)
+    .eq('household_id', householdId)
     .order('created_at', { ascending: true });
 
-  if (error || !locations) {
-    return;
-  }
-
-  // Group by type and keep only the first (oldest) of each type
-  const seen = new Set<string>();
-  const duplicateIds: string[] = [];
-
-  for (const location of locations) {
-    if (seen.has(location.type)) {
-      duplicateIds.push(location.id);
-    } else {
-      seen.add(location.type);
-    }
+  if (error) {
+    throw error;
   }
 
-  // Delete duplicates if any found
-  if (duplicateIds.length > 0) {
-    await supabase.from('storage_locations').delete().in('id', duplicateIds);
-  }
+  return data as StorageLocation[];
 }
 
 /**
- * Get all storage locations for a user
+ * Get all storage items of a household with their location
  */
-export async function getStorageLocations(userId: string) {
+export async function getStorageItems(householdId: string) {
   const { data, error } = await supabase
-    .from('storage_locations')
-    .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: true });
+    .from('storage_items')
+    .select(
+      `
+      *,
+      storage_locations (
+        id,
+        name,
+        type,
+        icon,
+        color
+      )
+    `,
+    )
+    .eq('household_id', householdId)
+    .is('archived_at', null)
+    .order('added_date', { ascending: false });
 
   if (error) {
     throw error;
   }
 
-  // Deduplicate by type - keep only the first occurrence of each type
-  const seen = new Set<string>();
-  const uniqueLocations = (data || []).filter((location) => {
-    if (seen.has(location.type)) {
-      return false;
-    }
-    seen.add(location.type);
-    return true;
-  });
-
-  return uniqueLocations as StorageLocation[];
+  return data as (StorageItem & { storage_locations: StorageLocation })[];
 }
 
 /**
- * Get all storage items for a user with their location
+ * Get the storage items kept in one location
  */
-export async function getStorageItems(userId: string) {
+export async function getStorageItemsByLocation(householdId: string, locationId: string) {
   const { data, error } = await supabase
     .from('storage_items')
     .select(
@@ -117,12 +100,16 @@ export async function getStorageItems(userId: string) {
       storage_locations (
         id,
         name,
-        type
+        type,
+        icon,
+        color
       )
     `,
     )
-    .eq('user_id', userId)
-    .order('added_date', { ascending: false });
+    .eq('household_id', householdId)
+    .eq('storage_location_id', locationId)
+    .is('archived_at', null)
+    .order('added_date', { ascending: false});
 
   if (error) {
     throw error;
@@ -132,30 +119,54 @@ export async function getStorageItems(userId: string) {
 }
 
 /**
- * Get storage items by location type
+ * Get a single storage item with its location
  */
-export async function getStorageItemsByLocation(userId: string, locationType: string) {
+export async function getStorageItem(itemId: string) {
   const { data, error } = await supabase
     .from('storage_items')
     .select(
       `
       *,
-      storage_locations!inner (
+      storage_locations (
         id,
         name,
         type
       )
     `,
     )
-    .eq('user_id', userId)
-    .eq('storage_locations.type', locationType)
-    .order('added_date', { ascending: false});
+    .eq('id', itemId)
+    .single();
 
   if (error) {
     throw error;
   }
 
-  return data as (StorageItem & { storage_locations: StorageLocation })[];
+  return data as StorageItem & { storage_locations: StorageLocation };
+}
+
+// Reminders are best effort: failing to schedule them must not fail the save itself.
+function replanReminders(item: StorageItem) {
+  syncItemReminders(item).catch((error) => {
+    console.warn('Failed to schedule expiry reminders', error);
+  });
+}
+
+// The product catalog only feeds suggestions, so failing to update it must not fail the save either.
+function learnFromItem(item: StorageItem) {
+  const shelfLifeDays = item.expiry_date
+    ? daysFromToday(parseDateOnly(item.expiry_date), parseDateOnly(item.added_date))
+    : null;
+  learnProducts(item.user_id, [
+    {
+      name: item.name,
+      unit: item.unit,
+      category: item.category,
+      storageLocationId: item.storage_location_id,
+      shelfLifeDays: shelfLifeDays !== null && shelfLifeDays >= 0 ? shelfLifeDays : null,
+    },
+  ]).catch((error) => {
+    console.warn('Failed to update product catalog', error);
+  });
 }
 
 /**
@@ -165,7 +176,7 @@ export async function createStorageItem(item: Omit<StorageItemInsert, 'user_id'>
   const { data, error } = await supabase
     .from('storage_items')
     .insert({
-      ...item,
+      ...normalizeQuantityFields(item),
       user_id: userId,
     })
     .select()
@@ -175,6 +186,8 @@ export async function createStorageItem(item: Omit<StorageItemInsert, 'user_id'>
     throw error;
   }
 
+  replanReminders(data);
+  learnFromItem(data);
   return data as StorageItem;
 }
 
@@ -185,7 +198,7 @@ export async function updateStorageItem(itemId: string, updates: Partial<Storage
   const { data, error } = await supabase
     .from('storage_items')
     .update({
-      ...updates,
+      ...normalizeQuantityFields(updates),
       updated_at: new Date().toISOString(),
     })
     .eq('id', itemId)
@@ -196,9 +209,31 @@ export async function updateStorageItem(itemId: string, updates: Partial<Storage
     throw error;
   }
 
+  replanReminders(data);
   return data as StorageItem;
 }
 
+/**
+ * Move a storage item to another location (e.g. fridge to freezer)
+ */
+export async function moveStorageItem(itemId: string, storageLocationId: string) {
+  return updateStorageItem(itemId, { storage_location_id: storageLocationId });
+}
+
+/**
+ * Mark a storage item as opened so its after-opening shelf life starts counting
+ */
+export async function markStorageItemOpened(itemId: string) {
+  return updateStorageItem(itemId, { opened_at: new Date().toISOString() });
+}
+
+/**
+ * Archive a storage item so it leaves the pantry but keeps its consumption history
+ */
+export async function archiveStorageItem(itemId: string) {
+  return updateStorageItem(itemId, { archived_at: new Date().toISOString() });
+}
+
 /**
  * Delete a storage item
  */
@@ -208,47 +243,96 @@ export async function deleteStorageItem(itemId: string) {
   if (error) {
     throw error;
   }
+
+  cancelItemReminders(itemId).catch((reminderError) => {
+    console.warn('Failed to cancel expiry reminders', reminderError);
+  });
 }
 
 /**
- * Get storage statistics for a user
+ * Merge duplicate entries into one item, see `planMerge`. Consumption and waste history of the
+ * merged entries is moved over to the surviving item before they are deleted, all in one database
+ * transaction.
  */
-export async function getStorageStatistics(userId: string) {
-  const { data, error } = await supabase
-    .from('storage_items')
-    .select('id, expiry_date')
-    .eq('user_id', userId);
+export async function mergeStorageItems({ keepId, removeIds, changes }: MergePlan) {
+  const { data, error } = await supabase.rpc('merge_storage_items', {
+    keep_id: keepId,
+    remove_ids: removeIds,
+    changes,
+  });
 
   if (error) {
     throw error;
   }
 
-  const now = new Date();
-  const sevenDaysFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+  replanReminders(data);
+  for (const itemId of removeIds) {
+    cancelItemReminders(itemId).catch((reminderError) => {
+      console.warn('Failed to cancel expiry reminders', reminderError);
+    });
+  }
 
-  const expiringSoon = data.filter((item) => {
-    if (!item.expiry_date) return false;
-    const expiryDate = new Date(item.expiry_date);
-    return expiryDate > now && expiryDate <= sevenDaysFromNow;
-  });
+  return data as StorageItem;
+}
+
+/**
+ * Get storage statistics for a household, judged by the viewing user's expiry rules
+ */
+export async function getStorageStatistics(householdId: string, userId: string) {
+  const [{ data, error }, rules] = await Promise.all([
+    supabase
+      .from('storage_items')
+      .select('id, name, expiry_date, opened_at, category, storage_location_id')
+      .eq('household_id', householdId)
+      .is('archived_at', null),
+    getExpiryRules(userId),
+  ]);
+
+  if (error) {
+    throw error;
+  }
 
   return {
     totalItems: data.length,
-    expiringSoon: expiringSoon.length,
+    expiringSoon: countExpiringSoon(data, rules),
   };
 }
 
 /**
- * Calculate item status based on expiry date
+ * Calculate item status based on its effective expiry date and the user's expiry rules
+ */
+export function getItemStatus(
+  item: Pick<StorageItem, 'name' | 'expiry_date' | 'opened_at' | 'category' | 'storage_location_id'>,
+  rules: ExpiryRules = DEFAULT_EXPIRY_RULES,
+): ExpiryStatus {
+  return getExpiryStatus(item, rules);
+}
+
+/**
+ * Parse the free-text quantity/unit columns of an item into a typed quantity
  */
-export function getItemStatus(expiryDate: string | null): 'fresh' | 'expiring' | 'expired' {
-  if (!expiryDate) return 'fresh';
+export function getItemQuantity(item: Pick<StorageItem, 'quantity' | 'unit'>): Quantity | null {
+  return parseQuantity(item.quantity, item.unit);
+}
 
-  const now = new Date();
-  const expiry = new Date(expiryDate);
-  const daysUntilExpiry = Math.ceil((expiry.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+/**
+ * Estimate what part of an item is worth from its price, pro-rated by quantity.
+ * Returns the full price when `amount` is missing or cannot be compared with the item's quantity.
+ */
+export function estimateItemValue(
+  item: Pick<StorageItem, 'price' | 'quantity' | 'unit'>,
+  amount: Quantity | null,
+): number | null {
+  if (item.price === null || item.price === undefined) {
+    return null;
+  }
+
+  const total = getItemQuantity(item);
+  const converted = amount && total ? convertQuantity(amount, total.unit) : null;
+  if (!converted || !total || total.value <= 0) {
+    return item.price;
+  }
 
-  if (daysUntilExpiry < 0) return 'expired';
-  if (daysUntilExpiry <= 7) return 'expiring';
-  return 'fresh';
+  const share = Math.min(1, converted.value / total.value);
+  return Math.round(item.price * share * 100) / 100;
 }
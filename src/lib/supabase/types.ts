@@ -14,6 +14,96 @@ export type Database = {
   }
   public: {
     Tables: {
+      consumption_events: {
+        Row: {
+          consumed_at: string
+          created_at: string
+          id: string
+          quantity: string | null
+          reason: Database["public"]["Enums"]["consumption_reason"]
+          storage_item_id: string
+          unit: string | null
+          user_id: string
+        }
+        Insert: {
+          consumed_at?: string
+          created_at?: string
+          id?: string
+          quantity?: string | null
+          reason: Database["public"]["Enums"]["consumption_reason"]
+          storage_item_id: string
+          unit?: string | null
+          user_id: string
+        }
+        Update: {
+          consumed_at?: string
+          created_at?: string
+          id?: string
+          quantity?: string | null
+          reason?: Database["public"]["Enums"]["consumption_reason"]
+          storage_item_id?: string
+          unit?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consumption_events_storage_item_id_fkey"
+            columns: ["storage_item_id"]
+            isOneToOne: false
+            referencedRelation: "storage_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "consumption_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expiry_thresholds: {
+        Row: {
+          category: string | null
+          created_at: string
+          days: number
+          id: string
+          storage_location_id: string | null
+          user_id: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          days: number
+          id?: string
+          storage_location_id?: string | null
+          user_id: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          days?: number
+          id?: string
+          storage_location_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expiry_thresholds_storage_location_id_fkey"
+            columns: ["storage_location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expiry_thresholds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       favorite_recipes: {
         Row: {
           created_at: string
@@ -50,26 +140,180 @@ export type Database = {
           },
         ]
       }
+      household_members: {
+        Row: {
+          household_id: string
+          id: string
+          joined_at: string
+          role: Database["public"]["Enums"]["household_role"]
+          user_id: string
+        }
+        Insert: {
+          household_id: string
+          id?: string
+          joined_at?: string
+          role?: Database["public"]["Enums"]["household_role"]
+          user_id: string
+        }
+        Update: {
+          household_id?: string
+          id?: string
+          joined_at?: string
+          role?: Database["public"]["Enums"]["household_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "household_members_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "household_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      households: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          invite_code: string
+          is_personal: boolean
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          invite_code?: string
+          is_personal?: boolean
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          invite_code?: string
+          is_personal?: boolean
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "households_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_catalog: {
+        Row: {
+          aliases: string[]
+          category: string | null
+          created_at: string
+          default_unit: string | null
+          id: string
+          last_used_at: string
+          name: string
+          product_key: string
+          shelf_life_days: number | null
+          storage_location_id: string | null
+          updated_at: string
+          use_count: number
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          category?: string | null
+          created_at?: string
+          default_unit?: string | null
+          id?: string
+          last_used_at?: string
+          name: string
+          product_key: string
+          shelf_life_days?: number | null
+          storage_location_id?: string | null
+          updated_at?: string
+          use_count?: number
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          category?: string | null
+          created_at?: string
+          default_unit?: string | null
+          id?: string
+          last_used_at?: string
+          name?: string
+          product_key?: string
+          shelf_life_days?: number | null
+          storage_location_id?: string | null
+          updated_at?: string
+          use_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_catalog_storage_location_id_fkey"
+            columns: ["storage_location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_catalog_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          active_household_id: string | null
           created_at: string
+          expiring_soon_days: number
           full_name: string | null
           id: string
+          timezone: string | null
           updated_at: string
         }
         Insert: {
+          active_household_id?: string | null
           created_at?: string
+          expiring_soon_days?: number
           full_name?: string | null
           id: string
+          timezone?: string | null
           updated_at?: string
         }
         Update: {
+          active_household_id?: string | null
           created_at?: string
+          expiring_soon_days?: number
           full_name?: string | null
           id?: string
+          timezone?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_active_household_id_fkey"
+            columns: ["active_household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       recipes: {
         Row: {
@@ -127,15 +371,228 @@ export type Database = {
           },
         ]
       }
+      scanned_products: {
+        Row: {
+          barcode: string
+          brand: string | null
+          category: string | null
+          created_at: string
+          household_id: string
+          id: string
+          name: string
+          pack_quantity: string | null
+          pack_unit: string | null
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          barcode: string
+          brand?: string | null
+          category?: string | null
+          created_at?: string
+          household_id: string
+          id?: string
+          name: string
+          pack_quantity?: string | null
+          pack_unit?: string | null
+          source: string
+          updated_at?: string
+        }
+        Update: {
+          barcode?: string
+          brand?: string | null
+          category?: string | null
+          created_at?: string
+          household_id?: string
+          id?: string
+          name?: string
+          pack_quantity?: string | null
+          pack_unit?: string | null
+          source?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scanned_products_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shelf_life_overrides: {
+        Row: {
+          created_at: string
+          days: number
+          id: string
+          location_type: string
+          product_key: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          days: number
+          id?: string
+          location_type: string
+          product_key: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          days?: number
+          id?: string
+          location_type?: string
+          product_key?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shelf_life_overrides_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shopping_list_items: {
+        Row: {
+          aisle: string | null
+          checked_at: string | null
+          checked_by: string | null
+          created_at: string
+          household_id: string
+          id: string
+          name: string
+          position: number
+          quantity: string | null
+          unit: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aisle?: string | null
+          checked_at?: string | null
+          checked_by?: string | null
+          created_at?: string
+          household_id: string
+          id?: string
+          name: string
+          position?: number
+          quantity?: string | null
+          unit?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aisle?: string | null
+          checked_at?: string | null
+          checked_by?: string | null
+          created_at?: string
+          household_id?: string
+          id?: string
+          name?: string
+          position?: number
+          quantity?: string | null
+          unit?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shopping_list_items_checked_by_fkey"
+            columns: ["checked_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shopping_list_items_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shopping_list_items_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_thresholds: {
+        Row: {
+          auto_add: boolean
+          created_at: string
+          household_id: string
+          id: string
+          min_quantity: number
+          name: string
+          product_key: string
+          unit: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_add?: boolean
+          created_at?: string
+          household_id: string
+          id?: string
+          min_quantity: number
+          name: string
+          product_key: string
+          unit: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_add?: boolean
+          created_at?: string
+          household_id?: string
+          id?: string
+          min_quantity?: number
+          name?: string
+          product_key?: string
+          unit?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_thresholds_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_thresholds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       storage_items: {
         Row: {
           added_date: string
+          archived_at: string | null
           category: string | null
           created_at: string
           expiry_date: string | null
+          household_id: string
           id: string
           name: string
           notes: string | null
+          opened_at: string | null
+          price: number | null
           quantity: string | null
           storage_location_id: string
           unit: string | null
@@ -144,12 +601,16 @@ export type Database = {
         }
         Insert: {
           added_date?: string
+          archived_at?: string | null
           category?: string | null
           created_at?: string
           expiry_date?: string | null
+          household_id: string
           id?: string
           name: string
           notes?: string | null
+          opened_at?: string | null
+          price?: number | null
           quantity?: string | null
           storage_location_id: string
           unit?: string | null
@@ -158,12 +619,16 @@ export type Database = {
         }
         Update: {
           added_date?: string
+          archived_at?: string | null
           category?: string | null
           created_at?: string
           expiry_date?: string | null
+          household_id?: string
           id?: string
           name?: string
           notes?: string | null
+          opened_at?: string | null
+          price?: number | null
           quantity?: string | null
           storage_location_id?: string
           unit?: string | null
@@ -171,6 +636,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "storage_items_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "storage_items_storage_location_id_fkey"
             columns: ["storage_location_id"]
@@ -189,27 +661,43 @@ export type Database = {
       }
       storage_locations: {
         Row: {
+          color: string | null
           created_at: string
+          household_id: string
+          icon: string | null
           id: string
           name: string
           type: string
           user_id: string
         }
         Insert: {
+          color?: string | null
           created_at?: string
+          household_id: string
+          icon?: string | null
           id?: string
           name: string
           type: string
           user_id: string
         }
         Update: {
+          color?: string | null
           created_at?: string
+          household_id?: string
+          icon?: string | null
           id?: string
           name?: string
           type?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "storage_locations_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "storage_locations_user_id_fkey"
             columns: ["user_id"]
@@ -219,15 +707,161 @@ export type Database = {
           },
         ]
       }
+      waste_log: {
+        Row: {
+          category: string | null
+          created_at: string
+          estimated_value: number | null
+          household_id: string
+          id: string
+          item_name: string
+          quantity: string | null
+          reason: Database["public"]["Enums"]["waste_reason"]
+          storage_item_id: string | null
+          storage_location_id: string | null
+          unit: string | null
+          user_id: string
+          wasted_at: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          estimated_value?: number | null
+          household_id: string
+          id?: string
+          item_name: string
+          quantity?: string | null
+          reason: Database["public"]["Enums"]["waste_reason"]
+          storage_item_id?: string | null
+          storage_location_id?: string | null
+          unit?: string | null
+          user_id: string
+          wasted_at?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          estimated_value?: number | null
+          household_id?: string
+          id?: string
+          item_name?: string
+          quantity?: string | null
+          reason?: Database["public"]["Enums"]["waste_reason"]
+          storage_item_id?: string | null
+          storage_location_id?: string | null
+          unit?: string | null
+          user_id?: string
+          wasted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waste_log_household_id_fkey"
+            columns: ["household_id"]
+            isOneToOne: false
+            referencedRelation: "households"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_log_storage_item_id_fkey"
+            columns: ["storage_item_id"]
+            isOneToOne: false
+            referencedRelation: "storage_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_log_storage_location_id_fkey"
+            columns: ["storage_location_id"]
+            isOneToOne: false
+            referencedRelation: "storage_locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waste_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_edit_household: {
+        Args: { target_household: string }
+        Returns: boolean
+      }
+      consume_storage_items: {
+        Args: {
+          steps: {
+            item_id: string
+            quantity: string | null
+            unit: string | null
+            price: number | null
+            archive: boolean
+            used_quantity: string | null
+            used_unit: string | null
+            expected_quantity: string | null
+            expected_unit: string | null
+          }[]
+          consume_reason: Database["public"]["Enums"]["consumption_reason"]
+        }
+        Returns: Json
+      }
+      delete_storage_location: {
+        Args: { location_id: string; move_items_to: string; discard_items?: boolean }
+        Returns: string[]
+      }
+      discard_storage_items: {
+        Args: { item_ids: string[]; discard_reason: Database["public"]["Enums"]["waste_reason"] }
+        Returns: Database["public"]["Tables"]["storage_items"]["Row"][]
+      }
+      ensure_household: {
+        Args: { household_name: string }
+        Returns: undefined
+      }
+      generate_invite_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      household_created_by: {
+        Args: { target_household: string }
+        Returns: string
+      }
+      household_role_of: {
+        Args: { target_household: string }
+        Returns: Database["public"]["Enums"]["household_role"]
+      }
+      join_household: {
+        Args: { invite_code: string }
+        Returns: string
+      }
+      merge_storage_items: {
+        Args: {
+          keep_id: string
+          remove_ids: string[]
+          changes: Pick<
+            Database["public"]["Tables"]["storage_items"]["Row"],
+            "quantity" | "unit" | "expiry_date" | "opened_at" | "price"
+          >
+        }
+        Returns: Database["public"]["Tables"]["storage_items"]["Row"]
+      }
+      regenerate_invite_code: {
+        Args: { target_household: string }
+        Returns: string
+      }
+      seed_storage_locations: {
+        Args: { target_household: string; defaults: { name: string; type: string }[] }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      consumption_reason: "eaten" | "cooked" | "wasted" | "given_away"
+      household_role: "owner" | "member" | "viewer"
+      waste_reason: "expired" | "discarded"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -354,6 +988,10 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      consumption_reason: ["eaten", "cooked", "wasted", "given_away"],
+      household_role: ["owner", "member", "viewer"],
+      waste_reason: ["expired", "discarded"],
+    },
   },
 } as const
@@ -0,0 +1,138 @@
+import { formatAmount, type Quantity } from '@/lib/quantity';
+import { cancelItemReminders } from '@/lib/reminders/notifications';
+import { supabase } from './client';
+import { restockIfRunningLow } from './stockThresholdService';
+import { estimateItemValue, getItemQuantity } from './storageService';
+import type { Database } from './types';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+type StorageLocation = Database['public']['Tables']['storage_locations']['Row'];
+export type WasteLogEntry = Database['public']['Tables']['waste_log']['Row'] & {
+  storage_locations: Pick<StorageLocation, 'id' | 'name' | 'type'> | null;
+};
+export type WasteReason = Database['public']['Enums']['waste_reason'];
+
+/**
+ * Record wasted food. `quantity` defaults to the item's whole remaining quantity.
+ */
+export async function logWaste({
+  item,
+  quantity = null,
+  reason,
+  userId,
+}: {
+  item: Pick<
+    StorageItem,
+    'id' | 'household_id' | 'name' | 'category' | 'price' | 'quantity' | 'unit' | 'storage_location_id'
+  >;
+  quantity?: Quantity | null;
+  reason: WasteReason;
+  userId: string;
+}) {
+  const { data, error } = await supabase
+    .from('waste_log')
+    .insert({
+      user_id: userId,
+      household_id: item.household_id,
+      storage_item_id: item.id,
+      storage_location_id: item.storage_location_id,
+      item_name: item.name,
+      category: item.category,
+      quantity: quantity ? formatAmount(quantity.value) : item.quantity,
+      unit: quantity ? quantity.unit : item.unit,
+      estimated_value: estimateItemValue(item, quantity),
+      reason,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Log items as waste and archive them in one database transaction. Items already archived are
+ * skipped, so a retry never logs the same waste twice. Returns the archived items.
+ */
+async function archiveAsWaste(itemIds: string[], reason: WasteReason) {
+  const { data, error } = await supabase.rpc('discard_storage_items', { item_ids: itemIds, discard_reason: reason });
+
+  if (error) {
+    throw error;
+  }
+
+  for (const item of data) {
+    cancelItemReminders(item.id).catch((reminderError) => {
+      console.warn('Failed to cancel expiry reminders', reminderError);
+    });
+  }
+
+  return data as StorageItem[];
+}
+
+/**
+ * Throw an item away: log all of it as waste and archive it
+ */
+export async function discardStorageItem(item: StorageItem, userId: string) {
+  const [archived] = await archiveAsWaste([item.id], 'discarded');
+
+  try {
+    await restockIfRunningLow({
+      householdId: item.household_id,
+      name: item.name,
+      removed: getItemQuantity(item),
+      userId,
+    });
+  } catch (restockError) {
+    console.warn('Failed to check stock level', restockError);
+  }
+
+  return archived ?? null;
+}
+
+/**
+ * Move expired items the user has confirmed into the waste log, archiving them.
+ * Use `findLongExpiredItems` to pick the candidates. Returns how many were moved.
+ */
+export async function recordExpiredWaste(items: StorageItem[]) {
+  const archived = await archiveAsWaste(
+    items.map((item) => item.id),
+    'expired',
+  );
+  return archived.length;
+}
+
+/**
+ * Get the waste log of a household, newest first
+ */
+export async function getWasteLog(householdId: string, since?: Date) {
+  let query = supabase
+    .from('waste_log')
+    .select(
+      `
+      *,
+      storage_locations (
+        id,
+        name,
+        type
+      )
+    `,
+    )
+    .eq('household_id', householdId)
+    .order('wasted_at', { ascending: false });
+
+  if (since) {
+    query = query.gte('wasted_at', since.toISOString());
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return data as WasteLogEntry[];
+}
@@ -0,0 +1,143 @@
+import { convertQuantity, parseQuantity } from '@/lib/quantity';
+
+export type WastePeriod = 'week' | 'month';
+
+type WasteEntry = {
+  wasted_at: string;
+  category: string | null;
+  estimated_value: number | null;
+  quantity: string | null;
+  unit: string | null;
+  storage_location_id: string | null;
+  storage_locations: { type: string; name: string } | null;
+};
+
+export type WasteBreakdownRow = {
+  key: string;
+  label: string;
+  /** Location type, for labelling locations with a default or missing name. */
+  type?: string;
+  count: number;
+  value: number;
+};
+
+export type WasteTrendPoint = {
+  start: Date;
+  count: number;
+  value: number;
+};
+
+export type WasteReport = {
+  periodStart: Date;
+  count: number;
+  value: number;
+  /** Total wasted weight in kg, counting only entries measured by mass. */
+  massKg: number;
+  byLocation: WasteBreakdownRow[];
+  byCategory: WasteBreakdownRow[];
+  trend: WasteTrendPoint[];
+};
+
+const TREND_LENGTH: Record<WastePeriod, number> = {
+  week: 8,
+  month: 6,
+};
+
+/**
+ * Start of the week (Monday) or month containing `date`, at local midnight.
+ */
+export const getPeriodStart = (date: Date, period: WastePeriod): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), period === 'month' ? 1 : date.getDate());
+  if (period === 'week') {
+    const daysSinceMonday = (start.getDay() + 6) % 7;
+    start.setDate(start.getDate() - daysSinceMonday);
+  }
+  return start;
+};
+
+const shiftPeriod = (start: Date, period: WastePeriod, amount: number): Date => {
+  const shifted = new Date(start);
+  if (period === 'week') {
+    shifted.setDate(shifted.getDate() + amount * 7);
+  } else {
+    shifted.setMonth(shifted.getMonth() + amount);
+  }
+  return shifted;
+};
+
+const addToBreakdown = (
+  rows: Map<string, WasteBreakdownRow>,
+  key: string,
+  label: string,
+  value: number,
+  type?: string,
+) => {
+  const row = rows.get(key) ?? { key, label, type, count: 0, value: 0 };
+  row.count += 1;
+  row.value += value;
+  rows.set(key, row);
+};
+
+const sortBreakdown = (rows: Map<string, WasteBreakdownRow>) =>
+  [...rows.values()].sort((a, b) => b.value - a.value || b.count - a.count);
+
+/**
+ * Aggregate waste log entries into totals for the current week/month, breakdowns
+ * per location and category, and a trend over the preceding periods.
+ */
+export const buildWasteReport = (entries: WasteEntry[], period: WastePeriod, now: Date = new Date()): WasteReport => {
+  const periodStart = getPeriodStart(now, period);
+  const trendLength = TREND_LENGTH[period];
+  const trend: WasteTrendPoint[] = Array.from({ length: trendLength }, (_, index) => ({
+    start: shiftPeriod(periodStart, period, index - trendLength + 1),
+    count: 0,
+    value: 0,
+  }));
+
+  const byLocation = new Map<string, WasteBreakdownRow>();
+  const byCategory = new Map<string, WasteBreakdownRow>();
+  let count = 0;
+  let value = 0;
+  let massKg = 0;
+
+  for (const entry of entries) {
+    const wastedAt = new Date(entry.wasted_at);
+    const entryValue = entry.estimated_value ?? 0;
+
+    const bucket = getPeriodStart(wastedAt, period).getTime();
+    const point = trend.find((candidate) => candidate.start.getTime() === bucket);
+    if (point) {
+      point.count += 1;
+      point.value += entryValue;
+    }
+
+    if (wastedAt < periodStart) {
+      continue;
+    }
+
+    count += 1;
+    value += entryValue;
+
+    const quantity = parseQuantity(entry.quantity, entry.unit);
+    const inKg = quantity ? convertQuantity(quantity, 'kg') : null;
+    if (inKg) {
+      massKg += inKg.value;
+    }
+
+    const location = entry.storage_locations;
+    // Grouped per location, so two fridges stay apart; the type only labels default-named ones.
+    addToBreakdown(byLocation, entry.storage_location_id ?? 'unknown', location?.name ?? '', entryValue, location?.type);
+    const category = entry.category?.trim();
+    addToBreakdown(byCategory, category?.toLowerCase() ?? 'uncategorized', category ?? '', entryValue);
+  }
+
+  return {
+    periodStart,
+    count,
+    value,
+    massKg,
+    byLocation: sortBreakdown(byLocation),
+    byCategory: sortBreakdown(byCategory),
+    trend,
+  };
+};
@@ -5,10 +5,11 @@ import { FavoritesScreen } from '@/screens/FavoritesScreen';
 import { HomeScreen } from '@/screens/HomeScreen';
 import { ProfileScreen } from '@/screens/ProfileScreen';
 import { RecipesScreen } from '@/screens/RecipesScreen';
+import { ShoppingListScreen } from '@/screens/ShoppingListScreen';
 import { StorageScreen } from '@/screens/StorageScreen';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { useTheme } from '@react-navigation/native';
-import { ChefHat, Heart, Home, Package, User } from 'lucide-react-native';
+import { ChefHat, Heart, Home, Package, ShoppingCart, User } from 'lucide-react-native';
 import { useEffect, useRef } from 'react';
 import { Animated } from 'react-native';
 
@@ -61,6 +62,7 @@ export const AppTabs = () => {
   const tabLabels = {
     Home: t('navigation.home'),
     Storage: t('navigation.storage'),
+    Shopping: t('navigation.shopping'),
     Recipes: t('navigation.recipes'),
     Favorites: t('navigation.favorites'),
     Profile: t('navigation.profile'),
@@ -72,6 +74,7 @@ export const AppTabs = () => {
         const icons = {
           Home,
           Storage: Package,
+          Shopping: ShoppingCart,
           Recipes: ChefHat,
           Favorites: Heart,
           Profile: User,
@@ -111,6 +114,7 @@ export const AppTabs = () => {
     >
       <Tab.Screen name="Home" component={HomeScreen} />
       <Tab.Screen name="Storage" component={StorageScreen} />
+      <Tab.Screen name="Shopping" component={ShoppingListScreen} />
       <Tab.Screen name="Recipes" component={RecipesScreen} />
       <Tab.Screen name="Favorites" component={FavoritesScreen} />
       <Tab.Screen name="Profile" component={ProfileScreen} />
@@ -7,6 +7,9 @@ import { AppTabs } from '@/navigation/AppTabs';
 import { AuthScreen } from '@/screens/AuthScreen';
 import { AddItemScreen } from '@/screens/AddItemScreen';
 import { RecipeDetailScreen } from '@/screens/RecipeDetailScreen';
+import { RecipeEditorScreen } from '@/screens/RecipeEditorScreen';
+import { ReportsScreen } from '@/screens/ReportsScreen';
+import { StorageLocationsScreen } from '@/screens/StorageLocationsScreen';
 import { useThemeMode } from '@/providers/ThemeProvider';
 import { useTranslation } from '@/lib/i18n';
 
@@ -69,11 +72,36 @@ export const RootNavigator = () => {
               component={AddItemScreen}
               options={{ presentation: 'modal', headerShown: true, title: t('addItem.addItem') }}
             />
+            <Stack.Screen
+              name="EditItem"
+              component={AddItemScreen}
+              options={{ presentation: 'modal', headerShown: true, title: t('addItem.editItem') }}
+            />
             <Stack.Screen
               name="RecipeDetail"
               component={RecipeDetailScreen}
               options={{ headerShown: true, title: t('recipes.title') }}
             />
+            <Stack.Screen
+              name="AddRecipe"
+              component={RecipeEditorScreen}
+              options={{ presentation: 'modal', headerShown: true, title: t('recipeEditor.newTitle') }}
+            />
+            <Stack.Screen
+              name="EditRecipe"
+              component={RecipeEditorScreen}
+              options={{ presentation: 'modal', headerShown: true, title: t('recipeEditor.editTitle') }}
+            />
+            <Stack.Screen
+              name="Reports"
+              component={ReportsScreen}
+              options={{ headerShown: true, title: t('reports.title') }}
+            />
+            <Stack.Screen
+              name="StorageLocations"
+              component={StorageLocationsScreen}
+              options={{ headerShown: true, title: t('locations.title') }}
+            />
           </>
         ) : (
           <Stack.Screen name="Auth" component={AuthScreen} />
@@ -3,6 +3,7 @@ import type { NavigatorScreenParams } from '@react-navigation/native';
 export type AppTabsParamList = {
   Home: undefined;
   Storage: undefined;
+  Shopping: undefined;
   Recipes: undefined;
   Cards: undefined;
   Favorites: undefined;
@@ -13,5 +14,10 @@ export type RootStackParamList = {
   App: NavigatorScreenParams<AppTabsParamList>;
   Auth: undefined;
   AddItem: undefined;
+  EditItem: { id: string };
   RecipeDetail: { id: string };
+  AddRecipe: undefined;
+  EditRecipe: { id: string };
+  Reports: undefined;
+  StorageLocations: undefined;
 };
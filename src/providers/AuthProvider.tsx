@@ -8,41 +8,150 @@ import {
   type ReactNode,
 } from 'react';
 import type { Session, User } from '@supabase/supabase-js';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase/client';
-import { initializeStorageLocations, deduplicateStorageLocations } from '@/lib/supabase/storageService';
+import {
+  ensureHousehold,
+  getActiveHouseholdId,
+  getHouseholds,
+  setActiveHousehold,
+  type Household,
+  type HouseholdMembership,
+} from '@/lib/supabase/householdService';
+import type { HouseholdRole } from '@/lib/households';
+import { clearUserOutbox, getActiveOutbox } from '@/lib/outbox/storage';
+import { clearUserCache, loadHouseholdSnapshot, saveHouseholdSnapshot } from '@/lib/queryPersistence/storage';
+import { cancelAllReminders } from '@/lib/reminders/notifications';
+import { initializeStorageLocations } from '@/lib/supabase/storageService';
+import { upgradeLegacyRecipes } from '@/lib/supabase/recipesService';
 
 type AuthContextValue = {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  /** The household whose pantry the app is showing. */
+  household: Household | null;
+  /** The user's role in the active household. */
+  householdRole: HouseholdRole | null;
+  households: HouseholdMembership[];
+  switchHousehold: (householdId: string) => Promise<void>;
+  /** Reload memberships after creating, joining or leaving a household. */
+  refreshHouseholds: (preferredHouseholdId?: string) => Promise<void>;
   signOut: () => Promise<void>;
 };
 
+const pickActiveHousehold = (households: HouseholdMembership[], preferredId: string | null) =>
+  households.find((membership) => membership.household.id === preferredId) ?? households[0] ?? null;
+
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [households, setHouseholds] = useState<HouseholdMembership[]>([]);
+  const [activeHouseholdId, setActiveHouseholdId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
 
+  // Nothing the user saw should still be on the device, or in memory, once they sign out.
+  // Changes still queued offline are sent while the session lasts; whatever can't be sent is
+  // dropped with the rest, so the next account on the device never replays it.
   const signOut = useCallback(async () => {
+    const userId = user?.id;
+    const outbox = userId ? getActiveOutbox(userId) : null;
+    if (outbox) {
+      try {
+        // Joins a replay already in progress instead of starting a second one.
+        const result = await outbox.flush();
+        if (result.offline) {
+          console.warn('Signed out with changes that could not be sent');
+        }
+      } catch (error) {
+        console.warn('Failed to send pending changes before signing out', error);
+      }
+    }
     await supabase.auth.signOut();
-  }, []);
+    queryClient.clear();
+    try {
+      await cancelAllReminders();
+    } catch (error) {
+      console.warn('Failed to cancel expiry reminders', error);
+    }
+    if (userId) {
+      await Promise.all([clearUserCache(userId), clearUserOutbox(userId)]);
+    }
+  }, [queryClient, user]);
+
+  const switchHousehold = useCallback(
+    async (householdId: string) => {
+      setActiveHouseholdId(householdId);
+      if (user) {
+        await setActiveHousehold(user.id, householdId);
+      }
+    },
+    [user],
+  );
+
+  const refreshHouseholds = useCallback(
+    async (preferredHouseholdId?: string) => {
+      if (!user) {
+        return;
+      }
+      const memberships = await getHouseholds(user.id);
+      const active = pickActiveHousehold(memberships, preferredHouseholdId ?? activeHouseholdId);
+      setHouseholds(memberships);
+      setActiveHouseholdId(active?.household.id ?? null);
+      if (active && active.household.id !== activeHouseholdId) {
+        await setActiveHousehold(user.id, active.household.id);
+      }
+    },
+    [activeHouseholdId, user],
+  );
 
   useEffect(() => {
+    // Startup restores the session and the auth listener reports it too; only the first one loads.
+    let loadedUserId: string | null = null;
+
+    // Find (or create) the user's households and pick the one they last used
+    const loadHouseholds = async (userId: string) => {
+      if (loadedUserId === userId) {
+        return;
+      }
+      loadedUserId = userId;
+
+      // Once per schema version; a no-op on later sessions.
+      upgradeLegacyRecipes(userId).catch((error) => {
+        console.warn('Failed to upgrade legacy recipes', error);
+      });
+
+      try {
+        const [memberships, preferredId] = await Promise.all([ensureHousehold(userId), getActiveHouseholdId(userId)]);
+        const active = pickActiveHousehold(memberships, preferredId);
+        setHouseholds(memberships);
+        setActiveHouseholdId(active?.household.id ?? null);
+
+        if (active) {
+          await initializeStorageLocations(active.household.id);
+        }
+      } catch (error) {
+        console.error('Failed to load households:', error);
+        loadedUserId = null;
+        // Offline: carry on with the households from the last session.
+        const snapshot = await loadHouseholdSnapshot(userId);
+        if (snapshot) {
+          setHouseholds(snapshot.households);
+          setActiveHouseholdId(snapshot.activeHouseholdId);
+        }
+      }
+    };
+
     const initialiseSession = async () => {
       const { data } = await supabase.auth.getSession();
       setSession(data.session);
       setUser(data.session?.user ?? null);
 
-      // Initialize storage locations for the user
       if (data.session?.user) {
-        try {
-          await initializeStorageLocations(data.session.user.id);
-          await deduplicateStorageLocations(data.session.user.id);
-        } catch (error) {
-          console.error('Failed to initialize storage locations:', error);
-        }
+        await loadHouseholds(data.session.user.id);
       }
 
       setLoading(false);
@@ -56,13 +165,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       setSession(newSession);
       setUser(newSession?.user ?? null);
 
-      // Initialize storage locations for the user
       if (newSession?.user) {
-        try {
-          await initializeStorageLocations(newSession.user.id);
-        } catch (error) {
-          console.error('Failed to initialize storage locations:', error);
-        }
+        await loadHouseholds(newSession.user.id);
+      } else {
+        loadedUserId = null;
+        setHouseholds([]);
+        setActiveHouseholdId(null);
       }
 
       setLoading(false);
@@ -73,14 +181,33 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     };
   }, []);
 
+  useEffect(() => {
+    if (!user || households.length === 0) {
+      return;
+    }
+    saveHouseholdSnapshot(user.id, { households, activeHouseholdId }).catch((error) => {
+      console.warn('Failed to cache households', error);
+    });
+  }, [activeHouseholdId, households, user]);
+
+  const activeMembership = useMemo(
+    () => households.find((membership) => membership.household.id === activeHouseholdId) ?? null,
+    [activeHouseholdId, households],
+  );
+
   const value = useMemo(
     () => ({
       user,
       session,
       loading,
+      household: activeMembership?.household ?? null,
+      householdRole: activeMembership?.role ?? null,
+      households,
+      switchHousehold,
+      refreshHouseholds,
       signOut,
     }),
-    [user, session, loading, signOut],
+    [user, session, loading, activeMembership, households, switchHousehold, refreshHouseholds, signOut],
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,261 @@
+import { expiryRulesQueryKey } from '@/hooks/useExpiryRules';
+import { storageLocationsQueryKey } from '@/hooks/useStorageLocations';
+import { countExpiringSoon, type ExpiryRules } from '@/lib/expiry';
+import { i18n } from '@/lib/i18n';
+import {
+  applyPendingMutations,
+  buildOptimisticItem,
+  createOutbox,
+  generateClientId,
+  type OutboxMutation,
+  type StorageItemChanges,
+} from '@/lib/outbox';
+import { createUserOutboxStore, setActiveOutbox } from '@/lib/outbox/storage';
+import { supabaseOutboxTransport } from '@/lib/supabase/outboxTransport';
+import type { getStorageItems, getStorageLocations } from '@/lib/supabase/storageService';
+import type { Database } from '@/lib/supabase/types';
+import { useAuth } from '@/providers/AuthProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import { AppState } from 'react-native';
+
+type StorageItem = Database['public']['Tables']['storage_items']['Row'];
+type StorageItemInsert = Database['public']['Tables']['storage_items']['Insert'];
+type CachedItem = Awaited<ReturnType<typeof getStorageItems>>[number];
+type CachedLocation = Awaited<ReturnType<typeof getStorageLocations>>[number];
+
+type OutboxContextValue = {
+  /** Changes saved on this device that haven't reached the server yet. */
+  pendingCount: number;
+  createItem: (values: Omit<StorageItemInsert, 'id' | 'user_id'>) => Promise<StorageItem>;
+  updateItem: (itemId: string, changes: StorageItemChanges) => Promise<void>;
+  deleteItem: (itemId: string) => Promise<void>;
+};
+
+const OutboxContext = createContext<OutboxContextValue | undefined>(undefined);
+
+/**
+ * Routes storage item writes through a persisted outbox, so they work offline: the caches are
+ * updated straight away and the writes are replayed in order once the device is back online.
+ */
+export const OutboxProvider = ({ children }: { children: ReactNode }) => {
+  const { user, household } = useAuth();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const [pending, setPending] = useState<OutboxMutation[]>([]);
+  const pendingRef = useRef<OutboxMutation[]>([]);
+  const userId = user?.id;
+  const householdId = household?.id;
+
+  // Each account has its own queue, so only the signed-in user's changes are ever replayed.
+  const outbox = useMemo(
+    () =>
+      userId
+        ? createOutbox({
+            transport: supabaseOutboxTransport,
+            store: createUserOutboxStore(userId),
+            onChange: (queue) => {
+              pendingRef.current = queue;
+              setPending(queue);
+            },
+            onRejected: (_mutation, error) => {
+              showToast({
+                title: i18n.t('outbox.rejectedTitle'),
+                message: error instanceof Error ? error.message : i18n.t('outbox.rejectedMessage'),
+                type: 'error',
+              });
+            },
+          })
+        : null,
+    [showToast, userId],
+  );
+
+  useEffect(() => {
+    pendingRef.current = [];
+    setPending([]);
+    void outbox?.getPending();
+  }, [outbox]);
+
+  // Sign-out settles the queue through this instance rather than replaying it a second time.
+  useEffect(() => (outbox && userId ? setActiveOutbox(userId, outbox) : undefined), [outbox, userId]);
+
+  const requireOutbox = useCallback(() => {
+    if (!outbox) {
+      throw new Error('Sign in to change the pantry');
+    }
+    return outbox;
+  }, [outbox]);
+
+  // Attach the item's location the way `getStorageItems` embeds it.
+  const toCachedItem = useCallback(
+    (item: StorageItem, existing: CachedItem | undefined): CachedItem | null => {
+      const locations = queryClient.getQueryData<CachedLocation[]>(storageLocationsQueryKey(item.household_id)) ?? [];
+      const location =
+        locations.find((candidate) => candidate.id === item.storage_location_id) ?? existing?.storage_locations;
+      return location ? { ...item, storage_locations: location } : null;
+    },
+    [queryClient],
+  );
+
+  const applyToCache = useCallback(
+    (targetHouseholdId: string, mutations: OutboxMutation[]) => {
+      const itemsKey = ['storage-items', targetHouseholdId];
+      const items = queryClient.setQueryData<CachedItem[]>(itemsKey, (current) =>
+        current ? applyPendingMutations(current, mutations, toCachedItem) : current,
+      );
+
+      for (const mutation of mutations) {
+        if (mutation.kind === 'delete') {
+          queryClient.removeQueries({ queryKey: ['storage-item', mutation.itemId] });
+        } else {
+          const item = items?.find((candidate) => candidate.id === mutation.itemId);
+          if (item) {
+            queryClient.setQueryData(['storage-item', mutation.itemId], item);
+          }
+        }
+      }
+
+      const rules = userId ? queryClient.getQueryData<ExpiryRules>(expiryRulesQueryKey(userId)) : undefined;
+      const statisticsKey = ['storage-statistics', targetHouseholdId];
+      if (items && rules) {
+        queryClient.setQueryData(statisticsKey, { totalItems: items.length, expiringSoon: countExpiringSoon(items, rules) });
+      } else {
+        void queryClient.invalidateQueries({ queryKey: statisticsKey });
+      }
+    },
+    [queryClient, toCachedItem, userId],
+  );
+
+  const flush = useCallback(async () => {
+    if (!outbox || !onlineManager.isOnline()) {
+      return;
+    }
+    const result = await outbox.flush();
+    if (result.replayed > 0 || result.rejected > 0) {
+      // Pick up server defaults, and drop optimistic changes the server refused.
+      void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      void queryClient.invalidateQueries({ queryKey: ['storage-statistics'] });
+      void queryClient.invalidateQueries({ queryKey: ['storage-item'] });
+    }
+  }, [outbox, queryClient]);
+
+  useEffect(() => {
+    void flush();
+    const unsubscribeOnline = onlineManager.subscribe((isOnline) => {
+      if (isOnline) {
+        void flush();
+      }
+    });
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        void flush();
+      }
+    });
+    return () => {
+      unsubscribeOnline();
+      appStateSubscription.remove();
+    };
+  }, [flush]);
+
+  // A refetch returns what the server has, which doesn't include changes still waiting in the
+  // outbox yet, so lay those over the fresh data.
+  useEffect(
+    () =>
+      queryClient.getQueryCache().subscribe((event) => {
+        if (
+          event.type !== 'updated' ||
+          event.action.type !== 'success' ||
+          event.action.manual ||
+          pendingRef.current.length === 0
+        ) {
+          return;
+        }
+        const [scope, id] = event.query.queryKey;
+        if (scope === 'storage-items' && typeof id === 'string') {
+          const mutations = pendingRef.current.filter(
+            (mutation) => mutation.kind !== 'create' || mutation.values.household_id === id,
+          );
+          queryClient.setQueryData<CachedItem[]>(event.query.queryKey, (current) =>
+            current ? applyPendingMutations(current, mutations, toCachedItem) : current,
+          );
+        } else if (scope === 'storage-item' && typeof id === 'string') {
+          queryClient.setQueryData<CachedItem>(event.query.queryKey, (current) => {
+            if (!current) {
+              return current;
+            }
+            const [patched] = applyPendingMutations([current], pendingRef.current, toCachedItem);
+            return patched ?? current;
+          });
+        }
+      }),
+    [queryClient, toCachedItem],
+  );
+
+  const createItem = useCallback(
+    async (values: Omit<StorageItemInsert, 'id' | 'user_id'>) => {
+      const mutation = await requireOutbox().enqueue({
+        kind: 'create',
+        values: { ...values, id: generateClientId(), user_id: userId! },
+      });
+      applyToCache(values.household_id, [mutation]);
+      void flush();
+      return buildOptimisticItem({ ...values, id: mutation.itemId, user_id: userId! });
+    },
+    [applyToCache, flush, requireOutbox, userId],
+  );
+
+  const updateItem = useCallback(
+    async (itemId: string, changes: StorageItemChanges) => {
+      const cached =
+        queryClient.getQueryData<CachedItem>(['storage-item', itemId]) ??
+        queryClient.getQueryData<CachedItem[]>(['storage-items', householdId])?.find((item) => item.id === itemId);
+      const mutation = await requireOutbox().enqueue({
+        kind: 'update',
+        itemId,
+        changes,
+        base: cached ? { quantity: cached.quantity, unit: cached.unit, updated_at: cached.updated_at } : null,
+      });
+      applyToCache(cached?.household_id ?? householdId!, [mutation]);
+      void flush();
+    },
+    [applyToCache, flush, householdId, queryClient, requireOutbox],
+  );
+
+  const deleteItem = useCallback(
+    async (itemId: string) => {
+      const mutation = await requireOutbox().enqueue({ kind: 'delete', itemId });
+      if (householdId) {
+        applyToCache(householdId, [mutation]);
+      }
+      void flush();
+    },
+    [applyToCache, flush, householdId, requireOutbox],
+  );
+
+  const value = useMemo(
+    () => ({ pendingCount: pending.length, createItem, updateItem, deleteItem }),
+    [pending.length, createItem, updateItem, deleteItem],
+  );
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>;
+};
+
+export const useOutbox = () => {
+  const context = useContext(OutboxContext);
+
+  if (!context) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+
+  return context;
+};
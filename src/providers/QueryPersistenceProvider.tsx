@@ -0,0 +1,52 @@
+import { QUERY_CACHE_BUSTER, QUERY_CACHE_MAX_AGE, shouldPersistQuery } from '@/lib/queryPersistence';
+import { createUserQueryPersister } from '@/lib/queryPersistence/storage';
+import { useAuth } from '@/providers/AuthProvider';
+import { IsRestoringProvider, useQueryClient } from '@tanstack/react-query';
+import { persistQueryClient } from '@tanstack/react-query-persist-client';
+import { useEffect, useState, type ReactNode } from 'react';
+
+/**
+ * Restores the signed-in user's last-known query data from disk and keeps it saved, so screens
+ * render straight away on a cold start, even offline. Each user gets their own cache.
+ */
+export const QueryPersistenceProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [restoredUserId, setRestoredUserId] = useState<string | null>(null);
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    let active = true;
+    const [unsubscribe, restored] = persistQueryClient({
+      queryClient,
+      persister: createUserQueryPersister(userId),
+      buster: QUERY_CACHE_BUSTER,
+      maxAge: QUERY_CACHE_MAX_AGE,
+      dehydrateOptions: { shouldDehydrateQuery: shouldPersistQuery },
+    });
+
+    restored
+      .catch((error) => {
+        console.warn('Failed to restore cached data', error);
+      })
+      .finally(() => {
+        if (active) {
+          setRestoredUserId(userId);
+        }
+      });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [queryClient, userId]);
+
+  // Queries wait for the restore instead of racing it with a fetch.
+  const isRestoring = userId !== null && restoredUserId !== userId;
+
+  return <IsRestoringProvider value={isRestoring}>{children}</IsRestoringProvider>;
+};
@@ -1,8 +1,24 @@
+import { BarcodeScanner } from '@/components/BarcodeScanner';
+import { ProductNameInput } from '@/components/ProductNameInput';
+import { productCatalogQueryKey, useProductCatalog } from '@/hooks/useProductCatalog';
+import { useStorageLocations } from '@/hooks/useStorageLocations';
+import { lookupProduct, type ScannedProduct } from '@/lib/barcode';
+import { createOpenFoodFactsProvider } from '@/lib/barcode/openFoodFacts';
+import { parseDateOnly, toDateOnlyString } from '@/lib/dates';
+import { findDuplicateOf, mergeFields } from '@/lib/duplicates';
+import { env } from '@/lib/env';
 import { useTranslation } from '@/lib/i18n';
 import { parseReceiptLines, recognizeReceiptText } from '@/lib/ocr';
-import { createStorageItem, getStorageLocations } from '@/lib/supabase/storageService';
+import { findCatalogProduct, type CatalogProduct } from '@/lib/productCatalog';
+import { formatAmount, formatQuantity, parseAmount, parseQuantity, simplifyQuantity, toQuantityFields } from '@/lib/quantity';
+import { addDays, daysFromToday, suggestExpiryDate, suggestShelfLife } from '@/lib/shelfLife';
+import { createScannedProductsProvider, saveScannedProduct } from '@/lib/supabase/barcodeService';
+import { learnProducts } from '@/lib/supabase/productCatalogService';
+import { getShelfLifeOverrides, rememberShelfLife } from '@/lib/supabase/shelfLifeService';
+import { getItemQuantity, getStorageItem, getStorageItems } from '@/lib/supabase/storageService';
 import type { RootStackParamList } from '@/navigation/types';
 import { useAuth } from '@/providers/AuthProvider';
+import { useOutbox } from '@/providers/OutboxProvider';
 import type { ThemeColors } from '@/providers/ThemeProvider';
 import { useThemeMode } from '@/providers/ThemeProvider';
 import { useToast } from '@/providers/ToastProvider';
@@ -10,13 +26,13 @@ import DateTimePicker, {
   DateTimePickerAndroid,
   type DateTimePickerEvent,
 } from '@react-native-community/datetimepicker';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, type RouteProp } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import * as ImageManipulator from 'expo-image-manipulator';
 import * as ImagePicker from 'expo-image-picker';
-import { Camera, Check, Edit3, Trash2 } from 'lucide-react-native';
-import { useCallback, useMemo, useState } from 'react';
+import { Camera, Check, Edit3, Minus, Plus, Trash2 } from 'lucide-react-native';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -31,15 +47,23 @@ import {
 } from 'react-native';
 
 type Navigation = NativeStackNavigationProp<RootStackParamList>;
+type Route = RouteProp<RootStackParamList, 'AddItem' | 'EditItem'>;
 
-type AddItemMode = 'manual' | 'receipt';
+type AddItemMode = 'manual' | 'receipt' | 'barcode';
+
+type StorageItem = Awaited<ReturnType<typeof getStorageItems>>[number];
 
 type BatchItem = {
   id: string;
   name: string;
+  /** The name as read from the receipt, remembered as an alias when the user renames the item. */
+  detectedName: string;
   quantity: string;
   unit: string;
   storageLocationId: string;
+  /** Days until expiry, suggested from the shelf-life dataset unless the user changed it. */
+  shelfLifeDays: number | null;
+  shelfLifeEdited: boolean;
   selected: boolean;
 };
 
@@ -121,17 +145,24 @@ const normalizeReceiptAsset = async (asset: ImagePicker.ImagePickerAsset): Promi
 
 export const AddItemScreen = () => {
   const navigation = useNavigation<Navigation>();
+  const route = useRoute<Route>();
+  const editItemId = route.params && 'id' in route.params ? route.params.id : undefined;
+  const isEditing = Boolean(editItemId);
   const { showToast } = useToast();
   const { colors } = useThemeMode();
   const { t, locale } = useTranslation();
-  const { user } = useAuth();
+  const { user, household } = useAuth();
   const queryClient = useQueryClient();
+  const outbox = useOutbox();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const [mode, setMode] = useState<AddItemMode>('manual');
   const [form, setForm] = useState({
     name: '',
     quantity: '',
     unit: '',
+    category: '',
+    price: '',
+    notes: '',
     storageLocationId: '',
   });
   const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
@@ -141,13 +172,45 @@ export const AddItemScreen = () => {
   const [receiptDisplayName, setReceiptDisplayName] = useState('');
   const [expiryDate, setExpiryDate] = useState<Date | null>(null);
   const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
+  const [prefilledItemId, setPrefilledItemId] = useState<string | null>(null);
+  const [isExpiryTouched, setIsExpiryTouched] = useState(false);
+  /** The barcode the manual form was filled from, remembered for the household when the item is saved. */
+  const [scannedBarcode, setScannedBarcode] = useState<string | null>(null);
+  const [scannedProduct, setScannedProduct] = useState<ScannedProduct | null>(null);
+  const [isLookingUpBarcode, setIsLookingUpBarcode] = useState(false);
+
+  const { locations } = useStorageLocations();
+  const catalog = useProductCatalog();
 
-  const { data: locations = [] } = useQuery({
-    queryKey: ['storage-locations', user?.id],
-    queryFn: () => getStorageLocations(user!.id),
+  const { data: shelfLifeOverrides = [] } = useQuery({
+    queryKey: ['shelf-life-overrides', user?.id],
+    queryFn: () => getShelfLifeOverrides(user!.id),
     enabled: Boolean(user?.id),
   });
 
+  const { data: editingItem, isLoading: isLoadingEditingItem } = useQuery({
+    queryKey: ['storage-item', editItemId],
+    queryFn: () => getStorageItem(editItemId!),
+    enabled: isEditing,
+  });
+
+  useEffect(() => {
+    if (!editingItem || prefilledItemId === editingItem.id) {
+      return;
+    }
+    setForm({
+      name: editingItem.name,
+      quantity: editingItem.quantity ?? '',
+      unit: editingItem.unit ?? '',
+      category: editingItem.category ?? '',
+      price: editingItem.price !== null ? formatAmount(editingItem.price) : '',
+      notes: editingItem.notes ?? '',
+      storageLocationId: editingItem.storage_location_id,
+    });
+    setExpiryDate(editingItem.expiry_date ? parseDateOnly(editingItem.expiry_date) : null);
+    setPrefilledItemId(editingItem.id);
+  }, [editingItem, prefilledItemId]);
+
   const updateReceiptAttachment = useCallback((attachment: NormalizedReceiptAsset | null) => {
     if (!attachment) {
       setReceiptImageUri(null);
@@ -179,34 +242,142 @@ export const AddItemScreen = () => {
 
   const defaultLocationId = useMemo(() => locations[0]?.id ?? '', [locations]);
 
+  const getLocationType = useCallback(
+    (locationId: string) => locations.find((location) => location.id === locationId)?.type ?? null,
+    [locations],
+  );
+
+  // Shelf lives learned by the catalog count as the user's own choices, after the ones they set explicitly.
+  const shelfLifeChoices = useMemo(
+    () => [
+      ...shelfLifeOverrides,
+      ...catalog.flatMap((product) => {
+        const locationType = product.storage_location_id ? getLocationType(product.storage_location_id) : null;
+        return locationType && product.shelf_life_days !== null
+          ? [{ productKey: product.product_key, locationType, days: product.shelf_life_days }]
+          : [];
+      }),
+    ],
+    [catalog, getLocationType, shelfLifeOverrides],
+  );
+
+  const suggestBatchShelfLife = useCallback(
+    (item: Pick<BatchItem, 'name' | 'storageLocationId'>) =>
+      suggestShelfLife(
+        { name: item.name, locationType: getLocationType(item.storageLocationId) },
+        shelfLifeChoices,
+      )?.days ?? null,
+    [getLocationType, shelfLifeChoices],
+  );
+
+  const manualSuggestion = useMemo(
+    () =>
+      suggestShelfLife(
+        { name: form.name, category: form.category, locationType: getLocationType(form.storageLocationId) },
+        shelfLifeChoices,
+      ),
+    [form.category, form.name, form.storageLocationId, getLocationType, shelfLifeChoices],
+  );
+
+  // A catalog product's usual location, if it's one of the active household's.
+  const getCatalogLocationId = useCallback(
+    (product: CatalogProduct) =>
+      locations.some((location) => location.id === product.storage_location_id) ? product.storage_location_id : null,
+    [locations],
+  );
+
+  // Keep the expiry date in step with the suggestion until the user picks one themselves.
+  useEffect(() => {
+    if (isEditing || isExpiryTouched) {
+      return;
+    }
+    setExpiryDate(manualSuggestion ? addDays(normalizedToday, manualSuggestion.days) : null);
+  }, [isEditing, isExpiryTouched, manualSuggestion, normalizedToday]);
+
+  const rememberShelfLifeChoice = async (name: string, locationId: string, days: number) => {
+    const locationType = getLocationType(locationId);
+    if (!locationType) {
+      return;
+    }
+    try {
+      await rememberShelfLife(user!.id, { name, locationType, days });
+    } catch (error) {
+      console.warn('Failed to remember shelf life', error);
+    }
+  };
+
+  const rememberScannedProduct = async (barcode: string, name: string) => {
+    try {
+      await saveScannedProduct(household!.id, {
+        barcode,
+        name,
+        brand: scannedProduct?.brand ?? null,
+        category: form.category.trim() || null,
+        packSize: parseQuantity(form.quantity, form.unit),
+        source: scannedProduct?.source ?? 'manual',
+      });
+    } catch (error) {
+      console.warn('Failed to remember scanned product', error);
+    }
+  };
+
   const addItemMutation = useMutation({
-    mutationFn: async () => {
+    /** `mergeInto` is an existing entry of the same product the new quantity is added to. */
+    mutationFn: async (mergeInto: StorageItem | null) => {
       const normalizedName = form.name.trim();
-      return createStorageItem(
-        {
-          name: normalizedName || form.name,
-          quantity: form.quantity || null,
-          unit: form.unit || null,
-          storage_location_id: form.storageLocationId,
-          expiry_date: expiryDate ? expiryDate.toISOString().split('T')[0] : null,
-        },
-        user!.id,
-      );
+      const payload = {
+        name: normalizedName || form.name,
+        quantity: form.quantity || null,
+        unit: form.unit || null,
+        category: form.category.trim() || null,
+        price: parseAmount(form.price),
+        notes: form.notes.trim() || null,
+        storage_location_id: form.storageLocationId,
+        expiry_date: expiryDate ? toDateOnlyString(expiryDate) : null,
+      };
+      if (editItemId) {
+        await outbox.updateItem(editItemId, payload);
+        return;
+      }
+      const merged = mergeInto ? mergeFields([mergeInto, { ...payload, opened_at: null }]) : null;
+      if (mergeInto && merged) {
+        await outbox.updateItem(mergeInto.id, merged);
+      } else {
+        await outbox.createItem({ ...payload, household_id: household!.id });
+      }
+      if (scannedBarcode) {
+        await rememberScannedProduct(scannedBarcode, payload.name);
+      }
+      if (isExpiryTouched && expiryDate) {
+        const days = daysFromToday(expiryDate);
+        if (days !== manualSuggestion?.days) {
+          await rememberShelfLifeChoice(payload.name, form.storageLocationId, days);
+        }
+      }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+    // Saved to the outbox first, so saving works without a connection.
+    networkMode: 'always',
+    onSuccess: (_result, mergeInto) => {
+      queryClient.invalidateQueries({ queryKey: ['shelf-life-overrides'] });
+      queryClient.invalidateQueries({ queryKey: productCatalogQueryKey(user?.id) });
       const location = locations.find((loc) => loc.id === form.storageLocationId);
-      showToast({
-        title: t('addItem.itemAdded'),
-        message: location
-          ? t('addItem.itemAddedMsg', { name: form.name, location: location.name })
-          : t('addItem.itemAddedMsg', { name: form.name, location: t('addItem.storageLocation') }),
-      });
+      const params = { name: form.name, location: location ? location.displayName : t('addItem.storageLocation') };
+      showToast(
+        isEditing
+          ? { title: t('addItem.itemUpdated'), message: t('addItem.itemUpdatedMsg', params) }
+          : mergeInto
+            ? { title: t('addItem.itemAdded'), message: t('duplicates.addedToExistingMsg', { ...params, name: mergeInto.name }) }
+            : { title: t('addItem.itemAdded'), message: t('addItem.itemAddedMsg', params) },
+      );
       navigation.goBack();
     },
     onError: (error: unknown) => {
-      const message = error instanceof Error ? error.message : 'Failed to add item';
-      showToast({ title: t('addItem.itemAdded'), message, type: 'error' });
+      const message = error instanceof Error ? error.message : t('addItem.saveErrorMessage');
+      showToast({
+        title: isEditing ? t('addItem.itemUpdateError') : t('addItem.addErrorTitle'),
+        message,
+        type: 'error',
+      });
     },
   });
 
@@ -215,21 +386,38 @@ export const AddItemScreen = () => {
       await Promise.all(
         items.map(async (item) => {
           const normalizedName = item.name.trim() || item.name;
-          return createStorageItem(
-            {
-              name: normalizedName,
-              quantity: item.quantity || null,
-              unit: item.unit || null,
-              storage_location_id: item.storageLocationId,
-              expiry_date: null,
-            },
-            user!.id,
-          );
+          return outbox.createItem({
+            household_id: household!.id,
+            name: normalizedName,
+            quantity: item.quantity || null,
+            unit: item.unit || null,
+            storage_location_id: item.storageLocationId,
+            expiry_date: item.shelfLifeDays !== null ? suggestExpiryDate(item.shelfLifeDays) : null,
+          });
         }),
       );
+      for (const item of items) {
+        if (item.shelfLifeEdited && item.shelfLifeDays !== null) {
+          await rememberShelfLifeChoice(item.name.trim() || item.name, item.storageLocationId, item.shelfLifeDays);
+        }
+      }
+      // Saving the items counts the purchases; here the receipt spellings are kept so the next
+      // receipt with the same line is recognised.
+      const aliases = items
+        .filter((item) => item.detectedName.trim() && item.detectedName.trim() !== item.name.trim())
+        .map((item) => ({ name: item.name.trim() || item.name, alias: item.detectedName, uses: 0 }));
+      if (aliases.length) {
+        try {
+          await learnProducts(user!.id, aliases);
+        } catch (error) {
+          console.warn('Failed to remember receipt names', error);
+        }
+      }
     },
+    networkMode: 'always',
     onSuccess: (_, addedItems) => {
-      queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      queryClient.invalidateQueries({ queryKey: ['shelf-life-overrides'] });
+      queryClient.invalidateQueries({ queryKey: productCatalogQueryKey(user?.id) });
       showToast({
         title: t('addItem.itemsAdded'),
         message: t('addItem.itemsAddedMsg', { count: addedItems.length }),
@@ -249,6 +437,60 @@ export const AddItemScreen = () => {
     },
   });
 
+  const handleBarcodeScanned = async (barcode: string) => {
+    if (!household) {
+      return;
+    }
+    setIsLookingUpBarcode(true);
+    try {
+      const product = await lookupProduct(barcode, [
+        createScannedProductsProvider(household.id),
+        createOpenFoodFactsProvider({ baseUrl: env.productLookupUrl, language: locale }),
+      ]);
+      setScannedBarcode(barcode);
+      setScannedProduct(product);
+      if (product) {
+        const packSize = product.packSize ? toQuantityFields(product.packSize) : null;
+        setForm((prev) => ({
+          ...prev,
+          name: product.name,
+          category: product.category ?? prev.category,
+          quantity: packSize?.quantity ?? prev.quantity,
+          unit: packSize?.unit ?? prev.unit,
+        }));
+      }
+      showToast(
+        product
+          ? { title: t('barcode.foundTitle'), message: t('barcode.foundMsg', { name: product.name }) }
+          : { title: t('barcode.notFoundTitle'), message: t('barcode.notFoundMsg', { barcode }) },
+      );
+      setMode('manual');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : t('barcode.lookupErrorMessage');
+      showToast({ title: t('barcode.lookupErrorTitle'), message, type: 'error' });
+    } finally {
+      setIsLookingUpBarcode(false);
+    }
+  };
+
+  const handleSelectCatalogProduct = (product: CatalogProduct) => {
+    setForm((prev) => ({
+      ...prev,
+      name: product.name,
+      unit: product.default_unit ?? prev.unit,
+      category: product.category ?? prev.category,
+      storageLocationId: getCatalogLocationId(product) ?? prev.storageLocationId,
+    }));
+  };
+
+  const handleSelectBatchCatalogProduct = (item: BatchItem, product: CatalogProduct) => {
+    updateBatchItem(item.id, {
+      name: product.name,
+      unit: item.unit || product.default_unit || '',
+      storageLocationId: getCatalogLocationId(product) ?? item.storageLocationId,
+    });
+  };
+
   const setField = (key: keyof typeof form, value: string) => {
     setForm((prev) => ({ ...prev, [key]: value }));
   };
@@ -280,6 +522,7 @@ export const AddItemScreen = () => {
       return;
     }
     setExpiryDate(normalizedSelection);
+    setIsExpiryTouched(true);
   };
 
   const openDatePicker = () => {
@@ -295,6 +538,25 @@ export const AddItemScreen = () => {
     setIsDatePickerVisible(true);
   };
 
+  // The pantry list is usually cached already; without it we just create a new entry.
+  const findExistingEntry = () => {
+    const items = queryClient.getQueryData<StorageItem[]>(['storage-items', household?.id]) ?? [];
+    const existing = findDuplicateOf(items, {
+      name: form.name,
+      quantity: form.quantity || null,
+      unit: form.unit || null,
+      storage_location_id: form.storageLocationId,
+    });
+    const candidate = {
+      quantity: form.quantity || null,
+      unit: form.unit || null,
+      expiry_date: null,
+      opened_at: null,
+      price: null,
+    };
+    return existing && mergeFields([existing, candidate]) ? existing : null;
+  };
+
   const handleSubmit = () => {
     if (!form.name.trim()) {
       showToast({ title: t('addItem.itemName'), message: t('addItem.itemNamePlaceholder'), type: 'error' });
@@ -304,7 +566,26 @@ export const AddItemScreen = () => {
       showToast({ title: t('addItem.storageLocation'), message: t('addItem.locationMissingMsg'), type: 'error' });
       return;
     }
-    addItemMutation.mutate();
+    const existing = isEditing ? null : findExistingEntry();
+    if (!existing) {
+      addItemMutation.mutate(null);
+      return;
+    }
+    const existingQuantity = getItemQuantity(existing);
+    const location = locations.find((loc) => loc.id === existing.storage_location_id);
+    Alert.alert(
+      t('duplicates.existingTitle'),
+      t('duplicates.existingMessage', {
+        name: existing.name,
+        quantity: existingQuantity ? formatQuantity(simplifyQuantity(existingQuantity)) : existing.quantity ?? '',
+        location: location?.displayName ?? t('addItem.storageLocation'),
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('duplicates.newBatch'), onPress: () => addItemMutation.mutate(null) },
+        { text: t('duplicates.addToExisting'), onPress: () => addItemMutation.mutate(existing) },
+      ],
+    );
   };
 
   const launchPicker = async (source: 'camera' | 'library') => {
@@ -433,14 +714,23 @@ export const AddItemScreen = () => {
       }
 
       setBatchItems(
-        parsedItems.map((item, index) => ({
-          id: `${Date.now()}-${index}`,
-          name: item.name,
-          quantity: item.quantity,
-          unit: item.unit,
-          storageLocationId: defaultLocationId,
-          selected: true,
-        })),
+        parsedItems.map((item, index) => {
+          // Products bought before come back under their usual name, unit and location.
+          const known = findCatalogProduct(catalog, item.name);
+          const name = known?.name ?? item.name;
+          const storageLocationId = (known && getCatalogLocationId(known)) || defaultLocationId;
+          return {
+            id: `${Date.now()}-${index}`,
+            name,
+            detectedName: item.name,
+            quantity: item.quantity,
+            unit: item.unit || known?.default_unit || '',
+            storageLocationId,
+            shelfLifeDays: suggestBatchShelfLife({ name, storageLocationId }),
+            shelfLifeEdited: false,
+            selected: true,
+          };
+        }),
       );
 
       const seconds = (durationMs / 1000).toFixed(1);
@@ -462,9 +752,29 @@ export const AddItemScreen = () => {
   };
 
   const updateBatchItem = (id: string, payload: Partial<BatchItem>) => {
-    setBatchItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...payload } : item)));
+    setBatchItems((prev) =>
+      prev.map((item) => {
+        if (item.id !== id) {
+          return item;
+        }
+        const next = { ...item, ...payload };
+        if (!next.shelfLifeEdited && ('name' in payload || 'storageLocationId' in payload)) {
+          next.shelfLifeDays = suggestBatchShelfLife(next);
+        }
+        return next;
+      }),
+    );
   };
 
+  const shiftBatchShelfLife = (item: BatchItem, delta: number) => {
+    const current = item.shelfLifeDays ?? 0;
+    const next = current + delta;
+    updateBatchItem(item.id, { shelfLifeDays: next < 0 ? null : next, shelfLifeEdited: true });
+  };
+
+  const formatShelfLife = (days: number | null) =>
+    days === null ? t('addItem.noExpiry') : t('addItem.expiresInDays', { count: days });
+
   const toggleBatchSelection = (id: string) => {
     setBatchItems((prev) => prev.map((item) => (item.id === id ? { ...item, selected: !item.selected } : item)));
   };
@@ -507,20 +817,25 @@ export const AddItemScreen = () => {
 
   const renderManualForm = () => (
     <>
+      {scannedBarcode && !isEditing ? (
+        <Text style={styles.helperText}>{t('barcode.scannedCode', { barcode: scannedBarcode })}</Text>
+      ) : null}
+
       <View style={styles.section}>
         <Text style={styles.label}>{t('addItem.itemName')}</Text>
-        <TextInput
+        <ProductNameInput
           style={styles.input}
           placeholder={t('addItem.itemNamePlaceholder')}
-          placeholderTextColor={colors.inputPlaceholder}
           value={form.name}
           onChangeText={(value) => setField('name', value)}
+          onSelectProduct={handleSelectCatalogProduct}
+          products={catalog}
         />
       </View>
 
       <View style={[styles.section, styles.row]}>
         <View style={[styles.section, { flex: 1 }]}>
-          <Text style={styles.label}>{t('addItem.unit')}</Text>
+          <Text style={styles.label}>{t('addItem.quantity')}</Text>
           <TextInput
             style={styles.input}
             placeholder={t('addItem.quantityPlaceholder')}
@@ -531,7 +846,7 @@ export const AddItemScreen = () => {
           />
         </View>
         <View style={[styles.section, { flex: 1 }]}>
-          <Text style={styles.label}>{t('addItem.quantity')}</Text>
+          <Text style={styles.label}>{t('addItem.unit')}</Text>
           <TextInput
             style={styles.input}
             placeholder={t('addItem.unitPlaceholder')}
@@ -542,6 +857,17 @@ export const AddItemScreen = () => {
         </View>
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.label}>{t('addItem.category')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('addItem.categoryPlaceholder')}
+          placeholderTextColor={colors.inputPlaceholder}
+          value={form.category}
+          onChangeText={(value) => setField('category', value)}
+        />
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.label}>{t('addItem.storageLocation')}</Text>
         <View style={styles.locationButtons}>
@@ -567,7 +893,7 @@ export const AddItemScreen = () => {
                   },
                 ]}
               >
-                {location.name}
+                {location.displayName}
               </Text>
             </TouchableOpacity>
           ))}
@@ -586,6 +912,13 @@ export const AddItemScreen = () => {
             {expiryDateDisplay}
           </Text>
         </TouchableOpacity>
+        {!isEditing && !isExpiryTouched && manualSuggestion && (
+          <Text style={[styles.helperText, { marginTop: 8 }]}>
+            {manualSuggestion.source === 'override'
+              ? t('addItem.expirySuggestedRemembered', { count: manualSuggestion.days })
+              : t('addItem.expirySuggested', { count: manualSuggestion.days })}
+          </Text>
+        )}
         {Platform.OS === 'ios' && isDatePickerVisible && (
           <View style={styles.iosDatePicker}>
             <DateTimePicker
@@ -603,18 +936,53 @@ export const AddItemScreen = () => {
         )}
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.label}>{t('addItem.price')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('addItem.pricePlaceholder')}
+          placeholderTextColor={colors.inputPlaceholder}
+          value={form.price}
+          onChangeText={(value) => setField('price', value)}
+          keyboardType="decimal-pad"
+        />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>{t('addItem.notes')}</Text>
+        <TextInput
+          style={[styles.input, styles.notesInput]}
+          placeholder={t('addItem.notesPlaceholder')}
+          placeholderTextColor={colors.inputPlaceholder}
+          value={form.notes}
+          onChangeText={(value) => setField('notes', value)}
+          multiline
+        />
+      </View>
+
       <TouchableOpacity
         style={[styles.submit, addItemMutation.isPending && { opacity: 0.6 }]}
         onPress={handleSubmit}
         disabled={addItemMutation.isPending}
       >
         <Text style={styles.submitText}>
-          {addItemMutation.isPending ? t('addItem.saving') : t('addItem.addItem')}
+          {addItemMutation.isPending
+            ? t('addItem.saving')
+            : isEditing
+              ? t('common.save')
+              : t('addItem.addItem')}
         </Text>
       </TouchableOpacity>
     </>
   );
 
+  const renderBarcodeFlow = () => (
+    <View style={styles.section}>
+      <Text style={styles.label}>{t('barcode.title')}</Text>
+      <BarcodeScanner busy={isLookingUpBarcode} onScanned={(barcode) => void handleBarcodeScanned(barcode)} />
+    </View>
+  );
+
   const renderReceiptFlow = () => (
     <>
       <View style={styles.section}>
@@ -703,10 +1071,12 @@ export const AddItemScreen = () => {
 
                 {editingItemId === item.id ? (
                   <View style={styles.batchEditSection}>
-                    <TextInput
+                    <ProductNameInput
                       style={styles.input}
                       value={item.name}
                       onChangeText={(value) => updateBatchItem(item.id, { name: value })}
+                      onSelectProduct={(product) => handleSelectBatchCatalogProduct(item, product)}
+                      products={catalog}
                     />
                     <View style={[styles.row, { marginTop: 8 }]}>
                       <TextInput
@@ -725,6 +1095,22 @@ export const AddItemScreen = () => {
                         placeholderTextColor={colors.inputPlaceholder}
                       />
                     </View>
+                    <View style={styles.shelfLifeRow}>
+                      <Text style={styles.batchDetailsText}>{t('addItem.expiryDate')}</Text>
+                      <View style={styles.shelfLifeStepper}>
+                        <TouchableOpacity
+                          style={styles.stepperButton}
+                          onPress={() => shiftBatchShelfLife(item, -1)}
+                          disabled={item.shelfLifeDays === null}
+                        >
+                          <Minus size={16} color={colors.textPrimary} />
+                        </TouchableOpacity>
+                        <Text style={styles.stepperValue}>{formatShelfLife(item.shelfLifeDays)}</Text>
+                        <TouchableOpacity style={styles.stepperButton} onPress={() => shiftBatchShelfLife(item, 1)}>
+                          <Plus size={16} color={colors.textPrimary} />
+                        </TouchableOpacity>
+                      </View>
+                    </View>
                     <TouchableOpacity style={styles.doneButton} onPress={() => setEditingItemId(null)}>
                       <Text style={styles.doneButtonText}>
                         {t('common.done')}
@@ -738,6 +1124,7 @@ export const AddItemScreen = () => {
                         ? `${item.quantity} ${item.unit}`.trim()
                         : t('addItem.noQuantity')}
                     </Text>
+                    <Text style={styles.batchDetailsText}>{formatShelfLife(item.shelfLifeDays)}</Text>
                   </View>
                 )}
 
@@ -768,7 +1155,7 @@ export const AddItemScreen = () => {
                           },
                         ]}
                       >
-                        {location.name}
+                        {location.displayName}
                       </Text>
                     </TouchableOpacity>
                   ))}
@@ -811,49 +1198,77 @@ export const AddItemScreen = () => {
     </>
   );
 
+  if (isEditing && isLoadingEditingItem) {
+    return (
+      <View style={[styles.loadingState, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={colors.primary} size="large" />
+      </View>
+    );
+  }
+
   return (
     <KeyboardAvoidingView
       style={{ flex: 1, backgroundColor: colors.background }}
       behavior={Platform.select({ ios: 'padding', android: undefined })}
     >
       <ScrollView contentContainerStyle={styles.container}>
-        <View style={styles.section}>
-          <Text style={styles.label}>
-            {t('addItem.modeTitle')}
-          </Text>
-          <View style={styles.modeToggle}>
-            <TouchableOpacity
-              style={[
-                styles.modeButton,
-                manualModeActive && { borderColor: colors.primary, backgroundColor: colors.surface },
-              ]}
-              onPress={() => setMode('manual')}
-            >
-              <Text style={styles.modeButtonTitle}>
-                {t('addItem.manualModeTitle')}
-              </Text>
-              <Text style={styles.modeButtonSubtitle}>
-                {t('addItem.manualModeSubtitle')}
-              </Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[
-                styles.modeButton,
-                !manualModeActive && { borderColor: colors.primary, backgroundColor: colors.surface },
-              ]}
-              onPress={() => setMode('receipt')}
-            >
-              <Text style={styles.modeButtonTitle}>
-                {t('addItem.ocrModeTitle')}
-              </Text>
-              <Text style={styles.modeButtonSubtitle}>
-                {t('addItem.ocrModeSubtitle')}
-              </Text>
-            </TouchableOpacity>
+        {!isEditing && (
+          <View style={styles.section}>
+            <Text style={styles.label}>
+              {t('addItem.modeTitle')}
+            </Text>
+            <View style={styles.modeToggle}>
+              <TouchableOpacity
+                style={[
+                  styles.modeButton,
+                  manualModeActive && { borderColor: colors.primary, backgroundColor: colors.surface },
+                ]}
+                onPress={() => setMode('manual')}
+              >
+                <Text style={styles.modeButtonTitle}>
+                  {t('addItem.manualModeTitle')}
+                </Text>
+                <Text style={styles.modeButtonSubtitle}>
+                  {t('addItem.manualModeSubtitle')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.modeButton,
+                  mode === 'receipt' && { borderColor: colors.primary, backgroundColor: colors.surface },
+                ]}
+                onPress={() => setMode('receipt')}
+              >
+                <Text style={styles.modeButtonTitle}>
+                  {t('addItem.ocrModeTitle')}
+                </Text>
+                <Text style={styles.modeButtonSubtitle}>
+                  {t('addItem.ocrModeSubtitle')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.modeButton,
+                  mode === 'barcode' && { borderColor: colors.primary, backgroundColor: colors.surface },
+                ]}
+                onPress={() => setMode('barcode')}
+              >
+                <Text style={styles.modeButtonTitle}>
+                  {t('addItem.barcodeModeTitle')}
+                </Text>
+                <Text style={styles.modeButtonSubtitle}>
+                  {t('addItem.barcodeModeSubtitle')}
+                </Text>
+              </TouchableOpacity>
+            </View>
           </View>
-        </View>
+        )}
 
-        {manualModeActive ? renderManualForm() : renderReceiptFlow()}
+        {isEditing || manualModeActive
+          ? renderManualForm()
+          : mode === 'barcode'
+            ? renderBarcodeFlow()
+            : renderReceiptFlow()}
       </ScrollView>
     </KeyboardAvoidingView>
   );
@@ -865,6 +1280,11 @@ const createStyles = (colors: ThemeColors) =>
       padding: 24,
       gap: 24,
     },
+    loadingState: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
     section: {
       gap: 8,
     },
@@ -891,6 +1311,10 @@ const createStyles = (colors: ThemeColors) =>
       fontSize: 16,
       color: colors.inputText,
     },
+    notesInput: {
+      minHeight: 88,
+      textAlignVertical: 'top',
+    },
     dateInput: {
       borderRadius: 14,
       borderWidth: 1,
@@ -1076,6 +1500,28 @@ const createStyles = (colors: ThemeColors) =>
     batchDetailsText: {
       color: colors.textSecondary,
     },
+    shelfLifeRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginTop: 4,
+    },
+    shelfLifeStepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    stepperButton: {
+      padding: 6,
+      borderRadius: 8,
+      backgroundColor: colors.surfaceMuted,
+    },
+    stepperValue: {
+      minWidth: 96,
+      textAlign: 'center',
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
     doneButton: {
       alignSelf: 'flex-start',
       paddingHorizontal: 16,
@@ -1,27 +1,45 @@
 import { useMemo } from 'react';
-import { FlatList, StyleSheet, Text, View } from 'react-native';
+import { ActivityIndicator, FlatList, RefreshControl, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Heart, Clock, Users } from 'lucide-react-native';
 import { useThemeMode } from '@/providers/ThemeProvider';
 import type { ThemeColors } from '@/providers/ThemeProvider';
 import { useTranslation } from '@/lib/i18n';
+import { useFavoriteRecipes } from '@/hooks/useFavoriteRecipes';
+import { getRecipeMinutes } from '@/lib/supabase/recipesService';
+import type { RootStackParamList } from '@/navigation/types';
 
-const favorites = [
-  { id: '1', name: 'Spaghetti Carbonara', time: '20 min', servings: 2 },
-  { id: '2', name: 'Greek Salad', time: '10 min', servings: 4 },
-  { id: '3', name: 'Chocolate Brownies', time: '35 min', servings: 8 },
-] as const;
+type Navigation = NativeStackNavigationProp<RootStackParamList>;
 
 export const FavoritesScreen = () => {
+  const navigation = useNavigation<Navigation>();
   const { colors } = useThemeMode();
   const styles = useMemo(() => createStyles(colors), [colors]);
   const { t } = useTranslation();
+  const { favorites: favoriteEntries, isLoading, isRefetching, refetch, toggleFavorite } = useFavoriteRecipes();
+
+  // Optimistic entries may not carry the joined recipe yet; they show up once the refetch settles.
+  const favorites = useMemo(
+    () => favoriteEntries.flatMap((entry) => (entry.recipes ? [entry.recipes] : [])),
+    [favoriteEntries],
+  );
 
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
       <FlatList
         data={favorites}
         keyExtractor={(item) => item.id}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefetching}
+            onRefresh={() => {
+              void refetch();
+            }}
+            tintColor={colors.primary}
+          />
+        }
         ListHeaderComponent={
           <View style={styles.header}>
             <Text style={styles.title}>{t('favorites.title')}</Text>
@@ -33,32 +51,52 @@ export const FavoritesScreen = () => {
         ListHeaderComponentStyle={styles.listHeader}
         ItemSeparatorComponent={() => <View style={styles.separator} />}
         contentContainerStyle={{ paddingBottom: 32 }}
-        renderItem={({ item }) => (
-          <View style={styles.card}>
-            <View style={styles.cardHeader}>
-              <Text style={styles.cardTitle}>{item.name}</Text>
-              <Heart size={20} color={colors.danger} />
-            </View>
-            <View style={styles.metaRow}>
-              <View style={styles.metaItem}>
-                <Clock size={16} color={colors.textMuted} />
-                <Text style={styles.metaLabel}>{item.time}</Text>
+        renderItem={({ item }) => {
+          const minutes = getRecipeMinutes(item);
+          return (
+            <TouchableOpacity
+              style={styles.card}
+              onPress={() => navigation.navigate('RecipeDetail', { id: item.id })}
+            >
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>{item.name}</Text>
+                <TouchableOpacity
+                  onPress={() => toggleFavorite(item.id, item)}
+                  hitSlop={12}
+                  accessibilityLabel={t('favorites.removeFavorite')}
+                >
+                  <Heart size={20} color={colors.danger} fill={colors.danger} />
+                </TouchableOpacity>
               </View>
-              <View style={styles.metaItem}>
-                <Users size={16} color={colors.textMuted} />
-                <Text style={styles.metaLabel}>
-                  {item.servings} {t('favorites.servings')}
-                </Text>
+              <View style={styles.metaRow}>
+                {minutes !== null && (
+                  <View style={styles.metaItem}>
+                    <Clock size={16} color={colors.textMuted} />
+                    <Text style={styles.metaLabel}>{t('recipes.minutes', { count: minutes })}</Text>
+                  </View>
+                )}
+                <View style={styles.metaItem}>
+                  <Users size={16} color={colors.textMuted} />
+                  <Text style={styles.metaLabel}>
+                    {item.servings || 2} {t('favorites.servings')}
+                  </Text>
+                </View>
               </View>
-            </View>
-          </View>
-        )}
+            </TouchableOpacity>
+          );
+        }}
         ListEmptyComponent={
-          <View style={styles.emptyCard}>
-            <Heart size={48} color={colors.textMuted} />
-            <Text style={styles.emptyTitle}>{t('favorites.noFavoritesTitle')}</Text>
-            <Text style={styles.emptySubtitle}>{t('favorites.noFavoritesSubtitle')}</Text>
-          </View>
+          isLoading ? (
+            <View style={styles.loadingState}>
+              <ActivityIndicator color={colors.primary} size="large" />
+            </View>
+          ) : (
+            <View style={styles.emptyCard}>
+              <Heart size={48} color={colors.textMuted} />
+              <Text style={styles.emptyTitle}>{t('favorites.noFavoritesTitle')}</Text>
+              <Text style={styles.emptySubtitle}>{t('favorites.noFavoritesSubtitle')}</Text>
+            </View>
+          )
         }
       />
     </SafeAreaView>
@@ -123,6 +161,10 @@ const createStyles = (colors: ThemeColors) =>
     metaLabel: {
       color: colors.textSecondary,
     },
+    loadingState: {
+      marginTop: 48,
+      alignItems: 'center',
+    },
     emptyCard: {
       marginTop: 48,
       marginHorizontal: 24,
@@ -1,91 +1,143 @@
-import type { AppTabsParamList } from '@/navigation/types';
+import type { AppTabsParamList, RootStackParamList } from '@/navigation/types';
 import type { ThemeColors } from '@/providers/ThemeProvider';
 import { useThemeMode } from '@/providers/ThemeProvider';
 import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, type CompositeNavigationProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { LinearGradient } from 'expo-linear-gradient';
-import { ChefHat, Package, Refrigerator, Snowflake, TrendingUp } from 'lucide-react-native';
+import { ChefHat, Gauge, Plus, ShoppingCart, Trash2, TrendingUp } from 'lucide-react-native';
 import { useMemo } from 'react';
 import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '@/providers/AuthProvider';
-import { useQuery } from '@tanstack/react-query';
-import { getStorageItemsByLocation, getStorageStatistics } from '@/lib/supabase/storageService';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getStorageItems, getStorageStatistics } from '@/lib/supabase/storageService';
 import { useTranslation } from '@/lib/i18n';
+import { countExpiringSoon, findLongExpiredItems } from '@/lib/expiry';
+import { getKeptExpiredIds, keepExpiredItems } from '@/lib/expiry/storage';
+import { useExpiryRules } from '@/hooks/useExpiryRules';
+import { useStorageLocations } from '@/hooks/useStorageLocations';
+import { LocationIcon } from '@/components/LocationIcon';
+import { shoppingListQueryKey, useShoppingList } from '@/hooks/useShoppingList';
+import { useStockThresholds } from '@/hooks/useStockThresholds';
+import { canEditPantry } from '@/lib/households';
+import { findLowStock, type LowStockEntry } from '@/lib/lowStock';
+import { formatQuantity, simplifyQuantity, toQuantityFields } from '@/lib/quantity';
+import { findOpenItem, getNextPosition } from '@/lib/shoppingList';
+import { addShoppingListItem } from '@/lib/supabase/shoppingListService';
+import { recordExpiredWaste } from '@/lib/supabase/wasteService';
+import { useToast } from '@/providers/ToastProvider';
 
-type Navigation = BottomTabNavigationProp<AppTabsParamList, 'Home'>;
+type Navigation = CompositeNavigationProp<
+  BottomTabNavigationProp<AppTabsParamList, 'Home'>,
+  NativeStackNavigationProp<RootStackParamList>
+>;
 
 export const HomeScreen = () => {
   const navigation = useNavigation<Navigation>();
   const { colors } = useThemeMode();
-  const { user } = useAuth();
+  const { user, household, householdRole } = useAuth();
+  const canEdit = canEditPantry(householdRole);
   const { t } = useTranslation();
   const styles = useMemo(() => createStyles(colors), [colors]);
+  const expiryRules = useExpiryRules();
+  const { locations } = useStorageLocations();
+  const thresholds = useStockThresholds();
+  const { items: shoppingList } = useShoppingList();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
 
-  const { data: freezerItems = [] } = useQuery({
-    queryKey: ['storage-items', user?.id, 'freezer'],
-    queryFn: () => getStorageItemsByLocation(user!.id, 'freezer'),
-    enabled: Boolean(user?.id),
+  const { data: items = [] } = useQuery({
+    queryKey: ['storage-items', household?.id],
+    queryFn: () => getStorageItems(household!.id),
+    enabled: Boolean(household?.id),
   });
 
-  const { data: fridgeItems = [] } = useQuery({
-    queryKey: ['storage-items', user?.id, 'fridge'],
-    queryFn: () => getStorageItemsByLocation(user!.id, 'fridge'),
-    enabled: Boolean(user?.id),
+  const { data: statistics } = useQuery({
+    queryKey: ['storage-statistics', household?.id],
+    queryFn: () => getStorageStatistics(household!.id, user!.id),
+    enabled: Boolean(household?.id && user?.id),
   });
 
-  const { data: larderItems = [] } = useQuery({
-    queryKey: ['storage-items', user?.id, 'larder'],
-    queryFn: () => getStorageItemsByLocation(user!.id, 'larder'),
-    enabled: Boolean(user?.id),
-  });
+  const storageData = useMemo(
+    () =>
+      locations.map((location) => {
+        const locationItems = items.filter((item) => item.storage_location_id === location.id);
+        return {
+          id: location.id,
+          name: location.displayName,
+          items: locationItems.length,
+          expiringSoon: countExpiringSoon(locationItems, expiryRules),
+          iconName: location.iconName,
+          color: location.displayColor,
+        };
+      }),
+    [expiryRules, items, locations],
+  );
 
-  const { data: statistics } = useQuery({
-    queryKey: ['storage-statistics', user?.id],
-    queryFn: () => getStorageStatistics(user!.id),
+  const lowStock = useMemo(() => findLowStock(items, thresholds), [items, thresholds]);
+
+  // Long-expired items only go to the waste log once the user confirms; "Keep" stops offering them.
+  const keptExpiredQueryKey = ['kept-expired-items', user?.id];
+  const { data: keptExpiredIds = [] } = useQuery({
+    queryKey: keptExpiredQueryKey,
+    queryFn: () => getKeptExpiredIds(user!.id),
     enabled: Boolean(user?.id),
   });
 
-  const getExpiringSoonCount = (items: any[]) => {
-    const now = new Date();
-    const sevenDaysFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    return items.filter((item) => {
-      if (!item.expiry_date) return false;
-      const expiryDate = new Date(item.expiry_date);
-      return expiryDate > now && expiryDate <= sevenDaysFromNow;
-    }).length;
-  };
+  const keepExpiredMutation = useMutation({
+    mutationFn: (itemIds: string[]) => keepExpiredItems(user!.id, itemIds),
+    onSuccess: (kept) => {
+      queryClient.setQueryData(keptExpiredQueryKey, kept);
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : t('home.keepExpiredErrorMessage');
+      showToast({ title: t('home.keepExpiredErrorTitle'), message, type: 'error' });
+    },
+  });
 
-  const storageData = useMemo(
-    () => [
-      {
-        id: 'freezer',
-        name: t('home.freezer'),
-        items: freezerItems.length,
-        expiringSoon: getExpiringSoonCount(freezerItems),
-        icon: Snowflake,
-        color: '#38bdf8',
-      },
-      {
-        id: 'fridge',
-        name: t('home.fridge'),
-        items: fridgeItems.length,
-        expiringSoon: getExpiringSoonCount(fridgeItems),
-        icon: Refrigerator,
-        color: '#34d399',
-      },
-      {
-        id: 'larder',
-        name: t('home.larder'),
-        items: larderItems.length,
-        expiringSoon: getExpiringSoonCount(larderItems),
-        icon: Package,
-        color: '#facc15',
-      },
-    ],
-    [freezerItems, fridgeItems, larderItems, t],
+  const longExpired = useMemo(
+    () => findLongExpiredItems(items, expiryRules).filter((item) => !keptExpiredIds.includes(item.id)),
+    [expiryRules, items, keptExpiredIds],
   );
 
+  const expiredWasteMutation = useMutation({
+    mutationFn: (expired: typeof items) => recordExpiredWaste(expired),
+    onSuccess: (count) => {
+      void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      void queryClient.invalidateQueries({ queryKey: ['storage-statistics'] });
+      void queryClient.invalidateQueries({ queryKey: ['waste-log'] });
+      showToast({ title: t('home.expiredWastedTitle'), message: t('home.expiredWastedMsg', { count }) });
+    },
+    onError: (error) => {
+      // Some items may have been moved before the failure, so show what is left.
+      void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      const message = error instanceof Error ? error.message : t('home.expiredWasteErrorMessage');
+      showToast({ title: t('home.expiredWasteErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const addToListMutation = useMutation({
+    mutationFn: async ({ threshold, minimum }: LowStockEntry) =>
+      addShoppingListItem(
+        {
+          household_id: household!.id,
+          name: threshold.name,
+          ...toQuantityFields(minimum),
+          position: getNextPosition(shoppingList),
+        },
+        user!.id,
+      ),
+    onSuccess: (item) => {
+      void queryClient.invalidateQueries({ queryKey: shoppingListQueryKey(household?.id) });
+      showToast({ title: t('stock.addedTitle'), message: t('stock.addedMsg', { name: item.name }) });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : t('shopping.addErrorMessage');
+      showToast({ title: t('shopping.addErrorTitle'), message, type: 'error' });
+    },
+  });
+
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
       <ScrollView
@@ -113,7 +165,7 @@ export const HomeScreen = () => {
             <TouchableOpacity key={storage.id} style={styles.card} onPress={() => navigation.navigate('Storage')}>
               <View style={styles.cardContent}>
                 <View style={[styles.iconWrapper, { backgroundColor: `${storage.color}22` }]}>
-                  <storage.icon size={24} color={storage.color} />
+                  <LocationIcon name={storage.iconName} size={24} color={storage.color} />
                 </View>
                 <View style={{ flex: 1 }}>
                   <Text style={styles.cardTitle}>{storage.name}</Text>
@@ -132,6 +184,81 @@ export const HomeScreen = () => {
             </TouchableOpacity>
           ))}
 
+          {canEdit && longExpired.length > 0 && (
+            <View style={styles.card}>
+              <View style={styles.cardContent}>
+                <View style={[styles.iconWrapper, { backgroundColor: colors.dangerSoft }]}>
+                  <Trash2 size={24} color={colors.danger} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.cardTitle}>{t('home.longExpiredTitle', { count: longExpired.length })}</Text>
+                  <Text style={styles.cardSubtitle}>{longExpired.map((item) => item.name).join(', ')}</Text>
+                </View>
+              </View>
+              <View style={styles.cardActions}>
+                <TouchableOpacity
+                  onPress={() => keepExpiredMutation.mutate(longExpired.map((item) => item.id))}
+                  disabled={expiredWasteMutation.isPending || keepExpiredMutation.isPending}
+                >
+                  <Text style={styles.keepText}>{t('home.keepExpired')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.addToListButton}
+                  onPress={() => expiredWasteMutation.mutate(longExpired)}
+                  disabled={expiredWasteMutation.isPending || keepExpiredMutation.isPending}
+                >
+                  <Trash2 size={14} color={colors.primaryContrast} />
+                  <Text style={styles.addToListText}>{t('home.moveExpiredToWaste')}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {lowStock.length > 0 && (
+            <>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>{t('stock.runningLow')}</Text>
+              </View>
+              {lowStock.map((entry) => {
+                const listed = findOpenItem(shoppingList, entry.threshold.name);
+                return (
+                  <View key={entry.threshold.id} style={styles.card}>
+                    <View style={styles.cardContent}>
+                      <View style={[styles.iconWrapper, { backgroundColor: colors.warningSoft }]}>
+                        <Gauge size={24} color={colors.warningText} />
+                      </View>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.cardTitle}>{entry.threshold.name}</Text>
+                        <Text style={styles.cardSubtitle}>
+                          {t('stock.levelOfMinimum', {
+                            level: formatQuantity(simplifyQuantity(entry.level)),
+                            minimum: formatQuantity(entry.minimum),
+                          })}
+                        </Text>
+                      </View>
+                      {listed ? (
+                        <TouchableOpacity style={styles.listedBadge} onPress={() => navigation.navigate('Shopping')}>
+                          <ShoppingCart size={14} color={colors.success} />
+                          <Text style={styles.listedText}>{t('stock.onList')}</Text>
+                        </TouchableOpacity>
+                      ) : canEdit ? (
+                        <TouchableOpacity
+                          style={styles.addToListButton}
+                          onPress={() => addToListMutation.mutate(entry)}
+                          disabled={addToListMutation.isPending}
+                          accessibilityLabel={t('stock.addToList')}
+                        >
+                          <Plus size={14} color={colors.primaryContrast} />
+                          <Text style={styles.addToListText}>{t('stock.addToList')}</Text>
+                        </TouchableOpacity>
+                      ) : null}
+                    </View>
+                  </View>
+                );
+              })}
+            </>
+          )}
+
           <View style={styles.highlightCard}>
             <View style={styles.highlightIcon}>
               <TrendingUp size={28} color={colors.secondary} />
@@ -156,6 +283,13 @@ export const HomeScreen = () => {
             </View>
           </TouchableOpacity>
 
+          <TouchableOpacity style={styles.manageCards} onPress={() => navigation.navigate('Reports')}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.manageCardsTitle}>{t('home.wasteReport')}</Text>
+              <Text style={styles.manageCardsSubtitle}>{t('home.wasteReportDesc')}</Text>
+            </View>
+          </TouchableOpacity>
+
           <View style={styles.statsRow}>
             <View style={[styles.statCard, { backgroundColor: colors.primary }]}>
               <Text style={styles.statValue}>{statistics?.totalItems || 0}</Text>
@@ -262,6 +396,43 @@ const createStyles = (colors: ThemeColors) =>
       color: colors.warningText,
       fontWeight: '600',
     },
+    listedBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      backgroundColor: colors.successSoft,
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 999,
+    },
+    listedText: {
+      color: colors.success,
+      fontWeight: '600',
+    },
+    addToListButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      backgroundColor: colors.primary,
+      paddingVertical: 8,
+      paddingHorizontal: 12,
+      borderRadius: 999,
+    },
+    addToListText: {
+      color: colors.primaryContrast,
+      fontWeight: '600',
+    },
+    cardActions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      alignItems: 'center',
+      gap: 16,
+      marginTop: 14,
+    },
+    keepText: {
+      color: colors.textSecondary,
+      fontWeight: '600',
+    },
     highlightCard: {
       borderRadius: 20,
       padding: 20,
@@ -1,3 +1,6 @@
+import { ExpirySettingsSection } from '@/components/ExpirySettingsSection';
+import { HouseholdSection } from '@/components/HouseholdSection';
+import { ReminderSettingsSection } from '@/components/ReminderSettingsSection';
 import { supabase } from '@/lib/supabase/client';
 import type { Database } from '@/lib/supabase/types';
 import { useAuth } from '@/providers/AuthProvider';
@@ -348,6 +351,16 @@ export const ProfileScreen = () => {
 
           <View style={[styles.divider, { backgroundColor: colors.border }]} />
 
+          <HouseholdSection />
+
+          <View style={[styles.divider, { backgroundColor: colors.border }]} />
+
+          <ReminderSettingsSection />
+
+          <View style={[styles.divider, { backgroundColor: colors.border }]} />
+
+          <ExpirySettingsSection />
+
           <View style={[styles.divider, { backgroundColor: colors.border }]} />
 
           <Text style={[styles.settingTitle, { color: colors.textPrimary }]}>{t('profile.changePassword')}</Text>
@@ -1,46 +1,198 @@
+import { CookRecipeSheet } from "@/components/CookRecipeSheet";
+import { useExpiryRules } from "@/hooks/useExpiryRules";
+import { useFavoriteRecipes } from "@/hooks/useFavoriteRecipes";
+import { shoppingListQueryKey, useShoppingList } from "@/hooks/useShoppingList";
+import { ConsumptionError } from "@/lib/consumption";
+import { canEditPantry } from "@/lib/households";
 import { useTranslation } from "@/lib/i18n";
-import { getRecipeById, type Recipe } from "@/lib/supabase/recipesService";
+import { groupLots } from "@/lib/lots";
+import {
+  formatQuantity,
+  simplifyQuantity,
+  toQuantityFields,
+} from "@/lib/quantity";
+import {
+  getCookingSteps,
+  matchRecipe,
+  planCooking,
+  type CookingDeduction,
+  type MissingIngredient,
+} from "@/lib/recipeMatching";
+import { readRecipeContent } from "@/lib/recipeSchema";
+import { getServingsFactor, scaleIngredient } from "@/lib/recipeScaling";
+import { findOpenItem, getNextPosition } from "@/lib/shoppingList";
+import { consumeTogether } from "@/lib/supabase/consumptionService";
+import {
+  duplicateRecipe,
+  getRecipeById,
+  getRecipeIngredients,
+  getRecipeMinutes,
+  type Recipe,
+} from "@/lib/supabase/recipesService";
+import { addShoppingListItems } from "@/lib/supabase/shoppingListService";
+import { getStorageItems } from "@/lib/supabase/storageService";
 import type { RootStackParamList } from "@/navigation/types";
+import { useAuth } from "@/providers/AuthProvider";
 import type { ThemeColors } from "@/providers/ThemeProvider";
 import { useThemeMode } from "@/providers/ThemeProvider";
-import { RouteProp, useRoute } from "@react-navigation/native";
-import { Clock, Sparkles, Users } from "lucide-react-native";
-import { useEffect, useMemo, useState } from "react";
+import { useToast } from "@/providers/ToastProvider";
+import { RouteProp, useNavigation, useRoute } from "@react-navigation/native";
+import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ChefHat,
+  Clock,
+  Copy,
+  Heart,
+  Minus,
+  Pencil,
+  Plus,
+  ShoppingCart,
+  Sparkles,
+  Timer,
+  Users,
+} from "lucide-react-native";
+import { useMemo, useState } from "react";
 import {
   ActivityIndicator,
   Image,
   ScrollView,
   StyleSheet,
   Text,
+  TouchableOpacity,
   View,
 } from "react-native";
 
 type Route = RouteProp<RootStackParamList, "RecipeDetail">;
+type Navigation = NativeStackNavigationProp<RootStackParamList>;
+
+type StorageItem = Awaited<ReturnType<typeof getStorageItems>>[number];
 
 export const RecipeDetailScreen = () => {
   const route = useRoute<Route>();
+  const navigation = useNavigation<Navigation>();
   const { id } = route.params;
   const { colors } = useThemeMode();
   const { t } = useTranslation();
   const styles = useMemo(() => createStyles(colors), [colors]);
-  const [recipe, setRecipe] = useState<Recipe | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { isFavorite, toggleFavorite } = useFavoriteRecipes();
+  const { user, household, householdRole } = useAuth();
+  const canEdit = canEditPantry(householdRole);
+  const expiryRules = useExpiryRules();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const [cookingPlan, setCookingPlan] = useState<
+    CookingDeduction<StorageItem>[] | null
+  >(null);
+  // `null` until the stepper is used, meaning the servings the recipe was written for.
+  const [servings, setServings] = useState<number | null>(null);
+  const { items: shoppingList } = useShoppingList();
+
+  const { data: recipe, isLoading } = useQuery({
+    queryKey: ["recipe", id],
+    queryFn: () => getRecipeById(id),
+  });
 
-  useEffect(() => {
-    const fetchRecipe = async () => {
-      try {
-        const data = await getRecipeById(id);
-        setRecipe(data);
-      } catch (error) {
-        console.error("Failed to load recipe", error);
-      } finally {
-        setLoading(false);
+  const { data: items = [] } = useQuery({
+    queryKey: ["storage-items", household?.id],
+    queryFn: () => getStorageItems(household!.id),
+    enabled: Boolean(household?.id),
+  });
+
+  const products = useMemo(
+    () => groupLots(items, expiryRules.timeZone),
+    [expiryRules.timeZone, items],
+  );
+
+  const cookMutation = useMutation({
+    mutationFn: async (deductions: CookingDeduction<StorageItem>[]) =>
+      consumeTogether({
+        steps: getCookingSteps(deductions),
+        reason: "cooked",
+        userId: user!.id,
+      }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ["storage-items"] });
+      void queryClient.invalidateQueries({ queryKey: ["storage-statistics"] });
+      void queryClient.invalidateQueries({ queryKey: ["shopping-list"] });
+      setCookingPlan(null);
+      showToast({
+        title: t("cooking.successTitle"),
+        message: t("cooking.successMsg", { name: recipe?.name ?? "" }),
+      });
+    },
+    onError: (error) => {
+      if (error instanceof ConsumptionError && error.code === "itemChanged") {
+        void queryClient.invalidateQueries({ queryKey: ["storage-items"] });
       }
-    };
-    fetchRecipe();
-  }, [id]);
+      const message =
+        error instanceof ConsumptionError
+          ? t(`consumptionProblems.${error.code}`, error.params)
+          : error instanceof Error
+            ? error.message
+            : t("cooking.errorMessage");
+      showToast({ title: t("cooking.errorTitle"), message, type: "error" });
+    },
+  });
 
-  if (loading) {
+  const addMissingMutation = useMutation({
+    mutationFn: async (missing: MissingIngredient[]) =>
+      addShoppingListItems(
+        missing.map(({ ingredient, needed }) => ({
+          household_id: household!.id,
+          name: ingredient.name,
+          ...(needed
+            ? toQuantityFields(simplifyQuantity(needed))
+            : { quantity: null, unit: null }),
+        })),
+        getNextPosition(shoppingList),
+        user!.id,
+      ),
+    onSuccess: (added) => {
+      void queryClient.invalidateQueries({
+        queryKey: shoppingListQueryKey(household?.id),
+      });
+      showToast({
+        title: t("recipes.addedMissingTitle"),
+        message: t("recipes.addedMissingMsg", { count: added.length }),
+      });
+    },
+    onError: (error) => {
+      const message =
+        error instanceof Error ? error.message : t("shopping.addErrorMessage");
+      showToast({ title: t("shopping.addErrorTitle"), message, type: "error" });
+    },
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: async (source: Recipe) =>
+      duplicateRecipe(
+        source,
+        user!.id,
+        t("recipeEditor.copyName", { name: source.name }),
+      ),
+    onSuccess: (copy) => {
+      void queryClient.invalidateQueries({ queryKey: ["recipes", user?.id] });
+      showToast({
+        title: t("recipeEditor.duplicatedTitle"),
+        message: t("recipeEditor.savedMsg", { name: copy.name }),
+      });
+      navigation.navigate("EditRecipe", { id: copy.id });
+    },
+    onError: (error) => {
+      const message =
+        error instanceof Error
+          ? error.message
+          : t("recipeEditor.saveErrorMessage");
+      showToast({
+        title: t("recipeEditor.saveErrorTitle"),
+        message,
+        type: "error",
+      });
+    },
+  });
+
+  if (isLoading) {
     return (
       <View
         style={[
@@ -68,10 +220,24 @@ export const RecipeDetailScreen = () => {
     );
   }
 
-  const ingredients = Array.isArray(recipe.ingredients)
-    ? recipe.ingredients
-    : [];
-  const steps = Array.isArray(recipe.steps) ? recipe.steps : [];
+  const baseServings = recipe.servings || 2;
+  const currentServings = servings ?? baseServings;
+  const factor = getServingsFactor(baseServings, currentServings);
+  const minutes = getRecipeMinutes(recipe);
+  const ingredients = getRecipeIngredients(recipe).map((ingredient) =>
+    scaleIngredient(ingredient, factor),
+  );
+  const match = matchRecipe(ingredients, products, expiryRules);
+  const missingByIngredient = new Map(
+    match.missing.map((missing) => [missing.ingredient, missing]),
+  );
+  // Items already on the list aren't added a second time.
+  const toBuy = match.missing.filter(
+    ({ ingredient }) => !findOpenItem(shoppingList, ingredient.name),
+  );
+  const { steps } = readRecipeContent(recipe);
+  const favorite = isFavorite(recipe.id);
+  const isOwn = recipe.user_id === user?.id;
 
   return (
     <ScrollView
@@ -88,71 +254,203 @@ export const RecipeDetailScreen = () => {
 
       <View style={styles.content}>
         <View style={styles.header}>
-          <Text style={styles.title}>{recipe.name}</Text>
+          <View style={styles.titleRow}>
+            <Text style={styles.title}>{recipe.name}</Text>
+            <TouchableOpacity
+              style={styles.favoriteButton}
+              onPress={() => toggleFavorite(recipe.id, recipe)}
+              accessibilityLabel={
+                favorite
+                  ? t("favorites.removeFavorite")
+                  : t("favorites.addFavorite")
+              }
+            >
+              <Heart
+                size={22}
+                color={colors.danger}
+                fill={favorite ? colors.danger : "transparent"}
+              />
+            </TouchableOpacity>
+          </View>
 
           <View style={styles.metaRow}>
+            {minutes !== null && (
+              <View style={styles.metaItem}>
+                <Clock size={18} color={colors.textSecondary} />
+                <Text style={styles.metaLabel}>
+                  {t("recipes.minutes", { count: minutes })}
+                </Text>
+              </View>
+            )}
             <View style={styles.metaItem}>
-              <Clock size={18} color={colors.textSecondary} />
-              <Text style={styles.metaLabel}>
-                {recipe.cook_time ? `${recipe.cook_time} ` : "30"}
-              </Text>
-            </View>
-            <View style={styles.metaItem}>
+              <TouchableOpacity
+                onPress={() => setServings(Math.max(1, currentServings - 1))}
+                disabled={currentServings <= 1}
+                hitSlop={8}
+                accessibilityLabel={t("recipes.fewerServings")}
+              >
+                <Minus
+                  size={18}
+                  color={
+                    currentServings <= 1 ? colors.textMuted : colors.primary
+                  }
+                />
+              </TouchableOpacity>
               <Users size={18} color={colors.textSecondary} />
               <Text style={styles.metaLabel}>
-                {recipe.servings || 2} {t("recipes.servings")}
+                {currentServings} {t("recipes.servings")}
               </Text>
+              <TouchableOpacity
+                onPress={() => setServings(currentServings + 1)}
+                hitSlop={8}
+                accessibilityLabel={t("recipes.moreServings")}
+              >
+                <Plus size={18} color={colors.primary} />
+              </TouchableOpacity>
             </View>
           </View>
 
           <Text style={styles.description}>{recipe.description}</Text>
+
+          <View style={styles.actionsRow}>
+            {isOwn && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() =>
+                  navigation.navigate("EditRecipe", { id: recipe.id })
+                }
+              >
+                <Pencil size={18} color={colors.textPrimary} />
+                <Text style={styles.actionButtonText}>{t("common.edit")}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => duplicateMutation.mutate(recipe)}
+              disabled={duplicateMutation.isPending}
+            >
+              <Copy size={18} color={colors.textPrimary} />
+              <Text style={styles.actionButtonText}>
+                {t("recipeEditor.duplicate")}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {canEdit && ingredients.length > 0 && (
+            <TouchableOpacity
+              style={styles.cookButton}
+              onPress={() =>
+                setCookingPlan(planCooking(ingredients, products))
+              }
+            >
+              <ChefHat size={20} color={colors.primaryContrast} />
+              <Text style={styles.cookButtonText}>{t("cooking.action")}</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t("recipes.ingredients")}</Text>
           <View style={styles.card}>
-            {ingredients.map((ingredient: any, index: number) => {
-              // Handle both formats: string or {item, quantity}
-              const isObject =
-                typeof ingredient === "object" && ingredient !== null;
-              const itemName = isObject ? ingredient.item : ingredient;
-              const itemQuantity = isObject ? ingredient.quantity : null;
-
+            {ingredients.map((ingredient, index) => {
+              const missing = missingByIngredient.get(ingredient);
+              const startsGroup =
+                Boolean(ingredient.group) &&
+                ingredient.group !== ingredients[index - 1]?.group;
               return (
-                <View key={`ing-${index}`} style={styles.ingredientRow}>
-                  <View style={styles.bullet} />
-                  <View style={styles.ingredientContent}>
-                    <Text style={styles.item}>
-                      {itemName || JSON.stringify(ingredient)}
-                    </Text>
-                    {itemQuantity && (
-                      <Text style={styles.ingredientQuantity}>
-                        {itemQuantity}
-                      </Text>
-                    )}
+                <View key={`ing-${index}`} style={styles.ingredientEntry}>
+                  {startsGroup && (
+                    <Text style={styles.groupTitle}>{ingredient.group}</Text>
+                  )}
+                  <View style={styles.ingredientRow}>
+                    <View
+                      style={[styles.bullet, missing && styles.bulletMissing]}
+                    />
+                    <View style={styles.ingredientContent}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.item}>{ingredient.name}</Text>
+                        {ingredient.note ? (
+                          <Text style={styles.ingredientNote}>
+                            {ingredient.note}
+                          </Text>
+                        ) : null}
+                        {missing && (
+                          <Text style={styles.missingText}>
+                            {missing.needed
+                              ? t("recipes.missingAmount", {
+                                  quantity: formatQuantity(
+                                    simplifyQuantity(missing.needed),
+                                  ),
+                                })
+                              : t("recipes.notInPantry")}
+                          </Text>
+                        )}
+                      </View>
+                      {ingredient.quantityText && (
+                        <Text style={styles.ingredientQuantity}>
+                          {ingredient.quantityText}
+                        </Text>
+                      )}
+                    </View>
                   </View>
                 </View>
               );
             })}
           </View>
+          {canEdit && toBuy.length > 0 && (
+            <TouchableOpacity
+              style={styles.addMissingButton}
+              onPress={() => addMissingMutation.mutate(toBuy)}
+              disabled={addMissingMutation.isPending}
+            >
+              <ShoppingCart size={18} color={colors.primary} />
+              <Text style={styles.addMissingText}>
+                {t("recipes.addMissing", { count: toBuy.length })}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>{t("recipes.steps")}</Text>
           <View style={styles.stepsContainer}>
-            {steps.map((step: any, index: number) => (
+            {steps.map((step, index) => (
               <View key={`step-${index}`} style={styles.stepRow}>
                 <View style={styles.stepNumber}>
                   <Text style={styles.stepNumberText}>{index + 1}</Text>
                 </View>
-                <Text style={styles.item}>
-                  {typeof step === "string" ? step : JSON.stringify(step)}
-                </Text>
+                <View style={styles.stepContent}>
+                  <Text style={styles.item}>{step.text}</Text>
+                  {step.ingredients?.length ? (
+                    <Text style={styles.stepIngredients}>
+                      {step.ingredients
+                        .map((ref) => ingredients[ref]?.name)
+                        .filter(Boolean)
+                        .join(", ")}
+                    </Text>
+                  ) : null}
+                  {step.timer ? (
+                    <View style={styles.timerBadge}>
+                      <Timer size={14} color={colors.textSecondary} />
+                      <Text style={styles.timerText}>
+                        {t("recipes.timer", { count: step.timer })}
+                      </Text>
+                    </View>
+                  ) : null}
+                </View>
               </View>
             ))}
           </View>
         </View>
       </View>
+
+      <CookRecipeSheet
+        recipeName={recipe.name}
+        deductions={cookingPlan}
+        submitting={cookMutation.isPending}
+        onClose={() => setCookingPlan(null)}
+        onConfirm={(deductions) => cookMutation.mutate(deductions)}
+      />
     </ScrollView>
   );
 };
@@ -188,7 +486,21 @@ const createStyles = (colors: ThemeColors) =>
       marginBottom: 24,
       gap: 16,
     },
+    titleRow: {
+      flexDirection: "row",
+      alignItems: "flex-start",
+      gap: 16,
+    },
+    favoriteButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: colors.dangerSoft,
+      alignItems: "center",
+      justifyContent: "center",
+    },
     title: {
+      flex: 1,
       fontSize: 28,
       fontWeight: "800",
       color: colors.textPrimary,
@@ -217,6 +529,40 @@ const createStyles = (colors: ThemeColors) =>
       color: colors.textSecondary,
       lineHeight: 24,
     },
+    actionsRow: {
+      flexDirection: "row",
+      gap: 12,
+    },
+    actionButton: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 8,
+      paddingVertical: 12,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    actionButtonText: {
+      color: colors.textPrimary,
+      fontSize: 15,
+      fontWeight: "600",
+    },
+    cookButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 8,
+      backgroundColor: colors.primary,
+      paddingVertical: 14,
+      borderRadius: 14,
+    },
+    cookButtonText: {
+      color: colors.primaryContrast,
+      fontSize: 16,
+      fontWeight: "700",
+    },
     section: {
       paddingHorizontal: 24,
       marginBottom: 24,
@@ -233,6 +579,42 @@ const createStyles = (colors: ThemeColors) =>
       padding: 20,
       gap: 12,
     },
+    ingredientEntry: {
+      gap: 8,
+    },
+    groupTitle: {
+      fontSize: 15,
+      fontWeight: "700",
+      color: colors.textPrimary,
+      marginTop: 4,
+    },
+    ingredientNote: {
+      fontSize: 13,
+      color: colors.textMuted,
+    },
+    stepContent: {
+      flex: 1,
+      gap: 6,
+    },
+    stepIngredients: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    timerBadge: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 6,
+      alignSelf: "flex-start",
+      backgroundColor: colors.surface,
+      paddingVertical: 4,
+      paddingHorizontal: 10,
+      borderRadius: 999,
+    },
+    timerText: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.textSecondary,
+    },
     ingredientRow: {
       flexDirection: "row",
       alignItems: "center",
@@ -255,6 +637,28 @@ const createStyles = (colors: ThemeColors) =>
       borderRadius: 3,
       backgroundColor: colors.primary,
     },
+    bulletMissing: {
+      backgroundColor: colors.warning,
+    },
+    missingText: {
+      fontSize: 13,
+      color: colors.warningText,
+    },
+    addMissingButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 8,
+      paddingVertical: 14,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    addMissingText: {
+      color: colors.primary,
+      fontSize: 16,
+      fontWeight: "700",
+    },
     stepsContainer: {
       gap: 20,
     },
@@ -0,0 +1,866 @@
+import { ProductNameInput } from '@/components/ProductNameInput';
+import { useExpiryRules } from '@/hooks/useExpiryRules';
+import { favoriteRecipesQueryKey } from '@/hooks/useFavoriteRecipes';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import { useTranslation } from '@/lib/i18n';
+import { groupLots } from '@/lib/lots';
+import { findIngredientProduct } from '@/lib/recipeMatching';
+import {
+  readRecipeContent,
+  validateRecipeContent,
+  type RecipeContent,
+  type RecipeProblem,
+} from '@/lib/recipeSchema';
+import { parseRecipeAmount } from '@/lib/recipeScaling';
+import {
+  createRecipe,
+  deleteRecipe,
+  getRecipeById,
+  updateRecipe,
+  uploadRecipePhoto,
+  type Recipe,
+} from '@/lib/supabase/recipesService';
+import { getStorageItems } from '@/lib/supabase/storageService';
+import type { RootStackParamList } from '@/navigation/types';
+import { useAuth } from '@/providers/AuthProvider';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { useNavigation, useRoute, type RouteProp } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as ImagePicker from 'expo-image-picker';
+import { ArrowDown, ArrowUp, Camera, Link, Minus, Plus, Trash2, X } from 'lucide-react-native';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+type Navigation = NativeStackNavigationProp<RootStackParamList>;
+type Route = RouteProp<RootStackParamList, 'AddRecipe' | 'EditRecipe'>;
+
+type IngredientRow = {
+  key: string;
+  name: string;
+  /** As typed: "200", "1 1/2", "2-3". */
+  amount: string;
+  unit: string;
+  note: string;
+  group: string;
+  /** Catalog key of the pantry product picked from the suggestions. */
+  product: string | null;
+};
+
+type StepRow = {
+  key: string;
+  text: string;
+  timer: string;
+  /** Keys of the ingredient rows the step uses, so reordering ingredients keeps them. */
+  ingredients: string[];
+};
+
+type PickedPhoto = {
+  uri: string;
+  mimeType: string;
+};
+
+const DEFAULT_SERVINGS = 2;
+
+let lastRowKey = 0;
+const nextRowKey = () => `row-${++lastRowKey}`;
+
+const emptyIngredient = (): IngredientRow => ({
+  key: nextRowKey(),
+  name: '',
+  amount: '',
+  unit: '',
+  note: '',
+  group: '',
+  product: null,
+});
+
+const emptyStep = (): StepRow => ({ key: nextRowKey(), text: '', timer: '', ingredients: [] });
+
+const formatNumber = (value: number | null) => (value === null ? '' : String(value));
+
+const toRows = (recipe: Recipe) => {
+  const content = readRecipeContent(recipe);
+  const ingredients = content.ingredients.map(
+    (ingredient): IngredientRow => ({
+      key: nextRowKey(),
+      name: ingredient.name,
+      amount:
+        ingredient.amount === null
+          ? ''
+          : ingredient.amountMax
+            ? `${ingredient.amount}-${ingredient.amountMax}`
+            : String(ingredient.amount),
+      unit: ingredient.unit ?? '',
+      note: ingredient.note ?? '',
+      group: ingredient.group ?? '',
+      product: ingredient.product ?? null,
+    }),
+  );
+  const steps = content.steps.map(
+    (step): StepRow => ({
+      key: nextRowKey(),
+      text: step.text,
+      timer: formatNumber(step.timer),
+      ingredients: (step.ingredients ?? []).map((index) => ingredients[index].key),
+    }),
+  );
+  return { ingredients, steps };
+};
+
+const parseMinutes = (value: string) => (value.trim() ? Number(value.trim()) : null);
+
+const moveRow = <T,>(rows: T[], index: number, offset: number) => {
+  const target = index + offset;
+  if (target < 0 || target >= rows.length) {
+    return rows;
+  }
+  const next = [...rows];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+/**
+ * Create a recipe or edit one of the user's own. Ingredients are linked to pantry products when
+ * picked from the suggestions, and everything is validated against the recipe schema on save.
+ */
+export const RecipeEditorScreen = () => {
+  const navigation = useNavigation<Navigation>();
+  const route = useRoute<Route>();
+  const editRecipeId = route.params && 'id' in route.params ? route.params.id : undefined;
+  const isEditing = Boolean(editRecipeId);
+  const { showToast } = useToast();
+  const { colors } = useThemeMode();
+  const { t } = useTranslation();
+  const { user, household } = useAuth();
+  const queryClient = useQueryClient();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const catalog = useProductCatalog();
+  const expiryRules = useExpiryRules();
+  const [form, setForm] = useState({ name: '', description: '', prepTime: '', cookTime: '' });
+  const [servings, setServings] = useState(DEFAULT_SERVINGS);
+  const [isPublic, setIsPublic] = useState(false);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [pickedPhoto, setPickedPhoto] = useState<PickedPhoto | null>(null);
+  const [ingredients, setIngredients] = useState<IngredientRow[]>(() => [emptyIngredient()]);
+  const [steps, setSteps] = useState<StepRow[]>(() => [emptyStep()]);
+  const [prefilledRecipeId, setPrefilledRecipeId] = useState<string | null>(null);
+
+  const { data: editingRecipe, isLoading: isLoadingRecipe } = useQuery({
+    queryKey: ['recipe', editRecipeId],
+    queryFn: () => getRecipeById(editRecipeId!),
+    enabled: isEditing,
+  });
+
+  const { data: storageItems = [] } = useQuery({
+    queryKey: ['storage-items', household?.id],
+    queryFn: () => getStorageItems(household!.id),
+    enabled: Boolean(household?.id),
+  });
+
+  const products = useMemo(() => groupLots(storageItems, expiryRules.timeZone), [expiryRules.timeZone, storageItems]);
+
+  useEffect(() => {
+    if (!editingRecipe || prefilledRecipeId === editingRecipe.id) {
+      return;
+    }
+    const rows = toRows(editingRecipe);
+    setForm({
+      name: editingRecipe.name,
+      description: editingRecipe.description ?? '',
+      prepTime: formatNumber(editingRecipe.prep_time),
+      cookTime: formatNumber(editingRecipe.cook_time),
+    });
+    setServings(editingRecipe.servings ?? DEFAULT_SERVINGS);
+    setIsPublic(editingRecipe.is_public);
+    setImageUrl(editingRecipe.image_url);
+    setIngredients(rows.ingredients.length ? rows.ingredients : [emptyIngredient()]);
+    setSteps(rows.steps.length ? rows.steps : [emptyStep()]);
+    setPrefilledRecipeId(editingRecipe.id);
+  }, [editingRecipe, prefilledRecipeId]);
+
+  const setField = (key: keyof typeof form, value: string) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateIngredient = (key: string, updates: Partial<IngredientRow>) => {
+    setIngredients((prev) => prev.map((row) => (row.key === key ? { ...row, ...updates } : row)));
+  };
+
+  const removeIngredient = (key: string) => {
+    setIngredients((prev) => prev.filter((row) => row.key !== key));
+    setSteps((prev) => prev.map((step) => ({ ...step, ingredients: step.ingredients.filter((ref) => ref !== key) })));
+  };
+
+  const updateStep = (key: string, updates: Partial<StepRow>) => {
+    setSteps((prev) => prev.map((row) => (row.key === key ? { ...row, ...updates } : row)));
+  };
+
+  const toggleStepIngredient = (step: StepRow, ingredientKey: string) => {
+    updateStep(step.key, {
+      ingredients: step.ingredients.includes(ingredientKey)
+        ? step.ingredients.filter((ref) => ref !== ingredientKey)
+        : [...step.ingredients, ingredientKey],
+    });
+  };
+
+  const formatProblem = (problem: RecipeProblem) => t(`recipeProblems.${problem.code}`, problem);
+
+  // Blank rows are left out, so an empty row at the end doesn't block saving.
+  const buildContent = () => {
+    const problems: string[] = [];
+    const filledIngredients = ingredients.filter((row) => row.name.trim() || row.amount.trim());
+    const filledSteps = steps.filter((row) => row.text.trim());
+    const indexes = new Map(filledIngredients.map((row, index) => [row.key, index]));
+
+    const content: RecipeContent = {
+      ingredients: filledIngredients.map((row, index) => {
+        const amount = parseRecipeAmount(row.amount);
+        if (row.amount.trim() && !amount) {
+          problems.push(t('recipeEditor.invalidAmount', { position: index + 1 }));
+        }
+        return {
+          name: row.name,
+          amount: amount?.min ?? null,
+          amountMax: amount && amount.max > amount.min ? amount.max : null,
+          // "200 g" typed into the amount field still gets its unit.
+          unit: row.unit.trim() || amount?.rest || null,
+          note: row.note.trim() || null,
+          group: row.group.trim() || null,
+          product: row.product,
+        };
+      }),
+      steps: filledSteps.map((row) => ({
+        text: row.text,
+        timer: parseMinutes(row.timer),
+        ingredients: row.ingredients.flatMap((key) => {
+          const index = indexes.get(key);
+          return index === undefined ? [] : [index];
+        }),
+      })),
+    };
+    return { content, problems: [...problems, ...validateRecipeContent(content).map(formatProblem)] };
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (content: RecipeContent) => {
+      const image_url = pickedPhoto
+        ? await uploadRecipePhoto(user!.id, pickedPhoto.uri, pickedPhoto.mimeType)
+        : imageUrl;
+      const fields = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        prep_time: parseMinutes(form.prepTime),
+        cook_time: parseMinutes(form.cookTime),
+        servings,
+        is_public: isPublic,
+        image_url,
+        content,
+      };
+      return editRecipeId ? updateRecipe(editRecipeId, fields) : createRecipe(fields, user!.id);
+    },
+    onSuccess: (recipe) => {
+      void queryClient.invalidateQueries({ queryKey: ['recipes', user?.id] });
+      void queryClient.invalidateQueries({ queryKey: ['recipe', recipe.id] });
+      showToast({
+        title: isEditing ? t('recipeEditor.updatedTitle') : t('recipeEditor.createdTitle'),
+        message: t('recipeEditor.savedMsg', { name: recipe.name }),
+      });
+      if (isEditing) {
+        navigation.goBack();
+      } else {
+        navigation.replace('RecipeDetail', { id: recipe.id });
+      }
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : t('recipeEditor.saveErrorMessage');
+      showToast({ title: t('recipeEditor.saveErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => deleteRecipe(id),
+    onSuccess: (_result, id) => {
+      queryClient.removeQueries({ queryKey: ['recipe', id] });
+      void queryClient.invalidateQueries({ queryKey: ['recipes', user?.id] });
+      void queryClient.invalidateQueries({ queryKey: favoriteRecipesQueryKey(user?.id) });
+      showToast({
+        title: t('recipeEditor.deletedTitle'),
+        message: t('recipeEditor.deletedMsg', { name: form.name }),
+      });
+      navigation.popToTop();
+    },
+    onError: (error: unknown) => {
+      const message = error instanceof Error ? error.message : t('recipeEditor.deleteErrorMessage');
+      showToast({ title: t('recipeEditor.deleteErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      showToast({ title: t('recipeEditor.name'), message: t('recipeEditor.nameMissingMsg'), type: 'error' });
+      return;
+    }
+    const { content, problems } = buildContent();
+    if (problems.length) {
+      showToast({ title: t('recipeEditor.invalidTitle'), message: problems.join('\n'), type: 'error' });
+      return;
+    }
+    saveMutation.mutate(content);
+  };
+
+  const handleDelete = () => {
+    if (!editRecipeId) {
+      return;
+    }
+    Alert.alert(t('recipeEditor.deleteTitle'), t('recipeEditor.deleteMessage', { name: form.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('common.delete'), style: 'destructive', onPress: () => deleteMutation.mutate(editRecipeId) },
+    ]);
+  };
+
+  const handlePickPhoto = async () => {
+    try {
+      const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        showToast({
+          title: t('addItem.permissionDeniedTitle'),
+          message: t('recipeEditor.photoPermissionMsg'),
+          type: 'error',
+        });
+        return;
+      }
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.8,
+        allowsEditing: true,
+        aspect: [4, 3],
+      });
+      const asset = result.canceled ? null : result.assets?.[0];
+      if (asset?.uri) {
+        setPickedPhoto({ uri: asset.uri, mimeType: asset.mimeType ?? 'image/jpeg' });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : t('recipeEditor.photoErrorMessage');
+      showToast({ title: t('recipeEditor.photoErrorTitle'), message, type: 'error' });
+    }
+  };
+
+  const removePhoto = () => {
+    setPickedPhoto(null);
+    setImageUrl(null);
+  };
+
+  const renderPantryLink = (row: IngredientRow) => {
+    if (!row.name.trim()) {
+      return null;
+    }
+    const product = findIngredientProduct(
+      { name: row.name, quantityText: null, quantity: null, productKey: row.product },
+      products,
+    );
+    return (
+      <View style={styles.pantryLink}>
+        {row.product ? <Link size={14} color={colors.primary} /> : null}
+        <Text style={[styles.helperText, product && { color: colors.textPrimary }]}>
+          {product ? t('recipeEditor.inPantry', { name: product.name }) : t('recipes.notInPantry')}
+        </Text>
+      </View>
+    );
+  };
+
+  if (isEditing && isLoadingRecipe) {
+    return (
+      <View style={[styles.loadingState, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={colors.primary} size="large" />
+      </View>
+    );
+  }
+
+  const photoUri = pickedPhoto?.uri ?? imageUrl;
+  const namedIngredients = ingredients.filter((row) => row.name.trim());
+  const isBusy = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <KeyboardAvoidingView
+      style={{ flex: 1, backgroundColor: colors.background }}
+      behavior={Platform.select({ ios: 'padding', android: undefined })}
+    >
+      <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          {photoUri ? (
+            <View>
+              <Image source={{ uri: photoUri }} style={styles.photo} />
+              <TouchableOpacity
+                style={styles.removePhotoButton}
+                onPress={removePhoto}
+                accessibilityLabel={t('recipeEditor.removePhoto')}
+              >
+                <X size={18} color={colors.textPrimary} />
+              </TouchableOpacity>
+            </View>
+          ) : null}
+          <TouchableOpacity style={styles.secondaryButton} onPress={handlePickPhoto}>
+            <Camera size={18} color={colors.textPrimary} />
+            <Text style={styles.secondaryButtonText}>
+              {photoUri ? t('recipeEditor.changePhoto') : t('recipeEditor.addPhoto')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('recipeEditor.name')}</Text>
+          <TextInput
+            style={styles.input}
+            value={form.name}
+            onChangeText={(value) => setField('name', value)}
+            placeholder={t('recipeEditor.namePlaceholder')}
+            placeholderTextColor={colors.inputPlaceholder}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('recipeEditor.description')}</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            value={form.description}
+            onChangeText={(value) => setField('description', value)}
+            placeholder={t('recipeEditor.descriptionPlaceholder')}
+            placeholderTextColor={colors.inputPlaceholder}
+            multiline
+          />
+        </View>
+
+        <View style={styles.row}>
+          <View style={[styles.section, { flex: 1 }]}>
+            <Text style={styles.label}>{t('recipeEditor.prepTime')}</Text>
+            <TextInput
+              style={styles.input}
+              value={form.prepTime}
+              onChangeText={(value) => setField('prepTime', value)}
+              placeholder={t('recipeEditor.minutesPlaceholder')}
+              placeholderTextColor={colors.inputPlaceholder}
+              keyboardType="number-pad"
+            />
+          </View>
+          <View style={[styles.section, { flex: 1 }]}>
+            <Text style={styles.label}>{t('recipeEditor.cookTime')}</Text>
+            <TextInput
+              style={styles.input}
+              value={form.cookTime}
+              onChangeText={(value) => setField('cookTime', value)}
+              placeholder={t('recipeEditor.minutesPlaceholder')}
+              placeholderTextColor={colors.inputPlaceholder}
+              keyboardType="number-pad"
+            />
+          </View>
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={styles.label}>{t('recipes.servings')}</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setServings((prev) => Math.max(1, prev - 1))}
+              disabled={servings <= 1}
+              accessibilityLabel={t('recipes.fewerServings')}
+            >
+              <Minus size={16} color={servings <= 1 ? colors.textMuted : colors.textPrimary} />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>{servings}</Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setServings((prev) => prev + 1)}
+              accessibilityLabel={t('recipes.moreServings')}
+            >
+              <Plus size={16} color={colors.textPrimary} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.settingRow}>
+          <View style={styles.settingCopy}>
+            <Text style={styles.label}>{t('recipeEditor.public')}</Text>
+            <Text style={styles.helperText}>{t('recipeEditor.publicDesc')}</Text>
+          </View>
+          <Switch
+            value={isPublic}
+            onValueChange={setIsPublic}
+            trackColor={{ false: colors.borderMuted, true: colors.primary }}
+            ios_backgroundColor={colors.borderMuted}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('recipes.ingredients')}</Text>
+          <Text style={styles.helperText}>{t('recipeEditor.ingredientsHelper')}</Text>
+          {ingredients.map((row, index) => (
+            <View key={row.key} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>{t('recipeEditor.ingredientNumber', { position: index + 1 })}</Text>
+                <View style={styles.cardActions}>
+                  <TouchableOpacity
+                    onPress={() => setIngredients((prev) => moveRow(prev, index, -1))}
+                    disabled={index === 0}
+                    accessibilityLabel={t('recipeEditor.moveUp')}
+                  >
+                    <ArrowUp size={18} color={index === 0 ? colors.textMuted : colors.textSecondary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setIngredients((prev) => moveRow(prev, index, 1))}
+                    disabled={index === ingredients.length - 1}
+                    accessibilityLabel={t('recipeEditor.moveDown')}
+                  >
+                    <ArrowDown
+                      size={18}
+                      color={index === ingredients.length - 1 ? colors.textMuted : colors.textSecondary}
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => removeIngredient(row.key)}
+                    accessibilityLabel={t('common.delete')}
+                  >
+                    <Trash2 size={18} color={colors.danger} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+              <ProductNameInput
+                style={styles.input}
+                value={row.name}
+                onChangeText={(value) => updateIngredient(row.key, { name: value, product: null })}
+                onSelectProduct={(product) =>
+                  updateIngredient(row.key, {
+                    product: product.product_key,
+                    unit: row.unit || product.default_unit || '',
+                  })
+                }
+                products={catalog}
+                placeholder={t('recipeEditor.ingredientPlaceholder')}
+              />
+              {renderPantryLink(row)}
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  value={row.amount}
+                  onChangeText={(value) => updateIngredient(row.key, { amount: value })}
+                  placeholder={t('recipeEditor.amountPlaceholder')}
+                  placeholderTextColor={colors.inputPlaceholder}
+                />
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  value={row.unit}
+                  onChangeText={(value) => updateIngredient(row.key, { unit: value })}
+                  placeholder={t('addItem.unitPlaceholder')}
+                  placeholderTextColor={colors.inputPlaceholder}
+                  autoCapitalize="none"
+                />
+              </View>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  value={row.note}
+                  onChangeText={(value) => updateIngredient(row.key, { note: value })}
+                  placeholder={t('recipeEditor.notePlaceholder')}
+                  placeholderTextColor={colors.inputPlaceholder}
+                />
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  value={row.group}
+                  onChangeText={(value) => updateIngredient(row.key, { group: value })}
+                  placeholder={t('recipeEditor.groupPlaceholder')}
+                  placeholderTextColor={colors.inputPlaceholder}
+                />
+              </View>
+            </View>
+          ))}
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={() => setIngredients((prev) => [...prev, emptyIngredient()])}
+          >
+            <Plus size={18} color={colors.textPrimary} />
+            <Text style={styles.secondaryButtonText}>{t('recipeEditor.addIngredient')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('recipes.steps')}</Text>
+          {steps.map((step, index) => (
+            <View key={step.key} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>{t('recipeEditor.stepNumber', { position: index + 1 })}</Text>
+                <View style={styles.cardActions}>
+                  <TouchableOpacity
+                    onPress={() => setSteps((prev) => moveRow(prev, index, -1))}
+                    disabled={index === 0}
+                    accessibilityLabel={t('recipeEditor.moveUp')}
+                  >
+                    <ArrowUp size={18} color={index === 0 ? colors.textMuted : colors.textSecondary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setSteps((prev) => moveRow(prev, index, 1))}
+                    disabled={index === steps.length - 1}
+                    accessibilityLabel={t('recipeEditor.moveDown')}
+                  >
+                    <ArrowDown
+                      size={18}
+                      color={index === steps.length - 1 ? colors.textMuted : colors.textSecondary}
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setSteps((prev) => prev.filter((row) => row.key !== step.key))}
+                    accessibilityLabel={t('common.delete')}
+                  >
+                    <Trash2 size={18} color={colors.danger} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+              <TextInput
+                style={[styles.input, styles.multilineInput]}
+                value={step.text}
+                onChangeText={(value) => updateStep(step.key, { text: value })}
+                placeholder={t('recipeEditor.stepPlaceholder')}
+                placeholderTextColor={colors.inputPlaceholder}
+                multiline
+              />
+              <TextInput
+                style={styles.input}
+                value={step.timer}
+                onChangeText={(value) => updateStep(step.key, { timer: value })}
+                placeholder={t('recipeEditor.timerPlaceholder')}
+                placeholderTextColor={colors.inputPlaceholder}
+                keyboardType="number-pad"
+              />
+              {namedIngredients.length > 0 && (
+                <View style={styles.chips}>
+                  {namedIngredients.map((ingredient) => {
+                    const selected = step.ingredients.includes(ingredient.key);
+                    return (
+                      <TouchableOpacity
+                        key={ingredient.key}
+                        style={[styles.chip, selected && styles.chipActive]}
+                        onPress={() => toggleStepIngredient(step, ingredient.key)}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextActive]}>{ingredient.name}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+            </View>
+          ))}
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setSteps((prev) => [...prev, emptyStep()])}>
+            <Plus size={18} color={colors.textPrimary} />
+            <Text style={styles.secondaryButtonText}>{t('recipeEditor.addStep')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity style={[styles.submit, isBusy && { opacity: 0.6 }]} onPress={handleSave} disabled={isBusy}>
+          {saveMutation.isPending ? (
+            <ActivityIndicator color={colors.primaryContrast} />
+          ) : (
+            <Text style={styles.submitText}>{t('common.save')}</Text>
+          )}
+        </TouchableOpacity>
+
+        {isEditing && (
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete} disabled={isBusy}>
+            <Trash2 size={18} color={colors.danger} />
+            <Text style={styles.deleteButtonText}>{t('recipeEditor.deleteRecipe')}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      padding: 24,
+      gap: 24,
+    },
+    loadingState: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    section: {
+      gap: 8,
+    },
+    row: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    label: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    helperText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    input: {
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      backgroundColor: colors.inputBackground,
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+      fontSize: 16,
+      color: colors.inputText,
+    },
+    multilineInput: {
+      minHeight: 88,
+      textAlignVertical: 'top',
+    },
+    photo: {
+      width: '100%',
+      height: 200,
+      borderRadius: 16,
+      resizeMode: 'cover',
+    },
+    removePhotoButton: {
+      position: 'absolute',
+      top: 12,
+      right: 12,
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.surface,
+    },
+    settingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 16,
+    },
+    settingCopy: {
+      flex: 1,
+      gap: 4,
+    },
+    stepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    stepperButton: {
+      padding: 6,
+      borderRadius: 8,
+      backgroundColor: colors.surfaceMuted,
+    },
+    stepperValue: {
+      minWidth: 32,
+      textAlign: 'center',
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    card: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 18,
+      padding: 16,
+      backgroundColor: colors.surfaceMuted,
+      gap: 8,
+    },
+    cardHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    cardTitle: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.textSecondary,
+    },
+    cardActions: {
+      flexDirection: 'row',
+      gap: 16,
+    },
+    pantryLink: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    chipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    chipTextActive: {
+      color: colors.primaryContrast,
+    },
+    secondaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 14,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    secondaryButtonText: {
+      color: colors.textPrimary,
+      fontWeight: '600',
+    },
+    submit: {
+      backgroundColor: colors.primary,
+      borderRadius: 14,
+      paddingVertical: 16,
+      alignItems: 'center',
+    },
+    submitText: {
+      color: colors.primaryContrast,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    deleteButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 14,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.danger,
+    },
+    deleteButtonText: {
+      color: colors.danger,
+      fontWeight: '600',
+    },
+  });
@@ -1,5 +1,9 @@
+import { useExpiryRules } from '@/hooks/useExpiryRules';
+import { useFavoriteRecipes } from '@/hooks/useFavoriteRecipes';
 import { useTranslation } from '@/lib/i18n';
-import { getUserRecipes } from '@/lib/supabase/recipesService';
+import { groupLots } from '@/lib/lots';
+import { matchRecipe, RECIPE_SORTS, sortRecipes, type RecipeSort } from '@/lib/recipeMatching';
+import { getRecipeIngredients, getRecipeMinutes, getUserRecipes } from '@/lib/supabase/recipesService';
 import { getStorageItems } from '@/lib/supabase/storageService';
 import type { RootStackParamList } from '@/navigation/types';
 import { useAuth } from '@/providers/AuthProvider';
@@ -8,7 +12,8 @@ import { useThemeMode } from '@/providers/ThemeProvider';
 import { generateSmartRecipes } from '@/services/n8n';
 import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { Clock, Search, Sparkles, Users } from 'lucide-react-native';
+import { useQuery } from '@tanstack/react-query';
+import { Clock, Heart, Hourglass, Plus, Search, Sparkles, Users } from 'lucide-react-native';
 import { useCallback, useMemo, useState } from 'react';
 import { FlatList, Image, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -24,51 +29,71 @@ export const RecipesScreen = () => {
   const { colors } = useThemeMode();
   const { t, locale } = useTranslation();
   const styles = useMemo(() => createStyles(colors), [colors]);
-  const { user } = useAuth();
-  const [recipes, setRecipes] = useState<SmartRecipe[]>([]);
+  const { user, household } = useAuth();
+  const [generatedRecipes, setGeneratedRecipes] = useState<SmartRecipe[]>([]);
+  const { isFavorite, toggleFavorite } = useFavoriteRecipes();
+  const expiryRules = useExpiryRules();
+  const [sort, setSort] = useState<RecipeSort>('match');
 
-  const fetchRecipes = useCallback(async () => {
-    if (!user?.id) return;
-    try {
-      const userRecipes = await getUserRecipes(user.id);
-      const mappedRecipes: SmartRecipe[] = userRecipes.map((r) => ({
-        id: r.id,
-        name: r.name,
-        matchScore: 100,
-        time: r.cook_time ? `${r.cook_time}` : '30',
-        servings: r.servings || 2,
-        missing: 0,
-        image_url: r.image_url || undefined,
-      }));
-      setRecipes(mappedRecipes);
-    } catch (error) {
-      console.error('Failed to fetch recipes:', error);
-    }
-  }, [user?.id]);
+  const { data: userRecipes = [], refetch } = useQuery({
+    queryKey: ['recipes', user?.id],
+    queryFn: () => getUserRecipes(user!.id),
+    enabled: Boolean(user?.id),
+  });
+
+  const { data: storageItems = [] } = useQuery({
+    queryKey: ['storage-items', household?.id],
+    queryFn: () => getStorageItems(household!.id),
+    enabled: Boolean(household?.id),
+  });
+
+  const products = useMemo(() => groupLots(storageItems, expiryRules.timeZone), [expiryRules.timeZone, storageItems]);
 
   useFocusEffect(
     useCallback(() => {
-      fetchRecipes();
-    }, [fetchRecipes])
+      if (user?.id) {
+        void refetch();
+      }
+    }, [refetch, user?.id])
   );
 
+  const recipes = useMemo(() => {
+    const mappedRecipes: SmartRecipe[] = userRecipes.map((r) => {
+      const match = matchRecipe(getRecipeIngredients(r), products, expiryRules);
+      const minutes = getRecipeMinutes(r);
+      return {
+        id: r.id,
+        name: r.name,
+        matchScore: match.score,
+        time: minutes !== null ? t('recipes.minutes', { count: minutes }) : null,
+        servings: r.servings || 2,
+        missing: match.missing.length,
+        missingIngredients: match.missing.map(({ ingredient }) => ingredient.name),
+        expiringUsed: match.expiringUsed,
+        image_url: r.image_url || undefined,
+      };
+    });
+    const savedIds = new Set(mappedRecipes.map((recipe) => recipe.id));
+    return sortRecipes([...generatedRecipes.filter((recipe) => !savedIds.has(recipe.id)), ...mappedRecipes], sort);
+  }, [expiryRules, generatedRecipes, products, sort, t, userRecipes]);
+
   const filtered = useMemo(
     () => recipes.filter((recipe) => recipe.name.toLowerCase().includes(query.toLowerCase())),
     [query, recipes],
   );
 
   const handleGenerate = async () => {
-    if (!user?.id) return;
+    if (!user?.id || !household) return;
     
     setGenerating(true);
     try {
-      const storageItems = await getStorageItems(user.id);
+      const storageItems = await getStorageItems(household.id);
       const ingredients = storageItems.map(item => item.name);
       
       const newRecipes = await generateSmartRecipes(ingredients, user.id, locale);
       
       if (newRecipes.length > 0) {
-        setRecipes(prev => [...newRecipes, ...prev]);
+        setGeneratedRecipes(prev => [...newRecipes, ...prev]);
       }
     } catch (error) {
       console.error('Failed to generate recipes:', error);
@@ -106,6 +131,10 @@ export const RecipesScreen = () => {
                   {generating ? t('recipes.generating') : t('recipes.generateSmart')}
                 </Text>
               </TouchableOpacity>
+              <TouchableOpacity style={styles.newRecipeButton} onPress={() => navigation.navigate('AddRecipe')}>
+                <Plus size={18} color={colors.highlightText} />
+                <Text style={styles.newRecipeLabel}>{t('recipeEditor.newTitle')}</Text>
+              </TouchableOpacity>
             </View>
 
             <View style={styles.resultsHeader}>
@@ -116,65 +145,110 @@ export const RecipesScreen = () => {
                 </Text>
               </View>
             </View>
+
+            <View style={styles.sortRow}>
+              {RECIPE_SORTS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.sortChip, sort === option && styles.sortChipActive]}
+                  onPress={() => setSort(option)}
+                >
+                  <Text style={[styles.sortChipText, sort === option && styles.sortChipTextActive]}>
+                    {t(`recipes.sort.${option}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
           </>
         }
         ListHeaderComponentStyle={styles.listHeader}
         ItemSeparatorComponent={() => <View style={styles.spacer} />}
         contentContainerStyle={{ paddingBottom: 32 }}
-        renderItem={({ item }) => (
-          <TouchableOpacity
-            style={styles.card}
-            onPress={() => navigation.navigate('RecipeDetail', { id: item.id })}
-          >
-            {item.image_url ? (
-              <Image source={{ uri: item.image_url }} style={styles.cardImage} />
-            ) : (
-              <View style={[styles.cardImage, styles.cardImagePlaceholder]}>
-                <Sparkles size={32} color={colors.textMuted} />
-              </View>
-            )}
-            <View style={styles.cardContent}>
-              <View style={styles.cardHeader}>
-                <Text style={styles.cardTitle} numberOfLines={2}>{item.name}</Text>
-                <View style={styles.match}>
-                  <Text style={styles.matchValue}>{item.matchScore}%</Text>
-                  <Text style={styles.matchLabel}>{t('recipes.match')}</Text>
+        renderItem={({ item }) => {
+          // Generated fallbacks never reached the recipes table, so they cannot be favorited.
+          const canFavorite = !item.id.startsWith('generated-');
+          const favorite = isFavorite(item.id);
+
+          return (
+            <TouchableOpacity
+              style={styles.card}
+              onPress={() => navigation.navigate('RecipeDetail', { id: item.id })}
+            >
+              {item.image_url ? (
+                <Image source={{ uri: item.image_url }} style={styles.cardImage} />
+              ) : (
+                <View style={[styles.cardImage, styles.cardImagePlaceholder]}>
+                  <Sparkles size={32} color={colors.textMuted} />
                 </View>
-              </View>
-              <View style={styles.metaRow}>
-                <View style={styles.metaItem}>
-                  <Clock size={16} color={colors.textMuted} />
-                  <Text style={styles.metaLabel}>{item.time}</Text>
+              )}
+              <View style={styles.cardContent}>
+                <View style={styles.cardHeader}>
+                  <Text style={styles.cardTitle} numberOfLines={2}>{item.name}</Text>
+                  <View style={styles.match}>
+                    <Text style={styles.matchValue}>{item.matchScore}%</Text>
+                    <Text style={styles.matchLabel}>{t('recipes.match')}</Text>
+                  </View>
+                  {canFavorite && (
+                    <TouchableOpacity
+                      style={styles.favoriteButton}
+                      onPress={() => toggleFavorite(item.id)}
+                      hitSlop={8}
+                      accessibilityLabel={favorite ? t('favorites.removeFavorite') : t('favorites.addFavorite')}
+                    >
+                      <Heart size={20} color={colors.danger} fill={favorite ? colors.danger : 'transparent'} />
+                    </TouchableOpacity>
+                  )}
                 </View>
-                <View style={styles.metaItem}>
-                  <Users size={16} color={colors.textMuted} />
-                  <Text style={styles.metaLabel}>
-                    {item.servings} {t('recipes.servings')}
-                  </Text>
+                <View style={styles.metaRow}>
+                  {item.time && (
+                    <View style={styles.metaItem}>
+                      <Clock size={16} color={colors.textMuted} />
+                      <Text style={styles.metaLabel}>{item.time}</Text>
+                    </View>
+                  )}
+                  <View style={styles.metaItem}>
+                    <Users size={16} color={colors.textMuted} />
+                    <Text style={styles.metaLabel}>
+                      {item.servings} {t('recipes.servings')}
+                    </Text>
+                  </View>
                 </View>
-              </View>
-              <View
-                style={[
-                  styles.missingBadge,
-                  item.missing === 0
-                    ? { backgroundColor: colors.successSoft, borderColor: colors.success }
-                    : { backgroundColor: colors.warningSoft, borderColor: colors.warning },
-                ]}
-              >
-                <Text
+                <View
                   style={[
-                    styles.missingLabel,
-                    item.missing === 0 ? { color: colors.success } : { color: colors.warning },
+                    styles.missingBadge,
+                    item.missing === 0
+                      ? { backgroundColor: colors.successSoft, borderColor: colors.success }
+                      : { backgroundColor: colors.warningSoft, borderColor: colors.warning },
                   ]}
                 >
-                  {item.missing === 0
-                    ? t('recipes.allIngredientsAvailable')
-                    : `${item.missing} ${t('recipes.ingredientsNeeded')}`}
-                </Text>
+                  <Text
+                    style={[
+                      styles.missingLabel,
+                      item.missing === 0 ? { color: colors.success } : { color: colors.warning },
+                    ]}
+                  >
+                    {item.missing === 0
+                      ? t('recipes.allIngredientsAvailable')
+                      : `${item.missing} ${t('recipes.ingredientsNeeded')}`}
+                  </Text>
+                  {item.missingIngredients?.length ? (
+                    <Text style={styles.missingNames} numberOfLines={2}>
+                      {item.missingIngredients.join(', ')}
+                    </Text>
+                  ) : null}
+                </View>
+                {item.expiringUsed ? (
+                  <View style={styles.expiringRow}>
+                    <Hourglass size={14} color={colors.warningText} />
+                    <Text style={styles.expiringLabel}>
+                      {t('recipes.expiringUsed', { count: item.expiringUsed })}
+                    </Text>
+                  </View>
+                ) : null}
               </View>
-            </View>
-          </TouchableOpacity>
-        )}
+            </TouchableOpacity>
+          );
+        }}
       />
     </SafeAreaView>
   );
@@ -226,6 +300,21 @@ const createStyles = (colors: ThemeColors) =>
       fontWeight: '700',
       color: colors.highlightButtonText,
     },
+    newRecipeButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 10,
+      borderWidth: 1,
+      borderColor: colors.highlightMuted,
+      borderRadius: 14,
+      paddingVertical: 14,
+    },
+    newRecipeLabel: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.highlightText,
+    },
     resultsHeader: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -289,6 +378,10 @@ const createStyles = (colors: ThemeColors) =>
     match: {
       alignItems: 'flex-end',
     },
+    favoriteButton: {
+      marginLeft: 12,
+      paddingTop: 4,
+    },
     matchValue: {
       fontSize: 24,
       fontWeight: '700',
@@ -320,5 +413,43 @@ const createStyles = (colors: ThemeColors) =>
     missingLabel: {
       fontWeight: '600',
     },
+    missingNames: {
+      marginTop: 4,
+      color: colors.textSecondary,
+    },
+    expiringRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    expiringLabel: {
+      color: colors.warningText,
+      fontWeight: '600',
+    },
+    sortRow: {
+      flexDirection: 'row',
+      gap: 8,
+      paddingHorizontal: 24,
+      paddingTop: 16,
+    },
+    sortChip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    sortChipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    sortChipText: {
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    sortChipTextActive: {
+      color: colors.primaryContrast,
+    },
     spacer: { height: 16 },
   });
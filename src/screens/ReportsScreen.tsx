@@ -0,0 +1,273 @@
+import { useTranslation } from '@/lib/i18n';
+import { formatAmount } from '@/lib/quantity';
+import { hasDefaultName } from '@/lib/storageLocations';
+import { getWasteLog } from '@/lib/supabase/wasteService';
+import { buildWasteReport, type WasteBreakdownRow, type WastePeriod } from '@/lib/waste';
+import { useAuth } from '@/providers/AuthProvider';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { useQuery } from '@tanstack/react-query';
+import { useMemo, useState } from 'react';
+import { ActivityIndicator, RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+const PERIODS: WastePeriod[] = ['week', 'month'];
+
+const formatMoney = (value: number) => value.toFixed(2);
+
+export const ReportsScreen = () => {
+  const { colors } = useThemeMode();
+  const { household } = useAuth();
+  const { t, locale } = useTranslation();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [period, setPeriod] = useState<WastePeriod>('week');
+
+  const {
+    data: wasteLog = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useQuery({
+    queryKey: ['waste-log', household?.id],
+    queryFn: () => getWasteLog(household!.id),
+    enabled: Boolean(household?.id),
+  });
+
+  const report = useMemo(() => buildWasteReport(wasteLog, period), [wasteLog, period]);
+  const maxTrendValue = Math.max(...report.trend.map((point) => point.count), 1);
+
+  const trendLabelFormat = useMemo(
+    () =>
+      new Intl.DateTimeFormat(locale, period === 'week' ? { day: 'numeric', month: 'short' } : { month: 'short' }),
+    [locale, period],
+  );
+
+  const getRowLabel = (row: WasteBreakdownRow, fallbackLabel: string) => {
+    // Seeded and unnamed locations are labelled by their type, in the app language.
+    if (row.type && (!row.label || hasDefaultName({ name: row.label, type: row.type }))) {
+      return t(`home.${row.type}`);
+    }
+    return row.label || fallbackLabel;
+  };
+
+  const renderBreakdown = (title: string, rows: WasteBreakdownRow[], fallbackLabel: string) => {
+    const maxCount = Math.max(...rows.map((row) => row.count), 1);
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{title}</Text>
+        {rows.length === 0 ? (
+          <Text style={styles.emptyText}>{t('reports.noWaste')}</Text>
+        ) : (
+          rows.map((row) => (
+            <View key={row.key} style={styles.breakdownRow}>
+              <View style={styles.breakdownHeader}>
+                <Text style={styles.breakdownLabel}>{getRowLabel(row, fallbackLabel)}</Text>
+                <Text style={styles.breakdownValue}>
+                  {t('reports.itemCount', { count: row.count })} · {formatMoney(row.value)}
+                </Text>
+              </View>
+              <View style={styles.barTrack}>
+                <View style={[styles.barFill, { width: `${(row.count / maxCount) * 100}%` }]} />
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={[styles.loadingState, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: colors.background }}
+      contentContainerStyle={styles.container}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefetching}
+          onRefresh={() => {
+            void refetch();
+          }}
+          tintColor={colors.primary}
+        />
+      }
+    >
+      <View style={styles.periodToggle}>
+        {PERIODS.map((candidate) => (
+          <TouchableOpacity
+            key={candidate}
+            style={[styles.periodButton, period === candidate && styles.periodButtonActive]}
+            onPress={() => setPeriod(candidate)}
+          >
+            <Text style={[styles.periodButtonText, period === candidate && styles.periodButtonTextActive]}>
+              {t(`reports.${candidate}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.statsRow}>
+        <View style={[styles.statCard, { backgroundColor: colors.danger }]}>
+          <Text style={styles.statValue}>{report.count}</Text>
+          <Text style={styles.statLabel}>{t('reports.itemsWasted')}</Text>
+        </View>
+        <View style={[styles.statCard, { backgroundColor: colors.warning }]}>
+          <Text style={styles.statValue}>{formatMoney(report.value)}</Text>
+          <Text style={styles.statLabel}>{t('reports.estimatedValue')}</Text>
+        </View>
+        <View style={[styles.statCard, { backgroundColor: colors.secondary }]}>
+          <Text style={styles.statValue}>{formatAmount(report.massKg)}</Text>
+          <Text style={styles.statLabel}>{t('reports.weightKg')}</Text>
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('reports.trend')}</Text>
+        <View style={styles.trendChart}>
+          {report.trend.map((point) => (
+            <View key={point.start.toISOString()} style={styles.trendColumn}>
+              <Text style={styles.trendCount}>{point.count}</Text>
+              <View style={styles.trendBarTrack}>
+                <View style={[styles.trendBar, { height: `${(point.count / maxTrendValue) * 100}%` }]} />
+              </View>
+              <Text style={styles.trendLabel}>{trendLabelFormat.format(point.start)}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      {renderBreakdown(t('reports.byLocation'), report.byLocation, t('reports.unknownLocation'))}
+      {renderBreakdown(t('reports.byCategory'), report.byCategory, t('reports.uncategorized'))}
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      padding: 24,
+      gap: 20,
+    },
+    loadingState: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    periodToggle: {
+      flexDirection: 'row',
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 14,
+      padding: 4,
+    },
+    periodButton: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 10,
+      alignItems: 'center',
+    },
+    periodButtonActive: {
+      backgroundColor: colors.primary,
+    },
+    periodButtonText: {
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    periodButtonTextActive: {
+      color: colors.primaryContrast,
+    },
+    statsRow: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    statCard: {
+      flex: 1,
+      borderRadius: 18,
+      padding: 16,
+    },
+    statValue: {
+      color: colors.textInverse,
+      fontSize: 22,
+      fontWeight: '700',
+      marginBottom: 6,
+    },
+    statLabel: {
+      color: colors.textInverse,
+      fontSize: 12,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 18,
+      padding: 20,
+      borderWidth: 1,
+      borderColor: colors.border,
+      gap: 14,
+    },
+    cardTitle: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.textPrimary,
+    },
+    emptyText: {
+      color: colors.textSecondary,
+    },
+    breakdownRow: {
+      gap: 6,
+    },
+    breakdownHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      gap: 12,
+    },
+    breakdownLabel: {
+      flex: 1,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    breakdownValue: {
+      color: colors.textSecondary,
+    },
+    barTrack: {
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: colors.surfaceMuted,
+      overflow: 'hidden',
+    },
+    barFill: {
+      height: '100%',
+      borderRadius: 4,
+      backgroundColor: colors.danger,
+    },
+    trendChart: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      gap: 8,
+    },
+    trendColumn: {
+      flex: 1,
+      alignItems: 'center',
+      gap: 6,
+    },
+    trendCount: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    trendBarTrack: {
+      height: 100,
+      width: '100%',
+      justifyContent: 'flex-end',
+    },
+    trendBar: {
+      width: '100%',
+      borderRadius: 6,
+      backgroundColor: colors.danger,
+    },
+    trendLabel: {
+      fontSize: 11,
+      color: colors.textMuted,
+    },
+  });
@@ -0,0 +1,560 @@
+import { ProductNameInput } from '@/components/ProductNameInput';
+import { productCatalogQueryKey, useProductCatalog } from '@/hooks/useProductCatalog';
+import { shoppingListQueryKey, useShoppingList } from '@/hooks/useShoppingList';
+import { useStorageLocations, type DisplayStorageLocation } from '@/hooks/useStorageLocations';
+import { canEditPantry } from '@/lib/households';
+import { useTranslation } from '@/lib/i18n';
+import type { CatalogProduct } from '@/lib/productCatalog';
+import { parseQuantityText, toQuantityFields } from '@/lib/quantity';
+import {
+  findOpenItem,
+  getNextPosition,
+  groupByAisle,
+  moveWithinAisle,
+  SHOPPING_AISLES,
+  type ShoppingAisle,
+  type ShoppingListItem,
+} from '@/lib/shoppingList';
+import { getShelfLifeOverrides } from '@/lib/supabase/shelfLifeService';
+import {
+  addShoppingListItem,
+  deleteShoppingListItems,
+  moveShoppingItemsToPantry,
+  reorderShoppingListItems,
+  setShoppingListItemChecked,
+} from '@/lib/supabase/shoppingListService';
+import { useAuth } from '@/providers/AuthProvider';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, CheckSquare, PackagePlus, Plus, ShoppingCart, Square, Trash2 } from 'lucide-react-native';
+import { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const describeQuantity = (item: Pick<ShoppingListItem, 'quantity' | 'unit'>) =>
+  [item.quantity, item.unit].filter(Boolean).join(' ');
+
+export const ShoppingListScreen = () => {
+  const { user, household, householdRole } = useAuth();
+  const canEdit = canEditPantry(householdRole);
+  const { colors } = useThemeMode();
+  const { t } = useTranslation();
+  const { showToast } = useToast();
+  const queryClient = useQueryClient();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { items, isLoading, isRefetching, refetch } = useShoppingList();
+  const { locations } = useStorageLocations();
+  const products = useProductCatalog();
+  const [name, setName] = useState('');
+  const [quantity, setQuantity] = useState('');
+  // `null` lets the aisle be guessed from the product name.
+  const [aisle, setAisle] = useState<ShoppingAisle | null>(null);
+  const listKey = shoppingListQueryKey(household?.id);
+
+  const { data: shelfLifeOverrides = [] } = useQuery({
+    queryKey: ['shelf-life-overrides', user?.id],
+    queryFn: () => getShelfLifeOverrides(user!.id),
+    enabled: Boolean(user?.id),
+  });
+
+  const { sections, checked } = useMemo(() => groupByAisle(items), [items]);
+
+  // Write the rows the server returned straight into the list instead of refetching it.
+  const storeRows = (rows: ShoppingListItem[]) => {
+    queryClient.setQueryData<ShoppingListItem[]>(listKey, (current) => {
+      if (!current) {
+        return current;
+      }
+      const updated = new Map(rows.map((row) => [row.id, row]));
+      const kept = current.map((item) => updated.get(item.id) ?? item);
+      const added = rows.filter((row) => !current.some((item) => item.id === row.id));
+      return [...kept, ...added];
+    });
+  };
+
+  const removeRows = (ids: string[]) => {
+    queryClient.setQueryData<ShoppingListItem[]>(listKey, (current) =>
+      current?.filter((item) => !ids.includes(item.id)),
+    );
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const parsed = parseQuantityText(quantity);
+      return addShoppingListItem(
+        {
+          household_id: household!.id,
+          name,
+          ...(parsed ? toQuantityFields(parsed) : { quantity: quantity.trim() || null, unit: null }),
+          aisle,
+          position: getNextPosition(items),
+        },
+        user!.id,
+      );
+    },
+    onSuccess: (item) => {
+      storeRows([item]);
+      setName('');
+      setQuantity('');
+      setAisle(null);
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : t('shopping.addErrorMessage');
+      showToast({ title: t('shopping.addErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (item: ShoppingListItem) => setShoppingListItemChecked(item.id, !item.checked_at, user!.id),
+    onSuccess: (item) => storeRows([item]),
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : t('shopping.updateErrorMessage');
+      showToast({ title: t('shopping.updateErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (updates: { id: string; position: number }[]) => reorderShoppingListItems(updates),
+    onMutate: (updates) => {
+      const positions = new Map(updates.map((update) => [update.id, update.position]));
+      queryClient.setQueryData<ShoppingListItem[]>(listKey, (current) =>
+        current?.map((item) => (positions.has(item.id) ? { ...item, position: positions.get(item.id)! } : item)),
+      );
+    },
+    onError: (error) => {
+      void queryClient.invalidateQueries({ queryKey: listKey });
+      const message = error instanceof Error ? error.message : t('shopping.updateErrorMessage');
+      showToast({ title: t('shopping.updateErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (ids: string[]) => deleteShoppingListItems(ids),
+    onSuccess: (_result, ids) => removeRows(ids),
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : t('shopping.updateErrorMessage');
+      showToast({ title: t('shopping.updateErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const moveToPantryMutation = useMutation({
+    mutationFn: async ({ location }: { location: DisplayStorageLocation }) =>
+      moveShoppingItemsToPantry(checked, location, user!.id, shelfLifeOverrides),
+    onSuccess: (created, { location }) => {
+      void queryClient.invalidateQueries({ queryKey: listKey });
+      void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      void queryClient.invalidateQueries({ queryKey: ['storage-statistics'] });
+      void queryClient.invalidateQueries({ queryKey: productCatalogQueryKey(user?.id) });
+      showToast({
+        title: t('shopping.storedTitle'),
+        message: t('shopping.storedMessage', { count: created.length, location: location.displayName }),
+      });
+    },
+    onError: (error) => {
+      // Items stored before the failure have already left the list.
+      void queryClient.invalidateQueries({ queryKey: listKey });
+      void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      const message = error instanceof Error ? error.message : t('shopping.storeErrorMessage');
+      showToast({ title: t('shopping.storeErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const handleAdd = () => {
+    if (!name.trim()) {
+      return;
+    }
+    const existing = findOpenItem(items, name);
+    if (existing) {
+      showToast({
+        title: t('shopping.alreadyListedTitle'),
+        message: t('shopping.alreadyListedMessage', { name: existing.name }),
+      });
+      return;
+    }
+    addMutation.mutate();
+  };
+
+  const handleSelectProduct = (product: CatalogProduct) => {
+    if (product.default_unit && !quantity.trim()) {
+      setQuantity(`1 ${product.default_unit}`);
+    }
+  };
+
+  const handleMoveToPantry = () => {
+    Alert.alert(t('shopping.storeTitle'), t('shopping.storePrompt', { count: checked.length }), [
+      ...locations.map((location) => ({
+        text: location.displayName,
+        onPress: () => moveToPantryMutation.mutate({ location }),
+      })),
+      { text: t('common.cancel'), style: 'cancel' as const },
+    ]);
+  };
+
+  const handleClearChecked = () => {
+    Alert.alert(t('shopping.clearTitle'), t('shopping.clearMessage', { count: checked.length }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('shopping.clearAction'),
+        style: 'destructive',
+        onPress: () => deleteMutation.mutate(checked.map((item) => item.id)),
+      },
+    ]);
+  };
+
+  const renderItem = (item: ShoppingListItem, index: number, sectionLength: number) => {
+    const isChecked = Boolean(item.checked_at);
+    const quantityText = describeQuantity(item);
+    const CheckIcon = isChecked ? CheckSquare : Square;
+
+    return (
+      <View key={item.id} style={styles.row}>
+        <TouchableOpacity
+          style={styles.rowMain}
+          onPress={() => toggleMutation.mutate(item)}
+          disabled={!canEdit}
+          accessibilityRole="checkbox"
+          accessibilityState={{ checked: isChecked }}
+        >
+          <CheckIcon size={22} color={isChecked ? colors.success : colors.textSecondary} />
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.itemName, isChecked && styles.itemNameChecked]}>{item.name}</Text>
+            {quantityText ? <Text style={styles.itemQuantity}>{quantityText}</Text> : null}
+          </View>
+        </TouchableOpacity>
+        {canEdit && !isChecked ? (
+          <>
+            <TouchableOpacity
+              onPress={() => reorderMutation.mutate(moveWithinAisle(items, item.id, -1))}
+              disabled={index === 0}
+              hitSlop={8}
+              accessibilityLabel={t('shopping.moveUp')}
+            >
+              <ArrowUp size={18} color={index === 0 ? colors.border : colors.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => reorderMutation.mutate(moveWithinAisle(items, item.id, 1))}
+              disabled={index === sectionLength - 1}
+              hitSlop={8}
+              accessibilityLabel={t('shopping.moveDown')}
+            >
+              <ArrowDown size={18} color={index === sectionLength - 1 ? colors.border : colors.textSecondary} />
+            </TouchableOpacity>
+          </>
+        ) : null}
+        {canEdit ? (
+          <TouchableOpacity
+            onPress={() => deleteMutation.mutate([item.id])}
+            hitSlop={8}
+            accessibilityLabel={t('common.delete')}
+          >
+            <Trash2 size={18} color={colors.danger} />
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
+      <ScrollView
+        contentContainerStyle={styles.container}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={isRefetching} onRefresh={() => void refetch()} tintColor={colors.primary} />
+        }
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('shopping.title')}</Text>
+          <Text style={styles.subtitle}>{t('shopping.subtitle', { count: items.length - checked.length })}</Text>
+        </View>
+
+        {canEdit ? (
+          <View style={styles.form}>
+            <ProductNameInput
+              style={styles.input}
+              placeholder={t('shopping.namePlaceholder')}
+              value={name}
+              onChangeText={setName}
+              onSelectProduct={handleSelectProduct}
+              products={products}
+            />
+            <View style={styles.formRow}>
+              <TextInput
+                style={[styles.input, { flex: 1 }]}
+                placeholder={t('shopping.quantityPlaceholder')}
+                placeholderTextColor={colors.inputPlaceholder}
+                value={quantity}
+                onChangeText={setQuantity}
+              />
+              <TouchableOpacity
+                style={[styles.addButton, (!name.trim() || addMutation.isPending) && { opacity: 0.6 }]}
+                onPress={handleAdd}
+                disabled={!name.trim() || addMutation.isPending}
+                accessibilityLabel={t('shopping.add')}
+              >
+                {addMutation.isPending ? (
+                  <ActivityIndicator color={colors.primaryContrast} />
+                ) : (
+                  <Plus size={20} color={colors.primaryContrast} />
+                )}
+              </TouchableOpacity>
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+              <TouchableOpacity style={[styles.chip, aisle === null && styles.chipActive]} onPress={() => setAisle(null)}>
+                <Text style={[styles.chipText, aisle === null && styles.chipTextActive]}>{t('shopping.autoAisle')}</Text>
+              </TouchableOpacity>
+              {SHOPPING_AISLES.map((candidate) => (
+                <TouchableOpacity
+                  key={candidate}
+                  style={[styles.chip, aisle === candidate && styles.chipActive]}
+                  onPress={() => setAisle(candidate)}
+                >
+                  <Text style={[styles.chipText, aisle === candidate && styles.chipTextActive]}>
+                    {t(`shopping.aisles.${candidate}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        ) : null}
+
+        {isLoading && !items.length ? <ActivityIndicator color={colors.primary} /> : null}
+
+        {!isLoading && items.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ShoppingCart size={48} color={colors.textMuted} />
+            <Text style={styles.emptyTitle}>{t('shopping.emptyTitle')}</Text>
+            <Text style={styles.emptySubtitle}>{t('shopping.emptySubtitle')}</Text>
+          </View>
+        ) : null}
+
+        {sections.map((section) => (
+          <View key={section.aisle} style={styles.section}>
+            <Text style={styles.sectionTitle}>{t(`shopping.aisles.${section.aisle}`)}</Text>
+            {section.items.map((item, index) => renderItem(item, index, section.items.length))}
+          </View>
+        ))}
+
+        {checked.length > 0 ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('shopping.checkedTitle', { count: checked.length })}</Text>
+            {checked.map((item, index) => renderItem(item, index, checked.length))}
+            {canEdit ? (
+              <View style={styles.checkedActions}>
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  onPress={handleClearChecked}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Text style={styles.secondaryButtonText}>{t('shopping.clearAction')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.primaryButton, moveToPantryMutation.isPending && { opacity: 0.6 }]}
+                  onPress={handleMoveToPantry}
+                  disabled={moveToPantryMutation.isPending || locations.length === 0}
+                >
+                  {moveToPantryMutation.isPending ? (
+                    <ActivityIndicator color={colors.primaryContrast} />
+                  ) : (
+                    <>
+                      <PackagePlus size={18} color={colors.primaryContrast} />
+                      <Text style={styles.primaryButtonText}>{t('shopping.storeAction')}</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ) : null}
+          </View>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    safeArea: {
+      flex: 1,
+    },
+    container: {
+      paddingBottom: 160,
+      gap: 16,
+    },
+    header: {
+      backgroundColor: colors.highlightBackground,
+      paddingHorizontal: 24,
+      paddingTop: 72,
+      paddingBottom: 36,
+      borderBottomLeftRadius: 32,
+      borderBottomRightRadius: 32,
+      gap: 8,
+    },
+    title: {
+      fontSize: 26,
+      fontWeight: '700',
+      color: colors.highlightText,
+    },
+    subtitle: {
+      fontSize: 14,
+      color: colors.highlightText,
+      opacity: 0.8,
+    },
+    form: {
+      marginHorizontal: 24,
+      gap: 10,
+      padding: 16,
+      borderRadius: 18,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    formRow: {
+      flexDirection: 'row',
+      gap: 10,
+    },
+    input: {
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      backgroundColor: colors.inputBackground,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: colors.inputText,
+    },
+    addButton: {
+      width: 48,
+      borderRadius: 12,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primary,
+    },
+    chipRow: {
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surfaceMuted,
+    },
+    chipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    chipTextActive: {
+      color: colors.primaryContrast,
+    },
+    section: {
+      marginHorizontal: 24,
+      padding: 16,
+      gap: 4,
+      borderRadius: 18,
+      backgroundColor: colors.surface,
+      shadowColor: colors.shadow,
+      shadowOpacity: 0.08,
+      shadowRadius: 12,
+      shadowOffset: { width: 0, height: 10 },
+      elevation: 3,
+    },
+    sectionTitle: {
+      fontSize: 13,
+      fontWeight: '700',
+      textTransform: 'uppercase',
+      color: colors.textMuted,
+      marginBottom: 4,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 14,
+      paddingVertical: 8,
+    },
+    rowMain: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    itemName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    itemNameChecked: {
+      color: colors.textMuted,
+      textDecorationLine: 'line-through',
+    },
+    itemQuantity: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    checkedActions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 8,
+    },
+    secondaryButton: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingVertical: 12,
+    },
+    secondaryButtonText: {
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    primaryButton: {
+      flex: 2,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      borderRadius: 14,
+      paddingVertical: 12,
+      backgroundColor: colors.primary,
+    },
+    primaryButtonText: {
+      fontWeight: '600',
+      color: colors.primaryContrast,
+    },
+    emptyState: {
+      marginHorizontal: 24,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 20,
+      padding: 32,
+      alignItems: 'center',
+      gap: 12,
+    },
+    emptyTitle: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.textPrimary,
+    },
+    emptySubtitle: {
+      textAlign: 'center',
+      color: colors.textSecondary,
+    },
+  });
@@ -0,0 +1,509 @@
+import { LOCATION_ICONS } from '@/components/LocationIcon';
+import { storageLocationsQueryKey, useStorageLocations, type DisplayStorageLocation } from '@/hooks/useStorageLocations';
+import { useTranslation } from '@/lib/i18n';
+import type { StorageLocationType } from '@/lib/shelfLife';
+import {
+  getLocationAppearance,
+  LOCATION_COLORS,
+  LOCATION_ICON_NAMES,
+  LOCATION_TYPES,
+  type LocationIconName,
+} from '@/lib/storageLocations';
+import {
+  countStorageLocationItems,
+  createStorageLocation,
+  deleteStorageLocation,
+  updateStorageLocation,
+} from '@/lib/supabase/storageLocationService';
+import { getStorageItems } from '@/lib/supabase/storageService';
+import { useAuth } from '@/providers/AuthProvider';
+import type { ThemeColors } from '@/providers/ThemeProvider';
+import { useThemeMode } from '@/providers/ThemeProvider';
+import { useToast } from '@/providers/ToastProvider';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, Pencil, Plus, Trash2 } from 'lucide-react-native';
+import { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+type LocationForm = {
+  name: string;
+  type: StorageLocationType;
+  icon: LocationIconName;
+  color: string;
+};
+
+const emptyForm = (): LocationForm => ({
+  name: '',
+  type: 'larder',
+  ...getLocationAppearance({ type: 'larder' }),
+});
+
+export const StorageLocationsScreen = () => {
+  const { user, household } = useAuth();
+  const { colors } = useThemeMode();
+  const { showToast } = useToast();
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { locations, isLoading } = useStorageLocations();
+  // `null` while no form is open, `'new'` for a new location, otherwise the id being edited.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<LocationForm>(emptyForm);
+
+  const { data: items = [] } = useQuery({
+    queryKey: ['storage-items', household?.id],
+    queryFn: () => getStorageItems(household!.id),
+    enabled: Boolean(household?.id),
+  });
+
+  const itemCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+      counts.set(item.storage_location_id, (counts.get(item.storage_location_id) ?? 0) + 1);
+    }
+    return counts;
+  }, [items]);
+
+  const invalidateLocations = () => {
+    void queryClient.invalidateQueries({ queryKey: storageLocationsQueryKey(household?.id) });
+    void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+    void queryClient.invalidateQueries({ queryKey: ['storage-statistics'] });
+  };
+
+  const showError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : t('locations.errorMessage');
+    showToast({ title: t('locations.errorTitle'), message, type: 'error' });
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const editing = locations.find((location) => location.id === editingId);
+      if (!editing) {
+        return createStorageLocation({ ...form, household_id: household!.id }, user!.id);
+      }
+      // Leaving a seeded location's translated name untouched keeps it following the app language.
+      const name = form.name.trim() === editing.displayName ? editing.name : form.name;
+      return updateStorageLocation(editing.id, { ...form, name });
+    },
+    onSuccess: () => {
+      invalidateLocations();
+      showToast({ title: t('locations.savedTitle'), message: t('locations.savedMsg', { name: form.name.trim() }) });
+      closeForm();
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: ({
+      location,
+      moveItemsTo,
+      discardItems,
+    }: {
+      location: DisplayStorageLocation;
+      moveItemsTo: string;
+      discardItems?: boolean;
+    }) => deleteStorageLocation(location.id, { moveItemsTo, discardItems }),
+    onSuccess: (_result, { location }) => {
+      invalidateLocations();
+      void queryClient.invalidateQueries({ queryKey: ['waste-log'] });
+      void queryClient.invalidateQueries({ queryKey: ['expiry-rules'] });
+      void queryClient.invalidateQueries({ queryKey: ['expiry-thresholds'] });
+      showToast({ title: t('locations.deletedTitle'), message: t('locations.deletedMsg', { name: location.displayName }) });
+      if (editingId === location.id) {
+        closeForm();
+      }
+    },
+    onError: showError,
+  });
+
+  const openForm = (location: DisplayStorageLocation | null) => {
+    if (!location) {
+      setEditingId('new');
+      setForm(emptyForm());
+      return;
+    }
+    setEditingId(location.id);
+    setForm({
+      name: location.displayName,
+      type: LOCATION_TYPES.find((type) => type === location.type) ?? 'larder',
+      icon: location.iconName,
+      color: location.displayColor,
+    });
+  };
+
+  const setType = (type: StorageLocationType) => {
+    setForm((current) => {
+      // Follow the type's default look until the user picks an icon or colour of their own.
+      const previousDefault = getLocationAppearance({ type: current.type });
+      const nextDefault = getLocationAppearance({ type });
+      return {
+        ...current,
+        type,
+        icon: current.icon === previousDefault.icon ? nextDefault.icon : current.icon,
+        color: current.color === previousDefault.color ? nextDefault.color : current.color,
+      };
+    });
+  };
+
+  const handleDelete = async (location: DisplayStorageLocation) => {
+    if (locations.length <= 1) {
+      showToast({ title: t('locations.errorTitle'), message: t('locations.lastLocationMsg'), type: 'error' });
+      return;
+    }
+
+    let itemCount: number;
+    try {
+      itemCount = await countStorageLocationItems(location.id);
+    } catch (error) {
+      showError(error);
+      return;
+    }
+
+    const destinations = locations.filter((candidate) => candidate.id !== location.id);
+
+    if (itemCount === 0) {
+      // Nothing to ask about, but archived items still move so their history is kept.
+      Alert.alert(t('locations.deleteTitle'), t('locations.deleteEmptyMessage', { name: location.displayName }), [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: () => deleteMutation.mutate({ location, moveItemsTo: destinations[0].id }),
+        },
+      ]);
+      return;
+    }
+
+    Alert.alert(
+      t('locations.deleteTitle'),
+      t('locations.deleteWithItemsMessage', { name: location.displayName, count: itemCount }),
+      [
+        ...destinations.map((destination) => ({
+          text: t('locations.moveItemsTo', { name: destination.displayName }),
+          onPress: () => deleteMutation.mutate({ location, moveItemsTo: destination.id }),
+        })),
+        {
+          text: t('locations.discardItems'),
+          style: 'destructive' as const,
+          // Discarded items are archived, and kept with the first remaining location for their history.
+          onPress: () => deleteMutation.mutate({ location, moveItemsTo: destinations[0].id, discardItems: true }),
+        },
+        { text: t('common.cancel'), style: 'cancel' as const },
+      ],
+    );
+  };
+
+  const canSave = form.name.trim().length > 0 && !saveMutation.isPending;
+
+  const renderForm = () => (
+    <View style={styles.form}>
+      <Text style={styles.label}>{t('locations.name')}</Text>
+      <TextInput
+        style={styles.input}
+        value={form.name}
+        onChangeText={(name) => setForm((current) => ({ ...current, name }))}
+        placeholder={t('locations.namePlaceholder')}
+        placeholderTextColor={colors.inputPlaceholder}
+        autoFocus
+      />
+
+      <Text style={styles.label}>{t('locations.type')}</Text>
+      <Text style={styles.hint}>{t('locations.typeHint')}</Text>
+      <View style={styles.chipRow}>
+        {LOCATION_TYPES.map((type) => {
+          const active = form.type === type;
+          return (
+            <TouchableOpacity
+              key={type}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => setType(type)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{t(`home.${type}`)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.label}>{t('locations.icon')}</Text>
+      <View style={styles.chipRow}>
+        {LOCATION_ICON_NAMES.map((iconName) => {
+          const Icon = LOCATION_ICONS[iconName];
+          const active = form.icon === iconName;
+          return (
+            <TouchableOpacity
+              key={iconName}
+              style={[styles.iconOption, active && { borderColor: form.color, backgroundColor: `${form.color}22` }]}
+              onPress={() => setForm((current) => ({ ...current, icon: iconName }))}
+              accessibilityLabel={iconName}
+            >
+              <Icon size={20} color={active ? form.color : colors.textSecondary} />
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={styles.label}>{t('locations.color')}</Text>
+      <View style={styles.chipRow}>
+        {LOCATION_COLORS.map((color) => (
+          <TouchableOpacity
+            key={color}
+            style={[styles.swatch, { backgroundColor: color }]}
+            onPress={() => setForm((current) => ({ ...current, color }))}
+            accessibilityLabel={color}
+          >
+            {form.color === color && <Check size={16} color={colors.textInverse} />}
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.formActions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={closeForm}>
+          <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, !canSave && { opacity: 0.6 }]}
+          onPress={() => saveMutation.mutate()}
+          disabled={!canSave}
+        >
+          {saveMutation.isPending ? (
+            <ActivityIndicator color={colors.primaryContrast} />
+          ) : (
+            <Text style={styles.primaryButtonText}>{t('common.save')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={[styles.loadingState, { backgroundColor: colors.background }]}>
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: colors.background }}
+      contentContainerStyle={styles.container}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text style={styles.subtitle}>{t('locations.subtitle')}</Text>
+
+      {locations.map((location) => {
+        const Icon = LOCATION_ICONS[location.iconName];
+        return (
+          <View key={location.id}>
+            <View style={styles.card}>
+              <View style={[styles.iconWrapper, { backgroundColor: `${location.displayColor}22` }]}>
+                <Icon size={22} color={location.displayColor} />
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.cardTitle}>{location.displayName}</Text>
+                <Text style={styles.cardSubtitle}>
+                  {t(`home.${location.type}`)} ·{' '}
+                  {t('locations.itemCount', { count: itemCounts.get(location.id) ?? 0 })}
+                </Text>
+              </View>
+              <TouchableOpacity
+                onPress={() => openForm(location)}
+                hitSlop={12}
+                accessibilityLabel={t('common.edit')}
+              >
+                <Pencil size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => void handleDelete(location)}
+                disabled={deleteMutation.isPending}
+                hitSlop={12}
+                accessibilityLabel={t('common.delete')}
+              >
+                <Trash2 size={18} color={colors.danger} />
+              </TouchableOpacity>
+            </View>
+            {editingId === location.id && renderForm()}
+          </View>
+        );
+      })}
+
+      {editingId === 'new' ? (
+        renderForm()
+      ) : (
+        <TouchableOpacity style={styles.addButton} onPress={() => openForm(null)}>
+          <Plus size={18} color={colors.primary} />
+          <Text style={styles.addButtonText}>{t('locations.add')}</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      padding: 24,
+      gap: 12,
+    },
+    loadingState: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    subtitle: {
+      color: colors.textSecondary,
+      marginBottom: 8,
+    },
+    card: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 16,
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    iconWrapper: {
+      width: 44,
+      height: 44,
+      borderRadius: 14,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    cardTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    cardSubtitle: {
+      marginTop: 4,
+      color: colors.textSecondary,
+    },
+    form: {
+      gap: 10,
+      marginTop: 8,
+      padding: 16,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    hint: {
+      fontSize: 13,
+      color: colors.textMuted,
+    },
+    input: {
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.inputBorder,
+      backgroundColor: colors.inputBackground,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 15,
+      color: colors.inputText,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surfaceMuted,
+    },
+    chipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    chipTextActive: {
+      color: colors.primaryContrast,
+    },
+    iconOption: {
+      width: 44,
+      height: 44,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    swatch: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    formActions: {
+      flexDirection: 'row',
+      gap: 12,
+      marginTop: 8,
+    },
+    secondaryButton: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+    },
+    secondaryButtonText: {
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    primaryButton: {
+      flex: 1,
+      paddingVertical: 12,
+      borderRadius: 12,
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+    },
+    primaryButtonText: {
+      color: colors.primaryContrast,
+      fontWeight: '700',
+    },
+    addButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      paddingVertical: 14,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.primary,
+    },
+    addButtonText: {
+      color: colors.primary,
+      fontWeight: '700',
+    },
+  });
@@ -1,15 +1,48 @@
+import { StockThresholdSheet, type StockThresholdSubmission } from '@/components/StockThresholdSheet';
+import { UseItemSheet, type UseItemSubmission } from '@/components/UseItemSheet';
+import { LocationIcon } from '@/components/LocationIcon';
+import { useExpiryRules } from '@/hooks/useExpiryRules';
+import { stockThresholdsQueryKey, useStockThresholds } from '@/hooks/useStockThresholds';
+import { useStorageLocations } from '@/hooks/useStorageLocations';
 import type { RootStackParamList } from '@/navigation/types';
 import type { ThemeColors } from '@/providers/ThemeProvider';
 import { useThemeMode } from '@/providers/ThemeProvider';
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { Calendar, Package2, Plus, Search, Snowflake, Refrigerator, Package, Trash2 } from 'lucide-react-native';
+import {
+  ArrowRightLeft,
+  Calendar,
+  ChevronDown,
+  ChevronUp,
+  Combine,
+  Gauge,
+  Layers,
+  Package2,
+  Plus,
+  Search,
+  Settings2,
+  PackageOpen,
+  Trash2,
+  Utensils,
+} from 'lucide-react-native';
 import { useMemo, useState, useRef, useCallback } from 'react';
 import { useAuth } from '@/providers/AuthProvider';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { deleteStorageItem, getStorageItems, getItemStatus } from '@/lib/supabase/storageService';
+import { getItemQuantity, getItemStatus, getStorageItems, mergeStorageItems } from '@/lib/supabase/storageService';
+import { useOutbox } from '@/providers/OutboxProvider';
 import { useToast } from '@/providers/ToastProvider';
 import { useTranslation } from '@/lib/i18n';
+import { formatQuantity, simplifyQuantity } from '@/lib/quantity';
+import { parseDateOnly } from '@/lib/dates';
+import { findDuplicateGroups, planMerge } from '@/lib/duplicates';
+import { getProductLotsKey, groupLots, type PantryProduct } from '@/lib/lots';
+import { getThresholdKey } from '@/lib/lowStock';
+import { getEffectiveExpiryDate } from '@/lib/expiry';
+import { canEditPantry } from '@/lib/households';
+import { consumeLots } from '@/lib/supabase/consumptionService';
+import { ConsumptionError } from '@/lib/consumption';
+import { deleteStockThreshold, saveStockThreshold } from '@/lib/supabase/stockThresholdService';
+import { discardStorageItem } from '@/lib/supabase/wasteService';
 import {
   ActivityIndicator,
   Alert,
@@ -29,43 +62,34 @@ type Navigation = NativeStackNavigationProp<RootStackParamList>;
 
 type StorageItem = Awaited<ReturnType<typeof getStorageItems>>[number];
 
-type LocationFilter = 'all' | 'freezer' | 'fridge' | 'larder';
+/** `'all'` or the id of the storage location to show. */
+type LocationFilter = string;
 
 export const StorageScreen = () => {
   const navigation = useNavigation<Navigation>();
   const [query, setQuery] = useState('');
   const [locationFilter, setLocationFilter] = useState<LocationFilter>('all');
   const { colors } = useThemeMode();
-  const { user } = useAuth();
+  const { user, household, householdRole } = useAuth();
+  const canEdit = canEditPantry(householdRole);
   const { t } = useTranslation();
   const styles = useMemo(() => createStyles(colors), [colors]);
+  const expiryRules = useExpiryRules();
   const { showToast } = useToast();
   const queryClient = useQueryClient();
+  const outbox = useOutbox();
   const swipeableRefs = useRef<Record<string, Swipeable | null>>({});
   const [deletingItemId, setDeletingItemId] = useState<string | null>(null);
+  const [usingProduct, setUsingProduct] = useState<PantryProduct<StorageItem> | null>(null);
+  const [thresholdProduct, setThresholdProduct] = useState<PantryProduct<StorageItem> | null>(null);
+  const [expandedProducts, setExpandedProducts] = useState<Set<string>>(() => new Set());
 
-  const locationConfig = useMemo(
-    () => ({
-      freezer: {
-        name: t('home.freezer'),
-        icon: Snowflake,
-        color: '#38bdf8',
-        backgroundColor: '#38bdf822',
-      },
-      fridge: {
-        name: t('home.fridge'),
-        icon: Refrigerator,
-        color: '#34d399',
-        backgroundColor: '#34d39922',
-      },
-      larder: {
-        name: t('home.larder'),
-        icon: Package,
-        color: '#facc15',
-        backgroundColor: '#facc1522',
-      },
-    }),
-    [t],
+  const { locations } = useStorageLocations();
+  const thresholds = useStockThresholds();
+
+  const locationsById = useMemo(
+    () => new Map(locations.map((location) => [location.id, location])),
+    [locations],
   );
 
   const {
@@ -74,21 +98,83 @@ export const StorageScreen = () => {
     isRefetching,
     refetch,
   } = useQuery({
-    queryKey: ['storage-items', user?.id],
-    queryFn: () => getStorageItems(user!.id),
-    enabled: Boolean(user?.id),
+    queryKey: ['storage-items', household?.id],
+    queryFn: () => getStorageItems(household!.id),
+    enabled: Boolean(household?.id),
   });
 
+  // Moves, opening and deleting go through the outbox, so they also work offline.
+  const moveItemMutation = useMutation({
+    mutationFn: async ({ id, locationId }: { id: string; name: string; locationId: string; locationName: string }) =>
+      outbox.updateItem(id, { storage_location_id: locationId }),
+    networkMode: 'always',
+    onSuccess: (_result, variables) => {
+      showToast({
+        title: t('storage.moveSuccessTitle'),
+        message: t('storage.moveSuccessMsg', { name: variables.name, location: variables.locationName }),
+      });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : t('storage.moveErrorMessage');
+      showToast({ title: t('storage.moveErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const markOpenedMutation = useMutation({
+    mutationFn: async (item: StorageItem) => outbox.updateItem(item.id, { opened_at: new Date().toISOString() }),
+    networkMode: 'always',
+    onSuccess: (_result, item) => {
+      showToast({
+        title: t('storage.openedSuccessTitle'),
+        message: t('storage.openedSuccessMsg', { name: item.name }),
+      });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : t('storage.openedErrorMessage');
+      showToast({ title: t('storage.openedErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const consumeItemMutation = useMutation({
+    mutationFn: async ({ product, amount, reason }: UseItemSubmission & { product: PantryProduct<StorageItem> }) =>
+      consumeLots({ lots: product.lots, amount, reason, userId: user!.id }),
+    onSuccess: (results, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      void queryClient.invalidateQueries({ queryKey: ['storage-statistics'] });
+      void queryClient.invalidateQueries({ queryKey: ['shopping-list'] });
+      setUsingProduct(null);
+      const finished =
+        results.length === variables.product.lots.length && results.every((result) => result.item.archived_at);
+      showToast({
+        title: t('storage.useSuccessTitle'),
+        message: finished
+          ? t('storage.useFinishedMsg', { name: variables.product.name })
+          : t('storage.useSuccessMsg', { name: variables.product.name }),
+      });
+    },
+    onError: (error) => {
+      if (error instanceof ConsumptionError && error.code === 'itemChanged') {
+        void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      }
+      const message =
+        error instanceof ConsumptionError
+          ? t(`consumptionProblems.${error.code}`, error.params)
+          : error instanceof Error
+            ? error.message
+            : t('storage.useErrorMessage');
+      showToast({ title: t('storage.useErrorTitle'), message, type: 'error' });
+    },
+  });
 
   const deleteItemMutation = useMutation({
     mutationFn: async ({ id }: { id: string; name: string }) => {
-      await deleteStorageItem(id);
+      await outbox.deleteItem(id);
     },
+    networkMode: 'always',
     onMutate: (variables) => {
       setDeletingItemId(variables.id);
     },
     onSuccess: (_result, variables) => {
-      void queryClient.invalidateQueries({ queryKey: ['storage-items', user?.id] });
       showToast({
         title: t('storage.deleteSuccessTitle'),
         message: t('storage.deleteSuccessMsg', { name: variables.name }),
@@ -110,13 +196,127 @@ export const StorageScreen = () => {
     },
   });
 
+  const mergeItemsMutation = useMutation({
+    mutationFn: async ({ group }: { group: StorageItem[]; name: string }) => {
+      const plan = planMerge(group);
+      if (!plan) {
+        throw new Error(t('duplicates.incompatibleMessage'));
+      }
+      return mergeStorageItems(plan);
+    },
+    onSuccess: (_result, variables) => {
+      void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      void queryClient.invalidateQueries({ queryKey: ['storage-statistics'] });
+      void queryClient.invalidateQueries({ queryKey: ['storage-item'] });
+      showToast({
+        title: t('duplicates.mergeSuccessTitle'),
+        message: t('duplicates.mergeSuccessMsg', { name: variables.name }),
+      });
+    },
+    onError: (error) => {
+      // Nothing was merged; the database refused because one of the entries changed meanwhile.
+      const changed = (error as { code?: string }).code === '40001';
+      if (changed) {
+        void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      }
+      const message = changed
+        ? t('duplicates.changedMessage')
+        : error instanceof Error
+          ? error.message
+          : t('duplicates.mergeErrorMessage');
+      showToast({ title: t('duplicates.mergeErrorTitle'), message, type: 'error' });
+    },
+  });
+
+  const discardItemMutation = useMutation({
+    mutationFn: async (item: StorageItem) => discardStorageItem(item, user!.id),
+    onMutate: (item) => {
+      setDeletingItemId(item.id);
+    },
+    onSuccess: (_result, item) => {
+      void queryClient.invalidateQueries({ queryKey: ['storage-items'] });
+      void queryClient.invalidateQueries({ queryKey: ['storage-statistics'] });
+      void queryClient.invalidateQueries({ queryKey: ['waste-log'] });
+      void queryClient.invalidateQueries({ queryKey: ['shopping-list'] });
+      showToast({
+        title: t('storage.discardSuccessTitle'),
+        message: t('storage.discardSuccessMsg', { name: item.name }),
+      });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : t('storage.discardErrorMessage');
+      showToast({ title: t('storage.deleteErrorTitle'), message, type: 'error' });
+    },
+    onSettled: () => {
+      setDeletingItemId(null);
+    },
+  });
+
+  const saveThresholdMutation = useMutation({
+    mutationFn: async ({ product, minimum, autoAdd }: StockThresholdSubmission & { product: PantryProduct<StorageItem> }) =>
+      saveStockThreshold({ householdId: household!.id, name: product.name, minimum, autoAdd }, user!.id),
+    onSuccess: (threshold, variables) => {
+      void queryClient.invalidateQueries({ queryKey: stockThresholdsQueryKey(household?.id) });
+      setThresholdProduct(null);
+      showToast({
+        title: t('stock.savedTitle'),
+        message: t('stock.savedMsg', { name: threshold.name, quantity: formatQuantity(variables.minimum) }),
+      });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : t('stock.errorMessage');
+      showToast({ title: t('stock.errorTitle'), message, type: 'error' });
+    },
+  });
+
+  const removeThresholdMutation = useMutation({
+    mutationFn: async ({ id }: { id: string; name: string }) => deleteStockThreshold(id),
+    onSuccess: (_result, variables) => {
+      void queryClient.invalidateQueries({ queryKey: stockThresholdsQueryKey(household?.id) });
+      setThresholdProduct(null);
+      showToast({ title: t('stock.removedTitle'), message: t('stock.removedMsg', { name: variables.name }) });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : t('stock.errorMessage');
+      showToast({ title: t('stock.errorTitle'), message, type: 'error' });
+    },
+  });
+
+  // The sheet shows the whole product, whatever location or search is filtering the list.
+  const openThresholdSheet = useCallback(
+    (item: StorageItem) => {
+      const key = getProductLotsKey(item);
+      const [product] = groupLots(
+        items.filter((candidate) => getProductLotsKey(candidate) === key),
+        expiryRules.timeZone,
+      );
+      setThresholdProduct(product ?? null);
+    },
+    [expiryRules.timeZone, items],
+  );
+
+  const currentThreshold = useMemo(() => {
+    const key = thresholdProduct ? getThresholdKey(thresholdProduct.name) : null;
+    return thresholds.find((threshold) => threshold.product_key === key) ?? null;
+  }, [thresholdProduct, thresholds]);
+
   const statusConfig = useMemo(
     () => ({
       fresh: { label: t('storage.fresh'), backgroundColor: colors.successSoft, color: colors.success },
       expiring: { label: t('storage.expiringSoon'), backgroundColor: colors.warningSoft, color: colors.warning },
+      use_today: { label: t('storage.useToday'), backgroundColor: colors.warning, color: colors.textInverse },
       expired: { label: t('storage.expired'), backgroundColor: colors.dangerSoft, color: colors.danger },
     }),
-    [colors.danger, colors.dangerSoft, colors.success, colors.successSoft, colors.warning, colors.warningSoft, t],
+    [
+      colors.danger,
+      colors.dangerSoft,
+      colors.success,
+      colors.successSoft,
+      colors.textInverse,
+      colors.warning,
+      colors.warningSoft,
+      t,
+    ],
   );
 
   const handleDeleteItem = useCallback(
@@ -132,6 +332,13 @@ export const StorageScreen = () => {
               swipeableRefs.current[item.id]?.close();
             },
           },
+          {
+            text: t('storage.discardAction'),
+            onPress: () => {
+              swipeableRefs.current[item.id]?.close();
+              discardItemMutation.mutate(item);
+            },
+          },
           {
             text: t('common.delete'),
             style: 'destructive',
@@ -143,7 +350,65 @@ export const StorageScreen = () => {
         ],
       );
     },
-    [deleteItemMutation, t],
+    [deleteItemMutation, discardItemMutation, t],
+  );
+
+  const handleMergeGroup = useCallback(
+    (group: StorageItem[]) => {
+      const [first] = group;
+      const plan = planMerge(group);
+      if (!plan) {
+        Alert.alert(t('duplicates.incompatibleTitle'), t('duplicates.incompatibleMessage'));
+        return;
+      }
+      const merged = getItemQuantity(plan.changes);
+      const details = [
+        merged ? formatQuantity(simplifyQuantity(merged)) : null,
+        plan.changes.expiry_date
+          ? t('duplicates.expiresOn', { date: parseDateOnly(plan.changes.expiry_date).toLocaleDateString() })
+          : null,
+      ]
+        .filter(Boolean)
+        .join(' · ');
+      Alert.alert(
+        t('duplicates.mergeTitle'),
+        t('duplicates.mergeMessage', { count: group.length, name: first.name, details }),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('duplicates.mergeAction'),
+            onPress: () => mergeItemsMutation.mutate({ group, name: first.name }),
+          },
+        ],
+      );
+    },
+    [mergeItemsMutation, t],
+  );
+
+  const handleMoveItem = useCallback(
+    (item: StorageItem) => {
+      const destinations = locations.filter((location) => location.id !== item.storage_location_id);
+      Alert.alert(t('storage.moveTitle'), t('storage.moveMessage', { name: item.name }), [
+        ...destinations.map((location) => {
+          const locationName = location.displayName;
+          return {
+            text: locationName,
+            onPress: () => {
+              swipeableRefs.current[item.id]?.close();
+              moveItemMutation.mutate({ id: item.id, name: item.name, locationId: location.id, locationName });
+            },
+          };
+        }),
+        {
+          text: t('common.cancel'),
+          style: 'cancel' as const,
+          onPress: () => {
+            swipeableRefs.current[item.id]?.close();
+          },
+        },
+      ]);
+    },
+    [locations, moveItemMutation, t],
   );
 
   const renderSwipeActions = useCallback(
@@ -161,6 +426,47 @@ export const StorageScreen = () => {
 
       return (
         <Animated.View style={[styles.deleteActionContainer, { opacity, transform: [{ translateX }] }]}>
+          <TouchableOpacity
+            style={[styles.moveActionButton, { backgroundColor: colors.success }]}
+            onPress={() => {
+              swipeableRefs.current[item.id]?.close();
+              setUsingProduct(groupLots([item], expiryRules.timeZone)[0]);
+            }}
+            accessibilityLabel={t('storage.useActionLabel')}
+          >
+            <Utensils size={20} color={colors.surface} />
+          </TouchableOpacity>
+          {!item.opened_at && (
+            <TouchableOpacity
+              style={[styles.moveActionButton, { backgroundColor: colors.warning }]}
+              onPress={() => {
+                swipeableRefs.current[item.id]?.close();
+                markOpenedMutation.mutate(item);
+              }}
+              disabled={markOpenedMutation.isPending}
+              accessibilityLabel={t('storage.openActionLabel')}
+            >
+              <PackageOpen size={20} color={colors.surface} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.moveActionButton, { backgroundColor: colors.primary }]}
+            onPress={() => {
+              swipeableRefs.current[item.id]?.close();
+              openThresholdSheet(item);
+            }}
+            accessibilityLabel={t('stock.actionLabel')}
+          >
+            <Gauge size={20} color={colors.primaryContrast} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.moveActionButton}
+            onPress={() => handleMoveItem(item)}
+            disabled={moveItemMutation.isPending}
+            accessibilityLabel={t('storage.moveActionLabel')}
+          >
+            <ArrowRightLeft size={20} color={colors.primaryContrast} />
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.deleteActionButton}
             onPress={() => handleDeleteItem(item)}
@@ -177,14 +483,31 @@ export const StorageScreen = () => {
         </Animated.View>
       );
     },
-    [colors.surface, deleteItemMutation.isPending, deletingItemId, handleDeleteItem, styles, t],
+    [
+      colors.primary,
+      colors.primaryContrast,
+      colors.success,
+      colors.surface,
+      colors.warning,
+      deleteItemMutation.isPending,
+      deletingItemId,
+      expiryRules.timeZone,
+      handleDeleteItem,
+      handleMoveItem,
+      markOpenedMutation,
+      moveItemMutation.isPending,
+      openThresholdSheet,
+      styles,
+      t,
+    ],
   );
 
   const filtered = useMemo(() => {
     let result = items;
 
-    if (locationFilter !== 'all') {
-      result = result.filter((item) => item.storage_locations?.type === locationFilter);
+    // A location deleted while selected falls back to showing everything.
+    if (locationFilter !== 'all' && locationsById.has(locationFilter)) {
+      result = result.filter((item) => item.storage_location_id === locationFilter);
     }
 
     if (query.trim()) {
@@ -193,7 +516,232 @@ export const StorageScreen = () => {
     }
 
     return result;
-  }, [items, locationFilter, query]);
+  }, [items, locationFilter, locationsById, query]);
+
+  const products = useMemo(() => groupLots(filtered, expiryRules.timeZone), [expiryRules.timeZone, filtered]);
+
+  const toggleProduct = (key: string) => {
+    setExpandedProducts((current) => {
+      const next = new Set(current);
+      if (!next.delete(key)) {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderLot = (item: StorageItem, nested = false) => {
+    const itemStatus = getItemStatus(item, expiryRules);
+    const effectiveExpiryDate = getEffectiveExpiryDate(item, expiryRules.timeZone);
+    const status = statusConfig[itemStatus];
+    const itemQuantity = getItemQuantity(item);
+    const displayQuantity = itemQuantity
+      ? formatQuantity(simplifyQuantity(itemQuantity))
+      : item.quantity && item.unit
+        ? `${item.quantity} ${item.unit}`
+        : item.quantity || '';
+
+    const locationInfo = locationsById.get(item.storage_location_id);
+
+    return (
+      <Swipeable
+        key={item.id}
+        ref={(ref) => {
+          if (ref) {
+            swipeableRefs.current[item.id] = ref;
+          } else {
+            delete swipeableRefs.current[item.id];
+          }
+        }}
+        renderRightActions={
+          canEdit ? (progress, dragX) => renderSwipeActions(item, progress, dragX) : undefined
+        }
+        friction={2}
+        rightThreshold={40}
+        overshootRight={false}
+      >
+        <TouchableOpacity
+          style={[styles.card, nested && styles.lotCard]}
+          activeOpacity={0.8}
+          disabled={!canEdit}
+          onPress={() => navigation.navigate('EditItem', { id: item.id })}
+        >
+          <View style={styles.cardHeader}>
+            <View style={styles.cardTitleContainer}>
+              <View
+                style={[
+                  styles.icon,
+                  {
+                    backgroundColor: locationInfo ? `${locationInfo.displayColor}22` : colors.primarySoft,
+                  },
+                ]}
+              >
+                {locationInfo ? (
+                  <LocationIcon name={locationInfo.iconName} size={20} color={locationInfo.displayColor} />
+                ) : (
+                  <Package2 size={20} color={colors.primary} />
+                )}
+              </View>
+              <View style={styles.cardTextContainer}>
+                <Text style={styles.cardTitle}>{item.name}</Text>
+                <View style={styles.cardSubtitleRow}>
+                  {displayQuantity ? <Text style={styles.cardSubtitle}>{displayQuantity}</Text> : null}
+                  {displayQuantity && locationInfo && <Text style={styles.cardSubtitle}> • </Text>}
+                  {locationInfo && (
+                    <Text style={[styles.cardSubtitle, { color: locationInfo.displayColor }]}>
+                      {locationInfo.displayName}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            </View>
+            <View
+              style={[
+                styles.statusBadge,
+                { backgroundColor: status.backgroundColor, borderColor: status.color },
+              ]}
+            >
+              <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+            </View>
+          </View>
+          {effectiveExpiryDate && (
+            <View style={styles.cardFooter}>
+              <Calendar size={16} color={colors.textMuted} />
+              <Text style={styles.cardFooterText}>
+                {t('storage.expires')}: {parseDateOnly(effectiveExpiryDate).toLocaleDateString()}
+                {item.opened_at ? ` (${t('storage.opened')})` : ''}
+              </Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </Swipeable>
+    );
+  };
+
+  const renderProduct = (product: PantryProduct<StorageItem>) => {
+    const [firstLot] = product.lots;
+    const status = statusConfig[getItemStatus(firstLot, expiryRules)];
+    const isExpanded = expandedProducts.has(product.key);
+    const mergeableGroups = canEdit && isExpanded ? findDuplicateGroups(product.lots) : [];
+    const details = [
+      product.total ? formatQuantity(simplifyQuantity(product.total)) : null,
+      t('lots.count', { count: product.lots.length }),
+    ]
+      .filter(Boolean)
+      .join(' • ');
+
+    return (
+      <View>
+        <Swipeable
+          ref={(ref) => {
+            if (ref) {
+              swipeableRefs.current[product.key] = ref;
+            } else {
+              delete swipeableRefs.current[product.key];
+            }
+          }}
+          renderRightActions={
+            canEdit
+              ? (progress) => (
+                  <Animated.View
+                    style={[
+                      styles.deleteActionContainer,
+                      {
+                        opacity: progress.interpolate({ inputRange: [0, 1], outputRange: [0, 1] }),
+                        transform: [{ translateX: progress.interpolate({ inputRange: [0, 1], outputRange: [64, 0] }) }],
+                      },
+                    ]}
+                  >
+                    <TouchableOpacity
+                      style={[styles.moveActionButton, { backgroundColor: colors.success }]}
+                      onPress={() => {
+                        swipeableRefs.current[product.key]?.close();
+                        setUsingProduct(product);
+                      }}
+                      accessibilityLabel={t('storage.useActionLabel')}
+                    >
+                      <Utensils size={20} color={colors.surface} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.moveActionButton, { backgroundColor: colors.primary }]}
+                      onPress={() => {
+                        swipeableRefs.current[product.key]?.close();
+                        openThresholdSheet(firstLot);
+                      }}
+                      accessibilityLabel={t('stock.actionLabel')}
+                    >
+                      <Gauge size={20} color={colors.primaryContrast} />
+                    </TouchableOpacity>
+                  </Animated.View>
+                )
+              : undefined
+          }
+          friction={2}
+          rightThreshold={40}
+          overshootRight={false}
+        >
+          <TouchableOpacity
+            style={styles.card}
+            activeOpacity={0.8}
+            onPress={() => toggleProduct(product.key)}
+            accessibilityLabel={isExpanded ? t('lots.collapse') : t('lots.expand')}
+          >
+            <View style={styles.cardHeader}>
+              <View style={styles.cardTitleContainer}>
+                <View style={styles.icon}>
+                  <Layers size={20} color={colors.primary} />
+                </View>
+                <View style={styles.cardTextContainer}>
+                  <Text style={styles.cardTitle}>{product.name}</Text>
+                  <Text style={styles.cardSubtitle}>{details}</Text>
+                </View>
+              </View>
+              <View
+                style={[styles.statusBadge, { backgroundColor: status.backgroundColor, borderColor: status.color }]}
+              >
+                <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+              </View>
+            </View>
+            <View style={styles.cardFooter}>
+              <Calendar size={16} color={colors.textMuted} />
+              <Text style={[styles.cardFooterText, { flex: 1 }]}>
+                {product.nextExpiry
+                  ? t('lots.nextExpiry', { date: parseDateOnly(product.nextExpiry).toLocaleDateString() })
+                  : t('lots.noExpiry')}
+              </Text>
+              {isExpanded ? (
+                <ChevronUp size={18} color={colors.textMuted} />
+              ) : (
+                <ChevronDown size={18} color={colors.textMuted} />
+              )}
+            </View>
+          </TouchableOpacity>
+        </Swipeable>
+
+        {isExpanded ? (
+          <View style={styles.lots}>
+            {product.lots.map((lot) => renderLot(lot, true))}
+            {mergeableGroups.map((group) => (
+              <TouchableOpacity
+                key={group[0].id}
+                style={styles.mergeLotsButton}
+                onPress={() => handleMergeGroup(group)}
+                disabled={mergeItemsMutation.isPending}
+              >
+                <Combine size={16} color={colors.primary} />
+                <Text style={styles.mergeLotsText}>
+                  {t('lots.mergeLots', {
+                    count: group.length,
+                    location: locationsById.get(group[0].storage_location_id)?.displayName ?? '',
+                  })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : null}
+      </View>
+    );
+  };
 
   if (isLoading && !items.length) {
     return (
@@ -214,8 +762,8 @@ export const StorageScreen = () => {
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
       <FlatList
-        data={filtered}
-        keyExtractor={(item) => item.id}
+        data={products}
+        keyExtractor={(product) => product.key}
         refreshControl={
           <RefreshControl
             refreshing={isRefetching}
@@ -229,6 +777,9 @@ export const StorageScreen = () => {
           <>
             <View style={styles.header}>
               <Text style={styles.title}>{t('storage.title')}</Text>
+              {outbox.pendingCount > 0 ? (
+                <Text style={styles.pendingText}>{t('outbox.pending', { count: outbox.pendingCount })}</Text>
+              ) : null}
               <View style={styles.searchWrapper}>
                 <Search size={18} color={colors.inputPlaceholder} style={{ marginRight: 8 }} />
                 <TextInput
@@ -260,34 +811,47 @@ export const StorageScreen = () => {
                 </Text>
               </TouchableOpacity>
 
-              {(Object.keys(locationConfig) as Array<keyof typeof locationConfig>).map((locType) => {
-                const config = locationConfig[locType];
-                const Icon = config.icon;
-                const isActive = locationFilter === locType;
+              {locations.map((location) => {
+                const isActive = locationFilter === location.id;
 
                 return (
                   <TouchableOpacity
-                    key={locType}
+                    key={location.id}
                     style={[
                       styles.filterButton,
                       isActive && styles.filterButtonActive,
-                      { borderColor: isActive ? config.color : colors.border },
+                      { borderColor: isActive ? location.displayColor : colors.border },
                     ]}
-                    onPress={() => setLocationFilter(locType)}
+                    onPress={() => setLocationFilter(location.id)}
                   >
-                    <Icon size={16} color={isActive ? config.color : colors.textSecondary} />
+                    <LocationIcon
+                      name={location.iconName}
+                      size={16}
+                      color={isActive ? location.displayColor : colors.textSecondary}
+                    />
                     <Text
                       style={[
                         styles.filterButtonText,
-                        { color: isActive ? config.color : colors.textSecondary },
+                        { color: isActive ? location.displayColor : colors.textSecondary },
                       ]}
                     >
-                      {config.name}
+                      {location.displayName}
                     </Text>
                   </TouchableOpacity>
                 );
               })}
+
+              {canEdit && (
+                <TouchableOpacity
+                  style={[styles.filterButton, { borderColor: colors.border }]}
+                  onPress={() => navigation.navigate('StorageLocations')}
+                  accessibilityLabel={t('locations.manage')}
+                >
+                  <Settings2 size={16} color={colors.textSecondary} />
+                </TouchableOpacity>
+              )}
             </View>
+
           </>
         }
         ListHeaderComponentStyle={styles.listHeader}
@@ -300,81 +864,38 @@ export const StorageScreen = () => {
             <Text style={[styles.emptySubtitle, { color: colors.textSecondary }]}>{t('storage.emptySubtitle')}</Text>
           </View>
         }
-        renderItem={({ item }) => {
-          const itemStatus = getItemStatus(item.expiry_date);
-          const status = statusConfig[itemStatus];
-          const displayQuantity = item.quantity && item.unit ? `${item.quantity} ${item.unit}` : item.quantity || '';
-
-          const locationType = item.storage_locations?.type as keyof typeof locationConfig;
-          const locationInfo = locationConfig[locationType];
-          const LocationIcon = locationInfo?.icon || Package2;
-
-          return (
-            <Swipeable
-              ref={(ref) => {
-                if (ref) {
-                  swipeableRefs.current[item.id] = ref;
-                } else {
-                  delete swipeableRefs.current[item.id];
-                }
-              }}
-              renderRightActions={(progress, dragX) => renderSwipeActions(item, progress, dragX)}
-              friction={2}
-              rightThreshold={40}
-              overshootRight={false}
-            >
-              <View style={styles.card}>
-                <View style={styles.cardHeader}>
-                  <View style={styles.cardTitleContainer}>
-                    <View
-                      style={[
-                        styles.icon,
-                        {
-                          backgroundColor: locationInfo?.backgroundColor || colors.primarySoft,
-                        },
-                      ]}
-                    >
-                      <LocationIcon size={20} color={locationInfo?.color || colors.primary} />
-                    </View>
-                    <View style={styles.cardTextContainer}>
-                      <Text style={styles.cardTitle}>{item.name}</Text>
-                      <View style={styles.cardSubtitleRow}>
-                        {displayQuantity ? <Text style={styles.cardSubtitle}>{displayQuantity}</Text> : null}
-                        {displayQuantity && locationInfo && <Text style={styles.cardSubtitle}> • </Text>}
-                        {locationInfo && (
-                          <Text style={[styles.cardSubtitle, { color: locationInfo.color }]}>
-                            {locationInfo.name}
-                          </Text>
-                        )}
-                      </View>
-                    </View>
-                  </View>
-                  <View
-                    style={[
-                      styles.statusBadge,
-                      { backgroundColor: status.backgroundColor, borderColor: status.color },
-                    ]}
-                  >
-                    <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
-                  </View>
-                </View>
-                {item.expiry_date && (
-                  <View style={styles.cardFooter}>
-                    <Calendar size={16} color={colors.textMuted} />
-                    <Text style={styles.cardFooterText}>
-                      {t('storage.expires')}: {new Date(item.expiry_date).toLocaleDateString()}
-                    </Text>
-                  </View>
-                )}
-              </View>
-            </Swipeable>
-          );
+        renderItem={({ item: product }) => (product.lots.length === 1 ? renderLot(product.lots[0]) : renderProduct(product))}
+      />
+
+      <UseItemSheet
+        product={usingProduct}
+        submitting={consumeItemMutation.isPending}
+        onClose={() => setUsingProduct(null)}
+        onSubmit={(submission) => {
+          if (usingProduct) {
+            consumeItemMutation.mutate({ product: usingProduct, ...submission });
+          }
         }}
       />
 
-      <TouchableOpacity style={styles.fab} onPress={() => navigation.navigate('AddItem')} accessibilityLabel="Add new item">
-        <Plus size={24} color={colors.fabIcon} />
-      </TouchableOpacity>
+      <StockThresholdSheet
+        product={thresholdProduct}
+        threshold={currentThreshold}
+        submitting={saveThresholdMutation.isPending || removeThresholdMutation.isPending}
+        onClose={() => setThresholdProduct(null)}
+        onSave={(submission) => {
+          if (thresholdProduct) {
+            saveThresholdMutation.mutate({ product: thresholdProduct, ...submission });
+          }
+        }}
+        onRemove={(threshold) => removeThresholdMutation.mutate({ id: threshold.id, name: threshold.name })}
+      />
+
+      {canEdit && (
+        <TouchableOpacity style={styles.fab} onPress={() => navigation.navigate('AddItem')} accessibilityLabel="Add new item">
+          <Plus size={24} color={colors.fabIcon} />
+        </TouchableOpacity>
+      )}
     </SafeAreaView>
     </GestureHandlerRootView>
   );
@@ -399,6 +920,12 @@ const createStyles = (colors: ThemeColors) =>
       fontWeight: '700',
       color: colors.highlightText,
     },
+    pendingText: {
+      marginTop: -8,
+      fontSize: 13,
+      color: colors.highlightText,
+      opacity: 0.8,
+    },
     searchWrapper: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -438,6 +965,33 @@ const createStyles = (colors: ThemeColors) =>
       fontSize: 14,
       fontWeight: '600',
     },
+    lots: {
+      marginTop: 12,
+      gap: 12,
+    },
+    lotCard: {
+      marginLeft: 48,
+      padding: 16,
+    },
+    mergeLotsButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginLeft: 48,
+      marginRight: 24,
+      paddingVertical: 10,
+      paddingHorizontal: 14,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surfaceMuted,
+    },
+    mergeLotsText: {
+      flex: 1,
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.primary,
+    },
     list: {
       paddingBottom: 160,
     },
@@ -559,11 +1113,21 @@ const createStyles = (colors: ThemeColors) =>
       textAlign: 'center',
     },
     deleteActionContainer: {
+      flexDirection: 'row',
+      gap: 8,
       justifyContent: 'center',
-      alignItems: 'flex-end',
+      alignItems: 'center',
       marginVertical: 8,
       marginRight: 12,
     },
+    moveActionButton: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.primary,
+      borderRadius: 16,
+      paddingVertical: 14,
+      paddingHorizontal: 16,
+    },
     deleteActionButton: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -1,16 +1,66 @@
+import { parseRecipeContent } from '@/lib/recipeSchema';
+import { updateRecipe } from '@/lib/supabase/recipesService';
+
 export interface SmartRecipe {
   id: string;
   name: string;
   matchScore: number;
-  time: string;
+  /** Display text for how long the recipe takes, or `null` when that isn't known. */
+  time: string | null;
   servings: number;
   missing: number;
+  /** Names of the missing ingredients, when the recipe was matched against the pantry. */
+  missingIngredients?: string[];
+  /** Ingredients that use up products about to expire. */
+  expiringUsed?: number;
   image_url?: string;
 }
 
+/**
+ * A recipe as the n8n workflow returns it. Recipes with an `id` were already saved to `recipes`
+ * by the workflow; the others are suggestions that only live on screen.
+ */
+type GeneratedRecipe = {
+  id?: string;
+  name?: string;
+  matchScore?: number;
+  time?: string;
+  servings?: number;
+  missing?: number;
+  image_url?: string;
+  ingredients?: unknown;
+  steps?: unknown;
+};
+
+type GenerateRecipesResponse = GeneratedRecipe[] | { recipes?: GeneratedRecipe[] };
+
 // Placeholder URL - replace with actual n8n webhook URL
 const N8N_WEBHOOK_URL = 'https://n8npablo.up.railway.app/webhook/generate-recipes';
 
+/**
+ * Hold generated content to the recipe schema like any other write. Summaries without content
+ * (the workflow's usual shape) are shown as they are. Saved recipes with content are rewritten
+ * through `updateRecipe`, which stores them normalised; ones that don't validate are left alone
+ * and skipped. Returns whether the recipe can be shown.
+ */
+const acceptGeneratedRecipe = async (recipe: GeneratedRecipe) => {
+  const hasContent = recipe.ingredients !== undefined || recipe.steps !== undefined;
+  if (!hasContent) {
+    return true;
+  }
+
+  const { content, problems } = parseRecipeContent(recipe);
+  if (problems.length) {
+    console.warn(`Skipping generated recipe "${recipe.name}":`, problems);
+    return false;
+  }
+
+  if (recipe.id) {
+    await updateRecipe(recipe.id, { content });
+  }
+  return true;
+};
+
 export const generateSmartRecipes = async (ingredients: string[], userId: string, language: string = 'en'): Promise<SmartRecipe[]> => {
   try {
     const response = await fetch(N8N_WEBHOOK_URL, {
@@ -29,18 +79,25 @@ export const generateSmartRecipes = async (ingredients: string[], userId: string
       throw new Error(`Failed to generate recipes: ${response.status} ${errorText}`);
     }
 
-    const data = await response.json();
-    
-    // Ensure the response matches our expected format
-    // Assuming n8n returns { recipes: SmartRecipe[] } or just SmartRecipe[]
-    // Adjust based on actual n8n workflow response
+    const data = (await response.json()) as GenerateRecipesResponse;
     const recipes = Array.isArray(data) ? data : data.recipes || [];
-    
-    return recipes.map((recipe: any, index: number) => ({
+
+    const valid: GeneratedRecipe[] = [];
+    for (const recipe of recipes) {
+      try {
+        if (await acceptGeneratedRecipe(recipe)) {
+          valid.push(recipe);
+        }
+      } catch (error) {
+        console.warn(`Failed to check generated recipe "${recipe.name}"`, error);
+      }
+    }
+
+    return valid.map((recipe, index) => ({
       id: recipe.id || `generated-${Date.now()}-${index}`,
       name: recipe.name || 'Unknown Recipe',
       matchScore: recipe.matchScore || 0,
-      time: recipe.time || '30 min',
+      time: recipe.time || null,
       servings: recipe.servings || 2,
       missing: recipe.missing || 0,
       image_url: recipe.image_url,
@@ -0,0 +1,38 @@
+-- Partial consumption: every amount taken out of an item is logged, and items that are used up
+-- are archived instead of deleted so their history is kept.
+create type public.consumption_reason as enum ('eaten', 'cooked', 'wasted', 'given_away');
+
+alter table public.storage_items add column archived_at timestamptz;
+
+create index storage_items_active_idx on public.storage_items (storage_location_id) where archived_at is null;
+
+create table public.consumption_events (
+  id uuid primary key default gen_random_uuid(),
+  storage_item_id uuid not null references public.storage_items (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  quantity text,
+  unit text,
+  reason public.consumption_reason not null,
+  consumed_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index consumption_events_user_idx on public.consumption_events (user_id, consumed_at desc);
+create index consumption_events_item_idx on public.consumption_events (storage_item_id);
+
+alter table public.consumption_events enable row level security;
+
+create policy "Users read their consumption" on public.consumption_events
+for select to authenticated
+using (user_id = auth.uid());
+
+create policy "Users log consumption of their items" on public.consumption_events
+for insert to authenticated
+with check (
+  user_id = auth.uid()
+  and exists (select 1 from public.storage_items where id = storage_item_id and user_id = auth.uid())
+);
+
+create policy "Users remove their consumption" on public.consumption_events
+for delete to authenticated
+using (user_id = auth.uid());
@@ -0,0 +1,32 @@
+-- Food waste: what was thrown away, why, and roughly what it cost. Items keep a price so the
+-- waste report can put a value on them. Rows outlive the item and location they came from.
+create type public.waste_reason as enum ('expired', 'discarded');
+
+alter table public.storage_items add column price numeric(10, 2) check (price >= 0);
+
+create table public.waste_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  storage_item_id uuid references public.storage_items (id) on delete set null,
+  storage_location_id uuid references public.storage_locations (id) on delete set null,
+  item_name text not null,
+  category text,
+  quantity text,
+  unit text,
+  estimated_value numeric(10, 2),
+  reason public.waste_reason not null,
+  wasted_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index waste_log_user_idx on public.waste_log (user_id, wasted_at desc);
+
+alter table public.waste_log enable row level security;
+
+create policy "Users read their waste" on public.waste_log
+for select to authenticated
+using (user_id = auth.uid());
+
+create policy "Users log their waste" on public.waste_log
+for insert to authenticated
+with check (user_id = auth.uid());
@@ -0,0 +1,35 @@
+-- Configurable expiry rules: how many days ahead counts as "expiring soon", per user and per
+-- category or storage location, and the timezone whose calendar decides what "today" is.
+alter table public.profiles
+  add column expiring_soon_days integer not null default 7 check (expiring_soon_days between 1 and 60),
+  add column timezone text;
+
+create table public.expiry_thresholds (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  category text,
+  storage_location_id uuid references public.storage_locations (id) on delete cascade,
+  days integer not null check (days between 1 and 60),
+  created_at timestamptz not null default now()
+);
+
+create index expiry_thresholds_user_idx on public.expiry_thresholds (user_id, created_at);
+
+alter table public.expiry_thresholds enable row level security;
+
+create policy "Users read their expiry thresholds" on public.expiry_thresholds
+for select to authenticated
+using (user_id = auth.uid());
+
+create policy "Users add expiry thresholds" on public.expiry_thresholds
+for insert to authenticated
+with check (user_id = auth.uid());
+
+create policy "Users change their expiry thresholds" on public.expiry_thresholds
+for update to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "Users remove their expiry thresholds" on public.expiry_thresholds
+for delete to authenticated
+using (user_id = auth.uid());
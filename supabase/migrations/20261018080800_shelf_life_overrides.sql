@@ -0,0 +1,31 @@
+-- Shelf lives the user picked themselves, per product and type of storage, which take precedence
+-- over the bundled dataset when suggesting an expiry date.
+create table public.shelf_life_overrides (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  product_key text not null,
+  location_type text not null,
+  days integer not null check (days >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, product_key, location_type)
+);
+
+alter table public.shelf_life_overrides enable row level security;
+
+create policy "Users read their shelf lives" on public.shelf_life_overrides
+for select to authenticated
+using (user_id = auth.uid());
+
+create policy "Users add shelf lives" on public.shelf_life_overrides
+for insert to authenticated
+with check (user_id = auth.uid());
+
+create policy "Users change their shelf lives" on public.shelf_life_overrides
+for update to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "Users remove their shelf lives" on public.shelf_life_overrides
+for delete to authenticated
+using (user_id = auth.uid());
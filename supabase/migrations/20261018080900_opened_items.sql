@@ -0,0 +1,2 @@
+-- When an item was opened, which shortens its expiry to the product's shelf life after opening.
+alter table public.storage_items add column opened_at timestamptz;
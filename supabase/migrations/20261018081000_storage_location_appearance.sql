@@ -0,0 +1,5 @@
+-- Locations the user creates or restyles keep their own icon and colour. `null` follows the
+-- look of the location's type.
+alter table public.storage_locations
+  add column icon text,
+  add column color text check (color ~ '^#[0-9a-fA-F]{6}$');
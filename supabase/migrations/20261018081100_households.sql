@@ -0,0 +1,255 @@
+-- Shared households: a pantry belongs to a household, and users see every household they are a
+-- member of. Existing users get a personal household holding what they had, so no pantry
+-- disappears behind the household filter.
+create extension if not exists pgcrypto with schema extensions;
+
+create type public.household_role as enum ('owner', 'member', 'viewer');
+
+-- Eight characters from an alphabet without 0/O or 1/I/L, so codes survive being read out loud or
+-- copied by hand, drawn from a cryptographic source.
+create or replace function public.generate_invite_code()
+returns text
+language plpgsql
+volatile
+set search_path = public, extensions
+as $$
+declare
+  alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  code text := '';
+  random_byte integer;
+begin
+  while length(code) < 8 loop
+    random_byte := get_byte(gen_random_bytes(1), 0);
+    -- 248 is the largest multiple of the alphabet's 31 characters, so every character is equally likely.
+    if random_byte < 248 then
+      code := code || substr(alphabet, random_byte % 31 + 1, 1);
+    end if;
+  end loop;
+
+  return code;
+end;
+$$;
+
+create table public.households (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  invite_code text not null unique default public.generate_invite_code(),
+  created_by uuid not null references public.profiles (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table public.household_members (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  role public.household_role not null default 'member',
+  joined_at timestamptz not null default now(),
+  unique (household_id, user_id)
+);
+
+create index household_members_user_idx on public.household_members (user_id, joined_at);
+
+alter table public.profiles
+  add column active_household_id uuid references public.households (id) on delete set null;
+
+alter table public.storage_items add column household_id uuid references public.households (id) on delete cascade;
+alter table public.storage_locations add column household_id uuid references public.households (id) on delete cascade;
+alter table public.waste_log add column household_id uuid references public.households (id) on delete cascade;
+
+-- Backfill: one personal household per existing user, owning their items, locations and waste.
+do $$
+declare
+  profile_id uuid;
+  new_household uuid;
+begin
+  for profile_id in
+    select id from public.profiles p
+    where not exists (select 1 from public.household_members m where m.user_id = p.id)
+  loop
+    insert into public.households (name, created_by) values ('My household', profile_id)
+    returning id into new_household;
+
+    insert into public.household_members (household_id, user_id, role) values (new_household, profile_id, 'owner');
+
+    update public.profiles set active_household_id = new_household where id = profile_id;
+    update public.storage_items set household_id = new_household where user_id = profile_id and household_id is null;
+    update public.storage_locations set household_id = new_household where user_id = profile_id and household_id is null;
+    update public.waste_log set household_id = new_household where user_id = profile_id and household_id is null;
+  end loop;
+end;
+$$;
+
+alter table public.storage_items alter column household_id set not null;
+alter table public.storage_locations alter column household_id set not null;
+alter table public.waste_log alter column household_id set not null;
+
+create index storage_items_household_idx on public.storage_items (household_id) where archived_at is null;
+create index storage_locations_household_idx on public.storage_locations (household_id, created_at);
+create index waste_log_household_idx on public.waste_log (household_id, wasted_at desc);
+
+-- Whether the caller belongs to a household. Security definer so the policies on
+-- household_members can use it without recursing into themselves.
+create or replace function public.is_household_member(target_household uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from household_members where household_id = target_household and user_id = auth.uid());
+$$;
+
+-- Whether the caller and `other_user` share a household, so members can see each other's names.
+create or replace function public.shares_household_with(other_user uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from household_members mine
+    join household_members theirs on theirs.household_id = mine.household_id
+    where mine.user_id = auth.uid() and theirs.user_id = other_user
+  );
+$$;
+
+-- Join a household with its invite code as a member. Non-members can't read households, so the
+-- lookup happens here. Joining a household you already belong to keeps your role.
+create or replace function public.join_household(invite_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_household uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to join a household';
+  end if;
+
+  select id into target_household from households where households.invite_code = join_household.invite_code;
+
+  if target_household is null then
+    raise exception 'No household has that invite code';
+  end if;
+
+  insert into household_members (household_id, user_id, role)
+  values (target_household, auth.uid(), 'member')
+  on conflict (household_id, user_id) do nothing;
+
+  return target_household;
+end;
+$$;
+
+alter table public.households enable row level security;
+alter table public.household_members enable row level security;
+
+-- Creators can read a household before they have become its member.
+create policy "Members read their households" on public.households
+for select to authenticated
+using (public.is_household_member(id) or created_by = auth.uid());
+
+create policy "Users create households" on public.households
+for insert to authenticated
+with check (created_by = auth.uid());
+
+create policy "Members change their households" on public.households
+for update to authenticated
+using (public.is_household_member(id))
+with check (public.is_household_member(id));
+
+create policy "Members delete their households" on public.households
+for delete to authenticated
+using (public.is_household_member(id));
+
+create policy "Members read each other" on public.household_members
+for select to authenticated
+using (public.is_household_member(household_id));
+
+create policy "Users add memberships" on public.household_members
+for insert to authenticated
+with check (user_id = auth.uid() or public.is_household_member(household_id));
+
+create policy "Members change memberships" on public.household_members
+for update to authenticated
+using (public.is_household_member(household_id))
+with check (public.is_household_member(household_id));
+
+create policy "Members remove memberships" on public.household_members
+for delete to authenticated
+using (public.is_household_member(household_id));
+
+create policy "Household members read each other's profiles" on public.profiles
+for select to authenticated
+using (public.shares_household_with(id));
+
+-- The pantry moves from per-user to per-household access: replace the per-user policies.
+do $$
+declare
+  pantry_table text;
+  existing_policy text;
+begin
+  foreach pantry_table in array array['storage_items', 'storage_locations', 'waste_log', 'consumption_events'] loop
+    for existing_policy in
+      select policyname from pg_policies where schemaname = 'public' and tablename = pantry_table
+    loop
+      execute format('drop policy %I on public.%I', existing_policy, pantry_table);
+    end loop;
+  end loop;
+
+  foreach pantry_table in array array['storage_items', 'storage_locations', 'waste_log'] loop
+    execute format(
+      'create policy "Members read the pantry" on public.%I for select to authenticated
+       using (public.is_household_member(household_id))',
+      pantry_table
+    );
+    execute format(
+      'create policy "Members add to the pantry" on public.%I for insert to authenticated
+       with check (user_id = auth.uid() and public.is_household_member(household_id))',
+      pantry_table
+    );
+    execute format(
+      'create policy "Members change the pantry" on public.%I for update to authenticated
+       using (public.is_household_member(household_id)) with check (public.is_household_member(household_id))',
+      pantry_table
+    );
+    execute format(
+      'create policy "Members remove from the pantry" on public.%I for delete to authenticated
+       using (public.is_household_member(household_id))',
+      pantry_table
+    );
+  end loop;
+end;
+$$;
+
+-- Consumption events belong to a household through their item.
+create policy "Members read consumption" on public.consumption_events
+for select to authenticated
+using (
+  exists (select 1 from public.storage_items where id = storage_item_id and public.is_household_member(household_id))
+);
+
+create policy "Members log consumption" on public.consumption_events
+for insert to authenticated
+with check (
+  user_id = auth.uid()
+  and exists (select 1 from public.storage_items where id = storage_item_id and public.is_household_member(household_id))
+);
+
+create policy "Members change consumption" on public.consumption_events
+for update to authenticated
+using (
+  exists (select 1 from public.storage_items where id = storage_item_id and public.is_household_member(household_id))
+)
+with check (
+  exists (select 1 from public.storage_items where id = storage_item_id and public.is_household_member(household_id))
+);
+
+create policy "Members remove consumption" on public.consumption_events
+for delete to authenticated
+using (
+  exists (select 1 from public.storage_items where id = storage_item_id and public.is_household_member(household_id))
+);
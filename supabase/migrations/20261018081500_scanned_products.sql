@@ -0,0 +1,34 @@
+-- Products a household has scanned, by barcode, so the next scan doesn't need Open Food Facts.
+create table public.scanned_products (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  barcode text not null,
+  name text not null,
+  brand text,
+  category text,
+  pack_quantity text,
+  pack_unit text,
+  source text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (household_id, barcode)
+);
+
+alter table public.scanned_products enable row level security;
+
+create policy "Members read scanned products" on public.scanned_products
+for select to authenticated
+using (public.is_household_member(household_id));
+
+create policy "Members add scanned products" on public.scanned_products
+for insert to authenticated
+with check (public.is_household_member(household_id));
+
+create policy "Members change scanned products" on public.scanned_products
+for update to authenticated
+using (public.is_household_member(household_id))
+with check (public.is_household_member(household_id));
+
+create policy "Members remove scanned products" on public.scanned_products
+for delete to authenticated
+using (public.is_household_member(household_id));
@@ -0,0 +1,37 @@
+-- What each user has added before, learnt from their items, to suggest names, units, locations
+-- and shelf lives while typing.
+create table public.product_catalog (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  product_key text not null,
+  name text not null,
+  aliases text[] not null default '{}',
+  default_unit text,
+  category text,
+  storage_location_id uuid references public.storage_locations (id) on delete set null,
+  shelf_life_days integer check (shelf_life_days >= 0),
+  use_count integer not null default 0 check (use_count >= 0),
+  last_used_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, product_key)
+);
+
+alter table public.product_catalog enable row level security;
+
+create policy "Users read their catalog" on public.product_catalog
+for select to authenticated
+using (user_id = auth.uid());
+
+create policy "Users add to their catalog" on public.product_catalog
+for insert to authenticated
+with check (user_id = auth.uid());
+
+create policy "Users change their catalog" on public.product_catalog
+for update to authenticated
+using (user_id = auth.uid())
+with check (user_id = auth.uid());
+
+create policy "Users remove from their catalog" on public.product_catalog
+for delete to authenticated
+using (user_id = auth.uid());
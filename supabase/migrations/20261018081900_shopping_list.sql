@@ -0,0 +1,36 @@
+-- The household's shared shopping list. Checked items keep who checked them and when.
+create table public.shopping_list_items (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  quantity text,
+  unit text,
+  aisle text,
+  position integer not null default 0,
+  checked_at timestamptz,
+  checked_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index shopping_list_items_household_idx on public.shopping_list_items (household_id, position);
+
+alter table public.shopping_list_items enable row level security;
+
+create policy "Members read the shopping list" on public.shopping_list_items
+for select to authenticated
+using (public.is_household_member(household_id));
+
+create policy "Members add to the shopping list" on public.shopping_list_items
+for insert to authenticated
+with check (user_id = auth.uid() and public.is_household_member(household_id));
+
+create policy "Members change the shopping list" on public.shopping_list_items
+for update to authenticated
+using (public.is_household_member(household_id))
+with check (public.is_household_member(household_id));
+
+create policy "Members remove from the shopping list" on public.shopping_list_items
+for delete to authenticated
+using (public.is_household_member(household_id));
@@ -0,0 +1,34 @@
+-- Minimum stock levels per product for the whole household. Products that drop below theirs can
+-- go on the shopping list automatically.
+create table public.stock_thresholds (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  product_key text not null,
+  name text not null,
+  min_quantity numeric not null check (min_quantity > 0),
+  unit text not null,
+  auto_add boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (household_id, product_key)
+);
+
+alter table public.stock_thresholds enable row level security;
+
+create policy "Members read stock levels" on public.stock_thresholds
+for select to authenticated
+using (public.is_household_member(household_id));
+
+create policy "Members set stock levels" on public.stock_thresholds
+for insert to authenticated
+with check (user_id = auth.uid() and public.is_household_member(household_id));
+
+create policy "Members change stock levels" on public.stock_thresholds
+for update to authenticated
+using (public.is_household_member(household_id))
+with check (public.is_household_member(household_id));
+
+create policy "Members remove stock levels" on public.stock_thresholds
+for delete to authenticated
+using (public.is_household_member(household_id));
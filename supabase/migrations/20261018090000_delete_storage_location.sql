@@ -0,0 +1,52 @@
+-- Deletes a storage location in one transaction. Every item in it, archived ones included, moves to
+-- `move_items_to` so consumption history is kept. With `discard_items`, the items still in the pantry
+-- are logged as discarded waste and archived on the way. Returns the ids of the discarded items.
+create or replace function public.delete_storage_location(
+  location_id uuid,
+  move_items_to uuid,
+  discard_items boolean default false
+)
+returns uuid[]
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  discarded uuid[] := '{}';
+begin
+  if move_items_to is null or move_items_to = location_id then
+    raise exception 'Items need another location to move to';
+  end if;
+
+  if discard_items then
+    insert into waste_log (
+      user_id, household_id, storage_item_id, storage_location_id,
+      item_name, category, quantity, unit, estimated_value, reason
+    )
+    select auth.uid(), household_id, id, storage_location_id,
+      name, category, quantity, unit, price, 'discarded'
+    from storage_items
+    where storage_location_id = location_id and archived_at is null;
+
+    with archived as (
+      update storage_items
+      set archived_at = now(), updated_at = now()
+      where storage_location_id = location_id and archived_at is null
+      returning id
+    )
+    select coalesce(array_agg(id), '{}') into discarded from archived;
+  end if;
+
+  update storage_items
+  set storage_location_id = move_items_to, updated_at = now()
+  where storage_location_id = location_id;
+
+  delete from storage_locations where id = location_id;
+
+  if not found then
+    raise exception 'Storage location not found';
+  end if;
+
+  return discarded;
+end;
+$$;
@@ -0,0 +1,47 @@
+-- Takes amounts out of several pantry items as one change, such as the ingredients of a recipe:
+-- either every step is logged and applied, or none is. Each step carries the item's new quantity,
+-- unit and price (worked out by the app) and what was used, for the consumption event. The app
+-- works from the quantity it last read, so a step only applies while the item still has that
+-- quantity; if someone else changed it meanwhile, the whole change is rejected (SQLSTATE 40001)
+-- instead of overwriting their deduction.
+-- Returns `{ event, item }` for every step, in order.
+create or replace function public.consume_storage_items(steps jsonb, consume_reason consumption_reason)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  step jsonb;
+  logged consumption_events;
+  updated storage_items;
+  results jsonb := '[]';
+begin
+  for step in select value from jsonb_array_elements(steps) loop
+    update storage_items
+    set quantity = step->>'quantity',
+        unit = step->>'unit',
+        price = (step->>'price')::numeric,
+        archived_at = case when (step->>'archive')::boolean then now() end,
+        updated_at = now()
+    where id = (step->>'item_id')::uuid
+      and archived_at is null
+      and quantity is not distinct from step->>'expected_quantity'
+      and unit is not distinct from step->>'expected_unit'
+    returning * into updated;
+
+    if not found then
+      raise exception 'Item % changed or is no longer in the pantry', step->>'item_id'
+        using errcode = '40001';
+    end if;
+
+    insert into consumption_events (storage_item_id, user_id, quantity, unit, reason)
+    values (updated.id, auth.uid(), step->>'used_quantity', step->>'used_unit', consume_reason)
+    returning * into logged;
+
+    results := results || jsonb_build_array(jsonb_build_object('event', to_jsonb(logged), 'item', to_jsonb(updated)));
+  end loop;
+
+  return results;
+end;
+$$;
@@ -0,0 +1,129 @@
+-- Household roles enforced by the database rather than only by the app: viewers can read a
+-- household's pantry but not change it, and only owners manage the household and its invite code.
+-- The policies are restrictive, so they narrow the membership policies from the households
+-- migration instead of replacing them.
+
+-- The caller's role in a household, or null when they aren't a member. Security definer so the
+-- policies on household_members can use it without recursing into themselves.
+create or replace function public.household_role_of(target_household uuid)
+returns household_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from household_members where household_id = target_household and user_id = auth.uid();
+$$;
+
+-- Mirrors `canEditPantry` in src/lib/households.
+create or replace function public.can_edit_household(target_household uuid)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(household_role_of(target_household) in ('owner', 'member'), false);
+$$;
+
+-- Who created a household, readable before its creator has become a member.
+create or replace function public.household_created_by(target_household uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select created_by from households where id = target_household;
+$$;
+
+-- Replace a household's invite code so the old one stops working. Owners only.
+create or replace function public.regenerate_invite_code(target_household uuid)
+returns text
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  new_code text;
+begin
+  if household_role_of(target_household) is distinct from 'owner' then
+    raise exception 'Only the household owner can change the invite code';
+  end if;
+
+  update households set invite_code = generate_invite_code() where id = target_household
+  returning invite_code into new_code;
+
+  return new_code;
+end;
+$$;
+
+-- Pantry data: owners and members change it, viewers only read it.
+do $$
+declare
+  pantry_table text;
+begin
+  foreach pantry_table in array array[
+    'storage_items', 'storage_locations', 'waste_log', 'shopping_list_items', 'stock_thresholds', 'scanned_products'
+  ] loop
+    execute format('drop policy if exists "Editors add rows" on %I', pantry_table);
+    execute format('drop policy if exists "Editors change rows" on %I', pantry_table);
+    execute format('drop policy if exists "Editors remove rows" on %I', pantry_table);
+    execute format(
+      'create policy "Editors add rows" on %I as restrictive for insert to authenticated
+       with check (can_edit_household(household_id))',
+      pantry_table
+    );
+    execute format(
+      'create policy "Editors change rows" on %I as restrictive for update to authenticated
+       using (can_edit_household(household_id)) with check (can_edit_household(household_id))',
+      pantry_table
+    );
+    execute format(
+      'create policy "Editors remove rows" on %I as restrictive for delete to authenticated
+       using (can_edit_household(household_id))',
+      pantry_table
+    );
+  end loop;
+end;
+$$;
+
+-- Consumption events belong to a household through their item.
+drop policy if exists "Editors log consumption" on consumption_events;
+create policy "Editors log consumption" on consumption_events as restrictive for insert to authenticated
+with check (
+  exists (select 1 from storage_items where id = storage_item_id and can_edit_household(household_id))
+);
+
+drop policy if exists "Editors remove consumption" on consumption_events;
+create policy "Editors remove consumption" on consumption_events as restrictive for delete to authenticated
+using (
+  exists (select 1 from storage_items where id = storage_item_id and can_edit_household(household_id))
+);
+
+-- Mirrors `canManageHousehold`: only owners rename or delete the household.
+drop policy if exists "Owners change households" on households;
+create policy "Owners change households" on households as restrictive for update to authenticated
+using (household_role_of(id) = 'owner');
+
+drop policy if exists "Owners delete households" on households;
+create policy "Owners delete households" on households as restrictive for delete to authenticated
+using (household_role_of(id) = 'owner');
+
+-- Owners add members; otherwise the only insert is a new household's creator becoming its owner.
+-- Joining with an invite code goes through the security-definer `join_household`.
+drop policy if exists "Owners add members" on household_members;
+create policy "Owners add members" on household_members as restrictive for insert to authenticated
+with check (
+  household_role_of(household_id) = 'owner'
+  or (user_id = auth.uid() and role = 'owner' and household_created_by(household_id) = auth.uid())
+);
+
+drop policy if exists "Owners change roles" on household_members;
+create policy "Owners change roles" on household_members as restrictive for update to authenticated
+using (household_role_of(household_id) = 'owner')
+with check (household_role_of(household_id) = 'owner');
+
+-- Members may leave by removing themselves.
+drop policy if exists "Owners remove members" on household_members;
+create policy "Owners remove members" on household_members as restrictive for delete to authenticated
+using (household_role_of(household_id) = 'owner' or user_id = auth.uid());
@@ -0,0 +1,44 @@
+-- Every user has one personal household, created on first sign-in. Creation happens here, under a
+-- unique index, so sign-in paths that run at the same time can't create two.
+alter table public.households add column is_personal boolean not null default false;
+
+-- Each user's oldest household of their own becomes their personal one.
+update public.households
+set is_personal = true
+where id in (select distinct on (created_by) id from public.households order by created_by, created_at);
+
+create unique index households_one_personal_per_user on public.households (created_by) where is_personal;
+
+-- Make sure the caller belongs to at least one household, creating (or rejoining) their personal
+-- one when they don't. Safe to call any number of times, also concurrently.
+create or replace function public.ensure_household(household_name text)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  personal_household uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to create a household';
+  end if;
+
+  if exists (select 1 from household_members where user_id = auth.uid()) then
+    return;
+  end if;
+
+  insert into households (name, created_by, is_personal)
+  values (household_name, auth.uid(), true)
+  on conflict (created_by) where is_personal do nothing;
+
+  select id into personal_household from households where created_by = auth.uid() and is_personal;
+
+  insert into household_members (household_id, user_id, role)
+  values (personal_household, auth.uid(), 'owner')
+  on conflict (household_id, user_id) do nothing;
+
+  update profiles set active_household_id = personal_household
+  where id = auth.uid() and active_household_id is null;
+end;
+$$;
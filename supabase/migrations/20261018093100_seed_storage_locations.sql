@@ -0,0 +1,21 @@
+-- Give a household the default storage locations, once. Households that already have any
+-- location are left alone, so locations deleted on purpose don't come back. Calls for the same
+-- household wait for each other, so overlapping startup paths can't seed it twice.
+create or replace function public.seed_storage_locations(target_household uuid, defaults jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtextextended('seed_storage_locations:' || target_household::text, 0));
+
+  if exists (select 1 from storage_locations where household_id = target_household) then
+    return;
+  end if;
+
+  insert into storage_locations (household_id, user_id, name, type)
+  select target_household, auth.uid(), location->>'name', location->>'type'
+  from jsonb_array_elements(defaults) as location;
+end;
+$$;
@@ -0,0 +1,47 @@
+-- Merge duplicate entries into one item in one transaction: the surviving item takes the merged
+-- quantity, dates and price, the consumption and waste history of the others moves over to it, and
+-- the others are deleted. A failure part-way leaves every item as it was.
+create or replace function public.merge_storage_items(keep_id uuid, remove_ids uuid[], changes jsonb)
+returns storage_items
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  kept storage_items;
+  removed integer;
+begin
+  if keep_id = any(remove_ids) then
+    raise exception 'An item cannot be merged into itself';
+  end if;
+
+  -- Lock the group so a concurrent merge, use or delete waits for this one.
+  perform 1 from storage_items where id = keep_id or id = any(remove_ids) for update;
+
+  update storage_items
+  set quantity = changes->>'quantity',
+      unit = changes->>'unit',
+      expiry_date = (changes->>'expiry_date')::date,
+      opened_at = (changes->>'opened_at')::timestamptz,
+      price = (changes->>'price')::numeric,
+      updated_at = now()
+  where id = keep_id and archived_at is null
+  returning * into kept;
+
+  if not found then
+    raise exception 'Item % changed or is no longer in the pantry', keep_id using errcode = '40001';
+  end if;
+
+  update consumption_events set storage_item_id = keep_id where storage_item_id = any(remove_ids);
+  update waste_log set storage_item_id = keep_id where storage_item_id = any(remove_ids);
+
+  delete from storage_items where id = any(remove_ids) and archived_at is null;
+  get diagnostics removed = row_count;
+
+  if removed <> cardinality(remove_ids) then
+    raise exception 'Some of the merged items changed or are no longer in the pantry' using errcode = '40001';
+  end if;
+
+  return kept;
+end;
+$$;
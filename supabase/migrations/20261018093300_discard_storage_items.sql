@@ -0,0 +1,26 @@
+-- Throw items away: log each one as waste, valued at its price, and archive it in the same
+-- transaction. Items already archived are skipped, so retrying after a failure never logs the
+-- same waste twice. Returns the items that were archived.
+create or replace function public.discard_storage_items(item_ids uuid[], discard_reason waste_reason)
+returns setof storage_items
+language sql
+security invoker
+set search_path = public
+as $$
+  with archived as (
+    update storage_items
+    set archived_at = now(), updated_at = now()
+    where id = any(item_ids) and archived_at is null
+    returning *
+  ),
+  logged as (
+    insert into waste_log (
+      user_id, household_id, storage_item_id, storage_location_id,
+      item_name, category, quantity, unit, estimated_value, reason
+    )
+    select auth.uid(), household_id, id, storage_location_id,
+      name, category, quantity, unit, price, discard_reason
+    from archived
+  )
+  select * from archived;
+$$;